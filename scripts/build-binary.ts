@@ -0,0 +1,107 @@
+/**
+ * Build the binary country data files from the JSON data files.
+ * 
+ * Input (from the data directory):
+ * - geohash_index.json(.gz) - Geohash → country IDs
+ * - polygons.json(.gz)      - Country polygons
+ * 
+ * Output (written next to the input, gzipped):
+ * - geohash_index.bin - Sorted geohash key table (see src/data/binary.ts)
+ * - polygons.bin      - Quantized, delta-encoded Int32 rings
+ * 
+ * Design Decision: The binary files are derived from the JSON files rather
+ * than from the source GeoJSON, so both formats always hold the same data.
+ * The build fails if quantization would change any coordinate.
+ * 
+ * Usage:
+ *   npm run build:binary -- [--data data] [--scale 1000000]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { PolygonsData } from '../src/data/loader';
+import {
+  PackedPolygons,
+  DEFAULT_COORDINATE_SCALE,
+  encodeGeohashIndex,
+  encodePolygons
+} from '../src/data/binary';
+import { readDataJson } from './lib/polygons';
+
+interface BuildOptions {
+  data: string;
+  scale: number;
+}
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    data: 'data',
+    scale: DEFAULT_COORDINATE_SCALE
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'data':
+        options.data = value;
+        break;
+      case 'scale':
+        options.scale = parseFloat(value);
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Check that every coordinate survives quantization unchanged.
+ */
+function verifyPolygons(polygons: PolygonsData, buffer: ArrayBuffer): void {
+  const packed = new PackedPolygons(buffer);
+  for (const [idStr, polygon] of Object.entries(polygons)) {
+    const decoded = packed.toPolygonData(parseInt(idStr, 10));
+    const expected = polygon.multi && polygon.exteriors ? polygon.exteriors : [polygon.exterior];
+    const actual = decoded ? decoded.exteriors || [decoded.exterior] : [];
+    const rings = [...expected, ...(polygon.holes || [])];
+    const decodedRings = [...actual, ...(decoded?.holes || [])];
+    const same = rings.length === decodedRings.length && rings.every((ring, r) =>
+      ring.length === decodedRings[r].length &&
+      ring.every(([lat, lon], i) => lat === decodedRings[r][i][0] && lon === decodedRings[r][i][1])
+    );
+    if (!same) {
+      throw new Error(
+        `Polygon ${idStr} changed after quantization at scale ${packed.scale}.\n` +
+        `Use a larger --scale.`
+      );
+    }
+  }
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`Reading JSON data from ${options.data}`);
+  const index = readDataJson(options.data, 'geohash_index.json');
+  const polygons: PolygonsData = readDataJson(options.data, 'polygons.json');
+
+  const polygonsBuffer = encodePolygons(polygons, options.scale);
+  verifyPolygons(polygons, polygonsBuffer);
+
+  const files: Array<[string, ArrayBuffer]> = [
+    ['geohash_index.bin.gz', encodeGeohashIndex(index)],
+    ['polygons.bin.gz', polygonsBuffer]
+  ];
+  for (const [filename, buffer] of files) {
+    const compressed = zlib.gzipSync(Buffer.from(buffer), { level: 9 });
+    fs.writeFileSync(path.join(options.data, filename), compressed);
+    console.log(`  ${filename}: ${(buffer.byteLength / 1024).toFixed(0)} KB (${(compressed.length / 1024).toFixed(0)} KB gzipped)`);
+  }
+}
+
+main();
@@ -0,0 +1,100 @@
+/**
+ * Build per-country polygon chunks for lazy polygon loading.
+ * 
+ * Input (from the data directory):
+ * - polygons.json(.gz) - Country polygons
+ * 
+ * Output (written next to the input, gzipped):
+ * - chunks/<country_id>.bin (or .json) - One country's polygons
+ * - polygon_chunks.json                - Country ID → { file, bbox }
+ * 
+ * DataLoader reads the manifest instead of the polygon file when created
+ * with { lazyPolygons: true } and loads a chunk the first time its country
+ * is a candidate for a point inside the bounding box.
+ * 
+ * Usage:
+ *   npm run build:chunks -- [--data data] [--format binary|json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { PolygonChunkManifest, PolygonsData } from '../src/data/loader';
+import { preparePolygon } from '../src/data/prepared';
+import { encodePolygons } from '../src/data/binary';
+import { readDataJson, writeGzipJson } from './lib/polygons';
+
+const CHUNK_DIR = 'chunks';
+
+interface BuildOptions {
+  data: string;
+  format: 'binary' | 'json';
+}
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    data: 'data',
+    format: 'binary'
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'data':
+        options.data = value;
+        break;
+      case 'format':
+        if (value !== 'binary' && value !== 'json') {
+          throw new Error(`Unknown format "${value}" (expected binary or json)`);
+        }
+        options.format = value;
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`Reading ${path.join(options.data, 'polygons.json')}`);
+  const polygons: PolygonsData = readDataJson(options.data, 'polygons.json');
+
+  // Stale chunks of the other format would never be read, but would be shipped
+  const chunkDir = path.join(options.data, CHUNK_DIR);
+  fs.rmSync(chunkDir, { recursive: true, force: true });
+  fs.mkdirSync(chunkDir, { recursive: true });
+
+  const manifest: PolygonChunkManifest = { version: 1, countries: {} };
+  const extension = options.format === 'binary' ? 'bin' : 'json';
+  let totalSize = 0;
+  for (const [countryId, polygon] of Object.entries(polygons)) {
+    const prepared = preparePolygon(polygon);
+    if (prepared.parts.length === 0) {
+      continue;
+    }
+
+    const file = `${CHUNK_DIR}/${countryId}.${extension}`;
+    const chunk: PolygonsData = { [countryId]: polygon };
+    const filepath = path.join(options.data, `${file}.gz`);
+    if (options.format === 'binary') {
+      const compressed = zlib.gzipSync(Buffer.from(encodePolygons(chunk)), { level: 9 });
+      fs.writeFileSync(filepath, compressed);
+      totalSize += compressed.length;
+    } else {
+      totalSize += writeGzipJson(filepath, chunk);
+    }
+    manifest.countries[countryId] = { file, bbox: prepared.bbox };
+  }
+
+  const manifestSize = writeGzipJson(path.join(options.data, 'polygon_chunks.json.gz'), manifest);
+  console.log(`  ${Object.keys(manifest.countries).length} chunks: ${(totalSize / 1024).toFixed(0)} KB gzipped`);
+  console.log(`  polygon_chunks.json.gz: ${(manifestSize / 1024).toFixed(1)} KB`);
+}
+
+main();
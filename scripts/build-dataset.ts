@@ -0,0 +1,143 @@
+/**
+ * Build the country data files from a GeoJSON FeatureCollection.
+ * 
+ * Source: any Polygon/MultiPolygon FeatureCollection, by default in the
+ * Natural Earth Admin 0 layout (ne_10m_admin_0_countries.geojson, or the
+ * 50m/110m scales) with properties NAME, ISO_A2, ISO_A3 and CONTINENT, plus
+ * the localized names NAME_AR, NAME_DE, ... NAME_ZH.
+ * Other datasets, such as custom sales territories, work with the
+ * --*-property options.
+ * 
+ * Output (written to the output directory, gzipped):
+ * - geohash_index.json - Geohash → feature IDs
+ * - polygons.json      - Feature polygons (PolygonData format)
+ * - metadata.json      - Feature ID → { name, iso2, iso3, continent, timezone, names }
+ * 
+ * See scripts/lib/dataset.ts for the build itself. DataLoader prefers binary
+ * files and checks manifest.json, so rebuild those afterwards
+ * (npm run build:binary, build:chunks, build:manifest).
+ * 
+ * Usage:
+ *   npm run build:dataset -- --input ne_10m_admin_0_countries.geojson
+ *                            [--out data] [--tolerance 0.01] [--precision 6] [--step 0.05]
+ *                            [--id-property <property, default: feature order>]
+ *                            [--name-property NAME] [--iso2-property ISO_A2]
+ *                            [--iso3-property ISO_A3] [--continent-property CONTINENT]
+ *                            [--timezone-property <property, default: none>]
+ *                            [--names-property <locale=property,..., or "none">]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GEOHASH_PRECISION } from '../src/geohash';
+import { PropertyMappings, buildDataset, writeDataset } from './lib/dataset';
+
+interface BuildOptions {
+  input: string;
+  out: string;
+  tolerance: number;
+  precision: number;
+  step: number;
+  properties: Partial<PropertyMappings>;
+}
+
+// Files derived from the JSON files that DataLoader would otherwise still use
+const DERIVED_FILES = ['geohash_index.bin', 'polygons.bin', 'polygon_chunks.json', 'manifest.json'];
+
+/**
+ * Parse "de=NAME_DE,fr=NAME_FR" (or "none") into localized name mappings.
+ */
+function parseNameProperties(value: string): { [locale: string]: string } {
+  const names: { [locale: string]: string } = {};
+  if (value === 'none') {
+    return names;
+  }
+  for (const mapping of value.split(',')) {
+    const [locale, property] = mapping.split('=');
+    if (!locale || !property) {
+      throw new Error(`Invalid --names-property mapping '${mapping}', expected <locale>=<property>`);
+    }
+    names[locale.trim().toLowerCase()] = property.trim();
+  }
+  return names;
+}
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    input: '',
+    out: 'data',
+    tolerance: 0.01,
+    precision: GEOHASH_PRECISION,
+    step: 0.05,
+    properties: {}
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'input':
+      case 'out':
+        options[key] = value;
+        break;
+      case 'tolerance':
+      case 'precision':
+      case 'step':
+        options[key] = parseFloat(value);
+        break;
+      case 'id-property':
+      case 'name-property':
+      case 'iso2-property':
+      case 'iso3-property':
+      case 'continent-property':
+      case 'timezone-property':
+        options.properties[key.replace(/-property$/, '') as Exclude<keyof PropertyMappings, 'names'>] = value;
+        break;
+      case 'names-property':
+        options.properties.names = parseNameProperties(value);
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  if (!options.input) {
+    throw new Error('Missing --input <GeoJSON FeatureCollection file>');
+  }
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`Reading ${options.input}`);
+  const collection = JSON.parse(fs.readFileSync(options.input, 'utf-8'));
+
+  console.log(`Building polygons and geohash index (precision ${options.precision}, step ${options.step}°)`);
+  const dataset = buildDataset(collection, options);
+  console.log(
+    `  ${Object.keys(dataset.polygons).length} features, ` +
+    `${Object.keys(dataset.geohashIndex).length} geohash keys`
+  );
+  if (dataset.skipped > 0) {
+    console.log(`  Skipped ${dataset.skipped} features without polygon geometry or a valid ID`);
+  }
+
+  const sizes = writeDataset(dataset, options.out);
+  for (const [filename, size] of Object.entries(sizes)) {
+    console.log(`  ${filename}: ${(size / 1024).toFixed(0)} KB`);
+  }
+
+  const stale = DERIVED_FILES.filter(file =>
+    fs.existsSync(path.join(options.out, file)) || fs.existsSync(path.join(options.out, `${file}.gz`))
+  );
+  if (stale.length > 0) {
+    console.log(
+      `\nWarning: ${options.out} still contains files built from the previous data: ${stale.join(', ')}\n` +
+      `Rebuild them (npm run build:binary, npm run build:chunks, npm run build:manifest) or delete them.`
+    );
+  }
+}
+
+main();
@@ -0,0 +1,111 @@
+/**
+ * Build the dataset manifest (manifest.json) for a data directory.
+ * 
+ * Records the dataset version, source and build date plus the SHA-256 and
+ * size of every data file (decompressed contents, keyed without .gz).
+ * DataLoader verifies each file it reads against it (see src/data/manifest.ts).
+ * 
+ * Run it after any other build:* script changes the data files.
+ * 
+ * Usage:
+ *   npm run build:manifest -- [--data data] [--version <package version>]
+ *                             [--source "<text>"] [--build-date <YYYY-MM-DD, default today>]
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { DatasetManifest, MANIFEST_FILE } from '../src/data/manifest';
+
+const DEFAULT_SOURCE =
+  'Countries: Natural Earth Admin 0 (public domain); ' +
+  'timezones: timezone-boundary-builder (ODbL)';
+
+interface BuildOptions {
+  data: string;
+  version: string | null;
+  source: string | null;
+  buildDate: string;
+}
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    data: 'data',
+    version: null,
+    source: null,
+    buildDate: new Date().toISOString().slice(0, 10)
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'data':
+      case 'version':
+      case 'source':
+        options[key] = value;
+        break;
+      case 'build-date':
+        options.buildDate = value;
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * List data files relative to the data directory (forward slashes, sorted).
+ */
+function listFiles(dataDir: string, subdir: string = ''): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(dataDir, subdir), { withFileTypes: true })) {
+    const relative = subdir ? `${subdir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFiles(dataDir, relative));
+    } else if (/\.(json|bin)(\.gz)?$/.test(entry.name) && relative !== MANIFEST_FILE) {
+      files.push(relative);
+    }
+  }
+  return files.sort();
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const manifestPath = path.join(options.data, MANIFEST_FILE);
+  const previous: Partial<DatasetManifest> = fs.existsSync(manifestPath)
+    ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))
+    : {};
+  const packageJson = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
+
+  const manifest: DatasetManifest = {
+    version: options.version || packageJson.version,
+    source: options.source || previous.source || DEFAULT_SOURCE,
+    buildDate: options.buildDate,
+    files: {}
+  };
+
+  // DataLoader prefers foo.gz over foo, so hash the compressed file when both exist
+  const files = listFiles(options.data);
+  for (const file of files) {
+    const filename = file.replace(/\.gz$/, '');
+    if (!file.endsWith('.gz') && files.includes(`${file}.gz`)) {
+      continue;
+    }
+    const raw = fs.readFileSync(path.join(options.data, file));
+    const bytes = file.endsWith('.gz') ? zlib.gunzipSync(raw) : raw;
+    manifest.files[filename] = {
+      sha256: crypto.createHash('sha256').update(bytes).digest('hex'),
+      bytes: bytes.length
+    };
+  }
+
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`Wrote ${manifestPath}: dataset ${manifest.version}, ${Object.keys(manifest.files).length} files`);
+}
+
+main();
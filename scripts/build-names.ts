@@ -0,0 +1,113 @@
+/**
+ * Add localized country names to an existing metadata.json.
+ * 
+ * build:dataset reads localized names from the source (Natural Earth's
+ * NAME_AR ... NAME_ZH properties). This script fills them in for datasets
+ * built without them, from the CLDR region names that ship with Node.js
+ * (Intl.DisplayNames, needs full ICU).
+ * 
+ * Input and output: metadata.json(.gz) in the data directory. Names already
+ * in the metadata are kept. Countries without a valid ISO2 code are looked
+ * up by their English name (Natural Earth has no ISO codes for e.g. France
+ * and Norway); countries CLDR does not know keep only their English name.
+ * 
+ * Run build:manifest afterwards, as metadata.json changes.
+ * 
+ * Usage:
+ *   npm run build:names -- [--data data] [--locales ar,zh,fr,ru,es,de,pt,ja,hi]
+ */
+
+import * as path from 'path';
+import { MetadataData } from '../src/data/loader';
+import { COUNTRY_NAME_LOCALES } from '../src/resolver/country_names';
+import { readDataJson, writeGzipJson } from './lib/polygons';
+
+interface BuildOptions {
+  data: string;
+  locales: string[];
+}
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    data: 'data',
+    // English is the dataset name itself
+    locales: COUNTRY_NAME_LOCALES.filter(locale => locale !== 'en')
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'data':
+        options.data = value;
+        break;
+      case 'locales':
+        options.locales = value.split(',').map(locale => locale.trim()).filter(locale => locale.length > 0);
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * English CLDR name → region code, for countries without an ISO2 code.
+ */
+function regionCodesByName(): Map<string, string> {
+  const english = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+  const codes = new Map<string, string>();
+  for (let first = 65; first <= 90; first++) {
+    for (let second = 65; second <= 90; second++) {
+      const code = String.fromCharCode(first, second);
+      const name = english.of(code);
+      if (name !== undefined) {
+        codes.set(name.toLowerCase(), code);
+      }
+    }
+  }
+  return codes;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`Reading ${path.join(options.data, 'metadata.json')}`);
+  const metadata: MetadataData = readDataJson(options.data, 'metadata.json');
+
+  const displayNames = options.locales.map(locale => ({
+    locale,
+    names: new Intl.DisplayNames([locale], { type: 'region', fallback: 'none' })
+  }));
+  const codesByName = regionCodesByName();
+
+  const unnamed: string[] = [];
+  for (const country of Object.values(metadata)) {
+    const code = /^[A-Z]{2}$/.test(country.iso2) ? country.iso2 : codesByName.get(country.name.toLowerCase());
+    if (code === undefined) {
+      unnamed.push(country.name);
+      continue;
+    }
+    const names = { ...country.names };
+    for (const { locale, names: localeNames } of displayNames) {
+      const name = localeNames.of(code);
+      if (names[locale] === undefined && name !== undefined) {
+        names[locale] = name;
+      }
+    }
+    if (Object.keys(names).length > 0) {
+      country.names = names;
+    }
+  }
+
+  const size = writeGzipJson(path.join(options.data, 'metadata.json.gz'), metadata);
+  console.log(`  metadata.json.gz: ${(size / 1024).toFixed(0)} KB (${options.locales.join(', ')})`);
+  if (unnamed.length > 0) {
+    console.log(`  No localized names for ${unnamed.length} countries: ${unnamed.join(', ')}`);
+  }
+  console.log('\nRun npm run build:manifest to update the checksums.');
+}
+
+main();
@@ -0,0 +1,172 @@
+/**
+ * Build the first-level subdivision (ISO 3166-2) data files.
+ * 
+ * Source: an admin-1 GeoJSON FeatureCollection, by default in the Natural
+ * Earth "Admin 1 – States, Provinces" layout (public domain):
+ * ne_10m_admin_1_states_provinces.geojson with properties iso_3166_2,
+ * name and type_en. Other datasets work with the --*-property options.
+ * 
+ * Output (written to the data directory, gzipped):
+ * - subdivision_index.json    - Geohash → subdivision IDs (same encoder as geohash_index.json)
+ * - subdivision_polygons.json - Subdivision polygons in the country PolygonData format
+ * - subdivision_metadata.json - Subdivision ID → { name, code, type, country }
+ * 
+ * Design Decisions:
+ * - Features without a valid ISO 3166-2 code (e.g. Natural Earth "XX-99")
+ *   are skipped; features sharing a code are merged into one subdivision
+ * - The parent country is the code prefix, so it always matches the iso2
+ *   of the country metadata
+ * 
+ * Usage:
+ *   npm run build:subdivisions -- --input ne_10m_admin_1_states_provinces.geojson
+ *                                 [--out data] [--tolerance 0.01] [--precision 4] [--step 0.1]
+ *                                 [--code-property iso_3166_2] [--name-property name]
+ *                                 [--type-property type_en]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PolygonsData } from '../src/data/loader';
+import { PolygonParts, buildGeohashIndex, writeGzipJson } from './lib/polygons';
+
+interface BuildOptions {
+  input: string;
+  out: string;
+  tolerance: number;
+  precision: number;
+  step: number;
+  codeProperty: string;
+  nameProperty: string;
+  typeProperty: string;
+}
+
+interface Subdivision {
+  name: string;
+  type: string;
+  parts: PolygonParts;
+}
+
+// Natural Earth marks features without an assigned code as "XX-99"
+const ISO_3166_2 = /^[A-Z]{2}-(?!99$)[A-Z0-9]{1,3}$/;
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    input: '',
+    out: 'data',
+    tolerance: 0.01,
+    precision: 4,
+    step: 0.1,
+    codeProperty: 'iso_3166_2',
+    nameProperty: 'name',
+    typeProperty: 'type_en'
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'input':
+      case 'out':
+        options[key] = value;
+        break;
+      case 'tolerance':
+      case 'precision':
+      case 'step':
+        options[key] = parseFloat(value);
+        break;
+      case 'code-property':
+        options.codeProperty = value;
+        break;
+      case 'name-property':
+        options.nameProperty = value;
+        break;
+      case 'type-property':
+        options.typeProperty = value;
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  if (!options.input) {
+    throw new Error('Missing --input <admin-1 GeoJSON file>');
+  }
+  return options;
+}
+
+/**
+ * Group GeoJSON features by ISO 3166-2 code.
+ */
+function collectSubdivisions(collection: any, options: BuildOptions): Map<string, Subdivision> {
+  const subdivisions = new Map<string, Subdivision>();
+  let skipped = 0;
+
+  for (const feature of collection.features) {
+    const properties = feature.properties || {};
+    const code = String(properties[options.codeProperty] || '').toUpperCase();
+    const geometry = feature.geometry;
+    if (!ISO_3166_2.test(code) || !geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) {
+      skipped++;
+      continue;
+    }
+
+    let subdivision = subdivisions.get(code);
+    if (!subdivision) {
+      subdivision = {
+        name: String(properties[options.nameProperty] || code),
+        type: String(properties[options.typeProperty] || ''),
+        parts: new PolygonParts()
+      };
+      subdivisions.set(code, subdivision);
+    }
+    subdivision.parts.addGeometry(geometry, options.tolerance);
+  }
+
+  if (skipped > 0) {
+    console.log(`  Skipped ${skipped} features without a valid ISO 3166-2 code or polygon geometry`);
+  }
+  return subdivisions;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`Reading ${options.input}`);
+  const collection = JSON.parse(fs.readFileSync(options.input, 'utf-8'));
+  const subdivisions = collectSubdivisions(collection, options);
+
+  const polygons: PolygonsData = {};
+  const metadata: { [subdivisionId: string]: { name: string; code: string; type: string; country: string } } = {};
+  let nextId = 1;
+  for (const code of Array.from(subdivisions.keys()).sort()) {
+    const subdivision = subdivisions.get(code)!;
+    if (subdivision.parts.isEmpty) {
+      continue;
+    }
+    const subdivisionId = (nextId++).toString();
+    polygons[subdivisionId] = subdivision.parts.toPolygonData();
+    metadata[subdivisionId] = {
+      name: subdivision.name,
+      code,
+      type: subdivision.type,
+      country: code.slice(0, 2)
+    };
+  }
+
+  console.log(`Indexing ${nextId - 1} subdivisions at geohash precision ${options.precision}`);
+  const index = buildGeohashIndex(polygons, options.precision, options.step);
+
+  fs.mkdirSync(options.out, { recursive: true });
+  const files: Array<[string, unknown]> = [
+    ['subdivision_index.json.gz', index],
+    ['subdivision_polygons.json.gz', polygons],
+    ['subdivision_metadata.json.gz', metadata]
+  ];
+  for (const [filename, data] of files) {
+    const size = writeGzipJson(path.join(options.out, filename), data);
+    console.log(`  ${filename}: ${(size / 1024).toFixed(0)} KB`);
+  }
+}
+
+main();
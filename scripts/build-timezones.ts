@@ -0,0 +1,179 @@
+/**
+ * Build the timezone boundary data files.
+ * 
+ * Source: the timezone-boundary-builder dataset as packaged by geo-tz
+ * (a quadtree index plus geobuf-encoded tiles, see node_modules/geo-tz/data).
+ * Boundaries include territorial waters.
+ * 
+ * Output (written to the data directory, gzipped):
+ * - timezone_index.json   - Geohash → timezone IDs (same encoder as geohash_index.json)
+ * - timezone_polygons.json - Timezone polygons in the country PolygonData format
+ * - timezone_metadata.json - Timezone ID → { tzid }
+ * 
+ * Design Decisions:
+ * - Tiles are kept as separate polygon parts instead of being unioned back
+ *   into one outline per zone; PIP does not care and the build stays simple
+ * - Rings are simplified with Douglas-Peucker; tile edges are straight
+ *   lines, so simplification never opens gaps along them
+ * - The geohash index is built by sampling each part on a regular grid and
+ *   encoding the samples with src/geohash, so lookups use the exact same
+ *   (prefix-consistent) keys as the resolver
+ * 
+ * Usage:
+ *   npm run build:timezones -- [--out data] [--dataset timezones]
+ *                              [--tolerance 0.01] [--precision 4] [--step 0.1]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PolygonsData } from '../src/data/loader';
+import { PolygonParts, buildGeohashIndex, writeGzipJson } from './lib/polygons';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const geobuf = require('geobuf');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const Pbf = require('pbf');
+
+interface BuildOptions {
+  out: string;
+  dataset: string;
+  tolerance: number;
+  precision: number;
+  step: number;
+}
+
+interface Tile {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// Quadtree extent used by geo-tz
+const WORLD: Tile = { top: 89.9999, bottom: -89.9999, left: -179.9999, right: 179.9999 };
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    out: 'data',
+    dataset: 'timezones',
+    tolerance: 0.01,
+    precision: 4,
+    step: 0.1
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'out':
+      case 'dataset':
+        options[key] = value;
+        break;
+      case 'tolerance':
+      case 'precision':
+      case 'step':
+        options[key] = parseFloat(value);
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Split a quadtree tile into its child tile (a = NE, b = NW, c = SW, d = SE).
+ */
+function childTile(tile: Tile, key: string): Tile {
+  const midLat = (tile.top + tile.bottom) / 2;
+  const midLon = (tile.left + tile.right) / 2;
+  switch (key) {
+    case 'a': return { top: tile.top, bottom: midLat, left: midLon, right: tile.right };
+    case 'b': return { top: tile.top, bottom: midLat, left: tile.left, right: midLon };
+    case 'c': return { top: midLat, bottom: tile.bottom, left: tile.left, right: midLon };
+    case 'd': return { top: midLat, bottom: tile.bottom, left: midLon, right: tile.right };
+    default: throw new Error(`Unexpected quadtree key: ${key}`);
+  }
+}
+
+/**
+ * Walk the geo-tz quadtree and collect polygon parts per tzid.
+ */
+function collectZones(dataDir: string, dataset: string, tolerance: number): Map<string, PolygonParts> {
+  const index = JSON.parse(fs.readFileSync(path.join(dataDir, `${dataset}.geojson.index.json`), 'utf-8'));
+  const geoDat = fs.readFileSync(path.join(dataDir, `${dataset}.geojson.geo.dat`));
+  const zoneNames: string[] = index.timezones;
+  const zones = new Map<string, PolygonParts>();
+
+  const zoneParts = (tzid: string): PolygonParts => {
+    let parts = zones.get(tzid);
+    if (!parts) {
+      parts = new PolygonParts();
+      zones.set(tzid, parts);
+    }
+    return parts;
+  };
+
+  const visit = (node: any, tile: Tile): void => {
+    if (Array.isArray(node)) {
+      // Whole tile lies within these zones
+      for (const zoneIndex of node) {
+        zoneParts(zoneNames[zoneIndex]).addExterior([
+          [tile.bottom, tile.left],
+          [tile.bottom, tile.right],
+          [tile.top, tile.right],
+          [tile.top, tile.left]
+        ]);
+      }
+      return;
+    }
+    if (typeof node.pos === 'number' && node.len) {
+      const collection = geobuf.decode(new Pbf(geoDat.subarray(node.pos, node.pos + node.len)));
+      for (const feature of collection.features) {
+        zoneParts(feature.properties.tzid).addGeometry(feature.geometry, tolerance);
+      }
+      return;
+    }
+    for (const key of Object.keys(node)) {
+      visit(node[key], childTile(tile, key));
+    }
+  };
+
+  visit(index.lookup, WORLD);
+  return zones;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const geoTzDataDir = path.join(path.dirname(require.resolve('geo-tz/all')), '..', 'data');
+
+  console.log(`Reading ${options.dataset} from ${geoTzDataDir}`);
+  const zones = collectZones(geoTzDataDir, options.dataset, options.tolerance);
+
+  const polygons: PolygonsData = {};
+  const metadata: { [zoneId: string]: { tzid: string } } = {};
+  const tzids = Array.from(zones.keys()).sort();
+  tzids.forEach((tzid, i) => {
+    const zoneId = (i + 1).toString();
+    polygons[zoneId] = zones.get(tzid)!.toPolygonData();
+    metadata[zoneId] = { tzid };
+  });
+
+  console.log(`Indexing ${tzids.length} timezones at geohash precision ${options.precision}`);
+  const index = buildGeohashIndex(polygons, options.precision, options.step);
+
+  fs.mkdirSync(options.out, { recursive: true });
+  const files: Array<[string, unknown]> = [
+    ['timezone_index.json.gz', index],
+    ['timezone_polygons.json.gz', polygons],
+    ['timezone_metadata.json.gz', metadata]
+  ];
+  for (const [filename, data] of files) {
+    const size = writeGzipJson(path.join(options.out, filename), data);
+    console.log(`  ${filename}: ${(size / 1024).toFixed(0)} KB`);
+  }
+}
+
+main();
@@ -0,0 +1,269 @@
+/**
+ * Build the bundled tz rules table (src/timezone/rules.ts).
+ * 
+ * Source: compiled tzdata (TZif files, e.g. /usr/share/zoneinfo). For every
+ * timezone in data/timezone_metadata.json.gz plus the nautical Etc/GMT±N
+ * zones, the table stores:
+ * - The POSIX TZ footer, which describes the current rules indefinitely
+ * - Explicit transitions since --since (default 2000) that the footer does
+ *   not predict (rule changes, permanent offset changes)
+ * 
+ * Entry format: "footer" or "footer|types|transitions" where
+ * - types: "abbr/offsetSeconds/dst" joined by ","
+ * - transitions: "time36/typeIndex" joined by ",", time in Unix seconds
+ *   (base 36); the first transition is the state at --since
+ * 
+ * Usage:
+ *   npm run build:tz-rules -- [--zoneinfo /usr/share/zoneinfo] [--since 2000]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { parsePosixTz, posixTransitions, posixIsDst, yearOf, daysFromCivil, PosixTimezone } from '../src/timezone/posix';
+import { nauticalTimezone } from '../src/resolver/timezone';
+
+interface BuildOptions {
+  zoneinfo: string;
+  since: number;
+  out: string;
+}
+
+interface TzifType {
+  offset: number; // Seconds east of UTC
+  dst: boolean;
+  abbr: string;
+}
+
+interface Tzif {
+  times: number[];
+  typeIndices: number[];
+  types: TzifType[];
+  footer: string;
+}
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = {
+    zoneinfo: '/usr/share/zoneinfo',
+    since: 2000,
+    out: 'src/timezone/rules.ts'
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${key}`);
+    }
+    switch (key) {
+      case 'zoneinfo':
+      case 'out':
+        options[key] = value;
+        break;
+      case 'since':
+        options.since = parseInt(value, 10);
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Parse the version 2+ (64-bit) data block and footer of a TZif file.
+ */
+function parseTzif(buffer: Buffer, tzid: string): Tzif {
+  const readHeader = (offset: number) => {
+    if (buffer.toString('ascii', offset, offset + 4) !== 'TZif') {
+      throw new Error(`${tzid}: not a TZif file`);
+    }
+    return {
+      version: buffer[offset + 4],
+      isutcnt: buffer.readUInt32BE(offset + 20),
+      isstdcnt: buffer.readUInt32BE(offset + 24),
+      leapcnt: buffer.readUInt32BE(offset + 28),
+      timecnt: buffer.readUInt32BE(offset + 32),
+      typecnt: buffer.readUInt32BE(offset + 36),
+      charcnt: buffer.readUInt32BE(offset + 40)
+    };
+  };
+
+  const v1 = readHeader(0);
+  if (v1.version < 0x32) {
+    throw new Error(`${tzid}: TZif version 2+ required`);
+  }
+  const v1Size = v1.timecnt * 5 + v1.typecnt * 6 + v1.charcnt + v1.leapcnt * 8 + v1.isstdcnt + v1.isutcnt;
+  const h = readHeader(44 + v1Size);
+  let pos = 44 + v1Size + 44;
+
+  const times: number[] = [];
+  for (let i = 0; i < h.timecnt; i++, pos += 8) {
+    times.push(Number(buffer.readBigInt64BE(pos)));
+  }
+  const typeIndices: number[] = [];
+  for (let i = 0; i < h.timecnt; i++, pos++) {
+    typeIndices.push(buffer[pos]);
+  }
+  const rawTypes: Array<{ offset: number; dst: boolean; abbrIndex: number }> = [];
+  for (let i = 0; i < h.typecnt; i++, pos += 6) {
+    rawTypes.push({ offset: buffer.readInt32BE(pos), dst: buffer[pos + 4] === 1, abbrIndex: buffer[pos + 5] });
+  }
+  const chars = buffer.toString('ascii', pos, pos + h.charcnt);
+  pos += h.charcnt + h.leapcnt * 12 + h.isstdcnt + h.isutcnt;
+
+  const types = rawTypes.map(t => ({
+    offset: t.offset,
+    dst: t.dst,
+    abbr: chars.slice(t.abbrIndex, chars.indexOf('\0', t.abbrIndex))
+  }));
+  const footer = buffer.toString('ascii', pos).trim();
+  return { times, typeIndices, types, footer };
+}
+
+function footerState(posix: PosixTimezone, dst: boolean): TzifType {
+  return dst
+    ? { offset: posix.dstOffset, dst: true, abbr: posix.dstAbbr! }
+    : { offset: posix.stdOffset, dst: false, abbr: posix.stdAbbr };
+}
+
+function sameType(a: TzifType, b: TzifType): boolean {
+  return a.offset === b.offset && a.dst === b.dst && a.abbr === b.abbr;
+}
+
+/**
+ * Build the compact table entry for one zone.
+ */
+function encodeZone(tzif: Tzif, since: number): string {
+  const posix = parsePosixTz(tzif.footer);
+
+  // Transitions since the cutoff, led by the state at the cutoff
+  const initialIndex = tzif.times.filter(t => t <= since).length - 1;
+  const entries: Array<{ at: number; type: TzifType }> = [{
+    at: since,
+    type: tzif.types[initialIndex >= 0 ? tzif.typeIndices[initialIndex] : 0]
+  }];
+  tzif.times.forEach((at, i) => {
+    const type = tzif.types[tzif.typeIndices[i]];
+    // Skip no-op transitions (e.g. the 2038 sentinel some zic versions emit)
+    if (at > since && !sameType(type, entries[entries.length - 1].type)) {
+      entries.push({ at, type });
+    }
+  });
+
+  // Drop trailing transitions the footer predicts
+  const predicted = (entry: { at: number; type: TzifType }): boolean => {
+    const year = yearOf(entry.at);
+    return posixTransitions(posix, year - 1, year + 1).some(
+      t => t.at === entry.at && sameType(footerState(posix, t.dst), entry.type)
+    );
+  };
+  let kept = entries.length;
+  while (kept > 1 && predicted(entries[kept - 1])) {
+    kept--;
+  }
+
+  // The footer only takes over cleanly where its own schedule agrees with
+  // the data (e.g. not between the last pre-2007 US transition and the first
+  // one under the 2007 rules), so keep transitions until the table
+  // reproduces every TZif and footer transition up to 2037
+  const truth = (t: number): TzifType => {
+    const index = tzif.times.filter(at => at <= t).length - 1;
+    return tzif.types[index >= 0 ? tzif.typeIndices[index] : 0];
+  };
+  const evaluate = (count: number, t: number): TzifType => {
+    if (count > 1 && t < entries[count - 1].at) {
+      const index = entries.slice(0, count).filter(e => e.at <= t).length - 1;
+      return entries[Math.max(0, index)].type;
+    }
+    return footerState(posix, posixIsDst(posix, t));
+  };
+  const horizon = daysFromCivil(2037, 1, 1) * 86400;
+  const checkpoints = [since];
+  for (const at of tzif.times) {
+    if (at > since && at < horizon) {
+      checkpoints.push(at - 1, at);
+    }
+  }
+  for (const { at } of posixTransitions(posix, yearOf(since), 2036)) {
+    if (at > since) {
+      checkpoints.push(at - 1, at);
+    }
+  }
+  while (kept < entries.length && !checkpoints.every(t => sameType(evaluate(kept, t), truth(t)))) {
+    kept++;
+  }
+  if (!checkpoints.every(t => sameType(evaluate(kept, t), truth(t)))) {
+    throw new Error(`Cannot reproduce transitions with footer "${tzif.footer}"`);
+  }
+  if (kept === 1) {
+    return tzif.footer;
+  }
+  entries.length = kept;
+
+  const types: TzifType[] = [];
+  const typeIndex = (type: TzifType): number => {
+    let index = types.findIndex(t => sameType(t, type));
+    if (index < 0) {
+      index = types.push(type) - 1;
+    }
+    return index;
+  };
+  const transitions = entries.map(entry => `${entry.at.toString(36)}/${typeIndex(entry.type)}`);
+  const typeList = types.map(t => `${t.abbr}/${t.offset}/${t.dst ? 1 : 0}`);
+  return `${tzif.footer}|${typeList.join(',')}|${transitions.join(',')}`;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const since = daysFromCivil(options.since, 1, 1) * 86400;
+
+  const metadata = JSON.parse(zlib.gunzipSync(fs.readFileSync('data/timezone_metadata.json.gz')).toString('utf-8'));
+  const tzids = new Set<string>(Object.values(metadata).map((m: any) => m.tzid));
+  for (let lon = -180; lon <= 180; lon += 15) {
+    tzids.add(nauticalTimezone(lon));
+  }
+  tzids.add('UTC');
+
+  const version = fs.readFileSync(path.join(options.zoneinfo, 'tzdata.zi'), 'utf-8')
+    .split('\n')[0]
+    .replace(/^# version\s+/, '');
+
+  const lines: string[] = [];
+  let explicitZones = 0;
+  for (const tzid of Array.from(tzids).sort()) {
+    const filepath = path.join(options.zoneinfo, tzid);
+    if (!fs.existsSync(filepath)) {
+      console.warn(`  Skipping ${tzid}: not in ${options.zoneinfo}`);
+      continue;
+    }
+    const entry = encodeZone(parseTzif(fs.readFileSync(filepath), tzid), since);
+    if (entry.includes('|')) {
+      explicitZones++;
+    }
+    lines.push(`  '${tzid}': '${entry}',`);
+  }
+  lines[lines.length - 1] = lines[lines.length - 1].replace(/,$/, '');
+
+  const source = [
+    '/**',
+    ' * Compact tz rules table.',
+    ' * ',
+    ` * Generated by scripts/build-tz-rules.ts from tzdata ${version} (public domain).`,
+    ' * Do not edit by hand; see the script for the entry format.',
+    ' */',
+    '',
+    `export const TZDATA_VERSION = '${version}';`,
+    '',
+    `// Explicit transitions are stored from this instant (Unix seconds, ${options.since}-01-01T00:00Z)`,
+    `export const TZ_RULES_SINCE = ${since};`,
+    '',
+    'export const TZ_RULES: { [tzid: string]: string } = {',
+    ...lines,
+    '};',
+    ''
+  ].join('\n');
+  fs.writeFileSync(options.out, source);
+  console.log(`Wrote ${lines.length} zones (${explicitZones} with explicit transitions), ${(source.length / 1024).toFixed(0)} KB`);
+}
+
+main();
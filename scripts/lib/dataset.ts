@@ -0,0 +1,190 @@
+/**
+ * Build a country dataset (geohash index, polygons, metadata) from GeoJSON.
+ * 
+ * Used by scripts/build-dataset.ts; importable for custom build pipelines
+ * (e.g. sales territories generated from a database).
+ * 
+ * Design Decisions:
+ * - Property mappings default to the Natural Earth Admin 0 layout (NAME,
+ *   ISO_A2, ISO_A3, CONTINENT, NAME_DE, NAME_JA, ...), which the bundled data
+ *   was built from
+ * - Feature IDs come from an ID property, or from the feature order
+ *   (1, 2, ...); features sharing an ID are merged into one multi-polygon
+ * - The geohash index is sampled with src/geohash (see buildGeohashIndex), so
+ *   lookups use the exact same keys as the resolver. The sampling step only
+ *   affects lookup speed: points in unindexed cells still resolve through the
+ *   spatial index fallback
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GEOHASH_PRECISION } from '../../src/geohash';
+import { CountryMetadata, GeohashIndex, MetadataData, PolygonsData } from '../../src/data/loader';
+import { PolygonParts, buildGeohashIndex, writeGzipJson } from './polygons';
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  properties: { [key: string]: unknown } | null;
+  geometry: { type: string; coordinates: any } | null;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+/**
+ * GeoJSON property names for each metadata field.
+ * Missing properties become empty strings (the name falls back to the ID).
+ */
+export interface PropertyMappings {
+  id: string | null; // null: number features in order, starting at 1
+  name: string;
+  iso2: string;
+  iso3: string;
+  continent: string;
+  timezone: string | null; // null: no timezone (resolution falls back to the timezone layer)
+  names: { [locale: string]: string }; // Localized name property per language code
+}
+
+export const NATURAL_EARTH_PROPERTIES: PropertyMappings = {
+  id: null,
+  name: 'NAME',
+  iso2: 'ISO_A2',
+  iso3: 'ISO_A3',
+  continent: 'CONTINENT',
+  timezone: null,
+  names: {
+    ar: 'NAME_AR', de: 'NAME_DE', en: 'NAME_EN', es: 'NAME_ES', fr: 'NAME_FR',
+    hi: 'NAME_HI', ja: 'NAME_JA', pt: 'NAME_PT', ru: 'NAME_RU', zh: 'NAME_ZH'
+  }
+};
+
+export interface DatasetBuildOptions {
+  properties?: Partial<PropertyMappings>;
+  tolerance?: number; // Douglas-Peucker tolerance in degrees (default: 0.01, 0 keeps every vertex)
+  precision?: number; // Geohash index precision (default: 6, the resolver's lookup precision)
+  step?: number; // Sampling step of the geohash coverage in degrees (default: 0.05)
+}
+
+export interface Dataset {
+  geohashIndex: GeohashIndex;
+  polygons: PolygonsData;
+  metadata: MetadataData;
+  skipped: number; // Features without a Polygon/MultiPolygon geometry or usable ID, or with every ring collapsed
+}
+
+/**
+ * Read a property as a trimmed string ('' when missing).
+ */
+function propertyString(properties: { [key: string]: unknown }, name: string | null): string {
+  const value = name === null ? undefined : properties[name];
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * Read the localized names of a feature (undefined when it has none).
+ */
+function localizedNames(
+  properties: { [key: string]: unknown },
+  mappings: { [locale: string]: string }
+): { [locale: string]: string } | undefined {
+  const names: { [locale: string]: string } = {};
+  for (const [locale, property] of Object.entries(mappings)) {
+    const name = propertyString(properties, property);
+    if (name) {
+      names[locale] = name;
+    }
+  }
+  return Object.keys(names).length > 0 ? names : undefined;
+}
+
+/**
+ * Build the dataset files from a GeoJSON FeatureCollection.
+ * 
+ * @param collection - Polygon/MultiPolygon features with [lon, lat] coordinates
+ * @param options - Property mappings, simplification and geohash coverage settings
+ * @returns Geohash index, polygons and metadata keyed by feature ID
+ */
+export function buildDataset(collection: GeoJsonFeatureCollection, options: DatasetBuildOptions = {}): Dataset {
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+  const properties: PropertyMappings = { ...NATURAL_EARTH_PROPERTIES, ...options.properties };
+  const tolerance = options.tolerance !== undefined ? options.tolerance : 0.01;
+  const precision = options.precision !== undefined ? options.precision : GEOHASH_PRECISION;
+  const step = options.step !== undefined ? options.step : 0.05;
+  if (!Number.isInteger(precision) || precision < 1 || precision > 12) {
+    throw new Error(`Geohash precision must be an integer from 1 to 12, got ${precision}`);
+  }
+  if (!(step > 0)) {
+    throw new Error(`Sampling step must be positive, got ${step}`);
+  }
+
+  const features = new Map<number, { metadata: CountryMetadata; parts: PolygonParts }>();
+  let skipped = 0;
+  collection.features.forEach((feature, i) => {
+    const featureProperties = feature.properties || {};
+    const geometry = feature.geometry;
+    const id = properties.id === null ? i + 1 : Number(featureProperties[properties.id]);
+    if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') ||
+        !Number.isInteger(id) || id < 1) {
+      skipped++;
+      return;
+    }
+
+    let entry = features.get(id);
+    if (!entry) {
+      const names = localizedNames(featureProperties, properties.names);
+      entry = {
+        metadata: {
+          name: propertyString(featureProperties, properties.name) || String(id),
+          iso2: propertyString(featureProperties, properties.iso2),
+          iso3: propertyString(featureProperties, properties.iso3),
+          continent: propertyString(featureProperties, properties.continent),
+          timezone: propertyString(featureProperties, properties.timezone),
+          ...(names !== undefined ? { names } : {})
+        },
+        parts: new PolygonParts()
+      };
+      features.set(id, entry);
+    }
+    entry.parts.addGeometry(geometry, tolerance);
+  });
+
+  const polygons: PolygonsData = {};
+  const metadata: MetadataData = {};
+  for (const id of Array.from(features.keys()).sort((a, b) => a - b)) {
+    const { metadata: featureMetadata, parts } = features.get(id)!;
+    if (parts.isEmpty) {
+      // Every ring collapsed during simplification
+      skipped++;
+      continue;
+    }
+    polygons[id] = parts.toPolygonData();
+    metadata[id] = featureMetadata;
+  }
+
+  return { geohashIndex: buildGeohashIndex(polygons, precision, step), polygons, metadata, skipped };
+}
+
+/**
+ * Write the dataset as geohash_index.json.gz, polygons.json.gz and metadata.json.gz.
+ * 
+ * @param dataset - Dataset from buildDataset()
+ * @param outDir - Output directory (created if missing)
+ * @returns Compressed size in bytes per file name
+ */
+export function writeDataset(dataset: Dataset, outDir: string): { [filename: string]: number } {
+  fs.mkdirSync(outDir, { recursive: true });
+  const files: Array<[string, unknown]> = [
+    ['geohash_index.json.gz', dataset.geohashIndex],
+    ['polygons.json.gz', dataset.polygons],
+    ['metadata.json.gz', dataset.metadata]
+  ];
+  const sizes: { [filename: string]: number } = {};
+  for (const [filename, data] of files) {
+    sizes[filename] = writeGzipJson(path.join(outDir, filename), data);
+  }
+  return sizes;
+}
@@ -0,0 +1,243 @@
+/**
+ * Shared helpers for the polygon layer build scripts.
+ * 
+ * - Ring conversion: GeoJSON [lon, lat] rings → simplified [lat, lon] rings
+ * - PolygonParts: accumulates parts per feature in the PolygonData format
+ * - Geohash index: grid sampling with src/geohash, so lookups use the exact
+ *   same (prefix-consistent) keys as the resolver
+ * - Data file I/O: gzipped JSON in the data directory
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { encode } from '../../src/geohash';
+import { PolygonData, PolygonsData, GeohashIndex } from '../../src/data/loader';
+import { preparePolygon } from '../../src/data/prepared';
+
+/**
+ * Squared distance from p to segment a-b (planar, degrees).
+ */
+function segmentDistanceSq(p: number[], a: number[], b: number[]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t = 0;
+  if (dx !== 0 || dy !== 0) {
+    t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / (dx * dx + dy * dy)));
+  }
+  const ex = p[0] - (a[0] + t * dx);
+  const ey = p[1] - (a[1] + t * dy);
+  return ex * ex + ey * ey;
+}
+
+/**
+ * Douglas-Peucker simplification of a closed ring (without closing vertex).
+ */
+export function simplifyRing(ring: number[][], tolerance: number): number[][] {
+  if (ring.length <= 4 || tolerance <= 0) {
+    return ring;
+  }
+
+  const keep = new Uint8Array(ring.length);
+  keep[0] = 1;
+  keep[ring.length - 1] = 1;
+  const toleranceSq = tolerance * tolerance;
+  const stack: Array<[number, number]> = [[0, ring.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistSq = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distSq = segmentDistanceSq(ring[i], ring[first], ring[last]);
+      if (distSq > maxDistSq) {
+        maxDistSq = distSq;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDistSq > toleranceSq) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return ring.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * Convert a GeoJSON ring ([lon, lat], closed) to a simplified [lat, lon] ring.
+ */
+export function convertRing(ring: number[][], tolerance: number): number[][] | null {
+  const points = ring.map(([lon, lat]) => [
+    Math.round(lat * 1e5) / 1e5,
+    Math.round(lon * 1e5) / 1e5
+  ]);
+  if (points.length > 1) {
+    const [firstLat, firstLon] = points[0];
+    const [lastLat, lastLon] = points[points.length - 1];
+    if (firstLat === lastLat && firstLon === lastLon) {
+      points.pop();
+    }
+  }
+  const simplified = simplifyRing(points, tolerance);
+  return simplified.length >= 3 ? simplified : null;
+}
+
+/**
+ * Accumulates polygon parts for one feature.
+ */
+export class PolygonParts {
+  exteriors: number[][][] = [];
+  holes: number[][][] = [];
+
+  /**
+   * Add a GeoJSON polygon (exterior ring followed by holes).
+   */
+  addPolygon(rings: number[][][], tolerance: number): void {
+    const exterior = convertRing(rings[0], tolerance);
+    if (!exterior) {
+      return;
+    }
+    this.exteriors.push(exterior);
+    for (const hole of rings.slice(1)) {
+      const converted = convertRing(hole, tolerance);
+      if (converted) {
+        this.holes.push(converted);
+      }
+    }
+  }
+
+  /**
+   * Add a GeoJSON Polygon or MultiPolygon geometry.
+   */
+  addGeometry(geometry: { type: string; coordinates: any }, tolerance: number): void {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    for (const rings of polygons) {
+      this.addPolygon(rings, tolerance);
+    }
+  }
+
+  /**
+   * Add an exterior ring already in [lat, lon] order (not simplified).
+   */
+  addExterior(ring: number[][]): void {
+    this.exteriors.push(ring);
+  }
+
+  get isEmpty(): boolean {
+    return this.exteriors.length === 0;
+  }
+
+  toPolygonData(): PolygonData {
+    const data: PolygonData = { exterior: this.exteriors[0] };
+    if (this.exteriors.length > 1) {
+      data.multi = true;
+      data.exteriors = this.exteriors;
+    }
+    if (this.holes.length > 0) {
+      data.holes = this.holes;
+    }
+    return data;
+  }
+}
+
+/**
+ * Sorted longitudes where the edges of the rings cross a latitude.
+ */
+function ringCrossings(rings: Float64Array[], lat: number): number[] {
+  const crossings: number[] = [];
+  for (const coords of rings) {
+    for (let i = 0; i < coords.length; i += 2) {
+      const j = (i + 2) % coords.length;
+      const lat1 = coords[i];
+      const lat2 = coords[j];
+      if ((lat1 > lat) !== (lat2 > lat)) {
+        crossings.push(coords[i + 1] + (lat - lat1) * (coords[j + 1] - coords[i + 1]) / (lat2 - lat1));
+      }
+    }
+  }
+  return crossings.sort((a, b) => a - b);
+}
+
+/**
+ * Build a geohash index by sampling every part on a regular grid.
+ * 
+ * Grid rows are filled between edge crossings (scanline), so the cost grows
+ * with rows × edges instead of grid points × edges.
+ * 
+ * Vertices and points along every exterior edge (at most one step apart)
+ * are sampled too, so parts narrower than one grid step are still indexed.
+ * 
+ * @param polygons - Polygons keyed by feature ID
+ * @param precision - Geohash precision of the index keys
+ * @param step - Grid step in degrees
+ * @returns Geohash → sorted feature IDs
+ */
+export function buildGeohashIndex(polygons: PolygonsData, precision: number, step: number): GeohashIndex {
+  const cells = new Map<string, Set<number>>();
+  const add = (lat: number, lon: number, featureId: number) => {
+    const geohash = encode(Math.max(-90, Math.min(90, lat)), Math.max(-180, Math.min(180, lon)), precision);
+    let ids = cells.get(geohash);
+    if (!ids) {
+      ids = new Set();
+      cells.set(geohash, ids);
+    }
+    ids.add(featureId);
+  };
+
+  for (const [featureIdStr, polygonData] of Object.entries(polygons)) {
+    const featureId = parseInt(featureIdStr, 10);
+    for (const part of preparePolygon(polygonData).parts) {
+      const { coords, bbox } = part.exterior;
+      for (let i = 0; i < coords.length; i += 2) {
+        const lat = coords[i];
+        const lon = coords[i + 1];
+        const j = (i + 2) % coords.length;
+        const segments = Math.ceil(Math.max(Math.abs(coords[j] - lat), Math.abs(coords[j + 1] - lon)) / step);
+        for (let k = 0; k < Math.max(1, segments); k++) {
+          const t = k / Math.max(1, segments);
+          add(lat + (coords[j] - lat) * t, lon + (coords[j + 1] - lon) * t, featureId);
+        }
+      }
+      const rings = [part.exterior.coords, ...part.holes.map(hole => hole.coords)];
+      for (let row = Math.ceil(bbox[0] / step); row * step <= bbox[1]; row++) {
+        const lat = row * step;
+        const crossings = ringCrossings(rings, lat);
+        // Even-odd rule: the part (minus its holes) lies between crossing pairs
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+          for (let col = Math.ceil(crossings[i] / step); col * step <= crossings[i + 1]; col++) {
+            add(lat, col * step, featureId);
+          }
+        }
+      }
+    }
+  }
+
+  const index: GeohashIndex = {};
+  for (const geohash of Array.from(cells.keys()).sort()) {
+    index[geohash] = Array.from(cells.get(geohash)!).sort((a, b) => a - b);
+  }
+  return index;
+}
+
+/**
+ * Write data as gzipped JSON.
+ * 
+ * @returns Compressed size in bytes
+ */
+export function writeGzipJson(filepath: string, data: unknown): number {
+  const compressed = zlib.gzipSync(JSON.stringify(data), { level: 9 });
+  fs.writeFileSync(filepath, compressed);
+  return compressed.length;
+}
+
+/**
+ * Read a JSON data file, preferring the gzipped version.
+ */
+export function readDataJson(dataDir: string, filename: string): any {
+  const gzipFilepath = path.join(dataDir, `${filename}.gz`);
+  if (fs.existsSync(gzipFilepath)) {
+    return JSON.parse(zlib.gunzipSync(fs.readFileSync(gzipFilepath)).toString('utf-8'));
+  }
+  return JSON.parse(fs.readFileSync(path.join(dataDir, filename), 'utf-8'));
+}
@@ -0,0 +1,505 @@
+/**
+ * Versioned binary data format for polygons and the geohash index.
+ * 
+ * JSON polygons are parsed into millions of nested arrays before they are
+ * converted to typed rings. The binary files are read into typed-array
+ * views over one ArrayBuffer instead, and prepared rings are decoded
+ * straight from them.
+ * 
+ * All integers are little-endian; every section starts 4-byte aligned.
+ * 
+ * polygons.bin:
+ *   magic "GIPG" | version u16 | reserved u16 | scale u32
+ *   featureCount u32 | ringCount u32 | vertexCount u32
+ *   features: featureCount × [id, flags, firstRing, exteriorCount, holeCount] u32
+ *   ringOffsets: (ringCount + 1) × u32 vertex offsets
+ *   coords: vertexCount × [lat, lon] i32, quantized as round(degrees × scale);
+ *     the first vertex of each ring is absolute, the rest are deltas from
+ *     the previous vertex
+ * 
+ * Each feature's rings are its exteriors followed by its holes.
+ * Feature flags: bit 0 = MultiPolygon.
+ * 
+ * geohash_index.bin:
+ *   magic "GIGH" | version u16 | reserved u16
+ *   keyCount u32 | keyBytes u32 | valueCount u32
+ *   keyOffsets: (keyCount + 1) × u32 byte offsets into keys
+ *   valueOffsets: (keyCount + 1) × u32 offsets into values
+ *   values: valueCount × u32 feature IDs
+ *   keys: keyBytes ASCII bytes, geohashes sorted by byte value
+ * 
+ * Design Decision: The version is a single number bumped on every layout
+ * change, and readers reject every version other than BINARY_FORMAT_VERSION
+ * (older or newer) instead of guessing; the JSON files stay supported for
+ * data in other versions.
+ */
+
+import { GeohashIndex, PolygonData, PolygonsData } from './loader';
+import { PreparedPolygon, assemblePolygon, prepareTypedRing } from './prepared';
+
+export const BINARY_FORMAT_VERSION = 1;
+
+// Coordinates in the bundled data have at most 6 decimals, so 1e6 is lossless
+export const DEFAULT_COORDINATE_SCALE = 1e6;
+
+const POLYGONS_MAGIC = 'GIPG';
+const GEOHASH_INDEX_MAGIC = 'GIGH';
+const POLYGONS_HEADER_BYTES = 24;
+const GEOHASH_INDEX_HEADER_BYTES = 20;
+const FEATURE_FIELDS = 5;
+const FLAG_MULTI = 1;
+
+const LITTLE_ENDIAN = new Uint8Array(new Uint32Array([1]).buffer)[0] === 1;
+
+/**
+ * Get a 4-byte aligned ArrayBuffer holding exactly the given bytes.
+ */
+function toAlignedBuffer(data: ArrayBuffer | ArrayBufferView): ArrayBuffer {
+  if (data instanceof ArrayBuffer) {
+    return data;
+  }
+  const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  if (data.byteOffset % 4 === 0 && data.byteLength === data.buffer.byteLength && data.buffer instanceof ArrayBuffer) {
+    return data.buffer;
+  }
+  return bytes.slice().buffer;
+}
+
+/**
+ * View little-endian 32-bit integers in a buffer (copied on big-endian hosts).
+ */
+function int32View<T extends Int32Array | Uint32Array>(
+  type: { new(buffer: ArrayBuffer, byteOffset: number, length: number): T; new(length: number): T },
+  buffer: ArrayBuffer,
+  byteOffset: number,
+  length: number
+): T {
+  if (LITTLE_ENDIAN) {
+    return new type(buffer, byteOffset, length);
+  }
+  const view = new DataView(buffer, byteOffset, length * 4);
+  const copy = new type(length);
+  for (let i = 0; i < length; i++) {
+    copy[i] = view.getUint32(i * 4, true);
+  }
+  return copy;
+}
+
+function writeInt32s(view: DataView, byteOffset: number, values: ArrayLike<number>): number {
+  for (let i = 0; i < values.length; i++) {
+    view.setInt32(byteOffset + i * 4, values[i], true);
+  }
+  return byteOffset + values.length * 4;
+}
+
+/**
+ * Read and validate a file header.
+ */
+function readHeader(buffer: ArrayBuffer, magic: string, headerBytes: number): DataView {
+  if (buffer.byteLength < headerBytes) {
+    throw new Error(`Invalid binary data: ${buffer.byteLength} bytes is shorter than the ${magic} header`);
+  }
+  const view = new DataView(buffer);
+  const actualMagic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (actualMagic !== magic) {
+    throw new Error(`Invalid binary data: expected magic "${magic}", got "${actualMagic}"`);
+  }
+  const version = view.getUint16(4, true);
+  if (version !== BINARY_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported binary data version ${version} (this library reads version ${BINARY_FORMAT_VERSION}).\n` +
+      `Upgrade geo-intel-offline or load the JSON data files instead.`
+    );
+  }
+  return view;
+}
+
+/**
+ * Polygons stored in the binary format.
+ */
+export class PackedPolygons {
+  readonly scale: number;
+  private features: Uint32Array;
+  private ringOffsets: Uint32Array;
+  private coords: Int32Array;
+  private featureById: Map<number, number>;
+
+  /**
+   * @param data - Contents of a polygons.bin file
+   */
+  constructor(data: ArrayBuffer | ArrayBufferView) {
+    const buffer = toAlignedBuffer(data);
+    const view = readHeader(buffer, POLYGONS_MAGIC, POLYGONS_HEADER_BYTES);
+    this.scale = view.getUint32(8, true);
+    const featureCount = view.getUint32(12, true);
+    const ringCount = view.getUint32(16, true);
+    const vertexCount = view.getUint32(20, true);
+
+    let offset = POLYGONS_HEADER_BYTES;
+    const expectedBytes = offset + (featureCount * FEATURE_FIELDS + ringCount + 1 + vertexCount * 2) * 4;
+    if (buffer.byteLength < expectedBytes) {
+      throw new Error(`Invalid binary data: polygons file is truncated (${buffer.byteLength} of ${expectedBytes} bytes)`);
+    }
+    this.features = int32View(Uint32Array, buffer, offset, featureCount * FEATURE_FIELDS);
+    offset += featureCount * FEATURE_FIELDS * 4;
+    this.ringOffsets = int32View(Uint32Array, buffer, offset, ringCount + 1);
+    offset += (ringCount + 1) * 4;
+    this.coords = int32View(Int32Array, buffer, offset, vertexCount * 2);
+
+    this.featureById = new Map();
+    for (let i = 0; i < featureCount; i++) {
+      this.featureById.set(this.features[i * FEATURE_FIELDS], i);
+    }
+  }
+
+  /**
+   * Size of the underlying buffer in bytes.
+   */
+  get byteLength(): number {
+    return this.coords.buffer.byteLength;
+  }
+
+  /**
+   * Feature IDs in file order.
+   */
+  get ids(): number[] {
+    return Array.from(this.featureById.keys());
+  }
+
+  has(id: number): boolean {
+    return this.featureById.has(id);
+  }
+
+  /**
+   * Decode one ring into interleaved [lat, lon] degrees.
+   */
+  private decodeRing(ring: number): Float64Array {
+    const start = this.ringOffsets[ring];
+    const end = this.ringOffsets[ring + 1];
+    const coords = new Float64Array((end - start) * 2);
+    let lat = 0;
+    let lon = 0;
+    for (let v = start, i = 0; v < end; v++, i += 2) {
+      if (v === start) {
+        lat = this.coords[v * 2];
+        lon = this.coords[v * 2 + 1];
+      } else {
+        lat += this.coords[v * 2];
+        lon += this.coords[v * 2 + 1];
+      }
+      coords[i] = lat / this.scale;
+      coords[i + 1] = lon / this.scale;
+    }
+    return coords;
+  }
+
+  /**
+   * Get the ring range of a feature.
+   */
+  private featureRings(id: number): { multi: boolean; firstRing: number; exteriorCount: number; holeCount: number } | undefined {
+    const index = this.featureById.get(id);
+    if (index === undefined) {
+      return undefined;
+    }
+    const base = index * FEATURE_FIELDS;
+    return {
+      multi: (this.features[base + 1] & FLAG_MULTI) !== 0,
+      firstRing: this.features[base + 2],
+      exteriorCount: this.features[base + 3],
+      holeCount: this.features[base + 4]
+    };
+  }
+
+  /**
+   * Build the prepared polygon of a feature without nested coordinate arrays.
+   *
+   * @param id - Feature ID
+   * @returns Prepared polygon or undefined if the feature is not stored
+   */
+  prepare(id: number): PreparedPolygon | undefined {
+    const rings = this.featureRings(id);
+    if (!rings) {
+      return undefined;
+    }
+    const { firstRing, exteriorCount, holeCount } = rings;
+    const exteriors = [];
+    for (let r = firstRing; r < firstRing + exteriorCount; r++) {
+      exteriors.push(prepareTypedRing(this.decodeRing(r)));
+    }
+    const holes = [];
+    for (let r = firstRing + exteriorCount; r < firstRing + exteriorCount + holeCount; r++) {
+      holes.push(prepareTypedRing(this.decodeRing(r)));
+    }
+    return assemblePolygon(exteriors, holes);
+  }
+
+  /**
+   * Decode a feature into the JSON PolygonData layout.
+   *
+   * @param id - Feature ID
+   * @returns Polygon data or undefined if the feature is not stored
+   */
+  toPolygonData(id: number): PolygonData | undefined {
+    const rings = this.featureRings(id);
+    if (!rings) {
+      return undefined;
+    }
+    const { multi, firstRing, exteriorCount, holeCount } = rings;
+    const toNested = (ring: number): number[][] => {
+      const coords = this.decodeRing(ring);
+      const nested: number[][] = new Array(coords.length / 2);
+      for (let i = 0; i < coords.length; i += 2) {
+        nested[i / 2] = [coords[i], coords[i + 1]];
+      }
+      return nested;
+    };
+
+    const exteriors: number[][][] = [];
+    for (let r = firstRing; r < firstRing + exteriorCount; r++) {
+      exteriors.push(toNested(r));
+    }
+    const holes: number[][][] = [];
+    for (let r = firstRing + exteriorCount; r < firstRing + exteriorCount + holeCount; r++) {
+      holes.push(toNested(r));
+    }
+
+    // Canonical form: optional fields only when set (JSON files are not consistent here)
+    const data: PolygonData = { exterior: exteriors[0] || [] };
+    if (multi) {
+      data.multi = true;
+      data.exteriors = exteriors;
+    }
+    if (holes.length > 0) {
+      data.holes = holes;
+    }
+    return data;
+  }
+
+  /**
+   * Decode every feature into the JSON PolygonsData layout.
+   */
+  toPolygonsData(): PolygonsData {
+    const polygons: PolygonsData = {};
+    for (const id of this.featureById.keys()) {
+      polygons[id.toString()] = this.toPolygonData(id)!;
+    }
+    return polygons;
+  }
+}
+
+/**
+ * Geohash index stored in the binary format (sorted key table).
+ */
+export class PackedGeohashIndex {
+  private keyOffsets: Uint32Array;
+  private valueOffsets: Uint32Array;
+  private values: Uint32Array;
+  private keys: Uint8Array;
+
+  /**
+   * @param data - Contents of a geohash_index.bin file
+   */
+  constructor(data: ArrayBuffer | ArrayBufferView) {
+    const buffer = toAlignedBuffer(data);
+    const view = readHeader(buffer, GEOHASH_INDEX_MAGIC, GEOHASH_INDEX_HEADER_BYTES);
+    const keyCount = view.getUint32(8, true);
+    const keyBytes = view.getUint32(12, true);
+    const valueCount = view.getUint32(16, true);
+
+    let offset = GEOHASH_INDEX_HEADER_BYTES;
+    const expectedBytes = offset + ((keyCount + 1) * 2 + valueCount) * 4 + keyBytes;
+    if (buffer.byteLength < expectedBytes) {
+      throw new Error(`Invalid binary data: geohash index file is truncated (${buffer.byteLength} of ${expectedBytes} bytes)`);
+    }
+    this.keyOffsets = int32View(Uint32Array, buffer, offset, keyCount + 1);
+    offset += (keyCount + 1) * 4;
+    this.valueOffsets = int32View(Uint32Array, buffer, offset, keyCount + 1);
+    offset += (keyCount + 1) * 4;
+    this.values = int32View(Uint32Array, buffer, offset, valueCount);
+    offset += valueCount * 4;
+    this.keys = new Uint8Array(buffer, offset, keyBytes);
+  }
+
+  /**
+   * Number of geohash keys.
+   */
+  get size(): number {
+    return this.keyOffsets.length - 1;
+  }
+
+  /**
+   * Size of the underlying buffer in bytes.
+   */
+  get byteLength(): number {
+    return this.keys.buffer.byteLength;
+  }
+
+  /**
+   * Compare key i with a geohash (byte order).
+   */
+  private compare(i: number, geohash: string): number {
+    const start = this.keyOffsets[i];
+    const length = this.keyOffsets[i + 1] - start;
+    const n = Math.min(length, geohash.length);
+    for (let j = 0; j < n; j++) {
+      const diff = this.keys[start + j] - geohash.charCodeAt(j);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+    return length - geohash.length;
+  }
+
+  private keyAt(i: number): string {
+    return String.fromCharCode(...this.keys.subarray(this.keyOffsets[i], this.keyOffsets[i + 1]));
+  }
+
+  private valuesAt(i: number): number[] {
+    return Array.from(this.values.subarray(this.valueOffsets[i], this.valueOffsets[i + 1]));
+  }
+
+  /**
+   * Get the feature IDs stored for a geohash (binary search).
+   *
+   * @param geohash - Geohash key
+   * @returns Feature IDs, or undefined if the key is not stored
+   */
+  get(geohash: string): number[] | undefined {
+    let lo = 0;
+    let hi = this.size - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const cmp = this.compare(mid, geohash);
+      if (cmp === 0) {
+        return this.valuesAt(mid);
+      }
+      if (cmp < 0) {
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Decode the index into the JSON GeohashIndex layout.
+   */
+  toObject(): GeohashIndex {
+    const index: GeohashIndex = {};
+    for (let i = 0; i < this.size; i++) {
+      index[this.keyAt(i)] = this.valuesAt(i);
+    }
+    return index;
+  }
+}
+
+/**
+ * Encode polygons in the binary format.
+ * 
+ * @param polygons - Polygons keyed by numeric feature ID
+ * @param scale - Quantization scale (coordinates are rounded to 1/scale degrees)
+ * @returns polygons.bin contents
+ */
+export function encodePolygons(polygons: PolygonsData, scale: number = DEFAULT_COORDINATE_SCALE): ArrayBuffer {
+  const features: number[] = [];
+  const ringOffsets: number[] = [0];
+  const coords: number[] = [];
+  const limit = 2 ** 31 - 1;
+
+  for (const [idStr, polygon] of Object.entries(polygons)) {
+    if (!polygon) {
+      continue;
+    }
+    const id = parseInt(idStr, 10);
+    if (!Number.isInteger(id) || id < 0 || id.toString() !== idStr) {
+      throw new Error(`Binary data requires non-negative integer feature IDs, got "${idStr}"`);
+    }
+    const multi = !!(polygon.multi && polygon.exteriors);
+    const exteriors = (multi ? polygon.exteriors! : [polygon.exterior]).filter(ring => ring && ring.length > 0);
+    const holes = (polygon.holes || []).filter(ring => Array.isArray(ring) && ring.length > 0);
+
+    features.push(id, multi ? FLAG_MULTI : 0, ringOffsets.length - 1, exteriors.length, holes.length);
+    for (const ring of [...exteriors, ...holes]) {
+      let prevLat = 0;
+      let prevLon = 0;
+      ring.forEach(([latDeg, lonDeg], i) => {
+        const lat = Math.round(latDeg * scale);
+        const lon = Math.round(lonDeg * scale);
+        if (Math.abs(lat) > limit || Math.abs(lon) > limit) {
+          throw new Error(`Coordinate [${latDeg}, ${lonDeg}] overflows Int32 at scale ${scale}`);
+        }
+        coords.push(i === 0 ? lat : lat - prevLat, i === 0 ? lon : lon - prevLon);
+        prevLat = lat;
+        prevLon = lon;
+      });
+      ringOffsets.push(coords.length / 2);
+    }
+  }
+
+  const featureCount = features.length / FEATURE_FIELDS;
+  const buffer = new ArrayBuffer(POLYGONS_HEADER_BYTES + (features.length + ringOffsets.length + coords.length) * 4);
+  const view = new DataView(buffer);
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(i, POLYGONS_MAGIC.charCodeAt(i));
+  }
+  view.setUint16(4, BINARY_FORMAT_VERSION, true);
+  view.setUint32(8, scale, true);
+  view.setUint32(12, featureCount, true);
+  view.setUint32(16, ringOffsets.length - 1, true);
+  view.setUint32(20, coords.length / 2, true);
+
+  let offset = writeInt32s(view, POLYGONS_HEADER_BYTES, features);
+  offset = writeInt32s(view, offset, ringOffsets);
+  writeInt32s(view, offset, coords);
+  return buffer;
+}
+
+/**
+ * Encode a geohash index in the binary format.
+ * 
+ * @param index - Geohash → feature IDs
+ * @returns geohash_index.bin contents
+ */
+export function encodeGeohashIndex(index: GeohashIndex): ArrayBuffer {
+  const keys = Object.keys(index).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const keyOffsets: number[] = [0];
+  const valueOffsets: number[] = [0];
+  const values: number[] = [];
+  let keyBytes = 0;
+
+  for (const key of keys) {
+    if (!/^[\x20-\x7e]*$/.test(key)) {
+      throw new Error(`Binary geohash index keys must be ASCII, got "${key}"`);
+    }
+    keyBytes += key.length;
+    keyOffsets.push(keyBytes);
+    const ids = index[key];
+    values.push(...(Array.isArray(ids) ? ids : [ids as unknown as number]));
+    valueOffsets.push(values.length);
+  }
+
+  const buffer = new ArrayBuffer(
+    GEOHASH_INDEX_HEADER_BYTES + (keyOffsets.length + valueOffsets.length + values.length) * 4 + keyBytes
+  );
+  const view = new DataView(buffer);
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(i, GEOHASH_INDEX_MAGIC.charCodeAt(i));
+  }
+  view.setUint16(4, BINARY_FORMAT_VERSION, true);
+  view.setUint32(8, keys.length, true);
+  view.setUint32(12, keyBytes, true);
+  view.setUint32(16, values.length, true);
+
+  let offset = writeInt32s(view, GEOHASH_INDEX_HEADER_BYTES, keyOffsets);
+  offset = writeInt32s(view, offset, valueOffsets);
+  offset = writeInt32s(view, offset, values);
+  const bytes = new Uint8Array(buffer, offset, keyBytes);
+  let k = 0;
+  for (const key of keys) {
+    for (let j = 0; j < key.length; j++) {
+      bytes[k++] = key.charCodeAt(j);
+    }
+  }
+  return buffer;
+}
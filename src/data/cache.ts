@@ -0,0 +1,279 @@
+/**
+ * Persistent cache for CDN-loaded datasets.
+ * 
+ * loadFromCDN(url, { cache: true }) stores every fetched data file
+ * (decompressed bytes) in IndexedDB. Entries are keyed by base URL, dataset
+ * version (from manifest.json) and file name, so a later load of the same
+ * dataset version is served without downloading anything, and works offline.
+ * 
+ * Design Decisions:
+ * - Only datasets with a manifest are cached: without a version there is no
+ *   way to tell a cached file from a stale one
+ * - Cached files are still verified against the manifest (unless integrity
+ *   checks are disabled); a mismatching entry is fetched again
+ * - The manifest of the last complete load is cached too. When manifest.json
+ *   cannot be fetched (offline), the cached manifest is used
+ * - Files of other versions are removed once a new version has fully loaded
+ * - Storage is pluggable (DataCacheStore): IndexedDB in browsers, memory
+ *   for tests and server-side rendering
+ */
+
+import { DatasetManifest } from './manifest';
+import { POLYGON_CHUNKS_FILE, PolygonChunkManifest } from './loader';
+
+/**
+ * Key-value storage behind the dataset cache.
+ * Values are structured-cloneable (Uint8Array file contents and manifests).
+ */
+export interface DataCacheStore {
+  get(key: string): Promise<unknown>; // undefined when the key is missing
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+const DB_NAME = 'geo-intel-offline';
+const DB_STORE = 'datasets';
+
+function assertIndexedDB(): void {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error(
+      `IndexedDB is not available in this environment.\n` +
+      `Pass a DataCacheStore (e.g. new MemoryCacheStore()) as the cache option instead of true.`
+    );
+  }
+}
+
+/**
+ * DataCacheStore backed by an IndexedDB object store (browsers).
+ */
+export class IndexedDBCacheStore implements DataCacheStore {
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param dbName - IndexedDB database name (default: 'geo-intel-offline')
+   */
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        assertIndexedDB();
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        this.dbPromise = null; // Reset on error
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run one request in its own transaction and resolve once the transaction commits.
+   */
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(DB_STORE, mode);
+      const request = run(transaction.objectStore(DB_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  get(key: string): Promise<unknown> {
+    return this.request('readonly', store => store.get(key));
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request('readonly', store => store.getAllKeys());
+    return keys.map(String);
+  }
+}
+
+/**
+ * In-memory DataCacheStore (tests, server-side rendering, or sharing
+ * downloads between loaders within one session).
+ */
+export class MemoryCacheStore implements DataCacheStore {
+  private entries: Map<string, unknown> = new Map();
+
+  async get(key: string): Promise<unknown> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+}
+
+let defaultStore: IndexedDBCacheStore | null = null;
+
+/**
+ * Resolve the cache option of loadFromCDN to a store (true → shared IndexedDB store).
+ */
+export function getCacheStore(cache: boolean | DataCacheStore | undefined): DataCacheStore | null {
+  if (!cache) {
+    return null;
+  }
+  if (cache === true) {
+    // Fail early: cache reads and writes are best effort and would hide this
+    assertIndexedDB();
+    defaultStore = defaultStore || new IndexedDBCacheStore();
+    return defaultStore;
+  }
+  return cache;
+}
+
+/**
+ * Normalize a base URL the way loadFromCDN does.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/$/, '');
+}
+
+// Keys: "dataset <base>" → manifest of the last complete load,
+//       "file <base> <version> <filename>" → decompressed file contents
+function datasetKey(base: string): string {
+  return `dataset ${base}`;
+}
+
+function filePrefix(base: string): string {
+  return `file ${base} `;
+}
+
+function fileKey(base: string, version: string, filename: string): string {
+  return `${filePrefix(base)}${version} ${filename}`;
+}
+
+/**
+ * Dataset cache for one CDN base URL.
+ */
+export class DatasetCache {
+  private store: DataCacheStore;
+  private base: string;
+
+  /**
+   * @param store - Storage backend
+   * @param baseUrl - CDN base URL of the dataset
+   */
+  constructor(store: DataCacheStore, baseUrl: string) {
+    this.store = store;
+    this.base = normalizeBaseUrl(baseUrl);
+  }
+
+  /**
+   * Manifest of the last complete load, or null if the dataset is not cached.
+   */
+  async getManifest(): Promise<DatasetManifest | null> {
+    const manifest = await this.store.get(datasetKey(this.base));
+    return manifest ? manifest as DatasetManifest : null;
+  }
+
+  /**
+   * Mark the dataset as completely loaded and drop files of other versions.
+   */
+  async setManifest(manifest: DatasetManifest): Promise<void> {
+    await this.store.set(datasetKey(this.base), manifest);
+    const current = `${filePrefix(this.base)}${manifest.version} `;
+    for (const key of await this.store.keys()) {
+      if (key.startsWith(filePrefix(this.base)) && !key.startsWith(current)) {
+        await this.store.delete(key);
+      }
+    }
+  }
+
+  async getFile(version: string, filename: string): Promise<Uint8Array | null> {
+    const bytes = await this.store.get(fileKey(this.base, version, filename));
+    return bytes instanceof Uint8Array ? bytes : null;
+  }
+
+  async setFile(version: string, filename: string, bytes: Uint8Array): Promise<void> {
+    await this.store.set(fileKey(this.base, version, filename), bytes);
+  }
+
+  /**
+   * Remove the manifest and every file of this dataset.
+   */
+  async clear(): Promise<void> {
+    for (const key of await this.store.keys()) {
+      if (key === datasetKey(this.base) || key.startsWith(filePrefix(this.base))) {
+        await this.store.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a dataset has been loaded completely with loadFromCDN(url, { cache })
+ * and can be loaded again without network access.
+ * 
+ * Lazy loads (lazyPolygons) cache polygon chunks only as countries are
+ * resolved, so once a chunk manifest is cached, every chunk it lists must be
+ * cached too.
+ * 
+ * @param baseUrl - Base URL passed to loadFromCDN
+ * @param cache - Cache store (default: true, the shared IndexedDB store)
+ */
+export async function isCached(baseUrl: string, cache: true | DataCacheStore = true): Promise<boolean> {
+  const datasetCache = new DatasetCache(getCacheStore(cache)!, baseUrl);
+  const manifest = await datasetCache.getManifest();
+  if (manifest === null) {
+    return false;
+  }
+
+  const chunkBytes = await datasetCache.getFile(manifest.version, POLYGON_CHUNKS_FILE);
+  if (chunkBytes === null) {
+    return true;
+  }
+  const chunks = JSON.parse(new TextDecoder().decode(chunkBytes)) as PolygonChunkManifest;
+  const files = new Set(Object.values(chunks.countries).map(chunk => chunk.file));
+  for (const file of files) {
+    if ((await datasetCache.getFile(manifest.version, file)) === null) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Remove cached datasets.
+ * 
+ * @param baseUrl - Remove only the dataset of this base URL (default: all datasets)
+ * @param cache - Cache store (default: true, the shared IndexedDB store)
+ */
+export async function clearCache(baseUrl?: string, cache: true | DataCacheStore = true): Promise<void> {
+  const store = getCacheStore(cache)!;
+  if (baseUrl !== undefined) {
+    await new DatasetCache(store, baseUrl).clear();
+    return;
+  }
+  for (const key of await store.keys()) {
+    if (key.startsWith('dataset ') || key.startsWith('file ')) {
+      await store.delete(key);
+    }
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Incremental JSON parser for data files read in chunks.
+ * 
+ * JSON.parse needs the whole document as one string, so parsing a large
+ * file means holding its decompressed bytes, the decoded string and the
+ * parsed data at the same time. JsonStreamParser builds the value while the
+ * chunks arrive instead: only the data and one partial token are kept.
+ * 
+ * Design Decisions:
+ * - Produces the same values as JSON.parse (including "__proto__" keys as own properties)
+ * - A token cut at a chunk boundary is kept as text and parsed once complete
+ * - Strings with escapes are decoded with JSON.parse; plain strings are sliced
+ * - Containers nested CAPTURE_DEPTH levels deep (e.g. a polygon's rings) are
+ *   collected as text and parsed with JSON.parse, which is much faster than
+ *   parsing them here; the data files keep such containers small
+ */
+
+type Container = unknown[] | Record<string, unknown>;
+
+// What the parser expects next (whitespace aside)
+const enum Expect {
+  Value, // Any value
+  ValueOrEnd, // A value or ']' (after '[')
+  Key, // An object key (after ',')
+  KeyOrEnd, // An object key or '}' (after '{')
+  Colon, // ':' after a key
+  CommaOrEnd, // ',' or the closing bracket of the current container
+  Done // Only whitespace after the top-level value
+}
+
+// Depth from which containers are parsed whole with JSON.parse
+const CAPTURE_DEPTH = 2;
+
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const LITERALS: { [text: string]: boolean | null } = { true: true, false: false, null: null };
+
+function isWhitespace(c: number): boolean {
+  return c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09;
+}
+
+function isNumberChar(c: number): boolean {
+  return (c >= 0x30 && c <= 0x39) || c === 0x2d || c === 0x2b || c === 0x2e || c === 0x65 || c === 0x45;
+}
+
+/**
+ * Parses one JSON document written in chunks of UTF-8 bytes.
+ * 
+ * @example
+ * ```typescript
+ * const parser = new JsonStreamParser();
+ * for await (const chunk of stream) {
+ *   parser.write(chunk);
+ * }
+ * const data = parser.end();
+ * ```
+ */
+export class JsonStreamParser {
+  private decoder = new TextDecoder();
+  private text = ''; // Unparsed text: the start of a token cut at a chunk boundary
+  private offset = 0; // Position of text in the document, for error messages
+  private expect = Expect.Value;
+  private stack: Container[] = [];
+  private key: string | null = null; // Key of the next value in the current object
+  private root: unknown = undefined;
+  // Progress scanning a captured container cut at a chunk boundary (see containerEnd)
+  private scan: { index: number; depth: number; inString: boolean } | null = null;
+
+  /**
+   * Parse the next chunk of the document.
+   * 
+   * @throws SyntaxError if the document is not valid JSON
+   */
+  write(chunk: Uint8Array | string): void {
+    this.text += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    this.parse(false);
+  }
+
+  /**
+   * Finish the document.
+   * 
+   * @returns The parsed value
+   * @throws SyntaxError if the document is incomplete or not valid JSON
+   */
+  end(): unknown {
+    this.text += this.decoder.decode();
+    this.parse(true);
+    if (this.expect !== Expect.Done) {
+      throw new SyntaxError(`Unexpected end of JSON input at position ${this.offset + this.text.length}`);
+    }
+    return this.root;
+  }
+
+  private parse(final: boolean): void {
+    const text = this.text;
+    const n = text.length;
+    let i = 0;
+    // Stops at a token cut at the end of the text; the rest is kept for the next chunk
+    parsing: while (i < n) {
+      const c = text.charCodeAt(i);
+      if (isWhitespace(c)) {
+        i++;
+        continue;
+      }
+      switch (this.expect) {
+        case Expect.Value:
+        case Expect.ValueOrEnd: {
+          if (c === 0x5d && this.expect === Expect.ValueOrEnd) { // ]
+            this.close(i);
+            i++;
+          } else if ((c === 0x7b || c === 0x5b) && this.stack.length >= CAPTURE_DEPTH) {
+            const end = this.containerEnd(i);
+            if (end < 0) {
+              break parsing;
+            }
+            try {
+              this.value(JSON.parse(text.slice(i, end + 1)));
+            } catch (error: unknown) {
+              this.fail(`Invalid value: ${(error as Error).message}`, i);
+            }
+            i = end + 1;
+          } else if (c === 0x7b) { // {
+            this.open({}, Expect.KeyOrEnd);
+            i++;
+          } else if (c === 0x5b) { // [
+            this.open([], Expect.ValueOrEnd);
+            i++;
+          } else if (c === 0x22) { // "
+            const end = this.stringEnd(i);
+            if (end < 0) {
+              break parsing;
+            }
+            this.value(this.string(i, end));
+            i = end + 1;
+          } else if (c === 0x2d || (c >= 0x30 && c <= 0x39)) { // - or digit
+            let end = i + 1;
+            while (end < n && isNumberChar(text.charCodeAt(end))) {
+              end++;
+            }
+            if (end === n && !final) {
+              break parsing;
+            }
+            const token = text.slice(i, end);
+            if (!NUMBER.test(token)) {
+              this.fail(`Invalid number '${token}'`, i);
+            }
+            this.value(Number(token));
+            i = end;
+          } else if (c === 0x74 || c === 0x66 || c === 0x6e) { // t, f, n
+            const length = c === 0x66 ? 5 : 4;
+            if (i + length > n && !final) {
+              break parsing;
+            }
+            const token = text.slice(i, i + length);
+            if (!Object.prototype.hasOwnProperty.call(LITERALS, token)) {
+              this.fail(`Invalid literal '${token}'`, i);
+            }
+            this.value(LITERALS[token]);
+            i += length;
+          } else {
+            this.fail(`Unexpected character '${text[i]}'`, i);
+          }
+          break;
+        }
+        case Expect.Key:
+        case Expect.KeyOrEnd: {
+          if (c === 0x7d && this.expect === Expect.KeyOrEnd) { // }
+            this.close(i);
+            i++;
+          } else if (c === 0x22) {
+            const end = this.stringEnd(i);
+            if (end < 0) {
+              break parsing;
+            }
+            this.key = this.string(i, end);
+            this.expect = Expect.Colon;
+            i = end + 1;
+          } else {
+            this.fail(`Expected a string key, got '${text[i]}'`, i);
+          }
+          break;
+        }
+        case Expect.Colon:
+          if (c !== 0x3a) {
+            this.fail(`Expected ':', got '${text[i]}'`, i);
+          }
+          this.expect = Expect.Value;
+          i++;
+          break;
+        case Expect.CommaOrEnd: {
+          const top = this.stack[this.stack.length - 1];
+          if (c === 0x2c) { // ,
+            this.expect = Array.isArray(top) ? Expect.Value : Expect.Key;
+          } else if (c === (Array.isArray(top) ? 0x5d : 0x7d)) {
+            this.close(i);
+          } else {
+            this.fail(`Expected ',' or '${Array.isArray(top) ? ']' : '}'}', got '${text[i]}'`, i);
+          }
+          i++;
+          break;
+        }
+        case Expect.Done:
+          this.fail(`Unexpected character '${text[i]}' after the end of the document`, i);
+      }
+    }
+    this.text = text.slice(i);
+    this.offset += i;
+  }
+
+  /**
+   * Index of the bracket closing the container starting at start, or -1 if it
+   * is cut off (scanning resumes there with the next chunk).
+   */
+  private containerEnd(start: number): number {
+    const text = this.text;
+    const n = text.length;
+    const scan = this.scan || { index: 1, depth: 1, inString: false };
+    let depth = scan.depth;
+    let inString = scan.inString;
+    let i = start + scan.index;
+    for (; i < n; i++) {
+      const c = text.charCodeAt(i);
+      if (inString) {
+        if (c === 0x5c) { // Skip the escaped character
+          i++;
+        } else if (c === 0x22) {
+          inString = false;
+        }
+      } else if (c === 0x22) {
+        inString = true;
+      } else if (c === 0x5b || c === 0x7b) {
+        depth++;
+      } else if ((c === 0x5d || c === 0x7d) && --depth === 0) {
+        this.scan = null;
+        return i;
+      }
+    }
+    this.scan = { index: i - start, depth, inString };
+    return -1;
+  }
+
+  /**
+   * Index of the closing quote of the string starting at start, or -1 if it is cut off.
+   */
+  private stringEnd(start: number): number {
+    let end = this.text.indexOf('"', start + 1);
+    while (end >= 0) {
+      let backslashes = 0;
+      while (this.text.charCodeAt(end - 1 - backslashes) === 0x5c) {
+        backslashes++;
+      }
+      if (backslashes % 2 === 0) {
+        return end;
+      }
+      end = this.text.indexOf('"', end + 1);
+    }
+    return -1;
+  }
+
+  private string(start: number, end: number): string {
+    const raw = this.text.slice(start + 1, end);
+    if (raw.indexOf('\\') < 0) {
+      return raw;
+    }
+    try {
+      return JSON.parse(this.text.slice(start, end + 1));
+    } catch (error: unknown) {
+      return this.fail(`Invalid string: ${(error as Error).message}`, start);
+    }
+  }
+
+  /**
+   * Add a value to the current container (or make it the document).
+   */
+  private value(value: unknown): void {
+    const top = this.stack[this.stack.length - 1];
+    if (top === undefined) {
+      this.root = value;
+      this.expect = Expect.Done;
+      return;
+    }
+    if (Array.isArray(top)) {
+      top.push(value);
+    } else if (this.key === '__proto__') {
+      Object.defineProperty(top, this.key, { value, writable: true, enumerable: true, configurable: true });
+    } else {
+      top[this.key!] = value;
+    }
+    this.expect = Expect.CommaOrEnd;
+  }
+
+  private open(container: Container, expect: Expect): void {
+    this.value(container);
+    this.stack.push(container);
+    this.expect = expect;
+  }
+
+  private close(position: number): void {
+    if (this.stack.length === 0) {
+      this.fail('Unexpected closing bracket', position);
+    }
+    this.stack.pop();
+    this.expect = this.stack.length === 0 ? Expect.Done : Expect.CommaOrEnd;
+  }
+
+  private fail(message: string, position: number): never {
+    throw new SyntaxError(`${message} in JSON at position ${this.offset + position}`);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Polygon layers: prepared polygons plus their spatial lookup structures.
+ * 
+ * A layer bundles everything the geohash + PIP pipeline needs for one set
+ * of polygons (countries, timezones):
+ * - Geohash index → candidate feature IDs
+ * - Prepared polygons per feature (see prepared.ts)
+ * - Packed R-tree over every exterior ring (see spatial_index.ts)
+ * 
+ * Design Decision: Layers are immutable. DataLoader builds a new layer
+ * whenever polygon data is (re)assigned instead of patching one in place.
+ */
+
+import { GeohashIndex, PolygonsData } from './loader';
+import { PreparedPolygon, PartRef, preparePolygon } from './prepared';
+import { PackedRTree } from './spatial_index';
+import { PackedGeohashIndex, PackedPolygons } from './binary';
+
+/**
+ * Look up candidate IDs for a geohash, falling back to its longest indexed prefix.
+ * 
+ * Indexes may be built at a lower precision than the lookup geohash
+ * (the timezone index uses 4 characters), which the prefix fallback covers.
+ * 
+ * @param index - Geohash index (JSON object or binary key table)
+ * @param geohash - Geohash string
+ * @returns Deduplicated candidate IDs
+ */
+export function lookupGeohash(index: GeohashIndex | PackedGeohashIndex, geohash: string): number[] {
+  const get = index instanceof PackedGeohashIndex
+    ? (key: string) => index.get(key)
+    : (key: string) => index[key];
+
+  // Try full geohash first
+  let candidates = get(geohash) || [];
+
+  // If no exact match, try prefixes (geohash can overlap borders)
+  if (candidates.length === 0) {
+    for (let prefixLen = geohash.length; prefixLen > 0; prefixLen--) {
+      const prefixCandidates = get(geohash.substring(0, prefixLen));
+      if (prefixCandidates) {
+        candidates = prefixCandidates;
+        break;
+      }
+    }
+  }
+
+  // Deduplicate
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * Prepare every polygon of a raw or binary polygon set.
+ * 
+ * @param polygons - Raw or binary polygons keyed by feature ID
+ * @returns Prepared polygons keyed by feature ID
+ */
+export function prepareAll(polygons: PolygonsData | PackedPolygons): Map<string, PreparedPolygon> {
+  const prepared = new Map<string, PreparedPolygon>();
+  if (polygons instanceof PackedPolygons) {
+    for (const id of polygons.ids) {
+      prepared.set(id.toString(), polygons.prepare(id)!);
+    }
+    return prepared;
+  }
+  for (const [idStr, polygonData] of Object.entries(polygons)) {
+    if (polygonData) {
+      prepared.set(idStr, preparePolygon(polygonData));
+    }
+  }
+  return prepared;
+}
+
+/**
+ * Size of a polygon layer (see PolygonLayer.getStats).
+ */
+export interface LayerStats {
+  features: number;
+  parts: number;
+  rings: number; // Exteriors and holes
+  vertices: number;
+  bytes: number; // Approximate memory held by prepared rings and the spatial index
+}
+
+// Approximate JS heap overhead per object (typed array or bbox array header, part record)
+const OBJECT_BYTES = 64;
+
+export class PolygonLayer {
+  private prepared: Map<string, PreparedPolygon>;
+  private partIndex: PackedRTree;
+  private partRefs: PartRef[];
+  private geohashIndex: GeohashIndex | PackedGeohashIndex;
+
+  /**
+   * Prepare every polygon and build the part spatial index.
+   *
+   * @param polygons - Raw, binary or already prepared polygons keyed by feature ID
+   * @param geohashIndex - Geohash → feature IDs (optional; empty when omitted)
+   */
+  constructor(
+    polygons: PolygonsData | PackedPolygons | Map<string, PreparedPolygon>,
+    geohashIndex: GeohashIndex | PackedGeohashIndex = {}
+  ) {
+    // Copy prepared maps so later changes by the caller do not leak in
+    this.prepared = polygons instanceof Map ? new Map(polygons) : prepareAll(polygons);
+    this.partRefs = [];
+    this.geohashIndex = geohashIndex;
+
+    for (const [idStr, polygon] of this.prepared) {
+      const id = parseInt(idStr, 10);
+      polygon.parts.forEach((part, partIndex) => {
+        this.partRefs.push({ id, partIndex, part });
+      });
+    }
+    this.partIndex = new PackedRTree(this.partRefs.map(ref => ref.part.exterior.bbox));
+  }
+
+  /**
+   * IDs of every feature in the layer.
+   */
+  get ids(): number[] {
+    return Array.from(this.prepared.keys()).map(id => parseInt(id, 10));
+  }
+
+  /**
+   * Count features, parts, rings and vertices, and estimate the memory they hold.
+   */
+  getStats(): LayerStats {
+    let rings = 0;
+    let vertices = 0;
+    let bytes = this.partIndex.byteLength + this.partRefs.length * OBJECT_BYTES;
+    for (const { part } of this.partRefs) {
+      for (const ring of [part.exterior, ...part.holes]) {
+        rings++;
+        vertices += ring.coords.length / 2;
+        // Coordinates, plus the typed array and bounding box objects
+        bytes += ring.coords.byteLength + 2 * OBJECT_BYTES;
+      }
+    }
+    return { features: this.prepared.size, parts: this.partRefs.length, rings, vertices, bytes };
+  }
+
+  /**
+   * Get candidate feature IDs for a geohash.
+   */
+  getCandidates(geohash: string): number[] {
+    return lookupGeohash(this.geohashIndex, geohash);
+  }
+
+  /**
+   * Get the prepared polygon for a feature.
+   */
+  getPrepared(id: number): PreparedPolygon | undefined {
+    return this.prepared.get(id.toString());
+  }
+
+  /**
+   * Get parts whose exterior bounding box contains a point.
+   */
+  getPartsAt(lat: number, lon: number): PartRef[] {
+    return this.partIndex.searchPoint(lat, lon).map(i => this.partRefs[i]);
+  }
+
+  /**
+   * Get parts whose exterior bounding box intersects a box.
+   */
+  getPartsInBox(minLat: number, maxLat: number, minLon: number, maxLon: number): PartRef[] {
+    return this.partIndex.search(minLat, maxLat, minLon, maxLon).map(i => this.partRefs[i]);
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Custom polygon layers registered at runtime (delivery zones, sales
+ * territories, ...), resolved alongside countries.
+ * 
+ * A custom layer is a PolygonLayer (see layer.ts) plus the properties of
+ * each feature. Layers are registered by name in a LayerRegistry; every
+ * DataLoader owns one (loader.layers).
+ * 
+ * Design Decisions:
+ * - Features keep their own properties as is; the library never interprets them
+ * - Feature IDs in the polygon layer are positions (1, 2, ...); the ID
+ *   reported in results is the GeoJSON feature ID or the PolygonsData key
+ * - Each layer gets a geohash index built at registration. Unlike the
+ *   sampled indexes of the data files, it lists every feature for every
+ *   cell the feature touches, so geohash candidates alone find all
+ *   (possibly overlapping) features containing a point (see resolver/layers.ts)
+ */
+
+import { GeohashIndex, PolygonsData } from './loader';
+import { PolygonLayer } from './layer';
+import { GEOHASH_PRECISION, encode } from '../geohash';
+import { BoundingBox, PreparedPolygon, PreparedRing, assemblePolygon, preparePolygon, prepareRing } from './prepared';
+
+/**
+ * GeoJSON Feature with a Polygon or MultiPolygon geometry ([lon, lat] coordinates).
+ */
+export interface LayerGeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  properties: Record<string, unknown> | null;
+  geometry: { type: string; coordinates: unknown } | null;
+}
+
+export interface LayerGeoJson {
+  type: 'FeatureCollection';
+  features: LayerGeoJsonFeature[];
+}
+
+/**
+ * Layer data in the library's own polygon format ([lat, lon] coordinates).
+ */
+export interface CustomLayerData {
+  polygons: PolygonsData; // Feature polygons keyed by feature ID
+  properties?: { [featureId: string]: Record<string, unknown> }; // Feature ID → properties
+}
+
+/**
+ * A feature of a custom layer containing a resolved point.
+ */
+export interface LayerFeature {
+  id: string | number;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Convert a GeoJSON ring ([lon, lat], usually closed) to a prepared ring.
+ */
+function prepareGeoJsonRing(ring: number[][]): PreparedRing | null {
+  const points = ring.map(([lon, lat]) => [lat, lon]);
+  if (points.length > 1) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) {
+      points.pop();
+    }
+  }
+  return points.length >= 3 ? prepareRing(points) : null;
+}
+
+// Upper bound on the estimated number of index cells; larger layers get coarser cells
+const MAX_INDEX_CELLS = 100000;
+
+/**
+ * Size of a geohash cell in degrees.
+ * 
+ * @returns [lat height, lon width]
+ */
+function geohashCellSize(precision: number): [number, number] {
+  const bits = precision * 5;
+  return [180 / Math.pow(2, Math.floor(bits / 2)), 360 / Math.pow(2, Math.ceil(bits / 2))];
+}
+
+/**
+ * Pick the finest index precision (at most the lookup precision) whose
+ * cells over the features' bounding boxes stay within MAX_INDEX_CELLS.
+ */
+function layerIndexPrecision(polygons: Iterable<PreparedPolygon>): number {
+  const boxes: BoundingBox[] = [];
+  for (const polygon of polygons) {
+    for (const part of polygon.parts) {
+      boxes.push(part.exterior.bbox);
+    }
+  }
+  for (let precision = GEOHASH_PRECISION; precision > 1; precision--) {
+    const [height, width] = geohashCellSize(precision);
+    const cells = boxes.reduce((sum, [minLat, maxLat, minLon, maxLon]) =>
+      sum + ((maxLat - minLat) / height + 2) * ((maxLon - minLon) / width + 2), 0);
+    if (cells <= MAX_INDEX_CELLS) {
+      return precision;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Longitudes where the rings cross a latitude, sorted.
+ */
+function ringCrossings(rings: PreparedRing[], lat: number): number[] {
+  const crossings: number[] = [];
+  for (const { coords } of rings) {
+    for (let i = 0; i < coords.length; i += 2) {
+      const j = (i + 2) % coords.length;
+      const lat1 = coords[i];
+      const lat2 = coords[j];
+      if ((lat1 > lat) !== (lat2 > lat)) {
+        crossings.push(coords[i + 1] + (lat - lat1) * (coords[j + 1] - coords[i + 1]) / (lat2 - lat1));
+      }
+    }
+  }
+  return crossings.sort((a, b) => a - b);
+}
+
+/**
+ * Build a geohash index listing every cell each feature touches.
+ * 
+ * A cell is either crossed by a ring edge or lies entirely inside or
+ * outside the part:
+ * 1. Edges are walked in steps of half a cell; a step cannot leave the 3×3
+ *    cells around its start, so those cells cover every cell the edge crosses
+ * 2. Cells whose center lies inside the part (scanline over cell centers)
+ *    cover the rest
+ * 
+ * @param polygons - Prepared polygons keyed by feature ID
+ * @returns Geohash → sorted feature IDs
+ */
+function buildLayerIndex(polygons: Map<string, PreparedPolygon>): GeohashIndex {
+  const precision = layerIndexPrecision(polygons.values());
+  const [height, width] = geohashCellSize(precision);
+  const step = Math.min(height, width) / 2;
+  const cells = new Map<string, Set<number>>();
+  const add = (lat: number, lon: number, featureId: number) => {
+    const geohash = encode(Math.max(-90, Math.min(90, lat)), Math.max(-180, Math.min(180, lon)), precision);
+    let ids = cells.get(geohash);
+    if (!ids) {
+      ids = new Set();
+      cells.set(geohash, ids);
+    }
+    ids.add(featureId);
+  };
+
+  for (const [featureIdStr, polygon] of polygons) {
+    const featureId = parseInt(featureIdStr, 10);
+    for (const part of polygon.parts) {
+      const rings = [part.exterior, ...part.holes];
+
+      // Step 1: Cells along the edges
+      for (const { coords } of rings) {
+        for (let i = 0; i < coords.length; i += 2) {
+          const j = (i + 2) % coords.length;
+          const segments = Math.max(1, Math.ceil(
+            Math.max(Math.abs(coords[j] - coords[i]), Math.abs(coords[j + 1] - coords[i + 1])) / step));
+          for (let k = 0; k < segments; k++) {
+            const lat = coords[i] + (coords[j] - coords[i]) * k / segments;
+            const lon = coords[i + 1] + (coords[j + 1] - coords[i + 1]) * k / segments;
+            for (let dLat = -1; dLat <= 1; dLat++) {
+              for (let dLon = -1; dLon <= 1; dLon++) {
+                add(lat + dLat * height, lon + dLon * width, featureId);
+              }
+            }
+          }
+        }
+      }
+
+      // Step 2: Cells inside the part (even-odd rule between crossings)
+      const [minLat, maxLat] = part.exterior.bbox;
+      for (let row = Math.floor((minLat + 90) / height); row * height - 90 <= maxLat; row++) {
+        const lat = (row + 0.5) * height - 90;
+        const crossings = ringCrossings(rings, lat);
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+          for (let col = Math.ceil((crossings[i] + 180) / width - 0.5); (col + 0.5) * width - 180 <= crossings[i + 1]; col++) {
+            add(lat, (col + 0.5) * width - 180, featureId);
+          }
+        }
+      }
+    }
+  }
+
+  const index: GeohashIndex = {};
+  for (const [geohash, ids] of cells) {
+    index[geohash] = Array.from(ids).sort((a, b) => a - b);
+  }
+  return index;
+}
+
+/**
+ * Prepare a GeoJSON Polygon or MultiPolygon geometry.
+ * 
+ * Empty polygons (no rings, or an empty exterior) are skipped like rings
+ * with fewer than three points.
+ * 
+ * @param geometry - Polygon or MultiPolygon geometry
+ * @param label - Feature description for error messages
+ * @throws Error if the coordinates are not nested arrays
+ */
+function prepareGeoJsonGeometry(geometry: { type: string; coordinates: unknown }, label: string): PreparedPolygon {
+  const coordinates = geometry.coordinates;
+  const polygons = geometry.type === 'Polygon'
+    ? [coordinates as number[][][]]
+    : coordinates as number[][][][];
+  const valid = Array.isArray(polygons) && polygons.every(rings =>
+    Array.isArray(rings) && rings.every(ring =>
+      Array.isArray(ring) && ring.every(point => Array.isArray(point) && point.length >= 2)));
+  if (!valid) {
+    throw new Error(
+      `Invalid ${geometry.type} coordinates in ${label}. ` +
+      `Expected ${geometry.type === 'Polygon' ? 'an array of rings' : 'an array of polygons'} ` +
+      `of [lon, lat] positions`
+    );
+  }
+
+  const exteriors: PreparedRing[] = [];
+  const holes: PreparedRing[] = [];
+  for (const rings of polygons) {
+    if (rings.length === 0) {
+      continue;
+    }
+    const exterior = prepareGeoJsonRing(rings[0]);
+    if (!exterior) {
+      continue;
+    }
+    exteriors.push(exterior);
+    for (const hole of rings.slice(1)) {
+      const prepared = prepareGeoJsonRing(hole);
+      if (prepared) {
+        holes.push(prepared);
+      }
+    }
+  }
+  return assemblePolygon(exteriors, holes);
+}
+
+/**
+ * A named set of polygons with arbitrary properties.
+ */
+export class CustomLayer {
+  readonly name: string;
+  readonly polygonLayer: PolygonLayer;
+  private features: LayerFeature[] = [];
+
+  /**
+   * @param name - Layer name
+   * @param data - GeoJSON FeatureCollection (Polygon/MultiPolygon features; other
+   *   geometries are ignored) or polygons in the library's format with properties
+   */
+  constructor(name: string, data: LayerGeoJson | CustomLayerData) {
+    this.name = name;
+    const prepared = new Map<string, PreparedPolygon>();
+    const add = (feature: LayerFeature, polygon: PreparedPolygon) => {
+      if (polygon.parts.length > 0) {
+        this.features.push(feature);
+        prepared.set(this.features.length.toString(), polygon);
+      }
+    };
+
+    if ((data as LayerGeoJson).type === 'FeatureCollection') {
+      (data as LayerGeoJson).features.forEach((feature, i) => {
+        const geometry = feature.geometry;
+        if (geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon')) {
+          const id = feature.id !== undefined ? feature.id : i + 1;
+          add(
+            { id, properties: feature.properties || {} },
+            prepareGeoJsonGeometry(geometry, `feature ${JSON.stringify(id)} of layer "${name}"`)
+          );
+        }
+      });
+    } else if ((data as CustomLayerData).polygons) {
+      const { polygons, properties } = data as CustomLayerData;
+      for (const [id, polygonData] of Object.entries(polygons)) {
+        const featureProperties = properties ? properties[id] : undefined;
+        add({ id, properties: featureProperties || {} }, preparePolygon(polygonData));
+      }
+    } else {
+      throw new Error(
+        `Layer "${name}" must be a GeoJSON FeatureCollection or { polygons, properties } ` +
+        `in the library's polygon format`
+      );
+    }
+
+    this.polygonLayer = new PolygonLayer(prepared, buildLayerIndex(prepared));
+  }
+
+  /**
+   * Number of features with at least one usable ring.
+   */
+  get size(): number {
+    return this.features.length;
+  }
+
+  /**
+   * Get a feature by its position in the polygon layer (1-based).
+   */
+  getFeature(index: number): LayerFeature | undefined {
+    return this.features[index - 1];
+  }
+}
+
+/**
+ * Custom layers by name.
+ * 
+ * @example
+ * ```typescript
+ * loader.layers.register('delivery', deliveryZones); // GeoJSON FeatureCollection
+ * const result = await resolve(52.52, 13.405, { loader, layers: ['delivery'] });
+ * console.log(result.layers.delivery); // [{ id: 'zone-7', properties: { fee: 4.5 } }]
+ * ```
+ */
+export class LayerRegistry {
+  private layers: Map<string, CustomLayer> = new Map();
+
+  /**
+   * Register a layer, replacing any layer with the same name.
+   * 
+   * @param name - Layer name (used in the layers resolve option and in results)
+   * @param data - GeoJSON FeatureCollection or { polygons, properties }
+   * @returns The prepared layer
+   */
+  register(name: string, data: LayerGeoJson | CustomLayerData): CustomLayer {
+    const layer = new CustomLayer(name, data);
+    this.layers.set(name, layer);
+    return layer;
+  }
+
+  /**
+   * Remove a layer.
+   * 
+   * @returns Whether the layer was registered
+   */
+  unregister(name: string): boolean {
+    return this.layers.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.layers.has(name);
+  }
+
+  /**
+   * Get a registered layer.
+   * 
+   * @throws Error if no layer is registered under the name
+   */
+  get(name: string): CustomLayer {
+    const layer = this.layers.get(name);
+    if (!layer) {
+      const names = this.names;
+      throw new Error(
+        `Layer "${name}" is not registered. ` +
+        (names.length > 0 ? `Registered layers: ${names.join(', ')}` : 'No layers are registered.')
+      );
+    }
+    return layer;
+  }
+
+  /**
+   * Names of the registered layers, in registration order.
+   */
+  get names(): string[] {
+    return Array.from(this.layers.keys());
+  }
+}
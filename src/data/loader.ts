@@ -5,20 +5,77 @@
  * 1. geohash_index.json(.gz) - Geohash → country_id mappings (compressed)
  * 2. polygons.json(.gz) - Country polygons (simplified, coordinate arrays)
  * 3. metadata.json(.gz) - Country metadata (ISO codes, continent, timezone)
+ * 4. timezone_index.json(.gz) - Geohash → timezone_id mappings (optional)
+ * 5. timezone_polygons.json(.gz) - IANA timezone polygons (optional)
+ * 6. timezone_metadata.json(.gz) - Timezone ID → IANA tzid (optional)
+ * 7. subdivision_index.json(.gz) - Geohash → subdivision_id mappings (optional)
+ * 8. subdivision_polygons.json(.gz) - ISO 3166-2 subdivision polygons (optional)
+ * 9. subdivision_metadata.json(.gz) - Subdivision ID → name, code, type (optional)
+ * 
+ * geohash_index.bin(.gz) and polygons.bin(.gz) are binary alternatives to
+ * files 1-2 (see binary.ts). They are preferred when present; the JSON files
+ * stay supported.
+ * 
+ * polygon_chunks.json(.gz) replaces file 2 when polygons are loaded lazily
+ * (lazyPolygons option): it lists one polygon file per country with the
+ * country's bounding box.
+ * 
+ * manifest.json (uncompressed, optional) records the dataset version and
+ * the SHA-256 of every data file; when present, each file is verified as it
+ * is read (see manifest.ts).
  * 
  * Design Decisions:
  * - JSON for simplicity (can be compressed/gzipped in production)
  * - Supports gzip compression for reduced file size
  * - Lazy loading: Load only when needed
  * - In-memory caching: Keep in memory after first load
+ * - Prepared polygons: Typed rings built once per load (see prepared.ts)
+ * - Spatial index: Packed R-tree over every exterior ring (see spatial_index.ts)
+ * - Timezone files are optional: without them, timezone falls back to the
+ *   country metadata value, or null when that is empty (as in the bundled
+ *   data). load() reads them from the data source even when the country data
+ *   was set by hand; setTimezones() overrides them
+ * - Subdivision files are optional and loaded on demand (loadSubdivisions()),
+ *   since most callers only need country-level results
+ * - Binary data is kept packed: raw JSON-shaped polygons and index objects
+ *   are only materialized if the polygons/geohashIndex getters are used
+ * - Lazy polygons: a country's chunk is read the first time the country is
+ *   a candidate for a point inside its bounding box, so startup only loads
+ *   the geohash index, metadata and chunk manifest
+ * - CDN loads can opt into a persistent cache (cache option, see cache.ts)
+ * - Memory can be released (unload(), unloadPolygons()); released data is
+ *   read again from the data source when a resolution needs it
+ * - Custom layers (loader.layers) are registered in memory by the caller
+ *   and never read from the data source
+ * - I/O is delegated to a DataSource (see sources.ts): a directory by
+ *   default, a base URL with loadFromCDN(), or any source passed to the
+ *   constructor
  */
 
+import { PreparedPolygon, PartRef, BoundingBox, preparePolygon, toPolygonData } from './prepared';
+import { PolygonLayer, lookupGeohash } from './layer';
+import { LayerRegistry } from './layers';
+import { PackedGeohashIndex, PackedPolygons } from './binary';
+import { PackedRTree } from './spatial_index';
+import {
+  DatasetManifest,
+  DataIntegrityError,
+  DataFileVerifier,
+  MANIFEST_FILE,
+  parseManifest,
+  verifyDataFile
+} from './manifest';
+import { JsonStreamParser } from './json_stream';
+import { DataCacheStore, DatasetCache, getCacheStore } from './cache';
+import { DataFileContents, DataSource, FetchDataSource, FileSystemDataSource } from './sources';
+
 export interface CountryMetadata {
   name: string;
   iso2: string;
   iso3: string;
   continent: string;
   timezone: string;
+  names?: { [locale: string]: string }; // Localized names by language code, e.g. { de: "Deutschland" }
 }
 
 export interface PolygonData {
@@ -40,99 +97,388 @@ export interface MetadataData {
   [countryId: string]: CountryMetadata;
 }
 
+export interface TimezoneMetadata {
+  tzid: string; // IANA timezone name, e.g. "America/New_York"
+}
+
+export interface TimezoneMetadataData {
+  [timezoneId: string]: TimezoneMetadata;
+}
+
+export interface TimezoneData {
+  index: GeohashIndex; // Geohash → timezone IDs
+  polygons: PolygonsData; // Timezone polygons keyed by timezone ID
+  metadata: TimezoneMetadataData;
+}
+
+export interface SubdivisionMetadata {
+  name: string;
+  code: string; // ISO 3166-2 code, e.g. "US-CA"
+  type: string; // e.g. "State", "Province"
+  country: string; // ISO 3166-1 alpha-2 code of the parent country
+}
+
+export interface SubdivisionMetadataData {
+  [subdivisionId: string]: SubdivisionMetadata;
+}
+
+export interface SubdivisionData {
+  index: GeohashIndex; // Geohash → subdivision IDs
+  polygons: PolygonsData; // Subdivision polygons keyed by subdivision ID
+  metadata: SubdivisionMetadataData;
+}
+
+export interface PolygonChunk {
+  file: string; // Path relative to the data directory: .json or .bin, without .gz
+  bbox: BoundingBox; // [minLat, maxLat, minLon, maxLon] of every exterior
+}
+
+export interface PolygonChunkManifest {
+  version: number;
+  countries: { [countryId: string]: PolygonChunk };
+}
+
+/**
+ * Emitted after reload() swapped in a new dataset.
+ */
+export interface DatasetReloadEvent {
+  oldVersion: string | null; // manifest.json version of the replaced data (null without a manifest)
+  newVersion: string | null; // manifest.json version of the new data (null without a manifest)
+  location: string; // Location of the new data source
+  listenerErrors?: unknown[]; // Errors thrown by 'reload' listeners (only when one threw)
+}
+
+export type DatasetReloadListener = (event: DatasetReloadEvent) => void;
+
+export interface DataLoaderReloadOptions {
+  // Extra checks on the new data before it is swapped in; throw to keep the current data
+  validate?: (loader: DataLoader) => void | Promise<void>;
+}
+
+/**
+ * Memory held by a loader's country data (see DataLoader.getStats).
+ * Byte counts are estimates of the JavaScript heap in use.
+ */
+export interface DataLoaderStats {
+  loaded: boolean; // Whether the country data is in memory
+  geohashIndex: {
+    entries: number; // Geohash keys
+    bytes: number;
+  };
+  polygons: {
+    countries: number; // Countries with polygons in memory (with lazy polygons: loaded so far)
+    parts: number;
+    rings: number;
+    vertices: number;
+    bytes: number; // Prepared rings, spatial index and raw polygon data
+  };
+  metadata: {
+    countries: number;
+    bytes: number;
+  };
+  totalBytes: number;
+}
+
+export interface DataLoaderOptions {
+  lazyPolygons?: boolean; // Load per-country polygon chunks on demand (default: false)
+  verifyIntegrity?: boolean; // Check data files against manifest.json when present (default: true)
+}
+
+// Read instead of the polygon file with lazyPolygons (also checked by isCached())
+export const POLYGON_CHUNKS_FILE = 'polygon_chunks.json';
+
+const TIMEZONE_FILES = {
+  index: 'timezone_index.json',
+  polygons: 'timezone_polygons.json',
+  metadata: 'timezone_metadata.json'
+};
+
+const BINARY_FILES = {
+  geohashIndex: 'geohash_index.bin',
+  polygons: 'polygons.bin'
+};
+
+const SUBDIVISION_FILES = {
+  index: 'subdivision_index.json',
+  polygons: 'subdivision_polygons.json',
+  metadata: 'subdivision_metadata.json'
+};
+
+// Approximate JS heap bytes of raw JSON data: one [lat, lon] array per vertex,
+// one array per ring, one geohash index entry (key string and ID array)
+const VERTEX_BYTES = 48;
+const ARRAY_BYTES = 32;
+const INDEX_ENTRY_BYTES = 80;
+
+/**
+ * Estimate the heap bytes of raw polygon data.
+ */
+function estimatePolygonBytes(polygon: PolygonData): number {
+  const rings = [...(polygon.multi && polygon.exteriors ? polygon.exteriors : [polygon.exterior]), ...(polygon.holes || [])];
+  return rings.reduce((bytes, ring) => bytes + ARRAY_BYTES + (ring ? ring.length * VERTEX_BYTES : 0), ARRAY_BYTES);
+}
+
+/**
+ * Parse UTF-8 JSON bytes.
+ */
+function parseJson(bytes: Uint8Array): any {
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+/**
+ * Rethrow integrity errors from optional files; any other failure means "not available".
+ */
+function unlessIntegrityError(error: unknown): null {
+  if (error instanceof DataIntegrityError) {
+    throw error;
+  }
+  return null;
+}
+
 /**
  * Loads and caches geo-intelligence data.
  */
 export class DataLoader {
-  private dataDir: string;
+  /** Custom polygon layers resolved alongside countries (see layers.ts) */
+  readonly layers: LayerRegistry = new LayerRegistry();
+  private source: DataSource;
   private _geohashIndex: GeohashIndex | null = null;
   private _polygons: PolygonsData | null = null;
+  private _packedGeohashIndex: PackedGeohashIndex | null = null;
+  private _packedPolygons: PackedPolygons | null = null;
   private _metadata: MetadataData | null = null;
+  private _countryLayer: PolygonLayer | null = null;
+  private _timezones: TimezoneData | null = null;
+  private _timezoneLayer: PolygonLayer | null = null;
+  private _subdivisions: SubdivisionData | null = null;
+  private _subdivisionLayer: PolygonLayer | null = null;
   private loadPromise: Promise<void> | null = null;
+  // Timezone files read (or skipped) for the current data; null: not yet
+  private timezonePromise: Promise<void> | null = null;
+  private subdivisionPromise: Promise<void> | null = null;
+  private cache: DatasetCache | null = null;
+  private lazyPolygons: boolean;
+  private verifyIntegrity: boolean;
+  private manifest: DatasetManifest | null = null;
+  private manifestPromise: Promise<void> | null = null;
+  private chunkManifest: PolygonChunkManifest | null = null;
+  private chunkIndex: { tree: PackedRTree; countryIds: number[] } | null = null;
+  private chunkPromises: Map<number, Promise<void>> = new Map();
+  private chunkPrepared: Map<string, PreparedPolygon> = new Map();
+  // null: raw data not kept, rebuilt from the prepared polygon when needed
+  private chunkSources: Map<number, PolygonData | PackedPolygons | null> = new Map();
+  private chunkLayerStale = false;
+  // Data file the polygons were read from (null when set manually), for unloadPolygons()
+  private polygonFile: string | null = null;
+  // Operations running in withData(), and the swap waiting for them to finish
+  private activeOperations = 0;
+  private swapPending: Promise<void> | null = null;
+  private onOperationsDone: (() => void) | null = null;
+  private reloadQueue: Promise<unknown> = Promise.resolve();
+  private listeners: { reload: DatasetReloadListener[] } = { reload: [] };
 
-  constructor(dataDir?: string) {
+  /**
+   * @param source - Data directory (default: ./data) or a DataSource (see sources.ts)
+   * @param options - Loader options
+   * @param options.lazyPolygons - Read polygon_chunks.json instead of the full polygon file
+   *   and load each country's polygons the first time it is a candidate (default: false)
+   * @param options.verifyIntegrity - Verify every data file against manifest.json when the
+   *   data source provides one, throwing DataIntegrityError on mismatch (default: true)
+   */
+  constructor(source?: string | DataSource, options: DataLoaderOptions = {}) {
     // Default to package data directory
-    // In browser, this will need to be provided via CDN or bundled
-    this.dataDir = dataDir || './data';
-  }
-
-  /**
-   * Load JSON data from a file.
-   * In browser environment, this should fetch from CDN or use bundled data.
-   * In Node.js, this reads from filesystem.
-   */
-  private async loadJson(filename: string): Promise<any> {
-    // Check if we're in Node.js environment
-    // Use a more reliable check that works with both CommonJS and ES modules
-    const isNode = typeof process !== 'undefined' && 
-                   process.versions != null && 
-                   process.versions.node != null;
-    
-    if (isNode) {
-      // Node.js environment - use fs module
-      // Use require for CommonJS compatibility (works in both CJS and ESM via ts-node/jest)
-      let fs: any;
-      let path: any;
-      let zlib: any;
-      
-      try {
-        // Use require which works in both CommonJS and when transpiled
-        // eslint-disable-next-line @typescript-eslint/no-require-imports
-        fs = require('fs');
-        // eslint-disable-next-line @typescript-eslint/no-require-imports
-        path = require('path');
-        // eslint-disable-next-line @typescript-eslint/no-require-imports
-        zlib = require('zlib');
-      } catch (error: any) {
-        throw new Error(`Failed to load Node.js modules: ${error.message}`);
-      }
-      
-      const filepath = path.join(this.dataDir, filename);
-      const gzipFilepath = path.join(this.dataDir, `${filename}.gz`);
-      
-      // Try compressed version first
-      if (fs.existsSync(gzipFilepath)) {
+    // In browser, pass a FetchDataSource or use loadFromCDN()
+    this.source = typeof source === 'object' ? source : new FileSystemDataSource(source || './data');
+    this.lazyPolygons = options.lazyPolygons === true;
+    this.verifyIntegrity = options.verifyIntegrity !== false;
+  }
+
+  /**
+   * Read a data file from the data source (or the dataset cache) and verify it
+   * against the manifest.
+   * 
+   * @param filename - Data file name (without .gz)
+   * @param optional - Return null instead of throwing when the file does not exist
+   * @returns File contents
+   */
+  private async readFile(filename: string, optional: boolean = false): Promise<DataFileContents | null> {
+    // Cache entries are keyed by dataset version, so unversioned datasets are not cached
+    const cache = this.cache;
+    const version = cache && this.manifest ? this.manifest.version : null;
+    if (version !== null) {
+      const cached = await cache!.getFile(version, filename).catch(() => null);
+      if (cached) {
         try {
-          const compressed = fs.readFileSync(gzipFilepath);
-          const decompressed = zlib.gunzipSync(compressed);
-          return JSON.parse(decompressed.toString('utf-8'));
-        } catch (error: any) {
-          // If decompression fails, try uncompressed
-          if (fs.existsSync(filepath)) {
-            return JSON.parse(fs.readFileSync(filepath, 'utf-8'));
+          await this.verify(filename, cached);
+          return cached;
+        } catch (error: unknown) {
+          if (!(error instanceof DataIntegrityError)) {
+            throw error;
           }
-          throw error;
+          // Stale or damaged entry: read the file again
         }
       }
-      
-      // Fallback to uncompressed
-      if (fs.existsSync(filepath)) {
-        return JSON.parse(fs.readFileSync(filepath, 'utf-8'));
+    }
+
+    const contents = await this.source.read(filename);
+    if (contents === null) {
+      if (optional) {
+        return null;
       }
-      
-      throw new Error(
-        `Data file not found: ${gzipFilepath} or ${filepath}\n` +
-        `Please ensure data files are available in ${this.dataDir}\n` +
-        `Run: bash scripts/copy-data.sh`
-      );
-    } else {
-      // Browser environment - fetch from URL or use bundled data
-      // For now, throw error - user must provide data via setData methods
       throw new Error(
-        `Data loading not implemented for browser. ` +
-        `Use loadFromCDN() or setGeohashIndex(), setPolygons(), and setMetadata() to provide data.`
+        `Data file not found: ${filename}(.gz) in ${this.source.location}\n` +
+        `Please ensure data files are available in ${this.source.location}\n` +
+        `To build a dataset from GeoJSON, run: npm run build:dataset -- --input <FeatureCollection.geojson>`
       );
     }
+    if (contents instanceof Uint8Array) {
+      await this.verify(filename, contents);
+      if (version !== null) {
+        // Caching is best effort (e.g. storage quota exceeded)
+        await cache!.setFile(version, filename, contents).catch(() => undefined);
+      }
+    }
+    return contents;
+  }
+
+  /**
+   * Load a JSON data file (see readFile).
+   * 
+   * @param filename - Data file name (without .gz)
+   * @param optional - Return null instead of throwing when the file does not exist
+   */
+  private async loadJson(filename: string, optional: boolean = false): Promise<any> {
+    // The dataset cache stores whole files, so cached datasets are read in one piece
+    if (this.source.stream && this.cache === null) {
+      const streamed = await this.streamJson(filename);
+      if (streamed !== null) {
+        return streamed.value;
+      }
+    }
+    const contents = await this.readFile(filename, optional);
+    if (contents === null) {
+      return null;
+    }
+    return contents instanceof Uint8Array ? parseJson(contents) : contents.json;
+  }
+
+  /**
+   * Stream a JSON data file from the data source, verifying and parsing it
+   * chunk by chunk (see json_stream.ts).
+   * 
+   * @param filename - Data file name (without .gz)
+   * @returns The parsed file, or null to read it with readFile() instead: the file
+   *   does not exist, or it failed to decompress or parse (e.g. a damaged .gz next
+   *   to an intact uncompressed file)
+   * @throws DataIntegrityError if the file does not match the manifest
+   */
+  private async streamJson(filename: string): Promise<{ value: unknown } | null> {
+    const chunks = await this.source.stream!(filename);
+    if (chunks === null) {
+      return null;
+    }
+    const verifier = this.manifest !== null && this.verifyIntegrity ? new DataFileVerifier(this.manifest, filename) : null;
+    const parser = new JsonStreamParser();
+    let value: unknown;
+    try {
+      for await (const chunk of chunks) {
+        if (verifier) {
+          verifier.update(chunk);
+        }
+        parser.write(chunk);
+      }
+      value = parser.end();
+    } catch {
+      return null;
+    }
+    if (verifier) {
+      await verifier.verify();
+    }
+    return { value };
+  }
+
+  /**
+   * Load a binary data file (see readFile).
+   * 
+   * @param filename - Data file name (without .gz)
+   * @param optional - Return null instead of throwing when the file does not exist
+   * @returns File contents
+   */
+  private async loadBinary(filename: string, optional: boolean = false): Promise<Uint8Array | null> {
+    const contents = await this.readFile(filename, optional);
+    if (contents !== null && !(contents instanceof Uint8Array)) {
+      throw new Error(`Data file ${filename} must be provided as bytes (ArrayBuffer or Uint8Array), not JSON`);
+    }
+    return contents;
+  }
+
+  /**
+   * Verify a data file against the dataset manifest, if there is one.
+   * 
+   * @throws DataIntegrityError if the file does not match
+   */
+  private async verify(filename: string, bytes: Uint8Array): Promise<void> {
+    if (this.manifest !== null && this.verifyIntegrity) {
+      await verifyDataFile(this.manifest, filename, bytes);
+    }
+  }
+
+  /**
+   * Load manifest.json from the data source (cached).
+   */
+  private loadManifest(): Promise<void> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = this.readManifest().catch(error => {
+        this.manifestPromise = null; // Reset on error
+        throw error;
+      });
+    }
+    return this.manifestPromise;
+  }
+
+  /**
+   * Read manifest.json (optional, never compressed).
+   */
+  private async readManifest(): Promise<void> {
+    this.manifest = null;
+    // A missing manifest means an unverified dataset, as before manifests existed
+    let contents = await this.source.read(MANIFEST_FILE).catch(error => {
+      if (!this.cache) {
+        throw error;
+      }
+      return null;
+    });
+    if (contents === null && this.cache) {
+      // Offline: use the manifest of the last complete cached load
+      const cached = await this.cache.getManifest().catch(() => null);
+      contents = cached && { json: cached };
+    }
+    if (contents !== null) {
+      this.manifest = parseManifest(contents instanceof Uint8Array ? parseJson(contents) : contents.json);
+    }
   }
 
   /**
    * Load data from CDN URLs (browser only).
-   * Fetches and decompresses gzipped JSON files from provided URLs.
+   * Fetches and decompresses gzipped JSON files from provided URLs
+   * (with a FetchDataSource, which then also serves chunks and subdivisions).
    * 
    * @param baseUrl - Base URL for data files (e.g., 'https://cdn.example.com/data')
    * @param options - Optional configuration
    * @param options.useGzip - Whether to use .gz files (default: true)
    * @param options.filenames - Custom filenames (default: geohash_index.json, polygons.json, metadata.json)
+   * @param options.format - 'json' (default) or 'binary': fetch geohash_index.bin and polygons.bin
+   *   (same names as the JSON files with .bin) instead of the JSON files
+   * @param options.lazyPolygons - Fetch polygon_chunks.json instead of the polygon file and
+   *   fetch each country's polygons on demand (default: the constructor option)
+   * @param options.verifyIntegrity - Verify the fetched files against manifest.json when the
+   *   CDN serves one (default: the constructor option)
+   * @param options.cache - Keep fetched files in a persistent cache keyed by the dataset
+   *   version (manifest.json), so later loads of the same version need no network access:
+   *   true for IndexedDB, or a DataCacheStore (default: false). See cache.ts.
+   * @param options.fetch - fetch implementation (default: the global fetch)
+   * @param options.timezones - Also fetch the timezone files (default: true). They are optional:
+   *   if any of them cannot be fetched, timezone falls back to country metadata.
    * 
    * @example
    * ```typescript
@@ -145,6 +491,12 @@ export class DataLoader {
     baseUrl: string,
     options: {
       useGzip?: boolean;
+      timezones?: boolean;
+      format?: 'json' | 'binary';
+      lazyPolygons?: boolean;
+      verifyIntegrity?: boolean;
+      cache?: boolean | DataCacheStore;
+      fetch?: typeof fetch;
       filenames?: {
         geohashIndex?: string;
         polygons?: string;
@@ -152,70 +504,71 @@ export class DataLoader {
       };
     } = {}
   ): Promise<void> {
-    const useGzip = options.useGzip !== false; // Default to true
     const filenames = {
       geohashIndex: options.filenames?.geohashIndex || 'geohash_index.json',
       polygons: options.filenames?.polygons || 'polygons.json',
       metadata: options.filenames?.metadata || 'metadata.json'
     };
 
-    // Ensure baseUrl doesn't end with /
-    const base = baseUrl.replace(/\/$/, '');
+    const source = new FetchDataSource(baseUrl, { useGzip: options.useGzip, fetch: options.fetch });
+    const store = getCacheStore(options.cache);
+    this.source = source;
+    this.cache = store ? new DatasetCache(store, source.location) : null;
+    if (options.lazyPolygons !== undefined) {
+      this.lazyPolygons = options.lazyPolygons;
+    }
+    if (options.verifyIntegrity !== undefined) {
+      this.verifyIntegrity = options.verifyIntegrity;
+    }
+    const lazy = this.lazyPolygons;
+    if (lazy) {
+      filenames.polygons = POLYGON_CHUNKS_FILE;
+    }
+
+    this.manifestPromise = null; // New data source
+    await this.loadManifest();
 
-    // Helper to fetch and decompress JSON
-    const fetchJson = async (url: string, isGzipped: boolean): Promise<any> => {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
-      }
+    // Timezone files are optional: any failure except a manifest mismatch leaves
+    // timezone lookup disabled
+    const timezonePromise = options.timezones === false
+      ? Promise.resolve(null)
+      : Promise.all([
+          this.loadJson(TIMEZONE_FILES.index),
+          this.loadJson(TIMEZONE_FILES.polygons),
+          this.loadJson(TIMEZONE_FILES.metadata)
+        ]).catch(unlessIntegrityError);
+    // Avoid an unhandled rejection when the country files fail first
+    timezonePromise.catch(() => undefined);
 
-      if (isGzipped) {
-        // Use browser's native DecompressionStream API (available in modern browsers)
-        if (typeof DecompressionStream !== 'undefined') {
-          const stream = response.body!.pipeThrough(new DecompressionStream('gzip'));
-          const decompressed = await new Response(stream).arrayBuffer();
-          const text = new TextDecoder().decode(decompressed);
-          return JSON.parse(text);
-        } else {
-          // Fallback: try to fetch as blob and use pako if available, or throw helpful error
-          throw new Error(
-            `Gzip decompression requires DecompressionStream API (Chrome 80+, Firefox 113+, Safari 16.4+). ` +
-            `Either use uncompressed files (set useGzip: false) or include pako library for older browsers.`
-          );
-        }
-      } else {
-        return response.json();
-      }
-    };
+    // Binary files share the JSON file names with a .bin extension
+    const binary = options.format === 'binary';
+    if (binary) {
+      filenames.geohashIndex = filenames.geohashIndex.replace(/\.json$/, '.bin');
+      filenames.polygons = filenames.polygons.replace(/\.json$/, '.bin');
+    }
 
     try {
       // Load all data files in parallel
       const [geohashData, polygonsData, metadataData] = await Promise.all([
-        fetchJson(
-          `${base}/${filenames.geohashIndex}${useGzip ? '.gz' : ''}`,
-          useGzip
-        ),
-        fetchJson(
-          `${base}/${filenames.polygons}${useGzip ? '.gz' : ''}`,
-          useGzip
-        ),
-        fetchJson(
-          `${base}/${filenames.metadata}${useGzip ? '.gz' : ''}`,
-          useGzip
-        )
+        binary ? this.loadBinary(filenames.geohashIndex) : this.loadJson(filenames.geohashIndex),
+        binary && !lazy ? this.loadBinary(filenames.polygons) : this.loadJson(filenames.polygons),
+        this.loadJson(filenames.metadata)
       ]);
 
-      // Process geohash index
-      this._geohashIndex = {};
-      for (const [k, v] of Object.entries(geohashData)) {
-        this._geohashIndex[k] = Array.isArray(v) ? v : [v];
+      if (binary) {
+        this.setGeohashIndexBinary(geohashData);
+      } else {
+        this.setGeohashIndexJson(geohashData);
       }
 
-      // Process polygons (convert string keys to numbers)
-      this._polygons = {};
-      for (const [k, v] of Object.entries(polygonsData)) {
-        this._polygons[k] = v as PolygonData;
+      if (lazy) {
+        this.setPolygonChunks(polygonsData);
+      } else if (binary) {
+        this.setPolygonsBinary(polygonsData);
+      } else {
+        this.setPolygonsJson(polygonsData);
       }
+      this.polygonFile = filenames.polygons;
 
       // Process metadata (convert string keys to numbers)
       this._metadata = {};
@@ -223,15 +576,29 @@ export class DataLoader {
         this._metadata[k] = v as CountryMetadata;
       }
     } catch (error: any) {
+      if (error instanceof DataIntegrityError) {
+        throw error;
+      }
       throw new Error(
         `Failed to load data from CDN: ${error.message}\n` +
         `Base URL: ${baseUrl}\n` +
         `Make sure the data files are accessible at:\n` +
-        `  - ${base}/${filenames.geohashIndex}${useGzip ? '.gz' : ''}\n` +
-        `  - ${base}/${filenames.polygons}${useGzip ? '.gz' : ''}\n` +
-        `  - ${base}/${filenames.metadata}${useGzip ? '.gz' : ''}`
+        `  - ${source.url(filenames.geohashIndex)}\n` +
+        `  - ${source.url(filenames.polygons)}\n` +
+        `  - ${source.url(filenames.metadata)}`
       );
     }
+
+    const timezoneData = await timezonePromise;
+    if (timezoneData) {
+      const [index, polygons, metadata] = timezoneData;
+      this.setTimezones({ index, polygons, metadata });
+    }
+    this.timezonePromise = Promise.resolve(); // Also when disabled with timezones: false
+
+    if (this.cache && this.manifest) {
+      await this.cache.setManifest(this.manifest).catch(() => undefined);
+    }
   }
 
   /**
@@ -239,6 +606,7 @@ export class DataLoader {
    */
   setGeohashIndex(index: GeohashIndex): void {
     this._geohashIndex = index;
+    this._packedGeohashIndex = null;
   }
 
   /**
@@ -246,6 +614,516 @@ export class DataLoader {
    */
   setPolygons(polygons: PolygonsData): void {
     this._polygons = polygons;
+    this._packedPolygons = null;
+    this.polygonFile = null;
+    this.clearPolygonChunks();
+    this.preparePolygons();
+  }
+
+  /**
+   * Set the geohash index from a geohash_index.bin buffer (see binary.ts).
+   */
+  setGeohashIndexBinary(buffer: ArrayBuffer | Uint8Array): void {
+    this._packedGeohashIndex = new PackedGeohashIndex(buffer);
+    this._geohashIndex = null;
+  }
+
+  /**
+   * Set polygons from a polygons.bin buffer (see binary.ts).
+   */
+  setPolygonsBinary(buffer: ArrayBuffer | Uint8Array): void {
+    this._packedPolygons = new PackedPolygons(buffer);
+    this._polygons = null;
+    this.polygonFile = null;
+    this.clearPolygonChunks();
+    this.preparePolygons();
+  }
+
+  /**
+   * Switch to lazily loaded polygons described by a chunk manifest.
+   */
+  private setPolygonChunks(manifest: PolygonChunkManifest): void {
+    this.clearPolygonChunks();
+    const countryIds = Object.keys(manifest.countries).map(id => parseInt(id, 10));
+    this.chunkManifest = manifest;
+    this.chunkIndex = {
+      tree: new PackedRTree(countryIds.map(id => manifest.countries[id].bbox)),
+      countryIds
+    };
+    this._polygons = null;
+    this._packedPolygons = null;
+    this.preparePolygons();
+  }
+
+  /**
+   * Forget the chunk manifest and every loaded chunk.
+   */
+  private clearPolygonChunks(): void {
+    this.chunkManifest = null;
+    this.chunkIndex = null;
+    this.chunkPromises = new Map();
+    this.chunkPrepared = new Map();
+    this.chunkSources = new Map();
+    this.chunkLayerStale = false;
+  }
+
+  /**
+   * Read one polygon chunk from the data source.
+   */
+  private async readChunk(file: string): Promise<PolygonsData | PackedPolygons> {
+    return file.endsWith('.bin') ? new PackedPolygons((await this.loadBinary(file))!) : this.loadJson(file);
+  }
+
+  /**
+   * Load and prepare the chunk of one country.
+   * 
+   * @param countryId - Country ID
+   * @param chunk - Chunk manifest entry of the country
+   * @param read - Reads a chunk file (shared by countries loaded together, which
+   *   may use the same file after unloadPolygons())
+   */
+  private async loadChunk(
+    countryId: number,
+    chunk: PolygonChunk,
+    read: (file: string) => Promise<PolygonsData | PackedPolygons>
+  ): Promise<void> {
+    const manifest = this.chunkManifest;
+    const data = await read(chunk.file);
+    if (manifest !== this.chunkManifest) {
+      return; // Polygons were replaced while the chunk was loading
+    }
+
+    // A binary file of every country (polygons.bin after unloadPolygons()) is not kept
+    const source = data instanceof PackedPolygons
+      ? (data.ids.length === 1 ? data : null)
+      : data[countryId.toString()];
+    const prepared = data instanceof PackedPolygons
+      ? data.prepare(countryId)
+      : source && preparePolygon(source as PolygonData);
+    if (!prepared) {
+      throw new Error(`Polygon chunk ${chunk.file} does not contain country ID ${countryId}`);
+    }
+    this.chunkPrepared.set(countryId.toString(), prepared);
+    this.chunkSources.set(countryId, source);
+    this._polygons = null;
+    this.chunkLayerStale = true;
+  }
+
+  /**
+   * Load the polygons of countries that are not loaded yet (lazy polygons only).
+   * 
+   * Without lazy polygons every polygon is loaded up front and this does nothing.
+   * 
+   * @param countryIds - Country IDs (IDs without a chunk are ignored)
+   * @param at - Only load countries whose bounding box contains this [lat, lon]
+   *   point; no other country can contain it
+   * @returns Whether any country was newly loaded
+   */
+  async loadCountryPolygons(countryIds: Iterable<number>, at?: [number, number]): Promise<boolean> {
+    const manifest = this.chunkManifest;
+    if (manifest === null) {
+      return false;
+    }
+
+    const pending: Promise<void>[] = [];
+    const reads = new Map<string, Promise<PolygonsData | PackedPolygons>>();
+    const read = (file: string) => {
+      let promise = reads.get(file);
+      if (!promise) {
+        promise = this.readChunk(file);
+        reads.set(file, promise);
+      }
+      return promise;
+    };
+    for (const countryId of countryIds) {
+      const chunk = manifest.countries[countryId];
+      if (!chunk || this.chunkPrepared.has(countryId.toString())) {
+        continue;
+      }
+      if (at) {
+        const [minLat, maxLat, minLon, maxLon] = chunk.bbox;
+        if (at[0] < minLat || at[0] > maxLat || at[1] < minLon || at[1] > maxLon) {
+          continue;
+        }
+      }
+      let promise = this.chunkPromises.get(countryId);
+      if (!promise) {
+        promise = this.loadChunk(countryId, chunk, read).catch(error => {
+          this.chunkPromises.delete(countryId); // Retry on the next request
+          throw error;
+        });
+        this.chunkPromises.set(countryId, promise);
+      }
+      pending.push(promise);
+    }
+    if (pending.length === 0) {
+      return false;
+    }
+
+    await Promise.all(pending);
+    if (this.chunkLayerStale && manifest === this.chunkManifest) {
+      this.chunkLayerStale = false;
+      this.preparePolygons();
+    }
+    return true;
+  }
+
+  /**
+   * Load the polygons of every country whose bounding box intersects a box (lazy polygons only).
+   * 
+   * @param minLat - Box minimum latitude
+   * @param maxLat - Box maximum latitude
+   * @param minLon - Box minimum longitude
+   * @param maxLon - Box maximum longitude
+   * @returns Whether any country was newly loaded
+   */
+  async loadPolygonsInBox(minLat: number, maxLat: number, minLon: number, maxLon: number): Promise<boolean> {
+    if (this.chunkIndex === null) {
+      return false;
+    }
+    const { tree, countryIds } = this.chunkIndex;
+    return this.loadCountryPolygons(tree.search(minLat, maxLat, minLon, maxLon).map(i => countryIds[i]));
+  }
+
+  /**
+   * Release the polygons of some countries.
+   * 
+   * They are read again from the data source the next time a resolution
+   * needs them. With lazy polygons only their chunks are read; otherwise the
+   * polygon file is read again and only the needed countries are kept, since
+   * the loader then works like lazy polygons for every country.
+   * 
+   * @param countryIds - Country IDs (IDs without loaded polygons are ignored)
+   * @returns Number of countries released
+   * @throws Error if the polygons were set manually (setPolygons) and cannot be read again
+   */
+  unloadPolygons(countryIds: Iterable<number>): number {
+    if (this._countryLayer === null) {
+      return 0;
+    }
+    if (this.chunkManifest === null) {
+      this.detachPolygonFile();
+    }
+
+    let released = 0;
+    for (const countryId of countryIds) {
+      if (this.chunkPrepared.delete(countryId.toString())) {
+        released++;
+      }
+      this.chunkSources.delete(countryId);
+      this.chunkPromises.delete(countryId);
+    }
+    if (released > 0) {
+      this._polygons = null;
+      this.preparePolygons();
+    }
+    return released;
+  }
+
+  /**
+   * Switch eagerly loaded polygons to per-country loading from the polygon file.
+   * 
+   * Every country becomes a chunk of the polygon file, with the bounding box
+   * of its prepared polygon; prepared polygons stay loaded. Raw JSON polygons
+   * are kept per country, binary buffers are dropped.
+   */
+  private detachPolygonFile(): void {
+    const file = this.polygonFile;
+    if (file === null) {
+      throw new Error(
+        'Polygons set with setPolygons() or setPolygonsBinary() cannot be reloaded, so they cannot be unloaded. ' +
+        'Use unload() and set them again instead.'
+      );
+    }
+    const layer = this.countryLayer;
+    const rawPolygons = this._polygons;
+
+    const countries: { [countryId: string]: PolygonChunk } = {};
+    for (const countryId of layer.ids) {
+      countries[countryId] = { file, bbox: layer.getPrepared(countryId)!.bbox };
+    }
+    this.setPolygonChunks({ version: 1, countries });
+    for (const countryId of layer.ids) {
+      const source = rawPolygons ? rawPolygons[countryId.toString()] : undefined;
+      this.chunkPrepared.set(countryId.toString(), layer.getPrepared(countryId)!);
+      this.chunkSources.set(countryId, source || null);
+      this.chunkPromises.set(countryId, Promise.resolve());
+    }
+    this.preparePolygons();
+  }
+
+  /**
+   * Release all loaded data: country, timezone and subdivision data and
+   * polygon chunks.
+   * 
+   * The next resolution reads the data again with load() (subdivisions when
+   * requested). Data set manually (setPolygons() etc.) must be set again.
+   * Custom layers (loader.layers) are kept.
+   */
+  unload(): void {
+    this._geohashIndex = null;
+    this._packedGeohashIndex = null;
+    this._polygons = null;
+    this._packedPolygons = null;
+    this._metadata = null;
+    this._countryLayer = null;
+    this._timezones = null;
+    this._timezoneLayer = null;
+    this._subdivisions = null;
+    this._subdivisionLayer = null;
+    this.loadPromise = null;
+    this.timezonePromise = null;
+    this.subdivisionPromise = null;
+    this.polygonFile = null;
+    this.clearPolygonChunks();
+  }
+
+  /**
+   * Load a new dataset in the background and swap it in atomically.
+   * 
+   * The current data keeps serving while the new data loads and is verified
+   * (manifest integrity, required files, options.validate). Operations already
+   * running (see withData()) finish on the current data; the swap waits for
+   * them, and operations starting meanwhile wait for the swap and use the new
+   * data. Custom layers are kept. If loading or validation fails, the
+   * current data stays in place and the error is thrown. Errors thrown by
+   * 'reload' listeners do not undo the swap or reject; they are collected in
+   * the returned event's listenerErrors.
+   * 
+   * Concurrent reloads run one after the other.
+   * 
+   * @param source - New data directory or DataSource (default: the current source, read again)
+   * @param options - Reload options
+   * @param options.validate - Extra checks on the new loader before the swap
+   * @returns The reload event, also passed to the 'reload' listeners
+   * 
+   * @example
+   * ```typescript
+   * loader.on('reload', e => console.log(`Dataset ${e.oldVersion} → ${e.newVersion}`));
+   * await loader.reload('./data-2025-06', {
+   *   validate: async next => {
+   *     if ((await resolve(52.52, 13.405, { loader: next })).iso2 !== 'DE') {
+   *       throw new Error('Berlin no longer resolves to Germany');
+   *     }
+   *   }
+   * });
+   * ```
+   */
+  reload(source?: string | DataSource, options: DataLoaderReloadOptions = {}): Promise<DatasetReloadEvent> {
+    const reload = this.reloadQueue.catch(() => undefined).then(() => this.swapDataset(source, options));
+    this.reloadQueue = reload;
+    return reload;
+  }
+
+  /**
+   * Run an operation against one version of the dataset.
+   * 
+   * The operation does not start while reload() is swapping data, and the swap
+   * waits until running operations have finished. The public entry points
+   * (resolve(), resolveMany(), ...) run this way; operations must not nest.
+   * 
+   * @param operation - Operation reading this loader's data
+   * @returns The operation's result
+   */
+  async withData<T>(operation: () => Promise<T>): Promise<T> {
+    while (this.swapPending) {
+      await this.swapPending;
+    }
+    this.activeOperations++;
+    try {
+      return await operation();
+    } finally {
+      this.activeOperations--;
+      if (this.activeOperations === 0 && this.onOperationsDone) {
+        this.onOperationsDone();
+      }
+    }
+  }
+
+  /**
+   * Listen for reload events (see reload()).
+   */
+  on(event: 'reload', listener: DatasetReloadListener): void {
+    this.listeners[event].push(listener);
+  }
+
+  /**
+   * Remove a reload listener.
+   * 
+   * @returns Whether the listener was registered
+   */
+  off(event: 'reload', listener: DatasetReloadListener): boolean {
+    const listeners = this.listeners[event];
+    const index = listeners.indexOf(listener);
+    if (index < 0) {
+      return false;
+    }
+    listeners.splice(index, 1);
+    return true;
+  }
+
+  private async swapDataset(source: string | DataSource | undefined, options: DataLoaderReloadOptions): Promise<DatasetReloadEvent> {
+    const next = new DataLoader(source !== undefined ? source : this.source, {
+      lazyPolygons: this.lazyPolygons,
+      verifyIntegrity: this.verifyIntegrity
+    });
+    next.cache = this.cache;
+    await next.load();
+    if (this._subdivisions !== null) {
+      // Keep subdivisions available when the new dataset has them
+      await next.loadSubdivisions().catch(unlessIntegrityError);
+    }
+    if (options.validate) {
+      await options.validate(next);
+    }
+
+    // Hold new operations back and wait for the running ones
+    let releaseOperations: () => void = () => undefined;
+    this.swapPending = new Promise<void>(resolve => {
+      releaseOperations = resolve;
+    });
+    if (this.activeOperations > 0) {
+      await new Promise<void>(resolve => {
+        this.onOperationsDone = resolve;
+      });
+      this.onOperationsDone = null;
+    }
+
+    const event: DatasetReloadEvent = {
+      oldVersion: this.manifest !== null ? this.manifest.version : null,
+      newVersion: next.manifest !== null ? next.manifest.version : null,
+      location: next.source.location
+    };
+    this.source = next.source;
+    this._geohashIndex = next._geohashIndex;
+    this._packedGeohashIndex = next._packedGeohashIndex;
+    this._polygons = next._polygons;
+    this._packedPolygons = next._packedPolygons;
+    this._metadata = next._metadata;
+    this._countryLayer = next._countryLayer;
+    this._timezones = next._timezones;
+    this._timezoneLayer = next._timezoneLayer;
+    this._subdivisions = next._subdivisions;
+    this._subdivisionLayer = next._subdivisionLayer;
+    this.loadPromise = next.loadPromise;
+    this.timezonePromise = next.timezonePromise;
+    this.subdivisionPromise = next.subdivisionPromise;
+    this.manifest = next.manifest;
+    this.manifestPromise = next.manifestPromise;
+    this.chunkManifest = next.chunkManifest;
+    this.chunkIndex = next.chunkIndex;
+    this.chunkPromises = next.chunkPromises;
+    this.chunkPrepared = next.chunkPrepared;
+    this.chunkSources = next.chunkSources;
+    this.chunkLayerStale = next.chunkLayerStale;
+    this.polygonFile = next.polygonFile;
+    this.swapPending = null;
+    releaseOperations();
+
+    // The new data is live: a failing listener must not make the reload look failed
+    const listenerErrors: unknown[] = [];
+    for (const listener of this.listeners.reload.slice()) {
+      try {
+        listener(event);
+      } catch (error: unknown) {
+        listenerErrors.push(error);
+      }
+    }
+    if (listenerErrors.length > 0) {
+      event.listenerErrors = listenerErrors;
+    }
+    return event;
+  }
+
+  /**
+   * Report the size of the loaded country data.
+   * 
+   * Counts come from the data in memory; bytes are estimates (exact for
+   * typed arrays and binary buffers, approximate for JSON objects).
+   * 
+   * @example
+   * ```typescript
+   * const stats = loader.getStats();
+   * console.log(stats.polygons.vertices, (stats.totalBytes / 1e6).toFixed(1) + ' MB');
+   * ```
+   */
+  getStats(): DataLoaderStats {
+    const packedIndex = this._packedGeohashIndex;
+    let indexEntries = packedIndex !== null ? packedIndex.size : 0;
+    let indexBytes = packedIndex !== null ? packedIndex.byteLength : 0;
+    if (this._geohashIndex !== null) {
+      // JSON index, or the object materialized from the binary index by the geohashIndex getter
+      const keys = Object.keys(this._geohashIndex);
+      indexEntries = keys.length;
+      for (const key of keys) {
+        indexBytes += INDEX_ENTRY_BYTES + key.length * 2 + this._geohashIndex[key].length * 8;
+      }
+    }
+
+    const layerStats = this._countryLayer !== null
+      ? this._countryLayer.getStats()
+      : { features: 0, parts: 0, rings: 0, vertices: 0, bytes: 0 };
+    let polygonBytes = layerStats.bytes;
+    if (this.chunkManifest !== null) {
+      for (const source of this.chunkSources.values()) {
+        if (source instanceof PackedPolygons) {
+          polygonBytes += source.byteLength;
+        } else if (source !== null) {
+          polygonBytes += estimatePolygonBytes(source);
+        }
+      }
+    } else {
+      if (this._packedPolygons !== null) {
+        polygonBytes += this._packedPolygons.byteLength;
+      }
+      if (this._polygons !== null) {
+        for (const polygon of Object.values(this._polygons)) {
+          polygonBytes += estimatePolygonBytes(polygon);
+        }
+      }
+    }
+
+    // Metadata is small and flat: its JSON size in UTF-16 is close enough
+    const metadataBytes = this._metadata !== null ? JSON.stringify(this._metadata).length * 2 : 0;
+
+    return {
+      loaded: this.hasGeohashIndex && this.hasPolygons && this._metadata !== null,
+      geohashIndex: { entries: indexEntries, bytes: indexBytes },
+      polygons: {
+        countries: layerStats.features,
+        parts: layerStats.parts,
+        rings: layerStats.rings,
+        vertices: layerStats.vertices,
+        bytes: polygonBytes
+      },
+      metadata: {
+        countries: this._metadata !== null ? Object.keys(this._metadata).length : 0,
+        bytes: metadataBytes
+      },
+      totalBytes: indexBytes + polygonBytes + metadataBytes
+    };
+  }
+
+  /**
+   * Set the geohash index from parsed geohash_index.json (single IDs become lists).
+   */
+  private setGeohashIndexJson(geohashData: Record<string, number | number[]>): void {
+    const index: GeohashIndex = {};
+    for (const [k, v] of Object.entries(geohashData)) {
+      index[k] = Array.isArray(v) ? v : [v];
+    }
+    this.setGeohashIndex(index);
+  }
+
+  /**
+   * Set polygons from parsed polygons.json.
+   */
+  private setPolygonsJson(polygonsData: Record<string, unknown>): void {
+    const polygons: PolygonsData = {};
+    for (const [k, v] of Object.entries(polygonsData)) {
+      polygons[k] = v as PolygonData;
+    }
+    this.setPolygons(polygons);
   }
 
   /**
@@ -256,13 +1134,84 @@ export class DataLoader {
   }
 
   /**
-   * Load all data files (lazy-loaded, cached)
+   * Manually set timezone data (useful for browser/CDN usage)
+   */
+  setTimezones(timezones: TimezoneData): void {
+    this._timezones = timezones;
+    this._timezoneLayer = new PolygonLayer(timezones.polygons, timezones.index);
+  }
+
+  /**
+   * Manually set subdivision data (useful for browser/CDN usage)
+   */
+  setSubdivisions(subdivisions: SubdivisionData): void {
+    this._subdivisions = subdivisions;
+    this._subdivisionLayer = new PolygonLayer(subdivisions.polygons, subdivisions.index);
+  }
+
+  /**
+   * Load the subdivision files on demand (cached).
+   * 
+   * Reads subdivision_*.json(.gz) from the data source (the data directory,
+   * or the CDN base URL when data was loaded with loadFromCDN()).
+   * 
+   * @example
+   * ```typescript
+   * await loader.loadSubdivisions();
+   * const result = await resolve(34.05, -118.24, { loader });
+   * console.log(result.subdivisionCode); // "US-CA"
+   * ```
+   */
+  async loadSubdivisions(): Promise<void> {
+    if (this._subdivisions !== null) {
+      return Promise.resolve();
+    }
+
+    if (this.subdivisionPromise) {
+      return this.subdivisionPromise;
+    }
+
+    this.subdivisionPromise = (async () => {
+      try {
+        await this.loadManifest();
+        const [index, polygons, metadata]: [GeohashIndex | null, PolygonsData | null, SubdivisionMetadataData | null] =
+          await Promise.all([
+            this.loadJson(SUBDIVISION_FILES.index, true),
+            this.loadJson(SUBDIVISION_FILES.polygons, true),
+            this.loadJson(SUBDIVISION_FILES.metadata, true)
+          ]);
+        if (!index || !polygons || !metadata) {
+          throw new Error(
+            `Subdivision data not found in ${this.source.location}\n` +
+            `Expected subdivision_index.json, subdivision_polygons.json and subdivision_metadata.json (optionally .gz)\n` +
+            `Build them with: npm run build:subdivisions -- --input <admin-1 GeoJSON>`
+          );
+        }
+        this.setSubdivisions({ index, polygons, metadata });
+      } catch (error) {
+        this.subdivisionPromise = null; // Reset on error
+        throw error;
+      }
+    })();
+
+    return this.subdivisionPromise;
+  }
+
+  /**
+   * Load all data files from the data source (lazy-loaded, cached)
    */
   async load(): Promise<void> {
     // If data is already loaded (via setGeohashIndex, setPolygons, setMetadata, or loadFromCDN),
-    // skip filesystem loading
-    if (this._geohashIndex !== null && this._polygons !== null && this._metadata !== null) {
-      return Promise.resolve();
+    // skip reading the country files; data set by hand still gets the optional
+    // timezone files from the data source, as loadFromCDN() does
+    if (this.hasGeohashIndex && this.hasPolygons && this._metadata !== null) {
+      if (this.timezonePromise === null) {
+        this.timezonePromise = this.loadTimezones().catch(error => {
+          this.timezonePromise = null; // Retry on the next request
+          throw error;
+        });
+      }
+      return this.timezonePromise;
     }
 
     if (this.loadPromise) {
@@ -271,30 +1220,51 @@ export class DataLoader {
 
     this.loadPromise = (async () => {
       try {
+        await this.loadManifest();
+
+        // Binary files are preferred; JSON is only read for the ones missing
+        const lazy = this.lazyPolygons;
+        const [geohashBinary, polygonsBinary] = await Promise.all([
+          this.loadBinary(BINARY_FILES.geohashIndex, true),
+          lazy ? null : this.loadBinary(BINARY_FILES.polygons, true)
+        ]);
+
         // Load all data files in parallel
-        const [geohashData, polygonsData, metadataData] = await Promise.all([
-          this.loadJson('geohash_index.json'),
-          this.loadJson('polygons.json'),
-          this.loadJson('metadata.json')
+        const [geohashData, polygonsData, metadataData, timezoneIndex, timezonePolygons, timezoneMetadata] = await Promise.all([
+          geohashBinary ? null : this.loadJson('geohash_index.json'),
+          polygonsBinary ? null : this.loadJson(lazy ? POLYGON_CHUNKS_FILE : 'polygons.json'),
+          this.loadJson('metadata.json'),
+          this.loadJson(TIMEZONE_FILES.index, true),
+          this.loadJson(TIMEZONE_FILES.polygons, true),
+          this.loadJson(TIMEZONE_FILES.metadata, true)
         ]);
 
-        // Process geohash index
-        this._geohashIndex = {};
-        for (const [k, v] of Object.entries(geohashData)) {
-          this._geohashIndex[k] = Array.isArray(v) ? v : [v];
+        if (geohashBinary) {
+          this.setGeohashIndexBinary(geohashBinary);
+        } else {
+          this.setGeohashIndexJson(geohashData);
         }
 
-        // Process polygons (convert string keys to numbers)
-        this._polygons = {};
-        for (const [k, v] of Object.entries(polygonsData)) {
-          this._polygons[k] = v as PolygonData;
+        if (lazy) {
+          this.setPolygonChunks(polygonsData);
+        } else if (polygonsBinary) {
+          this.setPolygonsBinary(polygonsBinary);
+        } else {
+          this.setPolygonsJson(polygonsData);
         }
+        this.polygonFile = polygonsBinary ? BINARY_FILES.polygons : lazy ? POLYGON_CHUNKS_FILE : 'polygons.json';
 
         // Process metadata (convert string keys to numbers)
         this._metadata = {};
         for (const [k, v] of Object.entries(metadataData)) {
           this._metadata[k] = v as CountryMetadata;
         }
+
+        // Timezone lookup is enabled only when all timezone files are present
+        if (timezoneIndex && timezonePolygons && timezoneMetadata) {
+          this.setTimezones({ index: timezoneIndex, polygons: timezonePolygons, metadata: timezoneMetadata });
+        }
+        this.timezonePromise = Promise.resolve();
       } catch (error) {
         this.loadPromise = null; // Reset on error
         throw error;
@@ -304,10 +1274,56 @@ export class DataLoader {
     return this.loadPromise;
   }
 
+  /**
+   * Read the optional timezone files for data set by hand.
+   * 
+   * Missing or unreadable files leave timezone lookup disabled (country
+   * results then have a null timezone). The manifest is not read here, so
+   * the files are verified only against one that is already loaded.
+   */
+  private async loadTimezones(): Promise<void> {
+    if (this.hasTimezones) {
+      return;
+    }
+    const timezoneData = await Promise.all([
+      this.loadJson(TIMEZONE_FILES.index, true),
+      this.loadJson(TIMEZONE_FILES.polygons, true),
+      this.loadJson(TIMEZONE_FILES.metadata, true)
+    ]).catch(unlessIntegrityError);
+    if (timezoneData && !this.hasTimezones) {
+      const [index, polygons, metadata] = timezoneData;
+      if (index && polygons && metadata) {
+        this.setTimezones({ index, polygons, metadata });
+      }
+    }
+  }
+
+  /**
+   * Dataset manifest (version, source, build date, file hashes), or null when
+   * the data was loaded without manifest.json.
+   */
+  get datasetInfo(): DatasetManifest | null {
+    return this.manifest;
+  }
+
+  private get hasGeohashIndex(): boolean {
+    return this._geohashIndex !== null || this._packedGeohashIndex !== null;
+  }
+
+  private get hasPolygons(): boolean {
+    return this._polygons !== null || this._packedPolygons !== null || this.chunkManifest !== null;
+  }
+
   /**
    * Get geohash index (lazy-loaded).
+   * 
+   * With binary data this materializes (and caches) the JSON-shaped index;
+   * resolution itself reads the binary key table directly.
    */
   get geohashIndex(): GeohashIndex {
+    if (this._geohashIndex === null && this._packedGeohashIndex !== null) {
+      this._geohashIndex = this._packedGeohashIndex.toObject();
+    }
     if (this._geohashIndex === null) {
       throw new Error('Data not loaded. Call load() first or use setGeohashIndex().');
     }
@@ -316,8 +1332,26 @@ export class DataLoader {
 
   /**
    * Get country polygons (lazy-loaded).
+   * 
+   * With binary data this materializes (and caches) the JSON-shaped polygons;
+   * resolution itself uses polygons prepared straight from the binary buffer.
+   * With lazy polygons it holds only the countries loaded so far.
    */
   get polygons(): PolygonsData {
+    if (this._polygons === null && this._packedPolygons !== null) {
+      this._polygons = this._packedPolygons.toPolygonsData();
+    }
+    if (this._polygons === null && this.chunkManifest !== null) {
+      const polygons: PolygonsData = {};
+      for (const [countryId, source] of this.chunkSources) {
+        if (source === null) {
+          polygons[countryId] = toPolygonData(this.chunkPrepared.get(countryId.toString())!);
+        } else {
+          polygons[countryId] = source instanceof PackedPolygons ? source.toPolygonData(countryId)! : source;
+        }
+      }
+      this._polygons = polygons;
+    }
     if (this._polygons === null) {
       throw new Error('Data not loaded. Call load() first or use setPolygons().');
     }
@@ -341,24 +1375,146 @@ export class DataLoader {
    * @returns List of country IDs that may contain this geohash
    */
   getCandidateCountries(geohash: string): number[] {
-    const index = this.geohashIndex;
-    
-    // Try full geohash first
-    let candidates = index[geohash] || [];
-    
-    // If no exact match, try prefixes (geohash can overlap borders)
-    if (candidates.length === 0) {
-      for (let prefixLen = geohash.length; prefixLen > 0; prefixLen--) {
-        const prefix = geohash.substring(0, prefixLen);
-        if (index[prefix]) {
-          candidates = index[prefix];
-          break;
-        }
-      }
+    return lookupGeohash(this._packedGeohashIndex || this.geohashIndex, geohash);
+  }
+
+  /**
+   * Build prepared polygons and the part spatial index for every loaded country.
+   * 
+   * Called whenever polygon data is (re)assigned so that resolution never
+   * converts raw coordinate arrays on the hot path.
+   */
+  private preparePolygons(): void {
+    this._countryLayer = this.chunkManifest !== null
+      ? new PolygonLayer(this.chunkPrepared)
+      : new PolygonLayer(this._packedPolygons || this._polygons || {});
+  }
+
+  /**
+   * Get the prepared country layer.
+   */
+  private get countryLayer(): PolygonLayer {
+    if (this._countryLayer === null) {
+      throw new Error('Data not loaded. Call load() first or use setPolygons().');
     }
-    
-    // Deduplicate
-    return Array.from(new Set(candidates));
+    return this._countryLayer;
+  }
+
+  /**
+   * Get polygon parts whose exterior bounding box contains a point.
+   * 
+   * Backed by a packed R-tree, so this costs O(log n) instead of a scan
+   * over every country.
+   * 
+   * @param lat - Point latitude
+   * @param lon - Point longitude
+   * @returns Matching part references (bounding-box hits, not yet PIP-tested)
+   */
+  getPartsAt(lat: number, lon: number): PartRef[] {
+    return this.countryLayer.getPartsAt(lat, lon);
+  }
+
+  /**
+   * Get prepared polygon for a country.
+   * 
+   * @param countryId - Country ID
+   * @returns Prepared polygon or undefined if country not found
+   */
+  getPreparedPolygon(countryId: number): PreparedPolygon | undefined {
+    return this.countryLayer.getPrepared(countryId);
+  }
+
+  /**
+   * Get polygon parts whose exterior bounding box intersects a box.
+   * 
+   * @param minLat - Box minimum latitude
+   * @param maxLat - Box maximum latitude
+   * @param minLon - Box minimum longitude
+   * @param maxLon - Box maximum longitude
+   * @returns Matching part references
+   */
+  getPartsInBox(minLat: number, maxLat: number, minLon: number, maxLon: number): PartRef[] {
+    return this.countryLayer.getPartsInBox(minLat, maxLat, minLon, maxLon);
+  }
+
+  /**
+   * Whether timezone polygons are loaded.
+   */
+  get hasTimezones(): boolean {
+    return this._timezoneLayer !== null;
+  }
+
+  /**
+   * Get timezone data (index, polygons and metadata).
+   */
+  get timezones(): TimezoneData {
+    if (this._timezones === null) {
+      throw new Error(
+        'Timezone data not loaded. Ship timezone_*.json(.gz) next to the country data ' +
+        'or use setTimezones().'
+      );
+    }
+    return this._timezones;
+  }
+
+  /**
+   * Get the prepared timezone layer.
+   */
+  get timezoneLayer(): PolygonLayer {
+    if (this._timezoneLayer === null) {
+      throw new Error(
+        'Timezone data not loaded. Ship timezone_*.json(.gz) next to the country data ' +
+        'or use setTimezones().'
+      );
+    }
+    return this._timezoneLayer;
+  }
+
+  /**
+   * Get metadata for a timezone.
+   * 
+   * @param timezoneId - Timezone ID
+   * @returns Timezone metadata or undefined if not found
+   */
+  getTimezoneMetadata(timezoneId: number): TimezoneMetadata | undefined {
+    return this._timezones ? this._timezones.metadata[timezoneId.toString()] : undefined;
+  }
+
+  /**
+   * Whether subdivision polygons are loaded.
+   */
+  get hasSubdivisions(): boolean {
+    return this._subdivisionLayer !== null;
+  }
+
+  /**
+   * Get subdivision data (index, polygons and metadata).
+   */
+  get subdivisions(): SubdivisionData {
+    if (this._subdivisions === null) {
+      throw new Error('Subdivision data not loaded. Call loadSubdivisions() first or use setSubdivisions().');
+    }
+    return this._subdivisions;
+  }
+
+  /**
+   * Get the prepared subdivision layer.
+   */
+  get subdivisionLayer(): PolygonLayer {
+    if (this._subdivisionLayer === null) {
+      throw new Error('Subdivision data not loaded. Call loadSubdivisions() first or use setSubdivisions().');
+    }
+    return this._subdivisionLayer;
+  }
+
+  /**
+   * Get metadata for a subdivision.
+   * 
+   * @param subdivisionId - Subdivision ID
+   * @returns Subdivision metadata or undefined if not found
+   */
+  getSubdivisionMetadata(subdivisionId: number): SubdivisionMetadata | undefined {
+    return this._subdivisions ? this._subdivisions.metadata[subdivisionId.toString()] : undefined;
   }
 
   /**
@@ -382,15 +1538,127 @@ export class DataLoader {
   }
 }
 
-// Global instance (lazy-loaded)
-let _loader: DataLoader | null = null;
+// Loader registry: one loader per data directory or dataset name (lazy-loaded)
+const loaders: Map<string, DataLoader> = new Map();
+let defaultLoader: DataLoader | null = null; // Set with setDefaultLoader(); null: ./data
+
+const DEFAULT_DATA_DIR = './data';
 
 /**
- * Get or create global data loader instance.
+ * Get the loader for a data directory or registered dataset name.
+ * 
+ * Each data directory gets its own loader, created on first use, so several
+ * datasets can be used side by side. Without an argument, returns the
+ * default loader: the one set with setDefaultLoader(), otherwise the loader
+ * of ./data. Using another directory never changes the default.
+ * 
+ * @param dataDir - Data directory or dataset name (see registerLoader)
+ * @returns Shared loader instance
  */
 export function getLoader(dataDir?: string): DataLoader {
-  if (_loader === null) {
-    _loader = new DataLoader(dataDir);
+  if (dataDir === undefined) {
+    return defaultLoader !== null ? defaultLoader : getLoader(DEFAULT_DATA_DIR);
+  }
+
+  let loader = loaders.get(dataDir);
+  if (!loader) {
+    loader = new DataLoader(dataDir);
+    loaders.set(dataDir, loader);
+  }
+  return loader;
+}
+
+/**
+ * Register a loader under a dataset name, replacing any loader with that name.
+ * 
+ * @param name - Dataset name (e.g. "v2"), used with the dataset option of the
+ *   resolve functions and with getLoader()
+ * @param source - Loader, data directory or DataSource
+ * @param options - Loader options (when source is not a loader)
+ * @returns The registered loader
+ * 
+ * @example
+ * ```typescript
+ * registerLoader('current', './data');
+ * registerLoader('next', './data-next');
+ * const a = await resolve(52.52, 13.405, { dataset: 'current' });
+ * const b = await resolve(52.52, 13.405, { dataset: 'next' });
+ * ```
+ */
+export function registerLoader(
+  name: string,
+  source: DataLoader | string | DataSource,
+  options: DataLoaderOptions = {}
+): DataLoader {
+  const loader = source instanceof DataLoader ? source : new DataLoader(source, options);
+  loaders.set(name, loader);
+  return loader;
+}
+
+/**
+ * Get a registered loader by dataset name or data directory.
+ * 
+ * Unlike getLoader(), never creates a loader.
+ * 
+ * @param name - Dataset name or data directory
+ * @returns The registered loader
+ * @throws Error if no loader is registered under the name
+ */
+export function getRegisteredLoader(name: string): DataLoader {
+  const loader = loaders.get(name);
+  if (!loader) {
+    const names = Array.from(loaders.keys());
+    throw new Error(
+      `No loader is registered for dataset "${name}". ` +
+      (names.length > 0 ? `Registered datasets: ${names.join(', ')}` : 'Register one with registerLoader().')
+    );
   }
-  return _loader;
+  return loader;
+}
+
+/**
+ * Remove a loader from the registry (and as the default loader).
+ * 
+ * The loader's data is not released here: the loader keeps working for
+ * callers that still hold it, and its memory is freed once none does. Later
+ * getLoader() calls for the same name create a new one.
+ * 
+ * @param nameOrLoader - Dataset name, data directory or loader instance
+ * @returns Whether a registered or default loader was removed
+ */
+export function disposeLoader(nameOrLoader: string | DataLoader): boolean {
+  let removed = false;
+  for (const [name, loader] of Array.from(loaders)) {
+    if (name === nameOrLoader || loader === nameOrLoader) {
+      loaders.delete(name);
+      if (loader === defaultLoader) {
+        defaultLoader = null;
+      }
+      removed = true;
+    }
+  }
+  if (nameOrLoader === defaultLoader) {
+    defaultLoader = null;
+    removed = true;
+  }
+  return removed;
+}
+
+/**
+ * Set the loader used when no loader, dataset or data directory is given.
+ * 
+ * @param loader - Loader instance, or a dataset name / data directory (see getLoader)
+ * @returns The default loader
+ */
+export function setDefaultLoader(loader: DataLoader | string): DataLoader {
+  defaultLoader = typeof loader === 'string' ? getLoader(loader) : loader;
+  return defaultLoader;
+}
+
+/**
+ * Forget the default loader set with setDefaultLoader(); the default is
+ * the loader of ./data again. Registered loaders are kept.
+ */
+export function resetDefaultLoader(): void {
+  defaultLoader = null;
 }
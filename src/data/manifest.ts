@@ -0,0 +1,191 @@
+/**
+ * Dataset manifest and data file integrity checks.
+ * 
+ * manifest.json (uncompressed, next to the data files) records the dataset
+ * version, source and build date plus the SHA-256 and size of every data
+ * file. DataLoader verifies each file it reads against it.
+ * 
+ * Design Decisions:
+ * - Hashes cover the decompressed contents, so foo.json.gz and foo.json
+ *   share one entry and CDN loading with or without gzip verifies the same way
+ * - Once a manifest is present, files missing from it are rejected as well:
+ *   a partial or mixed file set must not resolve silently
+ * - Data directories without manifest.json load unverified, as before
+ */
+
+import { isNodeEnvironment } from './sources';
+
+/**
+ * One data file listed in the manifest.
+ */
+export interface DatasetFileInfo {
+  sha256: string; // Hex SHA-256 of the decompressed contents
+  bytes: number; // Decompressed size
+}
+
+/**
+ * Contents of manifest.json.
+ */
+export interface DatasetManifest {
+  version: string;
+  source: string;
+  buildDate: string; // ISO 8601 date
+  files: { [filename: string]: DatasetFileInfo }; // Keyed by path relative to the data directory, without .gz
+}
+
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Thrown when a data file does not match the dataset manifest.
+ */
+export class DataIntegrityError extends Error {
+  /** Data file name (relative to the data directory, without .gz) */
+  readonly file: string;
+  /** Expected SHA-256 (null when the file is not listed in the manifest) */
+  readonly expected: string | null;
+  /** Actual SHA-256 of the file contents */
+  readonly actual: string;
+
+  constructor(message: string, file: string, expected: string | null, actual: string) {
+    super(message);
+    this.name = 'DataIntegrityError';
+    this.file = file;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Compute the hex SHA-256 of bytes.
+ * 
+ * Uses Node's crypto module in Node.js and crypto.subtle in browsers
+ * (which requires a secure context, i.e. https or localhost).
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  if (isNodeEnvironment()) {
+    let nodeCrypto: typeof import('crypto');
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      nodeCrypto = require('crypto');
+    } catch (error: unknown) {
+      throw new Error(`Failed to load Node.js modules: ${(error as Error).message}`);
+    }
+    return nodeCrypto.createHash('sha256').update(bytes).digest('hex');
+  }
+
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error(
+      `Data integrity checks require crypto.subtle, which browsers only provide in secure contexts (https or localhost).\n` +
+      `Serve the page over https or create the DataLoader with { verifyIntegrity: false }.`
+    );
+  }
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Validate parsed manifest.json contents.
+ * 
+ * @param data - Parsed JSON
+ * @returns The manifest
+ */
+export function parseManifest(data: unknown): DatasetManifest {
+  const manifest = data as DatasetManifest;
+  if (!manifest || typeof manifest !== 'object' || typeof manifest.version !== 'string' ||
+      !manifest.files || typeof manifest.files !== 'object') {
+    throw new Error(`Invalid ${MANIFEST_FILE}: expected { version, source, buildDate, files }`);
+  }
+  return manifest;
+}
+
+/**
+ * Verify a data file against the manifest.
+ * 
+ * @param manifest - Dataset manifest
+ * @param filename - Data file name (relative to the data directory, without .gz)
+ * @param bytes - Decompressed file contents
+ * @throws DataIntegrityError if the file is not listed or its size or hash differs
+ */
+export async function verifyDataFile(manifest: DatasetManifest, filename: string, bytes: Uint8Array): Promise<void> {
+  checkDataFile(manifest, filename, bytes.length, await sha256Hex(bytes));
+}
+
+/**
+ * Compare a data file's size and hash with its manifest entry.
+ */
+function checkDataFile(manifest: DatasetManifest, filename: string, bytes: number, actual: string): void {
+  const entry = manifest.files[filename];
+  if (!entry) {
+    throw new DataIntegrityError(
+      `Data file ${filename} is not listed in ${MANIFEST_FILE} (dataset ${manifest.version}).\n` +
+      `After adding or rebuilding data files, run: npm run build:manifest`,
+      filename, null, actual
+    );
+  }
+  if (bytes !== entry.bytes || actual !== entry.sha256) {
+    throw new DataIntegrityError(
+      `Data file ${filename} does not match ${MANIFEST_FILE} (dataset ${manifest.version}): ` +
+      `expected ${entry.bytes} bytes with SHA-256 ${entry.sha256}, got ${bytes} bytes with SHA-256 ${actual}.\n` +
+      `The file is truncated, corrupted or from a different dataset build.`,
+      filename, entry.sha256, actual
+    );
+  }
+}
+
+/**
+ * Verifies a data file read in chunks against the manifest.
+ * 
+ * Node.js hashes the chunks as they arrive; browsers (crypto.subtle has no
+ * incremental digest) keep them until verify().
+ */
+export class DataFileVerifier {
+  private manifest: DatasetManifest;
+  private filename: string;
+  private hash: import('crypto').Hash | null = null;
+  private chunks: Uint8Array[] = [];
+  private bytes = 0;
+
+  constructor(manifest: DatasetManifest, filename: string) {
+    this.manifest = manifest;
+    this.filename = filename;
+    if (isNodeEnvironment()) {
+      let nodeCrypto: typeof import('crypto');
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        nodeCrypto = require('crypto');
+      } catch (error: unknown) {
+        throw new Error(`Failed to load Node.js modules: ${(error as Error).message}`);
+      }
+      this.hash = nodeCrypto.createHash('sha256');
+    }
+  }
+
+  update(chunk: Uint8Array): void {
+    this.bytes += chunk.length;
+    if (this.hash) {
+      this.hash.update(chunk);
+    } else {
+      this.chunks.push(chunk);
+    }
+  }
+
+  /**
+   * @throws DataIntegrityError if the file is not listed or its size or hash differs
+   */
+  async verify(): Promise<void> {
+    let actual: string;
+    if (this.hash) {
+      actual = this.hash.digest('hex');
+    } else {
+      const bytes = new Uint8Array(this.bytes);
+      let offset = 0;
+      for (const chunk of this.chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+      }
+      this.chunks = [];
+      actual = await sha256Hex(bytes);
+    }
+    checkDataFile(this.manifest, this.filename, this.bytes, actual);
+  }
+}
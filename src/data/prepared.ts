@@ -0,0 +1,315 @@
+/**
+ * Prepared polygon structures built once at load time.
+ * 
+ * Raw polygon data stores every vertex as a nested [lat, lon] array, and
+ * MultiPolygon holes are kept in a single flat list that is not tied to any
+ * particular exterior. Converting that on every lookup dominated resolution
+ * cost, so DataLoader converts each country once into:
+ * - Typed, interleaved coordinate arrays per ring
+ * - A bounding box per ring (and per country)
+ * - Holes attached to the exterior that contains them
+ */
+
+import { Point, RingCoords, pointInRing, distanceToRingEdge, nearestPointOnRing } from '../pip';
+import { haversineDistance } from '../distance';
+import { PolygonData } from './loader';
+
+/**
+ * Bounding box as [minLat, maxLat, minLon, maxLon] (same order as calculateBoundingBox).
+ */
+export type BoundingBox = [number, number, number, number];
+
+export interface PreparedRing {
+  coords: RingCoords; // [lat0, lon0, lat1, lon1, ...]
+  bbox: BoundingBox;
+}
+
+export interface PreparedPart {
+  exterior: PreparedRing;
+  holes: PreparedRing[];
+}
+
+export interface PreparedPolygon {
+  parts: PreparedPart[];
+  bbox: BoundingBox;
+}
+
+/**
+ * Reference to one part of a prepared polygon in a layer.
+ */
+export interface PartRef {
+  id: number; // Country ID (or timezone ID in the timezone layer)
+  partIndex: number;
+  part: PreparedPart;
+}
+
+/**
+ * Convert a nested [[lat, lon], ...] ring into a prepared ring.
+ * 
+ * @param ring - Raw ring coordinates
+ * @returns Prepared ring with typed coordinates and bounding box
+ */
+export function prepareRing(ring: number[][]): PreparedRing {
+  const coords = new Float64Array(ring.length * 2);
+
+  for (let i = 0; i < ring.length; i++) {
+    const coord = ring[i];
+    if (!Array.isArray(coord) || coord.length < 2) {
+      throw new Error(`Invalid coordinate format: ${coord}`);
+    }
+    coords[i * 2] = coord[0];
+    coords[i * 2 + 1] = coord[1];
+  }
+
+  return prepareTypedRing(coords);
+}
+
+/**
+ * Wrap interleaved typed ring coordinates into a prepared ring.
+ * 
+ * @param coords - Ring coordinates as [lat0, lon0, lat1, lon1, ...]
+ * @returns Prepared ring with bounding box
+ */
+export function prepareTypedRing(coords: RingCoords): PreparedRing {
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLon = Infinity;
+  let maxLon = -Infinity;
+
+  for (let i = 0; i < coords.length; i += 2) {
+    const lat = coords[i];
+    const lon = coords[i + 1];
+    if (lat < minLat) minLat = lat;
+    if (lat > maxLat) maxLat = lat;
+    if (lon < minLon) minLon = lon;
+    if (lon > maxLon) maxLon = lon;
+  }
+
+  return { coords, bbox: [minLat, maxLat, minLon, maxLon] };
+}
+
+/**
+ * Check whether bounding box `inner` lies within `outer`.
+ */
+function bboxContains(outer: BoundingBox, inner: BoundingBox): boolean {
+  return inner[0] >= outer[0] && inner[1] <= outer[1] &&
+         inner[2] >= outer[2] && inner[3] <= outer[3];
+}
+
+/**
+ * Check whether a point lies within a bounding box.
+ */
+export function bboxContainsPoint(bbox: BoundingBox, lat: number, lon: number): boolean {
+  return lat >= bbox[0] && lat <= bbox[1] && lon >= bbox[2] && lon <= bbox[3];
+}
+
+/**
+ * Check whether two bounding boxes overlap.
+ */
+function bboxIntersects(a: BoundingBox, b: BoundingBox): boolean {
+  return a[0] <= b[1] && a[1] >= b[0] && a[2] <= b[3] && a[3] >= b[2];
+}
+
+/**
+ * Build the prepared structure for one country's polygon data.
+ * 
+ * @param polygonData - Raw polygon data for a country
+ * @returns Prepared polygon (possibly with zero parts)
+ */
+export function preparePolygon(polygonData: PolygonData): PreparedPolygon {
+  // Handle MultiPolygon or single Polygon
+  const rawExteriors: number[][][] = [];
+  if (polygonData.multi && polygonData.exteriors) {
+    rawExteriors.push(...polygonData.exteriors);
+  } else if (polygonData.exterior) {
+    rawExteriors.push(polygonData.exterior);
+  }
+
+  const exteriors = rawExteriors
+    .filter(exterior => exterior && exterior.length > 0)
+    .map(prepareRing);
+  const holes = (Array.isArray(polygonData.holes) ? polygonData.holes : [])
+    .filter(hole => Array.isArray(hole) && hole.length > 0)
+    .map(prepareRing);
+
+  return assemblePolygon(exteriors, holes);
+}
+
+/**
+ * Assemble prepared rings into a prepared polygon.
+ * 
+ * Design Decision: Each hole is attached to the exterior containing its
+ * first vertex. A hole that no exterior contains (simplification artefacts)
+ * is attached to every exterior whose bounding box overlaps it, which keeps
+ * the previous "all holes apply" behaviour for those rare cases.
+ * 
+ * @param exteriors - Prepared exterior rings (one part each)
+ * @param holes - Prepared hole rings, not yet tied to an exterior
+ * @returns Prepared polygon (possibly with zero parts)
+ */
+export function assemblePolygon(exteriors: PreparedRing[], holes: PreparedRing[]): PreparedPolygon {
+  const parts: PreparedPart[] = exteriors.map(exterior => ({ exterior, holes: [] }));
+
+  for (const hole of holes) {
+    const owner = parts.find(part =>
+      bboxContains(part.exterior.bbox, hole.bbox) &&
+      pointInRing(hole.coords[0], hole.coords[1], part.exterior.coords)
+    );
+
+    if (owner) {
+      owner.holes.push(hole);
+    } else {
+      for (const part of parts) {
+        if (bboxIntersects(part.exterior.bbox, hole.bbox)) {
+          part.holes.push(hole);
+        }
+      }
+    }
+  }
+
+  const bbox: BoundingBox = [Infinity, -Infinity, Infinity, -Infinity];
+  for (const part of parts) {
+    const b = part.exterior.bbox;
+    bbox[0] = Math.min(bbox[0], b[0]);
+    bbox[1] = Math.max(bbox[1], b[1]);
+    bbox[2] = Math.min(bbox[2], b[2]);
+    bbox[3] = Math.max(bbox[3], b[3]);
+  }
+
+  return { parts, bbox };
+}
+
+/**
+ * Convert a prepared polygon back to the raw PolygonData layout.
+ * 
+ * Used where the raw data is no longer held (see DataLoader.unloadPolygons).
+ * Holes are listed once, even when attached to several parts.
+ * 
+ * @param polygon - Prepared polygon
+ * @returns Raw polygon data
+ */
+export function toPolygonData(polygon: PreparedPolygon): PolygonData {
+  const toNested = (ring: PreparedRing): number[][] => {
+    const nested: number[][] = new Array(ring.coords.length / 2);
+    for (let i = 0; i < ring.coords.length; i += 2) {
+      nested[i / 2] = [ring.coords[i], ring.coords[i + 1]];
+    }
+    return nested;
+  };
+
+  const exteriors = polygon.parts.map(part => toNested(part.exterior));
+  const holes = new Set<PreparedRing>();
+  for (const part of polygon.parts) {
+    part.holes.forEach(hole => holes.add(hole));
+  }
+
+  const data: PolygonData = { exterior: exteriors[0] || [] };
+  if (exteriors.length > 1) {
+    data.multi = true;
+    data.exteriors = exteriors;
+  }
+  if (holes.size > 0) {
+    data.holes = Array.from(holes).map(toNested);
+  }
+  return data;
+}
+
+/**
+ * Check if point is inside a prepared part (exterior minus its holes).
+ * 
+ * Rings whose bounding box does not contain the point are rejected
+ * before ray casting.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param part - Prepared polygon part
+ * @returns True if point is inside exterior but not in any hole
+ */
+export function pointInPart(lat: number, lon: number, part: PreparedPart): boolean {
+  if (!bboxContainsPoint(part.exterior.bbox, lat, lon) ||
+      !pointInRing(lat, lon, part.exterior.coords)) {
+    return false;
+  }
+
+  for (const hole of part.holes) {
+    if (bboxContainsPoint(hole.bbox, lat, lon) && pointInRing(lat, lon, hole.coords)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Calculate minimum distance from point to a part's edges (exterior or holes).
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param part - Prepared polygon part
+ * @returns Distance in degrees (approximate, for confidence scoring)
+ */
+export function distanceToPartEdge(lat: number, lon: number, part: PreparedPart): number {
+  let minDist = distanceToRingEdge(lat, lon, part.exterior.coords);
+
+  for (const hole of part.holes) {
+    minDist = Math.min(minDist, distanceToRingEdge(lat, lon, hole.coords));
+  }
+
+  return minDist;
+}
+
+/**
+ * Find the nearest border point of a prepared part (exterior or holes).
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param part - Prepared polygon part
+ * @returns Nearest border point and its great-circle distance in km, or null if the part is empty
+ */
+export function nearestPointOnPart(
+  lat: number,
+  lon: number,
+  part: PreparedPart
+): { point: Point; distanceKm: number } | null {
+  let best: { point: Point; distanceKm: number } | null = null;
+
+  for (const ring of [part.exterior, ...part.holes]) {
+    const point = nearestPointOnRing(lat, lon, ring.coords);
+    if (!point) {
+      continue;
+    }
+    const distanceKm = haversineDistance(lat, lon, point[0], point[1]);
+    if (!best || distanceKm < best.distanceKm) {
+      best = { point, distanceKm };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the nearest border point of a prepared polygon.
+ * 
+ * Considers every exterior and hole of every part.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param polygon - Prepared polygon
+ * @returns Nearest border point and its great-circle distance in km, or null if the polygon is empty
+ */
+export function nearestBorderPoint(
+  lat: number,
+  lon: number,
+  polygon: PreparedPolygon
+): { point: Point; distanceKm: number } | null {
+  let best: { point: Point; distanceKm: number } | null = null;
+
+  for (const part of polygon.parts) {
+    const nearest = nearestPointOnPart(lat, lon, part);
+    if (nearest && (!best || nearest.distanceKm < best.distanceKm)) {
+      best = nearest;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,357 @@
+/**
+ * Data sources: where DataLoader reads its data files from.
+ * 
+ * A DataSource returns the contents of one data file by name (e.g.
+ * "metadata.json" or "chunks/56.bin", never with .gz). DataLoader decides
+ * which files to read, verifies them against manifest.json and parses them,
+ * so a source only does I/O. Built-in sources:
+ * - FileSystemDataSource: a directory on disk (Node.js, Electron main process)
+ * - FetchDataSource: HTTP(S) base URL (browsers, workers, Deno, React Native)
+ * - MemoryDataSource: file contents already in memory
+ * - BundledDataSource: JSON/binary modules bundled with the application
+ * 
+ * Design Decisions:
+ * - Sources return decompressed bytes, or already parsed JSON for bundled
+ *   modules (which are not verified against the manifest: there are no bytes to hash)
+ * - A missing file is null, not an error, since several files are optional;
+ *   DataLoader reports missing required files with the source location
+ * - manifest.json is never compressed
+ * - Sources may also stream a file as decompressed chunks (stream()), which
+ *   DataLoader uses for JSON files so large files never sit in memory as a
+ *   whole (see json_stream.ts)
+ */
+
+import { MANIFEST_FILE } from './manifest';
+
+/**
+ * Contents of a data file: decompressed bytes, or already parsed JSON.
+ */
+export type DataFileContents = Uint8Array | { json: unknown };
+
+/**
+ * Provides data files to DataLoader.
+ */
+export interface DataSource {
+  /** Where the files come from (directory, base URL, ...), for error messages */
+  readonly location: string;
+
+  /**
+   * Read a data file.
+   * 
+   * @param filename - Path relative to the dataset root, without .gz
+   * @returns File contents, or null if the file does not exist
+   */
+  read(filename: string): Promise<DataFileContents | null>;
+
+  /**
+   * Read a data file as decompressed chunks (optional).
+   * 
+   * @param filename - Path relative to the dataset root, without .gz
+   * @returns Chunks of the file contents, or null if the file does not exist
+   */
+  stream?(filename: string): Promise<AsyncIterable<Uint8Array> | null>;
+}
+
+export function isNodeEnvironment(): boolean {
+  return typeof process !== 'undefined' &&
+         process.versions != null &&
+         process.versions.node != null;
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Decompress gzip bytes with the DecompressionStream API, or zlib in Node.js.
+ */
+async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream !== 'undefined') {
+    const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  if (isNodeEnvironment()) {
+    let zlib: typeof import('zlib');
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      zlib = require('zlib');
+    } catch (error: unknown) {
+      throw new Error(`Failed to load Node.js modules: ${(error as Error).message}`);
+    }
+    return zlib.gunzipSync(bytes);
+  }
+  throw new Error(
+    `Gzip decompression requires DecompressionStream API (Chrome 80+, Firefox 113+, Safari 16.4+). ` +
+    `Either use uncompressed files or include pako library for older browsers.`
+  );
+}
+
+/**
+ * Reads data files from a directory (Node.js).
+ * foo.json.gz is preferred over foo.json when both exist.
+ */
+export class FileSystemDataSource implements DataSource {
+  readonly location: string;
+
+  /**
+   * @param dataDir - Data directory (default: ./data)
+   */
+  constructor(dataDir: string = './data') {
+    this.location = dataDir;
+  }
+
+  async read(filename: string): Promise<Uint8Array | null> {
+    const { fs, path, zlib } = nodeModules();
+    const filepath = path.join(this.location, filename);
+    const gzipFilepath = path.join(this.location, `${filename}.gz`);
+
+    if (await fileExists(fs, gzipFilepath)) {
+      // Try compressed version first
+      try {
+        const compressed = await fs.promises.readFile(gzipFilepath);
+        return await new Promise<Uint8Array>((resolve, reject) => {
+          zlib.gunzip(compressed, (error, result) => (error ? reject(error) : resolve(result)));
+        });
+      } catch (error: unknown) {
+        // If decompression fails, try uncompressed
+        if (!(await fileExists(fs, filepath))) {
+          throw error;
+        }
+        return fs.promises.readFile(filepath);
+      }
+    }
+    // Fallback to uncompressed
+    return (await fileExists(fs, filepath)) ? fs.promises.readFile(filepath) : null;
+  }
+
+  async stream(filename: string): Promise<AsyncIterable<Uint8Array> | null> {
+    const { fs, path, zlib, stream } = nodeModules();
+    const filepath = path.join(this.location, filename);
+    const gzipFilepath = path.join(this.location, `${filename}.gz`);
+
+    if (await fileExists(fs, gzipFilepath)) {
+      // pipeline() forwards read errors to the gunzip stream, which rethrows them when iterated
+      return stream.pipeline(fs.createReadStream(gzipFilepath), zlib.createGunzip(), () => undefined);
+    }
+    return (await fileExists(fs, filepath)) ? fs.createReadStream(filepath) : null;
+  }
+}
+
+/**
+ * Load the Node.js modules used by FileSystemDataSource.
+ */
+function nodeModules(): {
+  fs: typeof import('fs');
+  path: typeof import('path');
+  zlib: typeof import('zlib');
+  stream: typeof import('stream');
+} {
+  if (!isNodeEnvironment()) {
+    throw new Error(
+      `Reading data files from a directory requires Node.js. ` +
+      `Use loadFromCDN(), or a FetchDataSource, MemoryDataSource or BundledDataSource to provide data.`
+    );
+  }
+  // Use require for CommonJS compatibility (works in both CJS and ESM via ts-node/jest)
+  try {
+    return {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      fs: require('fs'),
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      path: require('path'),
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      zlib: require('zlib'),
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      stream: require('stream')
+    };
+  } catch (error: unknown) {
+    throw new Error(`Failed to load Node.js modules: ${(error as Error).message}`);
+  }
+}
+
+function fileExists(fs: typeof import('fs'), filepath: string): Promise<boolean> {
+  return fs.promises.access(filepath).then(() => true, () => false);
+}
+
+export interface FetchDataSourceOptions {
+  useGzip?: boolean; // Fetch foo.gz and decompress it (default: true)
+  fetch?: typeof fetch; // fetch implementation (default: the global fetch)
+}
+
+/**
+ * Fetches data files relative to a base URL.
+ * A 404 response means the file does not exist; other failures throw.
+ */
+export class FetchDataSource implements DataSource {
+  readonly location: string;
+  readonly useGzip: boolean;
+  private fetchImpl: typeof fetch | null;
+
+  /**
+   * @param baseUrl - Base URL of the data files (e.g. 'https://unpkg.com/geo-intel-offline@latest/data')
+   * @param options.useGzip - Fetch the .gz files and decompress them with the
+   *   DecompressionStream API (default: true)
+   * @param options.fetch - fetch implementation (default: the global fetch)
+   */
+  constructor(baseUrl: string, options: FetchDataSourceOptions = {}) {
+    // Ensure baseUrl doesn't end with /
+    this.location = baseUrl.replace(/\/$/, '');
+    this.useGzip = options.useGzip !== false; // Default to true
+    this.fetchImpl = options.fetch || null;
+  }
+
+  /**
+   * URL of a data file.
+   */
+  url(filename: string): string {
+    const isGzipped = this.useGzip && filename !== MANIFEST_FILE;
+    return `${this.location}/${filename}${isGzipped ? '.gz' : ''}`;
+  }
+
+  async read(filename: string): Promise<Uint8Array | null> {
+    const body = await this.body(filename);
+    return body === null ? null : new Uint8Array(await new Response(body).arrayBuffer());
+  }
+
+  async stream(filename: string): Promise<AsyncIterable<Uint8Array> | null> {
+    const body = await this.body(filename);
+    return body === null ? null : readChunks(body);
+  }
+
+  /**
+   * Fetch a data file.
+   * 
+   * @returns The decompressed response body, or null if the file does not exist
+   */
+  private async body(filename: string): Promise<ReadableStream<Uint8Array> | null> {
+    const url = this.url(filename);
+    // Look up the global fetch per call so it can be replaced (e.g. by tests)
+    const response = await (this.fetchImpl || fetch)(url);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+    const body = response.body || new Blob([]).stream();
+
+    if (url.endsWith('.gz')) {
+      // Use the native DecompressionStream API (available in modern browsers)
+      if (typeof DecompressionStream === 'undefined') {
+        throw new Error(
+          `Gzip decompression requires DecompressionStream API (Chrome 80+, Firefox 113+, Safari 16.4+). ` +
+          `Either use uncompressed files (set useGzip: false) or include pako library for older browsers.`
+        );
+      }
+      return body.pipeThrough(new DecompressionStream('gzip'));
+    }
+    return body;
+  }
+}
+
+/**
+ * Iterate over the chunks of a ReadableStream.
+ */
+async function* readChunks(stream: ReadableStream<Uint8Array>): AsyncIterable<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Serves data files from memory.
+ * Contents may be bytes (gzip-compressed or not) or JSON text.
+ */
+export class MemoryDataSource implements DataSource {
+  readonly location = 'memory';
+  private files: Map<string, Uint8Array | string> = new Map();
+
+  /**
+   * @param files - File contents keyed by file name (without .gz)
+   */
+  constructor(files: { [filename: string]: ArrayBuffer | Uint8Array | string } = {}) {
+    for (const [filename, contents] of Object.entries(files)) {
+      this.set(filename, contents);
+    }
+  }
+
+  /**
+   * Add or replace a file.
+   */
+  set(filename: string, contents: ArrayBuffer | Uint8Array | string): void {
+    this.files.set(filename, contents instanceof ArrayBuffer ? new Uint8Array(contents) : contents);
+  }
+
+  async read(filename: string): Promise<Uint8Array | null> {
+    const contents = this.files.get(filename);
+    if (contents === undefined) {
+      return null;
+    }
+    if (typeof contents === 'string') {
+      return new TextEncoder().encode(contents);
+    }
+    return isGzip(contents) ? gunzip(contents) : contents;
+  }
+}
+
+/**
+ * A bundled data file: a JSON module, bytes, or a function that loads either
+ * (e.g. () => import('./data/polygons.json') to let the bundler split it out).
+ */
+export type BundledDataFile = unknown | (() => Promise<unknown>);
+
+/**
+ * Serves data files bundled with the application as modules.
+ * 
+ * @example
+ * ```typescript
+ * import metadata from './data/metadata.json';
+ * 
+ * const loader = new DataLoader(new BundledDataSource({
+ *   'metadata.json': metadata,
+ *   'geohash_index.json': () => import('./data/geohash_index.json'),
+ *   'polygons.json': () => import('./data/polygons.json')
+ * }));
+ * ```
+ */
+export class BundledDataSource implements DataSource {
+  readonly location = 'bundled modules';
+  private files: { [filename: string]: BundledDataFile };
+
+  /**
+   * @param files - Modules keyed by data file name (without .gz). Parsed JSON is
+   *   used as is and is not verified against manifest.json; bytes (ArrayBuffer or
+   *   Uint8Array, optionally gzip-compressed) are.
+   */
+  constructor(files: { [filename: string]: BundledDataFile }) {
+    this.files = files;
+  }
+
+  async read(filename: string): Promise<DataFileContents | null> {
+    if (!Object.prototype.hasOwnProperty.call(this.files, filename)) {
+      return null;
+    }
+    const file = this.files[filename];
+    let value = typeof file === 'function' ? await (file as () => Promise<unknown>)() : file;
+    // Dynamic import() resolves to a module namespace object
+    if (value !== null && typeof value === 'object' &&
+        (value as { [Symbol.toStringTag]?: string })[Symbol.toStringTag] === 'Module') {
+      value = (value as { default: unknown }).default;
+    }
+
+    if (value instanceof ArrayBuffer || value instanceof Uint8Array) {
+      const bytes = value instanceof ArrayBuffer ? new Uint8Array(value) : value;
+      return isGzip(bytes) ? gunzip(bytes) : bytes;
+    }
+    return { json: value };
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Packed static R-tree (Sort-Tile-Recursive) over bounding boxes.
+ * 
+ * Used by DataLoader to index every exterior ring so that full-scan
+ * fallbacks only ray-cast rings whose bounding box contains the point.
+ * 
+ * Design Decisions:
+ * - Static: built once per load, never mutated (data is read-only)
+ * - Packed into flat typed arrays: no per-node objects, compact in memory
+ * - STR ordering for leaves; upper levels group consecutive nodes, which
+ *   keeps each node's children contiguous
+ */
+
+import { BoundingBox } from './prepared';
+
+const DEFAULT_NODE_SIZE = 16;
+
+export class PackedRTree {
+  private nodeSize: number;
+  // 4 values per node: minLat, maxLat, minLon, maxLon
+  private boxes: Float64Array;
+  // Leaf: item index. Internal: position of first child.
+  private indices: Uint32Array;
+  // Exclusive end position of each level (level 0 = leaves)
+  private levelBounds: number[];
+
+  /**
+   * Build the tree.
+   * 
+   * @param bboxes - Item bounding boxes; search results refer to their indices
+   * @param nodeSize - Maximum children per node (default 16)
+   */
+  constructor(bboxes: BoundingBox[], nodeSize: number = DEFAULT_NODE_SIZE) {
+    this.nodeSize = Math.max(2, nodeSize);
+    const n = bboxes.length;
+
+    // Count total nodes across levels
+    const levelSizes: number[] = [n];
+    let size = n;
+    while (size > 1) {
+      size = Math.ceil(size / this.nodeSize);
+      levelSizes.push(size);
+    }
+    const totalNodes = levelSizes.reduce((a, b) => a + b, 0);
+
+    this.boxes = new Float64Array(totalNodes * 4);
+    this.indices = new Uint32Array(totalNodes);
+    this.levelBounds = [];
+
+    // Leaves in STR order: slice by longitude, then sort each slice by latitude
+    const order = bboxes.map((_, i) => i);
+    const centerLat = (i: number) => (bboxes[i][0] + bboxes[i][1]) / 2;
+    const centerLon = (i: number) => (bboxes[i][2] + bboxes[i][3]) / 2;
+    order.sort((a, b) => centerLon(a) - centerLon(b));
+
+    const leafCount = Math.ceil(n / this.nodeSize);
+    const sliceSize = Math.ceil(Math.sqrt(leafCount)) * this.nodeSize;
+    for (let start = 0; start < n; start += sliceSize) {
+      const slice = order.slice(start, start + sliceSize).sort((a, b) => centerLat(a) - centerLat(b));
+      for (let k = 0; k < slice.length; k++) {
+        order[start + k] = slice[k];
+      }
+    }
+
+    for (let pos = 0; pos < n; pos++) {
+      const item = order[pos];
+      this.boxes.set(bboxes[item], pos * 4);
+      this.indices[pos] = item;
+    }
+    this.levelBounds.push(n);
+
+    // Upper levels: each node covers up to nodeSize consecutive children
+    let levelStart = 0;
+    let levelEnd = n;
+    let pos = n;
+    while (levelEnd - levelStart > 1) {
+      for (let child = levelStart; child < levelEnd; child += this.nodeSize) {
+        const last = Math.min(child + this.nodeSize, levelEnd);
+        let minLat = Infinity;
+        let maxLat = -Infinity;
+        let minLon = Infinity;
+        let maxLon = -Infinity;
+        for (let c = child; c < last; c++) {
+          minLat = Math.min(minLat, this.boxes[c * 4]);
+          maxLat = Math.max(maxLat, this.boxes[c * 4 + 1]);
+          minLon = Math.min(minLon, this.boxes[c * 4 + 2]);
+          maxLon = Math.max(maxLon, this.boxes[c * 4 + 3]);
+        }
+        this.boxes[pos * 4] = minLat;
+        this.boxes[pos * 4 + 1] = maxLat;
+        this.boxes[pos * 4 + 2] = minLon;
+        this.boxes[pos * 4 + 3] = maxLon;
+        this.indices[pos] = child;
+        pos++;
+      }
+      levelStart = levelEnd;
+      levelEnd = pos;
+      this.levelBounds.push(levelEnd);
+    }
+  }
+
+  /**
+   * Number of indexed items.
+   */
+  get size(): number {
+    return this.levelBounds[0];
+  }
+
+  /**
+   * Memory held by the packed node arrays in bytes.
+   */
+  get byteLength(): number {
+    return this.boxes.byteLength + this.indices.byteLength;
+  }
+
+  /**
+   * Find items whose bounding box intersects the query box.
+   * 
+   * @param minLat - Query minimum latitude
+   * @param maxLat - Query maximum latitude
+   * @param minLon - Query minimum longitude
+   * @param maxLon - Query maximum longitude
+   * @returns Indices of matching items (unordered)
+   */
+  search(minLat: number, maxLat: number, minLon: number, maxLon: number): number[] {
+    const results: number[] = [];
+    const leafEnd = this.levelBounds[0];
+    if (leafEnd === 0) {
+      return results;
+    }
+
+    const stack: Array<[number, number]> = [[this.boxes.length / 4 - 1, this.levelBounds.length - 1]];
+    while (stack.length > 0) {
+      const [pos, level] = stack.pop()!;
+      const b = pos * 4;
+      if (this.boxes[b] > maxLat || this.boxes[b + 1] < minLat ||
+          this.boxes[b + 2] > maxLon || this.boxes[b + 3] < minLon) {
+        continue;
+      }
+
+      if (level === 0) {
+        results.push(this.indices[pos]);
+        continue;
+      }
+
+      const firstChild = this.indices[pos];
+      const lastChild = Math.min(firstChild + this.nodeSize, this.levelBounds[level - 1]);
+      for (let child = firstChild; child < lastChild; child++) {
+        stack.push([child, level - 1]);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find items whose bounding box contains a point.
+   * 
+   * @param lat - Point latitude
+   * @param lon - Point longitude
+   * @returns Indices of matching items (unordered)
+   */
+  searchPoint(lat: number, lon: number): number[] {
+    return this.search(lat, lat, lon, lon);
+  }
+}
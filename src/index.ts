@@ -4,9 +4,108 @@
  * Clean, simple interface that hides implementation details.
  */
 
-import { resolve as _resolve, ResolutionResult } from './resolver';
-import { resolveByCountry as _resolveByCountry, ReverseResolutionResult } from './resolver/reverse';
-import { DataLoader, getLoader } from './data/loader';
+import {
+  resolve as _resolve,
+  resolveMany as _resolveMany,
+  toPointList,
+  ResolutionResult,
+  ResolveOptions,
+  CoordinateBatch,
+  CandidateResult
+} from './resolver';
+import {
+  resolveByCountry as _resolveByCountry,
+  ReverseResolutionResult,
+  ReverseResolveOptions,
+  CountryPointType
+} from './resolver/reverse';
+import { resolveNearest as _resolveNearest, NearestResolutionResult } from './resolver/nearest';
+import { resolveTimezone as _resolveTimezone, TimezoneResolutionResult } from './resolver/timezone';
+import { getLocalTime as _getLocalTime, LocalTimeResolutionResult } from './resolver/localtime';
+import {
+  getCountryGeometry as _getCountryGeometry,
+  CountryGeometryResult,
+  CountryGeometryOptions,
+  CountryPartGeometry
+} from './resolver/geometry';
+import {
+  getNeighbors as _getNeighbors,
+  sharesBorder as _sharesBorder,
+  findPath as _findPath,
+  NeighborResult,
+  NeighborOptions
+} from './resolver/neighbors';
+import { formatUtcOffset, getTimezoneOffset, isSupportedTimezone, TimezoneTransition } from './timezone';
+import { Point } from './pip';
+import { BoundingBox } from './data/prepared';
+import {
+  DataLoader,
+  getLoader,
+  getRegisteredLoader,
+  registerLoader,
+  disposeLoader,
+  setDefaultLoader,
+  resetDefaultLoader
+} from './data/loader';
+import { DataIntegrityError } from './data/manifest';
+import { AmbiguousCountryError } from './resolver/country_names';
+import { DataCacheStore, IndexedDBCacheStore, MemoryCacheStore, isCached, clearCache } from './data/cache';
+import { FileSystemDataSource, FetchDataSource, MemoryDataSource, BundledDataSource } from './data/sources';
+import { LayerRegistry, LayerFeature, LayerGeoJson, CustomLayerData } from './data/layers';
+import { WorkerPool, WorkerLike } from './worker/pool';
+import { WorkerDataOptions } from './worker/handler';
+
+/**
+ * Option keys recognised in the trailing options object of resolve().
+ */
+const RESOLVE_OPTION_KEYS = ['dataDir', 'dataset', 'loader', 'returnCandidates', 'subdivisions', 'layers', 'locale', 'point'];
+
+/**
+ * Pick the loader for an entry point: an explicit loader, a registered
+ * dataset, the loader for a data directory, or the default loader.
+ */
+function loaderFor(options: { dataDir?: string; dataset?: string; loader?: DataLoader }): DataLoader {
+  if (options.loader) {
+    return options.loader;
+  }
+  return options.dataset !== undefined ? getRegisteredLoader(options.dataset) : getLoader(options.dataDir);
+}
+
+/**
+ * A candidate country for a forward-geocoded point.
+ */
+export interface CountryCandidate {
+  country: string | null;
+  iso2: string | null;
+  iso3: string | null;
+  continent: string | null;
+  /** Confidence that the point lies in this country (0.0 when outside) */
+  confidence: number;
+  /** Whether the point is inside this country's polygon */
+  inside: boolean;
+  /** Great-circle distance from the point to this country's border */
+  borderDistanceKm: number;
+}
+
+/**
+ * A country sharing a land border, or a step of a country path.
+ */
+export interface CountryNeighbor {
+  country: string;
+  iso2: string;
+  iso3: string;
+  /** Length of the shared border in km (in a path: the border crossed to enter the country, 0 for the start) */
+  borderKm: number;
+}
+
+function toCountryNeighbor(result: NeighborResult): CountryNeighbor {
+  return {
+    country: result.countryName,
+    iso2: result.iso2,
+    iso3: result.iso3,
+    borderKm: result.borderKm
+  };
+}
 
 /**
  * Result object for geo-intelligence resolution (forward geocoding).
@@ -40,20 +139,85 @@ export class GeoIntelResult {
     return this._result.timezone;
   }
 
+  /**
+   * First-level subdivision name, e.g. "California" (null without subdivision data).
+   */
+  get subdivision(): string | null {
+    return this._result.subdivision;
+  }
+
+  /**
+   * ISO 3166-2 subdivision code, e.g. "US-CA".
+   */
+  get subdivisionCode(): string | null {
+    return this._result.subdivisionCode;
+  }
+
+  /**
+   * Subdivision type, e.g. "State" or "Province".
+   */
+  get subdivisionType(): string | null {
+    return this._result.subdivisionType;
+  }
+
   get confidence(): number {
     return this._result.confidence;
   }
 
+  /**
+   * Ranked matching and nearby countries (only with `returnCandidates: true`).
+   */
+  get candidates(): CountryCandidate[] | undefined {
+    if (!this._result.candidates) {
+      return undefined;
+    }
+    return this._result.candidates.map((c: CandidateResult) => ({
+      country: c.countryName,
+      iso2: c.iso2,
+      iso3: c.iso3,
+      continent: c.continent,
+      confidence: c.confidence,
+      inside: c.inside,
+      borderDistanceKm: c.borderDistanceKm
+    }));
+  }
+
+  /**
+   * Matching features per requested custom layer (only with the `layers` option).
+   */
+  get layers(): { [layer: string]: LayerFeature[] } | undefined {
+    return this._result.layers;
+  }
+
   toDict(): Record<string, any> {
     // ResolutionResult is an interface, so we construct the dict manually
-    return {
+    const dict: Record<string, any> = {
       country: this._result.countryName,
       iso2: this._result.iso2,
       iso3: this._result.iso3,
       continent: this._result.continent,
       timezone: this._result.timezone,
+      subdivision: this._result.subdivision,
+      subdivision_code: this._result.subdivisionCode,
+      subdivision_type: this._result.subdivisionType,
       confidence: this._result.confidence
     };
+    const candidates = this.candidates;
+    if (candidates) {
+      dict.candidates = candidates.map(c => ({
+        country: c.country,
+        iso2: c.iso2,
+        iso3: c.iso3,
+        continent: c.continent,
+        confidence: c.confidence,
+        inside: c.inside,
+        border_distance_km: c.borderDistanceKm
+      }));
+    }
+    if (this._result.layers) {
+      dict.layers = this._result.layers;
+    }
+    return dict;
   }
 
   toString(): string {
@@ -105,6 +269,16 @@ export class ReverseGeoIntelResult {
     return this._result.confidence;
   }
 
+  /** How well the input matched the country name (1.0 for ISO codes, names and aliases) */
+  get matchScore(): number {
+    return this._result.matchScore;
+  }
+
+  /** Whether latitude/longitude lie inside the country */
+  get inside(): boolean {
+    return this._result.inside;
+  }
+
   toDict(): Record<string, any> {
     // ReverseResolutionResult is an interface, so we construct the dict manually
     return {
@@ -115,7 +289,9 @@ export class ReverseGeoIntelResult {
       iso3: this._result.iso3,
       continent: this._result.continent,
       timezone: this._result.timezone,
-      confidence: this._result.confidence
+      confidence: this._result.confidence,
+      match_score: this._result.matchScore,
+      inside: this._result.inside
     };
   }
 
@@ -124,6 +300,301 @@ export class ReverseGeoIntelResult {
   }
 }
 
+/**
+ * Result object for nearest-country resolution.
+ * 
+ * Provides both dictionary-like access and attribute access.
+ */
+export class NearestGeoIntelResult {
+  private _result: NearestResolutionResult;
+
+  constructor(result: NearestResolutionResult) {
+    this._result = result;
+  }
+
+  get country(): string | null {
+    return this._result.countryName;
+  }
+
+  get iso2(): string | null {
+    return this._result.iso2;
+  }
+
+  get iso3(): string | null {
+    return this._result.iso3;
+  }
+
+  get continent(): string | null {
+    return this._result.continent;
+  }
+
+  get timezone(): string | null {
+    return this._result.timezone;
+  }
+
+  get confidence(): number {
+    return this._result.confidence;
+  }
+
+  /**
+   * Whether the point lies inside the returned country.
+   */
+  get inside(): boolean {
+    return this._result.inside;
+  }
+
+  /**
+   * Great-circle distance to the country's coastline/border in km (0 when inside).
+   */
+  get distanceKm(): number | null {
+    return this._result.distanceKm;
+  }
+
+  /**
+   * Nearest coastline/border point as [lat, lon] (the point itself when inside).
+   */
+  get nearestPoint(): Point | null {
+    return this._result.nearestPoint;
+  }
+
+  toDict(): Record<string, any> {
+    // NearestResolutionResult is an interface, so we construct the dict manually
+    return {
+      country: this._result.countryName,
+      iso2: this._result.iso2,
+      iso3: this._result.iso3,
+      continent: this._result.continent,
+      timezone: this._result.timezone,
+      confidence: this._result.confidence,
+      inside: this._result.inside,
+      distance_km: this._result.distanceKm,
+      nearest_point: this._result.nearestPoint
+    };
+  }
+
+  toString(): string {
+    const distance = this.distanceKm === null ? 'null' : this.distanceKm.toFixed(2);
+    return `NearestGeoIntelResult(country=${this.country}, iso2=${this.iso2}, inside=${this.inside}, distanceKm=${distance})`;
+  }
+}
+
+/**
+ * Result object for timezone resolution.
+ */
+export class TimezoneGeoIntelResult {
+  private _result: TimezoneResolutionResult;
+
+  constructor(result: TimezoneResolutionResult) {
+    this._result = result;
+  }
+
+  /**
+   * IANA timezone name (null when timezone data is not loaded).
+   */
+  get tzid(): string | null {
+    return this._result.tzid;
+  }
+
+  /**
+   * Whether the point lies inside a timezone polygon (false for nautical Etc/GMT zones at sea).
+   */
+  get inside(): boolean {
+    return this._result.inside;
+  }
+
+  toDict(): Record<string, any> {
+    return {
+      tzid: this._result.tzid,
+      inside: this._result.inside
+    };
+  }
+
+  toString(): string {
+    return `TimezoneGeoIntelResult(tzid=${this.tzid}, inside=${this.inside})`;
+  }
+}
+
+/**
+ * Result object for local time lookups.
+ */
+export class LocalTimeResult {
+  private _result: LocalTimeResolutionResult;
+
+  constructor(result: LocalTimeResolutionResult) {
+    this._result = result;
+  }
+
+  /**
+   * IANA timezone name (null when no timezone could be determined).
+   */
+  get tzid(): string | null {
+    return this._result.tzid;
+  }
+
+  /**
+   * UTC offset in seconds east of UTC (e.g. -14400 for EDT).
+   */
+  get utcOffsetSeconds(): number | null {
+    return this._result.utcOffsetSeconds;
+  }
+
+  /**
+   * UTC offset as ±HH:MM (e.g. "-04:00").
+   */
+  get utcOffset(): string | null {
+    return this._result.utcOffsetSeconds === null ? null : formatUtcOffset(this._result.utcOffsetSeconds);
+  }
+
+  /**
+   * Whether daylight saving time is in effect.
+   */
+  get dst(): boolean | null {
+    return this._result.dst;
+  }
+
+  /**
+   * Timezone abbreviation (e.g. "EDT", or "+03" where tzdata has no letters).
+   */
+  get abbreviation(): string | null {
+    return this._result.abbreviation;
+  }
+
+  /**
+   * Local time as ISO 8601 with offset (e.g. "2024-07-01T08:00:00-04:00").
+   */
+  get localTime(): string | null {
+    return this._result.localTime;
+  }
+
+  /**
+   * Next scheduled offset change (null when none is scheduled).
+   */
+  get nextTransition(): TimezoneTransition | null {
+    return this._result.nextTransition;
+  }
+
+  toDict(): Record<string, any> {
+    const next = this._result.nextTransition;
+    return {
+      tzid: this._result.tzid,
+      utc_offset: this.utcOffset,
+      utc_offset_seconds: this._result.utcOffsetSeconds,
+      dst: this._result.dst,
+      abbreviation: this._result.abbreviation,
+      local_time: this._result.localTime,
+      next_transition: next ? {
+        at: next.at.toISOString(),
+        utc_offset: formatUtcOffset(next.utcOffsetSeconds),
+        utc_offset_seconds: next.utcOffsetSeconds,
+        dst: next.dst,
+        abbreviation: next.abbreviation
+      } : null
+    };
+  }
+
+  toString(): string {
+    return `LocalTimeResult(tzid=${this.tzid}, localTime=${this.localTime}, dst=${this.dst})`;
+  }
+}
+
+/**
+ * Result object for country geometry queries.
+ */
+export class CountryGeometryInfo {
+  private _result: CountryGeometryResult;
+
+  constructor(result: CountryGeometryResult) {
+    this._result = result;
+  }
+
+  get country(): string {
+    return this._result.countryName;
+  }
+
+  get iso2(): string {
+    return this._result.iso2;
+  }
+
+  get iso3(): string {
+    return this._result.iso3;
+  }
+
+  /**
+   * Geodesic area in km² (holes excluded).
+   */
+  get areaKm2(): number {
+    return this._result.areaKm2;
+  }
+
+  /**
+   * Border and coastline length in km, including the borders of holes.
+   */
+  get perimeterKm(): number {
+    return this._result.perimeterKm;
+  }
+
+  /**
+   * Bounding box as [minLat, maxLat, minLon, maxLon]; minLon > maxLon when it crosses the antimeridian.
+   */
+  get bbox(): BoundingBox {
+    return this._result.bbox;
+  }
+
+  /**
+   * Whether the bounding box wraps across ±180° longitude (e.g. Fiji, Russia).
+   */
+  get crossesAntimeridian(): boolean {
+    return this._result.crossesAntimeridian;
+  }
+
+  /**
+   * Number of polygon parts (mainland and islands).
+   */
+  get parts(): number {
+    return this._result.parts;
+  }
+
+  /**
+   * Number of holes (enclaves and lakes cut out of the parts).
+   */
+  get holes(): number {
+    return this._result.holes;
+  }
+
+  /**
+   * The part with the largest area.
+   */
+  get largestPart(): CountryPartGeometry {
+    return this._result.largestPart;
+  }
+
+  toDict(): Record<string, any> {
+    const largest = this._result.largestPart;
+    return {
+      country: this._result.countryName,
+      iso2: this._result.iso2,
+      iso3: this._result.iso3,
+      area_km2: this._result.areaKm2,
+      perimeter_km: this._result.perimeterKm,
+      bbox: this._result.bbox,
+      crosses_antimeridian: this._result.crossesAntimeridian,
+      parts: this._result.parts,
+      holes: this._result.holes,
+      largest_part: {
+        index: largest.index,
+        area_km2: largest.areaKm2,
+        perimeter_km: largest.perimeterKm,
+        bbox: largest.bbox,
+        holes: largest.holes
+      }
+    };
+  }
+
+  toString(): string {
+    return `CountryGeometryInfo(country=${this.country}, areaKm2=${this.areaKm2.toFixed(0)}, parts=${this.parts})`;
+  }
+}
+
 /**
  * Resolve coordinates to geo-intelligence (forward geocoding) or country to coordinates (reverse geocoding).
  * 
@@ -142,7 +613,13 @@ export class ReverseGeoIntelResult {
  *     - For reverse geocoding: (country: string)
  * @param options - Optional configuration
  * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
  * @param options.loader - Optional pre-configured loader instance
+ * @param options.returnCandidates - Forward only: include a ranked `candidates` list
+ * @param options.subdivisions - Forward only: load subdivision data on demand and fill the subdivision fields
+ * @param options.layers - Forward only: names of custom layers (registered in `loader.layers`) to match
+ * @param options.locale - Language of the returned country name (e.g. "de", "ja"), falling back to English
+ * @param options.point - Reverse only: 'representative' (default, always inside), 'centroid' or 'vertexMean'
  * @returns 
  *     - GeoIntelResult for forward geocoding (when lat/lon provided)
  *     - ReverseGeoIntelResult for reverse geocoding (when country string provided)
@@ -159,25 +636,34 @@ export class ReverseGeoIntelResult {
  * Reverse geocoding (country → coordinates):
  * ```typescript
  * const result = await resolve("United States");
- * console.log(result.latitude, result.longitude); // 39.8283 -98.5795
+ * console.log(result.latitude, result.longitude); // 39.114 -98.172 (inside the country)
  * console.log(result.iso2); // "US"
  * ```
  */
 export async function resolve(
   ...args: any[]
 ): Promise<GeoIntelResult | ReverseGeoIntelResult> {
-  const options: { dataDir?: string; loader?: DataLoader } = {};
+  const options: {
+    dataDir?: string;
+    dataset?: string;
+    loader?: DataLoader;
+    returnCandidates?: boolean;
+    subdivisions?: boolean;
+    layers?: string[];
+    locale?: string;
+    point?: CountryPointType;
+  } = {};
   
   // Extract options from last argument if it's an object
   if (args.length > 0 && typeof args[args.length - 1] === 'object' && args[args.length - 1] !== null && !Array.isArray(args[args.length - 1])) {
     const lastArg = args[args.length - 1];
-    if ('dataDir' in lastArg || 'loader' in lastArg) {
+    if (RESOLVE_OPTION_KEYS.some(key => key in lastArg)) {
       Object.assign(options, args.pop());
     }
   }
 
   // Get loader
-  const loader = options.loader || getLoader(options.dataDir);
+  const loader = loaderFor(options);
 
   // Auto-detect mode based on arguments
   if (args.length === 2) {
@@ -194,7 +680,12 @@ export async function resolve(
     }
     
     // Forward geocoding mode
-    const resolutionResult = await _resolve(lat, lon, loader);
+    const resolutionResult = await loader.withData(() => _resolve(lat, lon, loader, {
+      returnCandidates: options.returnCandidates,
+      subdivisions: options.subdivisions,
+      layers: options.layers,
+      locale: options.locale
+    }));
     return new GeoIntelResult(resolutionResult);
     
   } else if (args.length === 1) {
@@ -211,7 +702,8 @@ export async function resolve(
     }
     
     // Reverse geocoding mode
-    const reverseResult = await _resolveByCountry(countryInput, loader);
+    const reverseResult = await loader.withData(() =>
+      _resolveByCountry(countryInput, loader, { locale: options.locale, point: options.point }));
     return new ReverseGeoIntelResult(reverseResult);
     
   } else {
@@ -235,24 +727,510 @@ export async function resolve(
  * @param countryInput - Country name (e.g., "United States", "USA", "US") or ISO code
  * @param options - Optional configuration
  * @param options.dataDir - Optional custom data directory path
+ * @param options.dataset - Optional dataset name registered with registerLoader()
  * @param options.loader - Optional pre-configured loader instance
+ * @param options.locale - Language of the returned country name (e.g. "de", "ja"), falling back to English
+ * @param options.point - 'representative' (default, always inside), 'centroid' or 'vertexMean'
  * @returns ReverseGeoIntelResult with coordinates and metadata
  */
 export async function resolveByCountry(
   countryInput: string,
-  options: { dataDir?: string; loader?: DataLoader } = {}
+  options: { dataDir?: string; dataset?: string; loader?: DataLoader } & ReverseResolveOptions = {}
 ): Promise<ReverseGeoIntelResult> {
-  const loader = options.loader || getLoader(options.dataDir);
-  const reverseResult = await _resolveByCountry(countryInput, loader);
+  const loader = loaderFor(options);
+  const reverseResult = await loader.withData(() =>
+    _resolveByCountry(countryInput, loader, { locale: options.locale, point: options.point }));
   return new ReverseGeoIntelResult(reverseResult);
 }
 
+/**
+ * Resolve many coordinates to geo-intelligence in one call (batch forward geocoding).
+ * 
+ * Points that fall in the same geohash cell share candidate lookups and
+ * polygon conversion, so a large batch costs much less than calling
+ * `resolve(lat, lon)` once per point.
+ * 
+ * @param points - Array of [lat, lon] tuples, or a flat interleaved array
+ *     (e.g. Float64Array) laid out as [lat0, lon0, lat1, lon1, ...]
+ * @param options - Optional configuration
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @param options.returnCandidates - Include a ranked `candidates` list on each result
+ * @param options.subdivisions - Load subdivision data on demand and fill the subdivision fields
+ * @param options.layers - Names of custom layers (registered in `loader.layers`) to match
+ * @param options.locale - Language of the country names (e.g. "de", "ja"), falling back to English
+ * @returns One GeoIntelResult per input point, in input order
+ * 
+ * @example
+ * ```typescript
+ * const results = await resolveMany([
+ *   [40.7128, -74.0060], // New York
+ *   [51.5074, -0.1278]   // London
+ * ]);
+ * console.log(results.map(r => r.iso2)); // ["US", "GB"]
+ * ```
+ */
+export async function resolveMany(
+  points: CoordinateBatch,
+  options: {
+    dataDir?: string;
+    dataset?: string;
+    loader?: DataLoader;
+    returnCandidates?: boolean;
+    subdivisions?: boolean;
+    layers?: string[];
+    locale?: string;
+  } = {}
+): Promise<GeoIntelResult[]> {
+  const loader = loaderFor(options);
+  const resolutionResults = await loader.withData(() => _resolveMany(points, loader, {
+    returnCandidates: options.returnCandidates,
+    subdivisions: options.subdivisions,
+    layers: options.layers,
+    locale: options.locale
+  }));
+  return resolutionResults.map(r => new GeoIntelResult(r));
+}
+
+/**
+ * Resolve coordinates to the containing or nearest country.
+ * 
+ * For points on land this matches `resolve(lat, lon)` with `distanceKm` 0.
+ * For offshore points it returns the nearest country polygon, the
+ * great-circle distance to its coastline and the nearest coastline point.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param options - Optional configuration
+ * @param options.maxDistanceKm - Maximum search distance in km (default: unlimited)
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @returns NearestGeoIntelResult (country fields null when nothing is within maxDistanceKm)
+ * 
+ * @example
+ * ```typescript
+ * const result = await resolveNearest(40.5, -73.5, { maxDistanceKm: 200 }); // Off New York
+ * console.log(result.iso2, result.distanceKm); // "US" 10.9
+ * ```
+ */
+export async function resolveNearest(
+  lat: number,
+  lon: number,
+  options: { maxDistanceKm?: number; dataDir?: string; dataset?: string; loader?: DataLoader } = {}
+): Promise<NearestGeoIntelResult> {
+  const loader = loaderFor(options);
+  const nearestResult = await loader.withData(() => _resolveNearest(lat, lon, loader, {
+    maxDistanceKm: options.maxDistanceKm
+  }));
+  return new NearestGeoIntelResult(nearestResult);
+}
+
+/**
+ * Resolve coordinates to an IANA timezone.
+ * 
+ * Works anywhere: points inside a timezone polygon (land and territorial
+ * waters) get their IANA zone, points at open sea get the nautical
+ * Etc/GMT±N zone for their longitude.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param options - Optional configuration
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @returns TimezoneGeoIntelResult (tzid null when timezone data is not loaded)
+ * 
+ * @example
+ * ```typescript
+ * const result = await resolveTimezone(-31.95, 115.86); // Perth
+ * console.log(result.tzid); // "Australia/Perth"
+ * ```
+ */
+export async function resolveTimezone(
+  lat: number,
+  lon: number,
+  options: { dataDir?: string; dataset?: string; loader?: DataLoader } = {}
+): Promise<TimezoneGeoIntelResult> {
+  const loader = loaderFor(options);
+  const timezoneResult = await loader.withData(() => _resolveTimezone(lat, lon, loader));
+  return new TimezoneGeoIntelResult(timezoneResult);
+}
+
+/**
+ * Get the local time, UTC offset and DST state at coordinates.
+ * 
+ * Layered on resolve(): the point's timezone comes from forward resolution
+ * (or the nautical Etc/GMT±N zone at sea), and offsets come from the bundled
+ * tz rules table, so no Intl timezone support is needed.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param date - Instant as Date or epoch milliseconds (default: now)
+ * @param options - Optional configuration
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @returns LocalTimeResult (fields null when no timezone could be determined)
+ * 
+ * @example
+ * ```typescript
+ * const result = await getLocalTime(40.7128, -74.0060, new Date('2024-07-01T12:00:00Z'));
+ * console.log(result.localTime); // "2024-07-01T08:00:00-04:00"
+ * console.log(result.dst); // true
+ * ```
+ */
+export async function getLocalTime(
+  lat: number,
+  lon: number,
+  date: Date | number = new Date(),
+  options: { dataDir?: string; dataset?: string; loader?: DataLoader } = {}
+): Promise<LocalTimeResult> {
+  const loader = loaderFor(options);
+  const localTimeResult = await loader.withData(() => _getLocalTime(lat, lon, date, loader));
+  return new LocalTimeResult(localTimeResult);
+}
+
+/**
+ * Get the shape information of a country: geodesic area, border/coastline
+ * length, bounding box, parts, holes and the largest part.
+ * 
+ * The bounding box takes the shorter way around the globe, so countries
+ * across the antimeridian get a wrapping box with minLon > maxLon (Fiji:
+ * roughly [-21.7, -12.5, 174.6, -178.2]) instead of spanning all longitudes.
+ * 
+ * @param countryInput - Country name (e.g., "United States", "USA", "US"), in
+ *   English or any language of the dataset's localized names, or ISO code
+ * @param options - Optional configuration
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @param options.locale - Language of the returned country name (e.g. "de", "ja"), falling back to English
+ * @returns CountryGeometryInfo with areas, lengths and bounding boxes
+ * @throws AmbiguousCountryError if the name matches several countries equally well
+ * 
+ * @example
+ * ```typescript
+ * const info = await getCountryGeometryInfo('Germany');
+ * console.log(info.areaKm2, info.parts); // 356236 22
+ * ```
+ */
+export async function getCountryGeometryInfo(
+  countryInput: string,
+  options: { dataDir?: string; dataset?: string; loader?: DataLoader } & CountryGeometryOptions = {}
+): Promise<CountryGeometryInfo> {
+  const loader = loaderFor(options);
+  const geometryResult = await loader.withData(() =>
+    _getCountryGeometry(countryInput, loader, { locale: options.locale }));
+  return new CountryGeometryInfo(geometryResult);
+}
+
+/**
+ * Get the countries sharing a land border with a country.
+ * 
+ * The neighbor graph is derived from the country polygons on first use and
+ * cached per dataset (with lazy polygons, this loads every country). Overseas
+ * parts count like the mainland, so France borders Brazil via French Guiana.
+ * 
+ * @param countryInput - Country name (e.g., "United States", "USA", "US"), in
+ *   English or any language of the dataset's localized names, or ISO code
+ * @param options - Optional configuration
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @param options.locale - Language of the returned country names (e.g. "de", "ja"), falling back to English
+ * @returns Neighbors with their shared border length, longest border first
+ * @throws AmbiguousCountryError if the name matches several countries equally well
+ * 
+ * @example
+ * ```typescript
+ * const neighbors = await getCountryNeighbors('Poland');
+ * console.log(neighbors.map(n => n.iso2)); // ["CZ", "UA", "DE", "SK", "BY", "RU", "LT"]
+ * ```
+ */
+export async function getCountryNeighbors(
+  countryInput: string,
+  options: { dataDir?: string; dataset?: string; loader?: DataLoader } & NeighborOptions = {}
+): Promise<CountryNeighbor[]> {
+  const loader = loaderFor(options);
+  const neighbors = await loader.withData(() => _getNeighbors(countryInput, loader, { locale: options.locale }));
+  return neighbors.map(toCountryNeighbor);
+}
+
+/**
+ * Check whether two countries share a land border.
+ * 
+ * @param countryA - Country name or ISO code
+ * @param countryB - Country name or ISO code
+ * @param options - Optional configuration
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @returns True if the countries are neighbors (false for the same country)
+ * @throws AmbiguousCountryError if a name matches several countries equally well
+ * 
+ * @example
+ * ```typescript
+ * await sharesBorder('France', 'Spain'); // true
+ * await sharesBorder('France', 'Poland'); // false
+ * ```
+ */
+export async function sharesBorder(
+  countryA: string,
+  countryB: string,
+  options: { dataDir?: string; dataset?: string; loader?: DataLoader } = {}
+): Promise<boolean> {
+  const loader = loaderFor(options);
+  return loader.withData(() => _sharesBorder(countryA, countryB, loader));
+}
+
+/**
+ * Find a route between two countries over the fewest land-border crossings.
+ * 
+ * @param fromCountry - Start country name or ISO code
+ * @param toCountry - Destination country name or ISO code
+ * @param options - Optional configuration
+ * @param options.dataDir - Optional custom data directory path (Node.js only)
+ * @param options.dataset - Optional dataset name registered with registerLoader()
+ * @param options.loader - Optional pre-configured loader instance
+ * @param options.locale - Language of the returned country names (e.g. "de", "ja"), falling back to English
+ * @returns Countries from start to destination, both included (crossings:
+ *   length - 1), or null when no land route exists
+ * @throws AmbiguousCountryError if a name matches several countries equally well
+ * 
+ * @example
+ * ```typescript
+ * const path = await findCountryPath('France', 'Poland');
+ * console.log(path?.map(c => c.country)); // ["France", "Germany", "Poland"]
+ * ```
+ */
+export async function findCountryPath(
+  fromCountry: string,
+  toCountry: string,
+  options: { dataDir?: string; dataset?: string; loader?: DataLoader } & NeighborOptions = {}
+): Promise<CountryNeighbor[] | null> {
+  const loader = loaderFor(options);
+  const path = await loader.withData(() => _findPath(fromCountry, toCountry, loader, { locale: options.locale }));
+  return path === null ? null : path.map(toCountryNeighbor);
+}
+
+/**
+ * Options for a WorkerResolver: the worker script, the pool size and the
+ * data each worker loads.
+ */
+export interface WorkerResolverOptions extends WorkerDataOptions {
+  workers?: number; // Number of workers; batches are split across them (default: 1)
+  script?: string | URL; // Worker script (dist/worker.js in Node.js, dist/worker.iife.js in browsers)
+  createWorker?: () => WorkerLike; // Start a worker yourself (e.g. with a bundler's worker URL)
+}
+
+/**
+ * Resolver running in Web Workers (browser) or worker_threads workers (Node.js).
+ * 
+ * Each worker owns its own DataLoader, so data loading and point-in-polygon
+ * work stay off the calling thread. With several workers, batches are split
+ * across them to use more cores (each worker holds its own copy of the data).
+ * 
+ * @example
+ * ```typescript
+ * const resolver = new WorkerResolver({
+ *   script: require.resolve('geo-intel-offline/dist/worker.js'),
+ *   workers: 4
+ * });
+ * const result = await resolver.resolve(40.7128, -74.0060);
+ * const results = await resolver.resolveMany(points);
+ * await resolver.terminate();
+ * ```
+ */
+export class WorkerResolver {
+  private pool: WorkerPool;
+
+  constructor(options: WorkerResolverOptions = {}) {
+    const { workers, script, createWorker, ...data } = options;
+    this.pool = new WorkerPool({ size: workers, script, createWorker, data });
+  }
+
+  /**
+   * Number of workers.
+   */
+  get workers(): number {
+    return this.pool.size;
+  }
+
+  /**
+   * Resolve coordinates to a country, or a country name/ISO code to
+   * coordinates (same modes as the module-level resolve()).
+   * 
+   * @param options - returnCandidates, subdivisions and layers (forward only,
+   *   layers registered with registerLayer()) and locale (reverse: locale and point)
+   */
+  resolve(lat: number, lon: number, options?: ResolveOptions): Promise<GeoIntelResult>;
+  resolve(country: string, options?: ReverseResolveOptions): Promise<ReverseGeoIntelResult>;
+  async resolve(
+    latOrCountry: number | string,
+    lon?: number | ReverseResolveOptions,
+    options: ResolveOptions = {}
+  ): Promise<GeoIntelResult | ReverseGeoIntelResult> {
+    if (typeof latOrCountry === 'string' && typeof lon !== 'number') {
+      return this.resolveByCountry(latOrCountry, lon);
+    }
+    if (typeof latOrCountry !== 'number' || typeof lon !== 'number') {
+      throw new Error(
+        `Forward geocoding requires two numeric arguments (lat, lon). ` +
+        `Got: lat=${typeof latOrCountry}, lon=${typeof lon}\n` +
+        `For reverse geocoding, use: resolver.resolve('Country Name')`
+      );
+    }
+    const resolutionResult = await this.pool.request<ResolutionResult>({
+      type: 'resolve',
+      lat: latOrCountry,
+      lon,
+      options: resolveOptions(options)
+    });
+    return new GeoIntelResult(resolutionResult);
+  }
+
+  /**
+   * Resolve a country name or ISO code to coordinates and metadata.
+   */
+  async resolveByCountry(countryInput: string, options: ReverseResolveOptions = {}): Promise<ReverseGeoIntelResult> {
+    const reverseResult = await this.pool.request<ReverseResolutionResult>({
+      type: 'resolveByCountry',
+      country: countryInput,
+      options: { locale: options.locale, point: options.point }
+    });
+    return new ReverseGeoIntelResult(reverseResult);
+  }
+
+  /**
+   * Resolve many coordinates, split into one contiguous slice per worker.
+   * 
+   * @param points - Array of [lat, lon] tuples or a flat interleaved array
+   * @param options - returnCandidates, subdivisions, layers and locale
+   * @returns One GeoIntelResult per input point, in input order
+   */
+  async resolveMany(points: CoordinateBatch, options: ResolveOptions = {}): Promise<GeoIntelResult[]> {
+    const pointList = toPointList(points);
+    const sliceSize = Math.ceil(pointList.length / this.pool.size);
+    const slices: Promise<ResolutionResult[]>[] = [];
+    for (let start = 0; start < pointList.length; start += sliceSize) {
+      slices.push(this.pool.request<ResolutionResult[]>(
+        { type: 'resolveMany', points: pointList.slice(start, start + sliceSize), options: resolveOptions(options) },
+        slices.length
+      ));
+    }
+    const resolutionResults = ([] as ResolutionResult[]).concat(...await Promise.all(slices));
+    return resolutionResults.map(r => new GeoIntelResult(r));
+  }
+
+  /**
+   * Register a custom layer in every worker (see LayerRegistry.register()).
+   */
+  async registerLayer(name: string, data: LayerGeoJson | CustomLayerData): Promise<void> {
+    await this.pool.broadcast({ type: 'registerLayer', name, data });
+  }
+
+  /**
+   * Remove a custom layer from every worker.
+   * 
+   * @returns Whether the layer was registered
+   */
+  async unregisterLayer(name: string): Promise<boolean> {
+    const removed = await this.pool.broadcast<boolean>({ type: 'unregisterLayer', name });
+    return removed.some(r => r);
+  }
+
+  /**
+   * Stop the workers. Pending and later calls are rejected.
+   */
+  terminate(): Promise<void> {
+    return this.pool.terminate();
+  }
+}
+
+/**
+ * Copy the resolve options a worker understands (options may carry other keys
+ * that cannot be sent in a message).
+ */
+function resolveOptions(options: ResolveOptions): ResolveOptions {
+  return {
+    returnCandidates: options.returnCandidates,
+    subdivisions: options.subdivisions,
+    layers: options.layers,
+    locale: options.locale
+  };
+}
+
 // Export types and utilities
-export { DataLoader, getLoader } from './data/loader';
+export {
+  DataLoader,
+  DataLoaderOptions,
+  DataLoaderStats,
+  DataLoaderReloadOptions,
+  DatasetReloadEvent,
+  DatasetReloadListener,
+  getLoader,
+  getRegisteredLoader,
+  registerLoader,
+  disposeLoader,
+  setDefaultLoader,
+  resetDefaultLoader
+} from './data/loader';
+export { BoundingBox } from './data/prepared';
+export { DataIntegrityError, DatasetManifest, DatasetFileInfo } from './data/manifest';
+export { DataCacheStore, IndexedDBCacheStore, MemoryCacheStore, isCached, clearCache } from './data/cache';
+export {
+  DataSource,
+  DataFileContents,
+  FileSystemDataSource,
+  FetchDataSource,
+  FetchDataSourceOptions,
+  MemoryDataSource,
+  BundledDataSource,
+  BundledDataFile
+} from './data/sources';
+export {
+  LayerRegistry,
+  CustomLayer,
+  CustomLayerData,
+  LayerFeature,
+  LayerGeoJson,
+  LayerGeoJsonFeature
+} from './data/layers';
+export { WorkerLike } from './worker/pool';
+export { WorkerDataOptions } from './worker/handler';
+export { nauticalTimezone } from './resolver/timezone';
+export {
+  AmbiguousCountryError,
+  CountryNameCandidate,
+  COUNTRY_NAME_LOCALES,
+  localizedCountryName
+} from './resolver/country_names';
+export { ReverseResolveOptions, CountryPointType } from './resolver/reverse';
+export { CountryGeometryOptions, CountryPartGeometry } from './resolver/geometry';
+export { NeighborOptions } from './resolver/neighbors';
+export {
+  getTimezoneOffset,
+  isSupportedTimezone,
+  formatUtcOffset,
+  TimezoneOffset,
+  TimezoneTransition,
+  TZDATA_VERSION
+} from './timezone';
+export { CoordinateBatch, ResolveOptions } from './resolver';
 export { encode, decode, getNeighbors, GEOHASH_PRECISION } from './geohash';
-export { pointInPolygon, pointInPolygonWithHoles, Point, Polygon } from './pip';
+export { pointInPolygon, pointInPolygonWithHoles, pointInRing, Point, Polygon, RingCoords } from './pip';
 export { calculateConfidence, getConfidenceLabel } from './utils/confidence';
-export { getPolygonCentroid, calculateBoundingBox } from './utils/polygon';
+export {
+  getPolygonCentroid,
+  getRingCentroid,
+  getRingAreaCentroid,
+  getAreaCentroid,
+  getPoleOfInaccessibility,
+  getRepresentativePoint,
+  calculateBoundingBox
+} from './utils/polygon';
 
 // Export distance calculation features
 export {
@@ -306,6 +1284,12 @@ export async function loadFromCDN(
   baseUrl: string,
   options?: {
     useGzip?: boolean;
+    timezones?: boolean;
+    format?: 'json' | 'binary';
+    lazyPolygons?: boolean;
+    verifyIntegrity?: boolean;
+    cache?: boolean | DataCacheStore;
+    fetch?: typeof fetch;
     filenames?: {
       geohashIndex?: string;
       polygons?: string;
@@ -349,11 +1333,44 @@ import {
 export default {
   resolve,
   resolveByCountry,
+  resolveMany,
+  resolveNearest,
+  resolveTimezone,
+  getLocalTime,
+  getCountryGeometryInfo,
+  getCountryNeighbors,
+  sharesBorder,
+  findCountryPath,
   GeoIntelResult,
   ReverseGeoIntelResult,
+  NearestGeoIntelResult,
+  TimezoneGeoIntelResult,
+  LocalTimeResult,
+  CountryGeometryInfo,
   DataLoader,
+  DataIntegrityError,
+  AmbiguousCountryError,
   getLoader,
+  getRegisteredLoader,
+  registerLoader,
+  disposeLoader,
+  setDefaultLoader,
+  resetDefaultLoader,
   loadFromCDN,
+  isCached,
+  clearCache,
+  IndexedDBCacheStore,
+  MemoryCacheStore,
+  FileSystemDataSource,
+  FetchDataSource,
+  MemoryDataSource,
+  BundledDataSource,
+  LayerRegistry,
+  WorkerResolver,
+  // Timezone offsets
+  getTimezoneOffset,
+  isSupportedTimezone,
+  formatUtcOffset,
   // Distance calculation
   calculateDistance,
   calculateDistanceKm,
@@ -146,3 +146,157 @@ export function distanceToPolygonEdge(point: Point, polygon: Polygon): number {
   
   return minDist;
 }
+
+/**
+ * Flat ring coordinates: interleaved [lat0, lon0, lat1, lon1, ...].
+ * 
+ * Design Decision: Typed arrays avoid one array allocation per vertex and
+ * let prepared polygons be tested without any per-call conversion.
+ */
+export type RingCoords = Float64Array;
+
+/**
+ * Check if a point is inside a flat ring using ray casting.
+ * 
+ * Same algorithm as pointInPolygon(), operating on interleaved coordinates.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param ring - Interleaved [lat, lon] ring coordinates
+ * @returns True if point is inside ring, False otherwise
+ */
+export function pointInRing(lat: number, lon: number, ring: RingCoords): boolean {
+  const n = ring.length >> 1;
+  if (n < 3) {
+    return false;
+  }
+  
+  let inside = false;
+  
+  let j = n - 1;
+  for (let i = 0; i < n; i++) {
+    const lat_i = ring[i * 2];
+    const lon_i = ring[i * 2 + 1];
+    const lat_j = ring[j * 2];
+    const lon_j = ring[j * 2 + 1];
+    
+    if ((lat_i > lat) !== (lat_j > lat)) {
+      let intersectLon: number;
+      if (lon_j !== lon_i) {
+        intersectLon = (lat - lat_i) * (lon_j - lon_i) / (lat_j - lat_i) + lon_i;
+      } else {
+        intersectLon = lon_i;
+      }
+      
+      if (lon < intersectLon) {
+        inside = !inside;
+      }
+    }
+    
+    j = i;
+  }
+  
+  return inside;
+}
+
+/**
+ * Calculate minimum distance from point to the edges of a flat ring.
+ * 
+ * Same formula as distanceToPolygonEdge(), operating on interleaved coordinates.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param ring - Interleaved [lat, lon] ring coordinates
+ * @returns Distance in degrees (approximate, for confidence scoring)
+ */
+export function distanceToRingEdge(lat: number, lon: number, ring: RingCoords): number {
+  const n = ring.length >> 1;
+  if (n === 0) {
+    return Infinity;
+  }
+  
+  let minDistSq = Infinity;
+  
+  let j = n - 1;
+  for (let i = 0; i < n; i++) {
+    const lat_i = ring[i * 2];
+    const lon_i = ring[i * 2 + 1];
+    const dx = ring[j * 2 + 1] - lon_i;
+    const dy = ring[j * 2] - lat_i;
+    
+    let distSq: number;
+    if (dx === 0 && dy === 0) {
+      distSq = (lat - lat_i) ** 2 + (lon - lon_i) ** 2;
+    } else {
+      const t = Math.max(0, Math.min(1, ((lat - lat_i) * dy + (lon - lon_i) * dx) / (dx * dx + dy * dy)));
+      distSq = (lat - (lat_i + t * dy)) ** 2 + (lon - (lon_i + t * dx)) ** 2;
+    }
+    
+    if (distSq < minDistSq) {
+      minDistSq = distSq;
+    }
+    j = i;
+  }
+  
+  return Math.sqrt(minDistSq);
+}
+
+/**
+ * Find the nearest point on a flat ring's edges.
+ * 
+ * Design Decision: Longitudes are measured relative to the query point
+ * (wrapped to ±180°) and scaled by cos(lat), so the projection stays
+ * sensible near the antimeridian and at high latitudes. The result is
+ * meant to be fed to a geodesic distance function.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param ring - Interleaved [lat, lon] ring coordinates
+ * @returns Nearest [lat, lon] on the ring, or null for an empty ring
+ */
+export function nearestPointOnRing(lat: number, lon: number, ring: RingCoords): Point | null {
+  const n = ring.length >> 1;
+  if (n === 0) {
+    return null;
+  }
+  
+  const scale = Math.max(Math.cos(lat * Math.PI / 180), 1e-6);
+  const relLon = (vertexLon: number): number => {
+    let d = vertexLon - lon;
+    if (d > 180) d -= 360;
+    if (d < -180) d += 360;
+    return d * scale;
+  };
+  
+  let minDistSq = Infinity;
+  let bestY = 0;
+  let bestX = 0;
+  
+  let j = n - 1;
+  for (let i = 0; i < n; i++) {
+    const y_i = ring[i * 2] - lat;
+    const x_i = relLon(ring[i * 2 + 1]);
+    const dy = ring[j * 2] - lat - y_i;
+    const dx = relLon(ring[j * 2 + 1]) - x_i;
+    
+    let t = 0;
+    if (dx !== 0 || dy !== 0) {
+      t = Math.max(0, Math.min(1, -(y_i * dy + x_i * dx) / (dx * dx + dy * dy)));
+    }
+    const y = y_i + t * dy;
+    const x = x_i + t * dx;
+    const distSq = x * x + y * y;
+    
+    if (distSq < minDistSq) {
+      minDistSq = distSq;
+      bestY = y;
+      bestX = x;
+    }
+    j = i;
+  }
+  
+  let nearestLon = lon + bestX / scale;
+  if (nearestLon > 180) nearestLon -= 360;
+  if (nearestLon < -180) nearestLon += 360;
+  return [lat + bestY, nearestLon];
+}
@@ -0,0 +1,412 @@
+/**
+ * Country name matching for reverse geocoding.
+ * 
+ * Finds the country meant by a user-supplied name or ISO code. The dataset
+ * uses Natural Earth's short names ("Dem. Rep. Congo", "Côte d'Ivoire",
+ * "S. Sudan"), which rarely match what people type exactly.
+ * 
+ * Matching order (the first step that finds a country wins):
+ * 1. ISO2/ISO3 code
+ * 2. Exact name, after folding accents, case and punctuation and expanding
+ *    abbreviations ("Rep." → republic, "St." → saint, "S." → south)
+ * 3. Curated aliases ("UK", "Holland", "Ivory Coast", "DRC", "Burma")
+ * 4. Names containing every word of the input ("Korea", "Virgin Islands")
+ * 5. Token and edit-distance scoring for typos ("Germny", "Untied States")
+ * 
+ * Localized names (metadata `names`) are matched like the English name, and
+ * localizedCountryName() picks the name to show for a locale.
+ * 
+ * Design Decisions:
+ * - An exact name always beats a partial one, so "Niger" never finds Nigeria
+ * - Several equally good countries raise AmbiguousCountryError instead of
+ *   picking one, so "Korea" never silently means South Korea
+ * - Aliases name the ISO3 code and the dataset name, because some countries
+ *   (e.g. France and Norway) have no ISO codes in Natural Earth
+ */
+
+import { CountryMetadata, MetadataData } from '../data/loader';
+
+/**
+ * A country the input may refer to.
+ */
+export interface CountryNameCandidate {
+  countryName: string;
+  iso2: string | null;
+  iso3: string | null;
+  score: number; // 0.0-1.0
+}
+
+/**
+ * Raised when a country name matches several countries equally well.
+ */
+export class AmbiguousCountryError extends Error {
+  /** The country name as given */
+  readonly input: string;
+  /** Matching countries, best first */
+  readonly candidates: CountryNameCandidate[];
+
+  constructor(message: string, input: string, candidates: CountryNameCandidate[]) {
+    super(message);
+    this.name = 'AmbiguousCountryError';
+    this.input = input;
+    this.candidates = candidates;
+  }
+}
+
+export interface CountryNameMatch {
+  countryId: number;
+  metadata: CountryMetadata;
+  score: number; // 1.0 for ISO codes, exact names and aliases
+}
+
+/**
+ * Languages of the bundled localized names: the UN official languages plus
+ * German, Portuguese, Japanese and Hindi.
+ */
+export const COUNTRY_NAME_LOCALES = ['ar', 'zh', 'en', 'fr', 'ru', 'es', 'de', 'pt', 'ja', 'hi'];
+
+// Minimum score of a fuzzy match
+const MIN_SCORE = 0.7;
+// Fuzzy matches scoring this close to the best one make the input ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+// Minimum similarity of two words counted as the same misspelled word
+const TOKEN_SIMILARITY = 0.8;
+// Minimum similarity of two names compared as a whole ("Newzealand")
+const STRING_SIMILARITY = 0.85;
+// Inputs shorter than this are not matched fuzzily
+const MIN_FUZZY_LENGTH = 4;
+// Candidates listed in an ambiguity error message
+const MAX_LISTED_CANDIDATES = 10;
+
+// Abbreviations used in Natural Earth names
+const ABBREVIATIONS: { [token: string]: string } = {
+  st: 'saint',
+  rep: 'republic',
+  dem: 'democratic',
+  eq: 'equatorial',
+  fr: 'french',
+  br: 'british',
+  n: 'north',
+  s: 'south',
+  w: 'western',
+  i: 'island',
+  is: 'islands',
+  herz: 'herzegovina',
+  barb: 'barbuda',
+  gren: 'grenadines',
+  vin: 'vincent',
+  geo: 'georgia',
+  ter: 'territory'
+};
+
+const STOPWORDS = new Set(['the', 'of', 'and']);
+
+/**
+ * Common names, former names and abbreviations: [ISO2, ISO3, dataset name, aliases].
+ * 
+ * The codes are registered for countries whose dataset codes are missing or
+ * not ISO codes (Natural Earth has -99 for France, Norway and Kosovo and
+ * CN-TW for Taiwan).
+ */
+const COUNTRY_ALIASES: [string, string, string, string[]][] = [
+  ['US', 'USA', 'United States of America', ['United States', 'America', 'U.S.A.', 'The States']],
+  ['GB', 'GBR', 'United Kingdom', ['UK', 'U.K.', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales',
+    'Northern Ireland', 'United Kingdom of Great Britain and Northern Ireland']],
+  ['NL', 'NLD', 'Netherlands', ['Holland', 'Kingdom of the Netherlands']],
+  ['CI', 'CIV', "Côte d'Ivoire", ['Ivory Coast', 'Republic of Côte d\'Ivoire']],
+  ['KR', 'KOR', 'South Korea', ['Republic of Korea', 'Korea, Republic of', 'Korea South', 'ROK']],
+  ['KP', 'PRK', 'North Korea', ["Democratic People's Republic of Korea", "Korea, Democratic People's Republic of",
+    'Korea North', 'DPRK']],
+  ['CD', 'COD', 'Dem. Rep. Congo', ['DRC', 'DR Congo', 'Congo-Kinshasa', 'Democratic Republic of the Congo',
+    'Congo, Democratic Republic of the', 'Zaire']],
+  ['CG', 'COG', 'Congo', ['Republic of the Congo', 'Congo-Brazzaville', 'Congo Republic', 'Congo, Rep.']],
+  ['CZ', 'CZE', 'Czechia', ['Czech Republic']],
+  ['MM', 'MMR', 'Myanmar', ['Burma']],
+  ['SZ', 'SWZ', 'eSwatini', ['Swaziland']],
+  ['TL', 'TLS', 'Timor-Leste', ['East Timor']],
+  ['CV', 'CPV', 'Cabo Verde', ['Cape Verde']],
+  ['MK', 'MKD', 'North Macedonia', ['Macedonia', 'FYROM']],
+  ['VA', 'VAT', 'Vatican', ['Vatican City', 'Holy See']],
+  ['AE', 'ARE', 'United Arab Emirates', ['UAE', 'Emirates']],
+  ['RU', 'RUS', 'Russia', ['Russian Federation']],
+  ['IR', 'IRN', 'Iran', ['Persia', 'Islamic Republic of Iran']],
+  ['TR', 'TUR', 'Turkey', ['Türkiye']],
+  ['LA', 'LAO', 'Laos', ['Lao PDR', "Lao People's Democratic Republic"]],
+  ['VN', 'VNM', 'Vietnam', ['Viet Nam']],
+  ['SY', 'SYR', 'Syria', ['Syrian Arab Republic']],
+  ['BO', 'BOL', 'Bolivia', ['Plurinational State of Bolivia']],
+  ['VE', 'VEN', 'Venezuela', ['Bolivarian Republic of Venezuela']],
+  ['TZ', 'TZA', 'Tanzania', ['United Republic of Tanzania']],
+  ['MD', 'MDA', 'Moldova', ['Republic of Moldova']],
+  ['FM', 'FSM', 'Micronesia', ['Federated States of Micronesia']],
+  ['PS', 'PSE', 'Palestine', ['State of Palestine', 'Palestinian Territories']],
+  ['BA', 'BIH', 'Bosnia and Herz.', ['Bosnia', 'Bosnia-Herzegovina']],
+  ['CN', 'CHN', 'China', ["People's Republic of China", 'PRC']],
+  ['TW', 'TWN', 'Taiwan', ['Republic of China', 'Chinese Taipei']],
+  ['BN', 'BRN', 'Brunei', ['Brunei Darussalam']],
+  ['FR', 'FRA', 'France', ['French Republic']],
+  ['NO', 'NOR', 'Norway', ['Kingdom of Norway']],
+  ['XK', 'XKX', 'Kosovo', ['Republic of Kosovo']],
+  ['EH', 'ESH', 'W. Sahara', ['Western Sahara']],
+  ['GS', 'SGS', 'S. Geo. and the Is.', ['South Georgia', 'South Georgia and the South Sandwich Islands']],
+  ['TF', 'ATF', 'Fr. S. Antarctic Lands', ['French Southern Territories', 'French Southern and Antarctic Lands']],
+  ['FO', 'FRO', 'Faeroe Is.', ['Faroe Islands', 'Faroes']],
+  ['FK', 'FLK', 'Falkland Is.', ['Falklands', 'Malvinas']],
+  ['MO', 'MAC', 'Macao', ['Macau']]
+];
+
+/**
+ * Split a country name into comparable words.
+ * 
+ * Folds accents and case, drops punctuation and stopwords and expands
+ * abbreviations, e.g. "Dem. Rep. Congo" → ["democratic", "republic", "congo"].
+ */
+export function countryNameTokens(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\bu\.?\s?s\.?\s?a\b\.?/g, ' united states america ')
+    .replace(/\bu\.?\s?s\b\.?/g, ' united states ')
+    .replace(/&/g, ' and ')
+    .replace(/['’`]/g, '')
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(token => token.length > 0)
+    .map(token => ABBREVIATIONS[token] || token)
+    .filter(token => !STOPWORDS.has(token));
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus transpositions).
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    d.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        d[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < MIN_FUZZY_LENGTH || b.length < MIN_FUZZY_LENGTH) {
+    return 0;
+  }
+  const score = similarity(a, b);
+  return score >= TOKEN_SIMILARITY ? score : 0;
+}
+
+/**
+ * Score how well the input words match a country name (0.0-1.0).
+ * 
+ * Words are paired with their most similar counterpart (allowing typos);
+ * the score is the share of both names covered by the pairs. Names are also
+ * compared as a whole to catch missing or extra spaces.
+ */
+function scoreName(input: string[], name: string[]): number {
+  if (input.length === 0 || name.length === 0) {
+    return 0;
+  }
+  let matched = 0;
+  for (const token of input) {
+    matched += Math.max(...name.map(other => tokenSimilarity(token, other)));
+  }
+  const tokenScore = 2 * matched / (input.length + name.length);
+  const wholeScore = similarity(input.join(''), name.join(''));
+  return Math.max(tokenScore, wholeScore >= STRING_SIMILARITY ? wholeScore : 0);
+}
+
+interface IndexedCountry {
+  countryId: number;
+  metadata: CountryMetadata;
+  names: string[][]; // Tokens of the name and the localized names
+}
+
+interface CountryNameIndex {
+  countries: IndexedCountry[];
+  byIso: Map<string, IndexedCountry>;
+  byName: Map<string, IndexedCountry>;
+  byAlias: Map<string, IndexedCountry>;
+}
+
+// Per metadata object, so reloaded datasets get a fresh index
+const indexes = new WeakMap<MetadataData, CountryNameIndex>();
+
+function isIsoCode(code: string | undefined): code is string {
+  return code !== undefined && /^[A-Z]{2,3}$/i.test(code);
+}
+
+function getIndex(metadata: MetadataData): CountryNameIndex {
+  const cached = indexes.get(metadata);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const index: CountryNameIndex = { countries: [], byIso: new Map(), byName: new Map(), byAlias: new Map() };
+  for (const [countryIdStr, countryMeta] of Object.entries(metadata)) {
+    const names = [countryMeta.name || ''].concat(Object.values(countryMeta.names || {}));
+    const country = {
+      countryId: parseInt(countryIdStr, 10),
+      metadata: countryMeta,
+      names: names.map(countryNameTokens).filter(tokens => tokens.length > 0)
+    };
+    index.countries.push(country);
+    for (const code of [countryMeta.iso2, countryMeta.iso3]) {
+      if (isIsoCode(code) && !index.byIso.has(code.toUpperCase())) {
+        index.byIso.set(code.toUpperCase(), country);
+      }
+    }
+  }
+
+  const addName = (tokens: string[], country: IndexedCountry) => {
+    const key = tokens.join(' ');
+    if (!index.byName.has(key)) {
+      index.byName.set(key, country);
+    }
+  };
+  // Names in the dataset's main language take precedence over localized ones
+  for (const country of index.countries) {
+    country.names.slice(0, 1).forEach(tokens => addName(tokens, country));
+  }
+  for (const country of index.countries) {
+    country.names.slice(1).forEach(tokens => addName(tokens, country));
+  }
+
+  for (const [iso2, iso3, name, aliases] of COUNTRY_ALIASES) {
+    const country = index.byIso.get(iso3) || index.byName.get(countryNameTokens(name).join(' '));
+    if (country === undefined) {
+      continue; // Not in this dataset
+    }
+    for (const code of [iso2, iso3]) {
+      if (!index.byIso.has(code)) {
+        index.byIso.set(code, country);
+      }
+    }
+    for (const alias of aliases) {
+      const key = countryNameTokens(alias).join(' ');
+      if (!index.byName.has(key)) {
+        index.byAlias.set(key, country);
+      }
+    }
+  }
+
+  indexes.set(metadata, index);
+  return index;
+}
+
+function candidateOf(country: IndexedCountry, score: number): CountryNameCandidate {
+  return {
+    countryName: country.metadata.name,
+    iso2: isIsoCode(country.metadata.iso2) ? country.metadata.iso2 : null,
+    iso3: isIsoCode(country.metadata.iso3) ? country.metadata.iso3 : null,
+    score: Math.round(score * 1000) / 1000
+  };
+}
+
+function ambiguous(input: string, candidates: CountryNameCandidate[]): AmbiguousCountryError {
+  const listed = candidates.slice(0, MAX_LISTED_CANDIDATES).map(c => c.iso2 !== null ? `${c.countryName} (${c.iso2})` : c.countryName);
+  if (candidates.length > MAX_LISTED_CANDIDATES) {
+    listed.push(`and ${candidates.length - MAX_LISTED_CANDIDATES} more`);
+  }
+  return new AmbiguousCountryError(
+    `Ambiguous country: '${input}' matches ${listed.join(', ')}. ` +
+    `Please provide a more specific country name or an ISO code (ISO2/ISO3).`,
+    input,
+    candidates
+  );
+}
+
+/**
+ * Find the country meant by a name or ISO code.
+ * 
+ * @param countryInput - Country name, alias, ISO2 code, or ISO3 code
+ * @param metadata - Country metadata of the dataset
+ * @returns The matching country and its match score, or null if none matches
+ * @throws AmbiguousCountryError if several countries match equally well
+ */
+export function matchCountryName(countryInput: string, metadata: MetadataData): CountryNameMatch | null {
+  const index = getIndex(metadata);
+  const exact = (country: IndexedCountry): CountryNameMatch =>
+    ({ countryId: country.countryId, metadata: country.metadata, score: 1.0 });
+
+  const code = countryInput.trim().toUpperCase();
+  const byIso = index.byIso.get(code);
+  if (byIso !== undefined) {
+    return exact(byIso);
+  }
+
+  const tokens = countryNameTokens(countryInput);
+  const key = tokens.join(' ');
+  if (key === '') {
+    return null;
+  }
+  const byName = index.byName.get(key) || index.byAlias.get(key);
+  if (byName !== undefined) {
+    return exact(byName);
+  }
+
+  const scored = index.countries
+    .map(country => ({ country, score: Math.max(0, ...country.names.map(name => scoreName(tokens, name))) }))
+    .sort((a, b) => b.score - a.score);
+
+  // Partial names: every input word appears in one of the country's names
+  const containing = scored.filter(({ country }) =>
+    country.names.some(name => tokens.every(token => name.includes(token))));
+  if (containing.length > 1) {
+    throw ambiguous(countryInput, containing.map(({ country, score }) => candidateOf(country, score)));
+  }
+  if (containing.length === 1) {
+    const { country, score } = containing[0];
+    return { countryId: country.countryId, metadata: country.metadata, score };
+  }
+
+  // Misspelled names
+  if (key.length < MIN_FUZZY_LENGTH || scored.length === 0 || scored[0].score < MIN_SCORE) {
+    return null;
+  }
+  const best = scored[0];
+  const close = scored.filter(({ score }) => score >= best.score - AMBIGUITY_MARGIN);
+  if (close.length > 1) {
+    throw ambiguous(countryInput, close.map(({ country, score }) => candidateOf(country, score)));
+  }
+  return { countryId: best.country.countryId, metadata: best.country.metadata, score: best.score };
+}
+
+/**
+ * Name of a country in a language, falling back to the dataset name.
+ * 
+ * @param metadata - Country metadata
+ * @param locale - Language code or BCP 47 tag (e.g. "de", "pt-BR", "zh_CN"); "pt-BR" falls back to "pt"
+ * @returns The localized name, or metadata.name when the dataset has none for the locale
+ */
+export function localizedCountryName(metadata: CountryMetadata, locale: string | undefined): string {
+  if (locale === undefined || metadata.names === undefined) {
+    return metadata.name;
+  }
+  const tag = locale.trim().toLowerCase().replace(/_/g, '-');
+  const names = metadata.names;
+  for (const key of [tag, tag.split('-')[0]]) {
+    if (Object.prototype.hasOwnProperty.call(names, key) && names[key]) {
+      return names[key];
+    }
+  }
+  return metadata.name;
+}
@@ -0,0 +1,209 @@
+/**
+ * Country geometry queries - shape information for a country name/ISO code.
+ * 
+ * Given a country name or ISO code, returns:
+ * - Geodesic area (km²) and border/coastline length (km)
+ * - Bounding box, correct for countries across the antimeridian
+ * - Number of parts and holes, and the largest part
+ * 
+ * Design Decision: Areas are computed on the reference sphere
+ * (EARTH_RADIUS_KM) with the shoelace formula in the Lambert cylindrical
+ * equal-area projection (x = lon, y = sin(lat)), which is exact for that
+ * projection and within a fraction of a percent of ellipsoidal areas at
+ * country scale. Lengths sum the haversine distance of every edge.
+ * 
+ * The dataset cuts countries at ±180° longitude (Fiji, Russia, Antarctica);
+ * edges along that cut are not borders and are left out of the lengths.
+ */
+
+import { DataLoader, PolygonData } from '../data/loader';
+import { BoundingBox, PreparedPart, toPolygonData } from '../data/prepared';
+import { EARTH_RADIUS_KM, haversineDistance } from '../distance';
+import { Point } from '../pip';
+import { calculateBoundingBox } from '../utils/polygon';
+import { localizedCountryName, matchCountryName } from './country_names';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Shape information for one part (exterior ring minus its holes).
+ */
+export interface CountryPartGeometry {
+  index: number; // Position of the part in the country's polygon
+  areaKm2: number;
+  perimeterKm: number;
+  bbox: BoundingBox; // [minLat, maxLat, minLon, maxLon]
+  holes: number;
+}
+
+export interface CountryGeometryResult {
+  countryName: string;
+  iso2: string;
+  iso3: string;
+  areaKm2: number; // Geodesic area without holes
+  perimeterKm: number; // Border/coastline length, holes included
+  bbox: BoundingBox; // [minLat, maxLat, minLon, maxLon]; minLon > maxLon across the antimeridian
+  crossesAntimeridian: boolean;
+  parts: number;
+  holes: number;
+  largestPart: CountryPartGeometry; // Part with the largest area
+}
+
+/**
+ * Options for country geometry queries.
+ */
+export interface CountryGeometryOptions {
+  /** Language of the returned country name (e.g. "de", "ja"); falls back to the dataset name */
+  locale?: string;
+}
+
+/**
+ * Calculate the geodesic area of a ring.
+ * 
+ * @param ring - [[lat, lon], ...] ring (closed or open)
+ * @returns Area in km² (orientation ignored)
+ */
+function ringAreaKm2(ring: number[][]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[i][1] - ring[j][1]) * DEG_TO_RAD *
+      (Math.sin(ring[i][0] * DEG_TO_RAD) + Math.sin(ring[j][0] * DEG_TO_RAD));
+  }
+  return Math.abs(sum) / 2 * EARTH_RADIUS_KM * EARTH_RADIUS_KM;
+}
+
+/**
+ * Calculate the border length of a ring, skipping edges along the ±180° cut.
+ * 
+ * @param ring - [[lat, lon], ...] ring (closed or open)
+ * @returns Length in km
+ */
+function ringLengthKm(ring: number[][]): number {
+  let length = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lat1, lon1] = ring[j];
+    const [lat2, lon2] = ring[i];
+    if (Math.abs(lon1) === 180 && lon1 === lon2) {
+      continue;
+    }
+    length += haversineDistance(lat1, lon1, lat2, lon2);
+  }
+  return length;
+}
+
+/**
+ * Calculate the shape information of one part.
+ * 
+ * @param part - Part as a PolygonData record (exterior and its holes)
+ * @param index - Position of the part in the country's polygon
+ */
+function partGeometry(part: PolygonData, index: number): CountryPartGeometry {
+  const holes = part.holes !== undefined ? part.holes : [];
+  return {
+    index,
+    areaKm2: Math.max(0, ringAreaKm2(part.exterior) - holes.reduce((sum, hole) => sum + ringAreaKm2(hole), 0)),
+    perimeterKm: [part.exterior, ...holes].reduce((sum, ring) => sum + ringLengthKm(ring), 0),
+    bbox: calculateBoundingBox(part.exterior as Point[]),
+    holes: holes.length
+  };
+}
+
+/**
+ * Combine part bounding boxes, taking the shorter way around the globe.
+ * 
+ * Design Decision: The longitude range is the complement of the widest
+ * gap between the parts' longitude ranges. When that gap contains the
+ * antimeridian the result is the plain min/max box; otherwise the box
+ * starts east of the gap and wraps across ±180°, so minLon > maxLon (Fiji:
+ * 174.6°..-178.2° rather than -180°..180°).
+ * 
+ * @param boxes - Part bounding boxes (at least one)
+ * @returns Combined bounding box
+ */
+function combineBoundingBoxes(boxes: BoundingBox[]): BoundingBox {
+  const minLat = Math.min(...boxes.map(box => box[0]));
+  const maxLat = Math.max(...boxes.map(box => box[1]));
+
+  // Merge overlapping longitude ranges
+  const ranges = boxes.map(box => [box[2], box[3]]).sort((a, b) => a[0] - b[0]);
+  const merged: number[][] = [ranges[0].slice()];
+  for (const [start, end] of ranges.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  // The gap across the antimeridian wins ties, so unsplit countries keep their box
+  const first = merged[0];
+  const last = merged[merged.length - 1];
+  let widestGap = first[0] + 360 - last[1];
+  let minLon = first[0];
+  let maxLon = last[1];
+  for (let i = 1; i < merged.length; i++) {
+    const gap = merged[i][0] - merged[i - 1][1];
+    if (gap > widestGap) {
+      widestGap = gap;
+      minLon = merged[i][0];
+      maxLon = merged[i - 1][1];
+    }
+  }
+  return [minLat, maxLat, minLon, maxLon];
+}
+
+/**
+ * Get the shape information of a country.
+ * 
+ * @param countryInput - Country name (in English or any language of the
+ *   dataset's localized names) or ISO code
+ * @param loader - Data loader instance
+ * @param options - Geometry query options
+ * @returns CountryGeometryResult with areas, lengths and bounding boxes
+ * @throws AmbiguousCountryError if the name matches several countries equally well
+ */
+export async function getCountryGeometry(
+  countryInput: string,
+  loader: DataLoader,
+  options: CountryGeometryOptions = {}
+): Promise<CountryGeometryResult> {
+  await loader.load();
+
+  const countryMatch = matchCountryName(countryInput, loader.metadata);
+  if (!countryMatch) {
+    throw new Error(
+      `Country not found: '${countryInput}'. ` +
+      `Please provide a valid country name or ISO code (ISO2/ISO3).`
+    );
+  }
+  const { countryId, metadata } = countryMatch;
+
+  await loader.loadCountryPolygons([countryId]);
+  const prepared = loader.getPreparedPolygon(countryId);
+  if (!prepared) {
+    throw new Error(`Polygon data not found for country ID ${countryId}`);
+  }
+  if (prepared.parts.length === 0) {
+    throw new Error(`Invalid polygon data for country ID ${countryId}`);
+  }
+
+  // One PolygonData record per part keeps each hole with its own exterior
+  const parts = prepared.parts.map((part: PreparedPart, index) =>
+    partGeometry(toPolygonData({ parts: [part], bbox: part.exterior.bbox }), index));
+  const largestPart = parts.reduce((largest, part) => part.areaKm2 > largest.areaKm2 ? part : largest);
+  const bbox = combineBoundingBoxes(parts.map(part => part.bbox));
+
+  return {
+    countryName: localizedCountryName(metadata, options.locale),
+    iso2: metadata.iso2,
+    iso3: metadata.iso3,
+    areaKm2: parts.reduce((sum, part) => sum + part.areaKm2, 0),
+    perimeterKm: parts.reduce((sum, part) => sum + part.perimeterKm, 0),
+    bbox,
+    crossesAntimeridian: bbox[2] > bbox[3],
+    parts: parts.length,
+    holes: parts.reduce((sum, part) => sum + part.holes, 0),
+    largestPart
+  };
+}
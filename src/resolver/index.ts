@@ -5,10 +5,13 @@
  * 1. Encode lat/lon to geohash
  * 2. Query geohash index for candidate countries
  * 3. For each candidate:
- *    a. Load polygon
+ *    a. Look up prepared polygon (built once by DataLoader)
  *    b. Test point-in-polygon
  *    c. If match, calculate confidence
  * 4. Return best match or handle ambiguity
+ * 5. Look up the IANA timezone in the timezone layer (when loaded)
+ * 6. Look up the ISO 3166-2 subdivision in the subdivision layer (when loaded)
+ * 7. Find the matching features of the requested custom layers (see layers.ts)
  * 
  * Edge Cases Handled:
  * - Points in oceans (no country match)
@@ -18,9 +21,43 @@
  */
 
 import { encode, getNeighbors } from '../geohash';
-import { Point, pointInPolygonWithHoles } from '../pip';
-import { calculateConfidence } from '../utils/confidence';
+import { Point } from '../pip';
+import { confidenceFromDistance } from '../utils/confidence';
 import { DataLoader } from '../data/loader';
+import { pointInPart, distanceToPartEdge, nearestBorderPoint } from '../data/prepared';
+import { countryTimezone } from './timezone';
+import { findSubdivision } from './subdivision';
+import { resolveLayers } from './layers';
+import { LayerFeature } from '../data/layers';
+import { localizedCountryName } from './country_names';
+
+/**
+ * A candidate country considered during resolution.
+ */
+export interface CandidateResult {
+  countryId: number;
+  countryName: string | null;
+  iso2: string | null;
+  iso3: string | null;
+  continent: string | null;
+  confidence: number; // 0.0 when the point is outside the country
+  inside: boolean;
+  borderDistanceKm: number; // Great-circle distance to the nearest border point
+}
+
+/**
+ * Options for forward resolution.
+ */
+export interface ResolveOptions {
+  /** Include a ranked list of matching and nearby candidate countries */
+  returnCandidates?: boolean;
+  /** Load subdivision data on demand (subdivision fields are filled whenever it is loaded) */
+  subdivisions?: boolean;
+  /** Names of custom layers (registered in loader.layers) to match the point against */
+  layers?: string[];
+  /** Language of country names (e.g. "de", "ja"); falls back to the dataset name */
+  locale?: string;
+}
 
 export interface ResolutionResult {
   countryId: number | null;
@@ -29,7 +66,12 @@ export interface ResolutionResult {
   iso3: string | null;
   continent: string | null;
   timezone: string | null;
+  subdivision: string | null; // e.g. "California" (null without subdivision data)
+  subdivisionCode: string | null; // ISO 3166-2, e.g. "US-CA"
+  subdivisionType: string | null; // e.g. "State"
   confidence: number;
+  candidates?: CandidateResult[];
+  layers?: { [layer: string]: LayerFeature[] }; // Matching custom layer features (only when requested)
 }
 
 /**
@@ -42,7 +84,12 @@ export class ResolutionResultImpl implements ResolutionResult {
   iso3: string | null = null;
   continent: string | null = null;
   timezone: string | null = null;
+  subdivision: string | null = null;
+  subdivisionCode: string | null = null;
+  subdivisionType: string | null = null;
   confidence: number = 0.0;
+  candidates?: CandidateResult[];
+  layers?: { [layer: string]: LayerFeature[] };
 
   constructor(result?: Partial<ResolutionResult>) {
     if (result) {
@@ -51,14 +98,32 @@ export class ResolutionResultImpl implements ResolutionResult {
   }
 
   toDict(): Record<string, any> {
-    return {
+    const dict: Record<string, any> = {
       country: this.countryName,
       iso2: this.iso2,
       iso3: this.iso3,
       continent: this.continent,
       timezone: this.timezone,
+      subdivision: this.subdivision,
+      subdivision_code: this.subdivisionCode,
+      subdivision_type: this.subdivisionType,
       confidence: this.confidence
     };
+    if (this.candidates) {
+      dict.candidates = this.candidates.map(c => ({
+        country: c.countryName,
+        iso2: c.iso2,
+        iso3: c.iso3,
+        continent: c.continent,
+        confidence: c.confidence,
+        inside: c.inside,
+        border_distance_km: c.borderDistanceKm
+      }));
+    }
+    if (this.layers) {
+      dict.layers = this.layers;
+    }
+    return dict;
   }
 
   isValid(): boolean {
@@ -67,28 +132,21 @@ export class ResolutionResultImpl implements ResolutionResult {
 }
 
 /**
- * Resolve latitude/longitude to geo-intelligence.
+ * Coordinates accepted by batch resolution.
  * 
- * Main resolution function that orchestrates the entire pipeline.
+ * Either an array of [lat, lon] tuples or a flat, interleaved numeric array
+ * (e.g. Float64Array) laid out as [lat0, lon0, lat1, lon1, ...].
+ */
+export type CoordinateBatch = ReadonlyArray<Point> | ArrayLike<number>;
+
+/**
+ * Find candidate country IDs for a geohash (steps 2-3 of the pipeline).
  * 
- * @param lat - Latitude (-90 to 90)
- * @param lon - Longitude (-180 to 180)
+ * @param geohash - Geohash of the point being resolved
  * @param loader - Data loader instance
- * @returns ResolutionResult with country information and confidence
+ * @returns Deduplicated candidate country IDs
  */
-export async function resolve(
-  lat: number,
-  lon: number,
-  loader: DataLoader
-): Promise<ResolutionResult> {
-  const point: Point = [lat, lon];
-  
-  // Ensure data is loaded
-  await loader.load();
-  
-  // Step 1: Encode to geohash
-  const geohash = encode(lat, lon);
-  
+function findCandidates(geohash: string, loader: DataLoader): number[] {
   // Step 2: Get candidate countries
   let candidates = loader.getCandidateCountries(geohash);
   
@@ -134,67 +192,181 @@ export async function resolve(
     }
   }
   
+  return candidates;
+}
+
+/**
+ * Build an empty result (ocean or unsupported area).
+ */
+function emptyResult(): ResolutionResult {
+  return new ResolutionResultImpl({
+    countryId: null,
+    countryName: null,
+    iso2: null,
+    iso3: null,
+    continent: null,
+    timezone: null,
+    subdivision: null,
+    subdivisionCode: null,
+    subdivisionType: null,
+    confidence: 0.0
+  });
+}
+
+/**
+ * Build the ranked candidate list for a point.
+ * 
+ * Candidates are the countries indexed in the point's geohash cell and its
+ * 8 neighbors, the countries whose ring bounding boxes contain the point,
+ * and every country that matched. Countries containing the point come
+ * first (by confidence), followed by the rest ordered by border distance.
+ * 
+ * @param point - [lat, lon] tuple
+ * @param geohash - Geohash of the point
+ * @param matches - Countries that contain the point, with confidence
+ * @param loader - Data loader instance
+ * @param locale - Language of the country names
+ * @returns Ranked candidate list
+ */
+function buildCandidates(
+  point: Point,
+  geohash: string,
+  matches: Array<{ countryId: number; confidence: number }>,
+  loader: DataLoader,
+  locale: string | undefined
+): CandidateResult[] {
+  const [lat, lon] = point;
+  
+  const countryIds = new Set<number>(loader.getCandidateCountries(geohash));
+  for (const neighborHash of getNeighbors(geohash)) {
+    for (const countryId of loader.getCandidateCountries(neighborHash)) {
+      countryIds.add(countryId);
+    }
+  }
+  for (const { id: countryId } of loader.getPartsAt(lat, lon)) {
+    countryIds.add(countryId);
+  }
+  for (const { countryId } of matches) {
+    countryIds.add(countryId);
+  }
+  
+  const confidenceById = new Map(matches.map(m => [m.countryId, m.confidence]));
+  const candidates: CandidateResult[] = [];
+  
+  for (const countryId of countryIds) {
+    const prepared = loader.getPreparedPolygon(countryId);
+    const border = prepared ? nearestBorderPoint(lat, lon, prepared) : null;
+    if (!border) {
+      continue;
+    }
+    const metadata = loader.getMetadata(countryId);
+    const confidence = confidenceById.get(countryId);
+    
+    candidates.push({
+      countryId,
+      countryName: metadata ? localizedCountryName(metadata, locale) : null,
+      iso2: metadata ? metadata.iso2 : null,
+      iso3: metadata ? metadata.iso3 : null,
+      continent: metadata ? metadata.continent : null,
+      confidence: confidence !== undefined ? confidence : 0.0,
+      inside: confidence !== undefined,
+      borderDistanceKm: border.distanceKm
+    });
+  }
+  
+  candidates.sort((a, b) => {
+    if (a.inside !== b.inside) {
+      return a.inside ? -1 : 1;
+    }
+    if (a.inside) {
+      return b.confidence - a.confidence;
+    }
+    return a.borderDistanceKm - b.borderDistanceKm;
+  });
+  
+  return candidates;
+}
+
+/**
+ * Attach the ranked candidate list to a result when requested.
+ */
+function withCandidates(
+  result: ResolutionResult,
+  point: Point,
+  geohash: string,
+  matches: Array<{ countryId: number; confidence: number }>,
+  loader: DataLoader,
+  options: ResolveOptions
+): ResolutionResult {
+  if (options.returnCandidates) {
+    result.candidates = buildCandidates(point, geohash, matches, loader, options.locale);
+  }
+  return result;
+}
+
+/**
+ * Get the ISO 3166-2 subdivision fields for a point inside a country.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param iso2 - ISO 3166-1 alpha-2 code of the resolved country
+ * @param loader - Data loader instance
+ * @returns Subdivision fields (null without subdivision data or match)
+ */
+function subdivisionFor(
+  lat: number,
+  lon: number,
+  iso2: string,
+  loader: DataLoader
+): Pick<ResolutionResult, 'subdivision' | 'subdivisionCode' | 'subdivisionType'> {
+  const subdivisionId = loader.hasSubdivisions ? findSubdivision(lat, lon, iso2, loader) : null;
+  const metadata = subdivisionId !== null ? loader.getSubdivisionMetadata(subdivisionId) : undefined;
+  return {
+    subdivision: metadata ? metadata.name : null,
+    subdivisionCode: metadata ? metadata.code : null,
+    subdivisionType: metadata ? metadata.type : null
+  };
+}
+
+/**
+ * Resolve a single point against a precomputed candidate list (steps 4-6).
+ * 
+ * @param point - [lat, lon] tuple
+ * @param geohash - Geohash of the point
+ * @param candidates - Candidate country IDs from the geohash index
+ * @param loader - Data loader instance
+ * @param options - Resolution options
+ * @returns ResolutionResult with country information and confidence
+ */
+function resolvePoint(
+  point: Point,
+  geohash: string,
+  candidates: number[],
+  loader: DataLoader,
+  options: ResolveOptions
+): ResolutionResult {
+  const [lat, lon] = point;
+  
   if (candidates.length === 0) {
     // No country found (likely ocean or unsupported area)
-    return new ResolutionResultImpl({
-      countryId: null,
-      countryName: null,
-      iso2: null,
-      iso3: null,
-      continent: null,
-      timezone: null,
-      confidence: 0.0
-    });
+    return withCandidates(emptyResult(), point, geohash, [], loader, options);
   }
   
   // Step 4: Test each candidate with point-in-polygon
   const matches: Array<{ countryId: number; confidence: number }> = [];
   
   for (const countryId of candidates) {
-    const polygonData = loader.getPolygon(countryId);
-    if (!polygonData) {
+    const prepared = loader.getPreparedPolygon(countryId);
+    if (!prepared) {
       continue;
     }
     
-    // Handle MultiPolygon or single Polygon
-    const exteriors: number[][][] = [];
-    if (polygonData.multi && polygonData.exteriors) {
-      exteriors.push(...polygonData.exteriors);
-    } else if (polygonData.exterior) {
-      exteriors.push(polygonData.exterior);
-    }
-    
-    // Test each exterior
-    for (const exterior of exteriors) {
-      if (!exterior || exterior.length === 0) {
-        continue;
-      }
-      
-      // Convert to Point format
-      const exteriorPolygon: Point[] = exterior.map((coord: number[]) => {
-        // Handle both [lat, lon] and [lon, lat] formats
-        if (Array.isArray(coord) && coord.length >= 2) {
-          return [coord[0], coord[1]] as Point;
-        }
-        throw new Error(`Invalid coordinate format: ${coord}`);
-      });
-      
-      // Handle holes - ensure they're properly formatted
-      const holes: Point[][] = [];
-      if (polygonData.holes && Array.isArray(polygonData.holes)) {
-        for (const hole of polygonData.holes) {
-          if (Array.isArray(hole) && hole.length > 0) {
-            holes.push(hole.map((coord: number[]) => [coord[0], coord[1]] as Point));
-          }
-        }
-      }
-      
-      if (pointInPolygonWithHoles(point, exteriorPolygon, holes)) {
+    // Test each part (exterior with its own holes)
+    for (const part of prepared.parts) {
+      if (pointInPart(lat, lon, part)) {
         // Calculate confidence
-        const confidence = calculateConfidence(
-          point,
-          exteriorPolygon,
-          holes,
+        const confidence = confidenceFromDistance(
+          distanceToPartEdge(lat, lon, part),
           candidates.length
         );
         
@@ -207,76 +379,32 @@ export async function resolve(
   // Step 5: If no matches from geohash candidates, try broader search
   // This handles cases where geohash index doesn't have complete coverage
   if (matches.length === 0) {
-    // Fallback: Check all countries (expensive, but ensures accuracy)
-    // This is a last resort when geohash indexing missed the country
-    const metadata = loader.metadata;
-    const polygons = loader.polygons;
+    // Fallback: Query the spatial index for every ring whose bounding box
+    // contains the point, so only those rings are ray-cast
+    const matched = new Set<number>();
     
-    for (const countryIdStr of Object.keys(metadata)) {
-      const countryId = parseInt(countryIdStr, 10);
-      
-      // Skip if already checked as candidate
-      if (candidates.includes(countryId)) {
-        continue;
-      }
-      
-      const polygonData = polygons[countryIdStr];
-      if (!polygonData) {
+    for (const { id: countryId, part } of loader.getPartsAt(lat, lon)) {
+      // Skip if already checked as candidate or already matched
+      if (matched.has(countryId) || candidates.includes(countryId)) {
         continue;
       }
       
-      // Handle MultiPolygon or single Polygon
-      const exteriors: number[][][] = [];
-      if (polygonData.multi && polygonData.exteriors) {
-        exteriors.push(...polygonData.exteriors);
-      } else if (polygonData.exterior) {
-        exteriors.push(polygonData.exterior);
-      }
-      
-      // Test each exterior
-      for (const exterior of exteriors) {
-        if (!exterior || exterior.length === 0) {
-          continue;
-        }
-        
-        // Convert to Point format
-        const exteriorPolygon: Point[] = exterior.map((coord: number[]) => [coord[0], coord[1]] as Point);
-        const holes: Point[][] = [];
-        if (polygonData.holes && Array.isArray(polygonData.holes)) {
-          for (const hole of polygonData.holes) {
-            if (Array.isArray(hole) && hole.length > 0) {
-              holes.push(hole.map((coord: number[]) => [coord[0], coord[1]] as Point));
-            }
-          }
-        }
+      if (pointInPart(lat, lon, part)) {
+        // Calculate confidence (slightly lower for fallback match)
+        const confidence = confidenceFromDistance(
+          distanceToPartEdge(lat, lon, part),
+          1 // Single match in fallback
+        ) * 0.95; // Slightly lower confidence for fallback match
         
-        if (pointInPolygonWithHoles(point, exteriorPolygon, holes)) {
-          // Calculate confidence (slightly lower for fallback match)
-          const confidence = calculateConfidence(
-            point,
-            exteriorPolygon,
-            holes,
-            1 // Single match in fallback
-          ) * 0.95; // Slightly lower confidence for fallback match
-          
-          matches.push({ countryId, confidence });
-          break; // Found match, no need to check other exteriors
-        }
+        matches.push({ countryId, confidence });
+        matched.add(countryId); // Found match, no need to check other parts
       }
     }
   }
   
   if (matches.length === 0) {
     // No match found (point in ocean or gap)
-    return new ResolutionResultImpl({
-      countryId: null,
-      countryName: null,
-      iso2: null,
-      iso3: null,
-      continent: null,
-      timezone: null,
-      confidence: 0.0
-    });
+    return withCandidates(emptyResult(), point, geohash, matches, loader, options);
   }
   
   // Step 5: Select best match (highest confidence)
@@ -289,13 +417,194 @@ export async function resolve(
     throw new Error(`Metadata not found for country ID ${bestMatch.countryId}`);
   }
   
-  return new ResolutionResultImpl({
+  const result = new ResolutionResultImpl({
     countryId: bestMatch.countryId,
-    countryName: metadata.name,
+    countryName: localizedCountryName(metadata, options.locale),
     iso2: metadata.iso2,
     iso3: metadata.iso3,
     continent: metadata.continent,
-    timezone: metadata.timezone,
+    timezone: countryTimezone(lat, lon, metadata.timezone, loader),
+    ...subdivisionFor(lat, lon, metadata.iso2, loader),
     confidence: bestMatch.confidence
   });
+  return withCandidates(result, point, geohash, matches, loader, options);
+}
+
+/**
+ * Resolve a point, first loading the country polygons it needs.
+ * 
+ * Only does extra work when the loader loads polygons lazily: candidates are
+ * loaded if their bounding box contains the point (no other country can
+ * contain it), and the countries needed by the spatial index fallback only
+ * when no candidate matches. Candidate lists also need the neighbors.
+ * 
+ * @param point - [lat, lon] tuple
+ * @param geohash - Geohash of the point
+ * @param candidates - Candidate country IDs from the geohash index
+ * @param loader - Data loader instance
+ * @param options - Resolution options
+ * @returns ResolutionResult with country information and confidence
+ */
+async function resolveLoadedPoint(
+  point: Point,
+  geohash: string,
+  candidates: number[],
+  loader: DataLoader,
+  options: ResolveOptions
+): Promise<ResolutionResult> {
+  const [lat, lon] = point;
+  
+  if (options.returnCandidates) {
+    const countryIds = new Set<number>(candidates);
+    for (const neighborHash of getNeighbors(geohash)) {
+      for (const countryId of loader.getCandidateCountries(neighborHash)) {
+        countryIds.add(countryId);
+      }
+    }
+    await loader.loadCountryPolygons(countryIds);
+    await loader.loadPolygonsInBox(lat, lat, lon, lon);
+  } else {
+    await loader.loadCountryPolygons(candidates, point);
+  }
+  
+  let result = resolvePoint(point, geohash, candidates, loader, options);
+  if (result.countryId === null && candidates.length > 0 && await loader.loadPolygonsInBox(lat, lat, lon, lon)) {
+    result = resolvePoint(point, geohash, candidates, loader, options);
+  }
+  
+  // Step 7: Custom layers (matched independently of the country, e.g. at sea)
+  if (options.layers) {
+    result.layers = resolveLayers(lat, lon, loader.layers, options.layers);
+  }
+  return result;
+}
+
+/**
+ * Resolve latitude/longitude to geo-intelligence.
+ * 
+ * Main resolution function that orchestrates the entire pipeline.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param loader - Data loader instance
+ * @param options - Resolution options
+ * @returns ResolutionResult with country information and confidence
+ */
+export async function resolve(
+  lat: number,
+  lon: number,
+  loader: DataLoader,
+  options: ResolveOptions = {}
+): Promise<ResolutionResult> {
+  const point: Point = [lat, lon];
+  
+  // Ensure data is loaded
+  await loader.load();
+  if (options.subdivisions) {
+    await loader.loadSubdivisions();
+  }
+  
+  // Step 1: Encode to geohash
+  const geohash = encode(lat, lon);
+  
+  const candidates = findCandidates(geohash, loader);
+  return resolveLoadedPoint(point, geohash, candidates, loader, options);
+}
+
+/**
+ * Convert a coordinate batch to a list of points.
+ * 
+ * @param points - Array of [lat, lon] tuples or flat interleaved array
+ * @returns List of [lat, lon] tuples
+ */
+export function toPointList(points: CoordinateBatch): Point[] {
+  const length = points.length;
+  if (length === 0) {
+    return [];
+  }
+  
+  const first = (points as ArrayLike<unknown>)[0];
+  if (typeof first === 'number') {
+    const flat = points as ArrayLike<number>;
+    if (length % 2 !== 0) {
+      throw new Error(
+        `Flat coordinate arrays must contain lat/lon pairs. Got odd length: ${length}`
+      );
+    }
+    const list: Point[] = new Array(length / 2);
+    for (let i = 0; i < length; i += 2) {
+      list[i / 2] = [flat[i], flat[i + 1]];
+    }
+    return list;
+  }
+  
+  const tuples = points as ReadonlyArray<Point>;
+  return tuples.map((p, i) => {
+    if (!Array.isArray(p) || p.length < 2) {
+      throw new Error(`Invalid coordinate at index ${i}: expected [lat, lon]`);
+    }
+    return [p[0], p[1]] as Point;
+  });
+}
+
+/**
+ * Resolve many latitude/longitude pairs in one pass.
+ * 
+ * Points are grouped by geohash so that candidate lookups (including the
+ * neighbor fallbacks) run once per geohash cell rather than once per point,
+ * and duplicate points within a cell reuse the same result.
+ * 
+ * @param points - Array of [lat, lon] tuples or flat interleaved array
+ * @param loader - Data loader instance
+ * @param options - Resolution options
+ * @returns One ResolutionResult per input point, in input order
+ */
+export async function resolveMany(
+  points: CoordinateBatch,
+  loader: DataLoader,
+  options: ResolveOptions = {}
+): Promise<ResolutionResult[]> {
+  const pointList = toPointList(points);
+  
+  // Ensure data is loaded
+  await loader.load();
+  if (options.subdivisions) {
+    await loader.loadSubdivisions();
+  }
+  
+  // Group point indices by geohash
+  const groups = new Map<string, number[]>();
+  for (let i = 0; i < pointList.length; i++) {
+    const [lat, lon] = pointList[i];
+    if (typeof lat !== 'number' || typeof lon !== 'number' || isNaN(lat) || isNaN(lon)) {
+      throw new Error(`Invalid coordinate at index ${i}: lat=${lat}, lon=${lon}`);
+    }
+    const geohash = encode(lat, lon);
+    const group = groups.get(geohash);
+    if (group) {
+      group.push(i);
+    } else {
+      groups.set(geohash, [i]);
+    }
+  }
+  
+  const results: ResolutionResult[] = new Array(pointList.length);
+  
+  for (const [geohash, indices] of groups) {
+    const candidates = findCandidates(geohash, loader);
+    const byPoint = new Map<string, ResolutionResult>();
+    
+    for (const i of indices) {
+      const point = pointList[i];
+      const key = `${point[0]},${point[1]}`;
+      let result = byPoint.get(key);
+      if (!result) {
+        result = await resolveLoadedPoint(point, geohash, candidates, loader, options);
+        byPoint.set(key, result);
+      }
+      results[i] = result;
+    }
+  }
+  
+  return results;
 }
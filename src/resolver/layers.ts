@@ -0,0 +1,58 @@
+/**
+ * Custom layer resolution: every feature of a layer containing a point.
+ * 
+ * Unlike countries and timezones, custom features may overlap (a point can be
+ * in several delivery zones), so resolution does not stop at the first match:
+ * 1. Look up candidate features in the layer's geohash index
+ * 2. Test each candidate with point-in-polygon (exterior minus its holes)
+ * 3. Return the matching features in layer order
+ * 
+ * The layer index lists every cell a feature touches (see data/layers.ts),
+ * so no spatial index fallback is needed.
+ */
+
+import { CustomLayer, LayerFeature, LayerRegistry } from '../data/layers';
+import { pointInPart } from '../data/prepared';
+import { encode } from '../geohash';
+
+/**
+ * Find the features of a layer containing a point.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param layer - Custom layer
+ * @returns Matching features (empty when none contains the point)
+ */
+export function findLayerFeatures(lat: number, lon: number, layer: CustomLayer): LayerFeature[] {
+  const polygonLayer = layer.polygonLayer;
+  return polygonLayer.getCandidates(encode(lat, lon))
+    .filter(id => {
+      const prepared = polygonLayer.getPrepared(id);
+      return prepared !== undefined && prepared.parts.some(part => pointInPart(lat, lon, part));
+    })
+    .sort((a, b) => a - b)
+    .map(id => layer.getFeature(id)!);
+}
+
+/**
+ * Find the matching features of several layers.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param registry - Registered layers
+ * @param names - Names of the layers to search
+ * @returns Matching features keyed by layer name
+ * @throws Error if a layer is not registered
+ */
+export function resolveLayers(
+  lat: number,
+  lon: number,
+  registry: LayerRegistry,
+  names: string[]
+): { [layer: string]: LayerFeature[] } {
+  const layers: { [layer: string]: LayerFeature[] } = {};
+  for (const name of names) {
+    layers[name] = findLayerFeatures(lat, lon, registry.get(name));
+  }
+  return layers;
+}
@@ -0,0 +1,71 @@
+/**
+ * Local time resolution: coordinates + instant → UTC offset and DST state.
+ * 
+ * Pipeline:
+ * 1. resolve() the point; its timezone field gives the IANA zone on land
+ * 2. Points without a country timezone (territorial waters, open sea) fall
+ *    back to resolveTimezone(), which returns nautical Etc/GMT±N zones at sea
+ * 3. Evaluate the bundled tz rules table at the instant (no Intl needed)
+ */
+
+import { DataLoader } from '../data/loader';
+import { getTimezoneOffset, formatLocalTime, TimezoneTransition } from '../timezone';
+import { resolve } from './index';
+import { resolveTimezone } from './timezone';
+
+export interface LocalTimeResolutionResult {
+  tzid: string | null; // null when no timezone could be determined
+  utcOffsetSeconds: number | null;
+  dst: boolean | null;
+  abbreviation: string | null;
+  localTime: string | null; // ISO 8601 with offset, e.g. "2024-07-01T08:00:00-04:00"
+  nextTransition: TimezoneTransition | null;
+}
+
+/**
+ * Get the local time details for a point at an instant.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param date - Instant as Date or epoch milliseconds
+ * @param loader - Data loader instance
+ * @returns LocalTimeResolutionResult (all fields null when no timezone is known)
+ */
+export async function getLocalTime(
+  lat: number,
+  lon: number,
+  date: Date | number,
+  loader: DataLoader
+): Promise<LocalTimeResolutionResult> {
+  const instant = typeof date === 'number' ? new Date(date) : date;
+  if (isNaN(instant.getTime())) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+
+  // Steps 1-2: Timezone from country resolution, else from the timezone layer
+  let tzid = (await resolve(lat, lon, loader)).timezone;
+  if (!tzid) {
+    tzid = (await resolveTimezone(lat, lon, loader)).tzid;
+  }
+  if (!tzid) {
+    return {
+      tzid: null,
+      utcOffsetSeconds: null,
+      dst: null,
+      abbreviation: null,
+      localTime: null,
+      nextTransition: null
+    };
+  }
+
+  // Step 3: Evaluate the rules table
+  const offset = getTimezoneOffset(tzid, instant);
+  return {
+    tzid,
+    utcOffsetSeconds: offset.utcOffsetSeconds,
+    dst: offset.dst,
+    abbreviation: offset.abbreviation,
+    localTime: formatLocalTime(instant, offset.utcOffsetSeconds),
+    nextTransition: offset.nextTransition
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Nearest-country resolution for offshore and coastal points.
+ * 
+ * Given a latitude/longitude, returns:
+ * - The country containing the point (distance 0), or
+ * - The nearest country polygon, its great-circle distance and the nearest
+ *   coastline/border point
+ * 
+ * Search Strategy:
+ * 1. Run the normal forward resolution; a match means the point is on land
+ * 2. Seed a best distance from countries indexed in the point's geohash cell
+ *    and its neighbors (cheap, usually already the answer near coasts)
+ * 3. Verify with a spatial index query over a box that covers the search
+ *    radius; any part within the radius must intersect that box
+ * 4. Without a seed, grow the radius until a country is found or
+ *    maxDistanceKm is exceeded
+ */
+
+import { encode, getNeighbors } from '../geohash';
+import { Point } from '../pip';
+import { DataLoader } from '../data/loader';
+import { PartRef, nearestPointOnPart } from '../data/prepared';
+import { EARTH_RADIUS_KM } from '../distance';
+import { resolve } from './index';
+import { countryTimezone } from './timezone';
+
+// Kilometres per degree of latitude on the reference sphere
+const KM_PER_DEGREE = EARTH_RADIUS_KM * Math.PI / 180;
+
+// Half the Earth's circumference: no point is farther away than this
+const MAX_SEARCH_KM = EARTH_RADIUS_KM * Math.PI;
+
+// First search radius when the geohash neighborhood has no country
+const INITIAL_SEARCH_KM = 50;
+
+export interface NearestResolutionResult {
+  countryId: number | null;
+  countryName: string | null;
+  iso2: string | null;
+  iso3: string | null;
+  continent: string | null;
+  timezone: string | null;
+  confidence: number;
+  inside: boolean;
+  distanceKm: number | null; // 0 when inside, null when nothing within maxDistanceKm
+  nearestPoint: Point | null; // Nearest coastline/border point ([lat, lon] itself when inside)
+}
+
+/**
+ * Options for nearest-country resolution.
+ */
+export interface NearestOptions {
+  /** Maximum search distance in km (default: unlimited) */
+  maxDistanceKm?: number;
+}
+
+interface NearestCandidate {
+  countryId: number;
+  point: Point;
+  distanceKm: number;
+}
+
+/**
+ * Find parts whose bounding box may hold a point within radiusKm.
+ * 
+ * Splits the query box at the antimeridian and widens to all longitudes
+ * when the radius reaches a pole. Lazily loaded countries in the box are
+ * loaded first.
+ */
+async function partsWithinRadius(lat: number, lon: number, radiusKm: number, loader: DataLoader): Promise<PartRef[]> {
+  const dLat = radiusKm / KM_PER_DEGREE;
+  const minLat = Math.max(-90, lat - dLat);
+  const maxLat = Math.min(90, lat + dLat);
+
+  const maxAbsLat = Math.max(Math.abs(minLat), Math.abs(maxLat));
+  const cosLat = Math.cos(maxAbsLat * Math.PI / 180);
+  // 10% margin covers the difference between this box and a true geodesic circle
+  const dLon = cosLat > 1e-6 ? dLat / cosLat * 1.1 : 360;
+
+  const boxes: Array<[number, number]> = [];
+  if (dLon >= 180) {
+    boxes.push([-180, 180]);
+  } else {
+    boxes.push([Math.max(-180, lon - dLon), Math.min(180, lon + dLon)]);
+    if (lon - dLon < -180) {
+      boxes.push([lon - dLon + 360, 180]);
+    }
+    if (lon + dLon > 180) {
+      boxes.push([-180, lon + dLon - 360]);
+    }
+  }
+
+  const parts: PartRef[] = [];
+  for (const [minLon, maxLon] of boxes) {
+    await loader.loadPolygonsInBox(minLat, maxLat, minLon, maxLon);
+    parts.push(...loader.getPartsInBox(minLat, maxLat, minLon, maxLon));
+  }
+  return parts;
+}
+
+/**
+ * Find the nearest part among a set of part references.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param parts - Parts to consider
+ * @param best - Current best candidate (parts that cannot beat it are skipped)
+ * @returns Updated best candidate
+ */
+function nearestAmong(
+  lat: number,
+  lon: number,
+  parts: PartRef[],
+  best: NearestCandidate | null
+): NearestCandidate | null {
+  for (const { id: countryId, part } of parts) {
+    // Latitude gap is a lower bound on great-circle distance
+    const [minLat, maxLat] = part.exterior.bbox;
+    const latGapKm = Math.max(0, minLat - lat, lat - maxLat) * KM_PER_DEGREE;
+    if (best && latGapKm >= best.distanceKm) {
+      continue;
+    }
+
+    const nearest = nearestPointOnPart(lat, lon, part);
+    if (nearest && (!best || nearest.distanceKm < best.distanceKm)) {
+      best = { countryId, point: nearest.point, distanceKm: nearest.distanceKm };
+    }
+  }
+  return best;
+}
+
+/**
+ * Collect parts of the countries indexed around a point's geohash.
+ */
+async function geohashNeighborhoodParts(lat: number, lon: number, loader: DataLoader): Promise<PartRef[]> {
+  const geohash = encode(lat, lon);
+  const countryIds = new Set<number>(loader.getCandidateCountries(geohash));
+  for (const neighborHash of getNeighbors(geohash)) {
+    for (const countryId of loader.getCandidateCountries(neighborHash)) {
+      countryIds.add(countryId);
+    }
+  }
+
+  await loader.loadCountryPolygons(countryIds);
+  const parts: PartRef[] = [];
+  for (const countryId of countryIds) {
+    const prepared = loader.getPreparedPolygon(countryId);
+    if (prepared) {
+      prepared.parts.forEach((part, partIndex) => parts.push({ id: countryId, partIndex, part }));
+    }
+  }
+  return parts;
+}
+
+/**
+ * Resolve latitude/longitude to the containing or nearest country.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param loader - Data loader instance
+ * @param options - Search options
+ * @returns NearestResolutionResult (country fields null when nothing is within maxDistanceKm)
+ */
+export async function resolveNearest(
+  lat: number,
+  lon: number,
+  loader: DataLoader,
+  options: NearestOptions = {}
+): Promise<NearestResolutionResult> {
+  const maxDistanceKm = options.maxDistanceKm !== undefined ? options.maxDistanceKm : Infinity;
+  if (isNaN(maxDistanceKm) || maxDistanceKm < 0) {
+    throw new Error(`maxDistanceKm must be a non-negative number, got ${options.maxDistanceKm}`);
+  }
+
+  // Step 1: Point on land resolves normally
+  const onLand = await resolve(lat, lon, loader);
+  if (onLand.countryId !== null) {
+    return {
+      countryId: onLand.countryId,
+      countryName: onLand.countryName,
+      iso2: onLand.iso2,
+      iso3: onLand.iso3,
+      continent: onLand.continent,
+      timezone: onLand.timezone,
+      confidence: onLand.confidence,
+      inside: true,
+      distanceKm: 0,
+      nearestPoint: [lat, lon]
+    };
+  }
+
+  // Step 2: Seed from the geohash neighborhood
+  let best = nearestAmong(lat, lon, await geohashNeighborhoodParts(lat, lon, loader), null);
+
+  // Step 3/4: Verify (or search) with the spatial index
+  const searchLimit = Math.min(maxDistanceKm, MAX_SEARCH_KM);
+  let radiusKm = best ? Math.min(best.distanceKm, searchLimit) : Math.min(INITIAL_SEARCH_KM, searchLimit);
+  for (;;) {
+    best = nearestAmong(lat, lon, await partsWithinRadius(lat, lon, radiusKm, loader), best);
+    if ((best && best.distanceKm <= radiusKm) || radiusKm >= searchLimit) {
+      break;
+    }
+    radiusKm = Math.min(radiusKm * 2, searchLimit);
+  }
+
+  const metadata = best && best.distanceKm <= maxDistanceKm ? loader.getMetadata(best.countryId) : undefined;
+  if (!best || !metadata) {
+    return {
+      countryId: null,
+      countryName: null,
+      iso2: null,
+      iso3: null,
+      continent: null,
+      timezone: null,
+      confidence: 0.0,
+      inside: false,
+      distanceKm: null,
+      nearestPoint: null
+    };
+  }
+
+  return {
+    countryId: best.countryId,
+    countryName: metadata.name,
+    iso2: metadata.iso2,
+    iso3: metadata.iso3,
+    continent: metadata.continent,
+    timezone: countryTimezone(best.point[0], best.point[1], metadata.timezone, loader),
+    confidence: 0.0,
+    inside: false,
+    distanceKm: best.distanceKm,
+    nearestPoint: best.point
+  };
+}
@@ -0,0 +1,395 @@
+/**
+ * Land-border neighbor graph between countries.
+ * 
+ * Given country names or ISO codes, answers:
+ * - Which countries share a land border with a country, and how long it is
+ * - Whether two countries share a land border
+ * - The shortest chain of neighbors between two countries (fewest crossings)
+ * 
+ * The graph is derived from the country polygons the first time it is
+ * needed and cached per dataset (metadata object), so reloaded datasets get
+ * a fresh graph. With lazy polygons this loads every country's chunk.
+ * 
+ * Design Decision: Neighboring polygons share their border vertices only
+ * where the simplified borders happened to keep the same points; between
+ * them the two sides drift apart by up to about a kilometre. An edge of one
+ * country therefore counts as shared border when both of its ends lie within
+ * BORDER_TOLERANCE_KM of the other country's boundary, and a border's length
+ * is the mean of what both sides measure. Coasts facing each other across
+ * wider water (the Øresund, the Strait of Gibraltar) are not borders, but
+ * islands just off a neighbor's coast are (Bahrain's Hawar Islands off Qatar).
+ * 
+ * Overseas parts count like the mainland: France borders Brazil through
+ * French Guiana.
+ */
+
+import { DataLoader, MetadataData } from '../data/loader';
+import { EARTH_RADIUS_KM, haversineDistance } from '../distance';
+import { localizedCountryName, matchCountryName, CountryNameMatch } from './country_names';
+
+// Largest gap between two countries' boundaries that still counts as a shared border
+const BORDER_TOLERANCE_KM = 2;
+
+// Borders shorter than this (in both directions' mean) are treated as touching corners
+const MIN_BORDER_KM = 0.1;
+
+// Grid cell size of the boundary edge index, in degrees
+const CELL_DEGREES = 0.5;
+
+const KM_PER_DEGREE = EARTH_RADIUS_KM * Math.PI / 180;
+
+/**
+ * A land border of a country.
+ */
+export interface CountryBorder {
+  countryId: number; // Neighboring country
+  borderKm: number; // Length of the shared border
+}
+
+/**
+ * Neighbors by country ID, longest border first.
+ */
+export type NeighborGraph = Map<number, CountryBorder[]>;
+
+/**
+ * A country in a neighbor list or path.
+ */
+export interface NeighborResult {
+  countryId: number;
+  countryName: string;
+  iso2: string;
+  iso3: string;
+  borderKm: number; // Shared border (in a path: the border crossed to enter the country, 0 for the start)
+}
+
+/**
+ * Options for neighbor queries.
+ */
+export interface NeighborOptions {
+  /** Language of the returned country names (e.g. "de", "ja"); falls back to the dataset name */
+  locale?: string;
+}
+
+/**
+ * Boundary edges of all countries, bucketed into a lat/lon grid.
+ */
+interface EdgeIndex {
+  coords: number[]; // [lat1, lon1, lat2, lon2] per edge
+  countries: number[]; // Country ID per edge
+  cells: Map<number, number[]>; // Cell key → edge numbers
+}
+
+// Per metadata object, so reloaded datasets get a fresh graph
+const graphs = new WeakMap<MetadataData, Promise<NeighborGraph>>();
+
+function cellKey(row: number, col: number): number {
+  return row * 1000 + col;
+}
+
+function cellRow(lat: number): number {
+  return Math.floor((lat + 90) / CELL_DEGREES);
+}
+
+function cellCol(lon: number): number {
+  return Math.floor((lon + 180) / CELL_DEGREES);
+}
+
+/**
+ * Whether an edge lies on the ±180° cut or a pole line, where the dataset
+ * closes rings that are not real boundaries.
+ */
+function isCutEdge(lat1: number, lon1: number, lat2: number, lon2: number): boolean {
+  return (Math.abs(lon1) === 180 && lon1 === lon2) || (Math.abs(lat1) === 90 && lat1 === lat2);
+}
+
+/**
+ * Call fn with the coordinates of every boundary ring (exteriors and holes).
+ */
+function forEachRing(loader: DataLoader, countryId: number, fn: (coords: ArrayLike<number>) => void): void {
+  const prepared = loader.getPreparedPolygon(countryId);
+  if (!prepared) {
+    return;
+  }
+  for (const part of prepared.parts) {
+    fn(part.exterior.coords);
+    part.holes.forEach(hole => fn(hole.coords));
+  }
+}
+
+/**
+ * Index the boundary edges of all countries.
+ * 
+ * Each edge goes into every cell its bounding box, widened by the border
+ * tolerance, touches, so a vertex only needs to look at its own cell.
+ */
+function buildEdgeIndex(loader: DataLoader, countryIds: number[]): EdgeIndex {
+  const index: EdgeIndex = { coords: [], countries: [], cells: new Map() };
+  const latMargin = BORDER_TOLERANCE_KM / KM_PER_DEGREE;
+
+  for (const countryId of countryIds) {
+    forEachRing(loader, countryId, coords => {
+      const n = coords.length >> 1;
+      for (let i = 0; i < n; i++) {
+        const j = (i + 1) % n;
+        const lat1 = coords[i * 2], lon1 = coords[i * 2 + 1];
+        const lat2 = coords[j * 2], lon2 = coords[j * 2 + 1];
+        if (isCutEdge(lat1, lon1, lat2, lon2)) {
+          continue;
+        }
+
+        const edge = index.countries.length;
+        index.coords.push(lat1, lon1, lat2, lon2);
+        index.countries.push(countryId);
+
+        const maxAbsLat = Math.min(89, Math.max(Math.abs(lat1), Math.abs(lat2)) + latMargin);
+        const lonMargin = latMargin / Math.cos(maxAbsLat * Math.PI / 180);
+        const minRow = cellRow(Math.max(-90, Math.min(lat1, lat2) - latMargin));
+        const maxRow = cellRow(Math.min(90, Math.max(lat1, lat2) + latMargin));
+        const minCol = cellCol(Math.max(-180, Math.min(lon1, lon2) - lonMargin));
+        const maxCol = cellCol(Math.min(180, Math.max(lon1, lon2) + lonMargin));
+        for (let row = minRow; row <= maxRow; row++) {
+          for (let col = minCol; col <= maxCol; col++) {
+            const key = cellKey(row, col);
+            const cell = index.cells.get(key);
+            if (cell) {
+              cell.push(edge);
+            } else {
+              index.cells.set(key, [edge]);
+            }
+          }
+        }
+      }
+    });
+  }
+  return index;
+}
+
+/**
+ * Distance in km from a point to an edge, in a local equirectangular
+ * projection (accurate for the short distances compared here).
+ */
+function distanceToEdgeKm(lat: number, lon: number, edge: number, coords: number[]): number {
+  const scale = Math.cos(lat * Math.PI / 180);
+  const ax = (coords[edge * 4 + 1] - lon) * scale;
+  const ay = coords[edge * 4] - lat;
+  const bx = (coords[edge * 4 + 3] - lon) * scale;
+  const by = coords[edge * 4 + 2] - lat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy) * KM_PER_DEGREE;
+}
+
+/**
+ * Find the other countries whose boundary lies within the border tolerance of a vertex.
+ */
+function countriesNear(lat: number, lon: number, countryId: number, index: EdgeIndex): number[] {
+  const near: number[] = [];
+  const cell = index.cells.get(cellKey(cellRow(lat), cellCol(lon)));
+  if (!cell) {
+    return near;
+  }
+  for (const edge of cell) {
+    const other = index.countries[edge];
+    if (other !== countryId && !near.includes(other) &&
+        distanceToEdgeKm(lat, lon, edge, index.coords) <= BORDER_TOLERANCE_KM) {
+      near.push(other);
+    }
+  }
+  return near;
+}
+
+/**
+ * Build the neighbor graph of a loaded dataset.
+ * 
+ * @param loader - Data loader with all country polygons loaded
+ * @returns Neighbors by country ID, longest border first
+ */
+function buildNeighborGraph(loader: DataLoader): NeighborGraph {
+  const countryIds = Object.keys(loader.metadata).map(Number);
+  const index = buildEdgeIndex(loader, countryIds);
+
+  // Shared border length measured along each country's own edges
+  const measured = new Map<number, Map<number, number>>();
+  for (const countryId of countryIds) {
+    const lengths = new Map<number, number>();
+    forEachRing(loader, countryId, coords => {
+      const n = coords.length >> 1;
+      const near = new Array<number[]>(n);
+      for (let i = 0; i < n; i++) {
+        near[i] = countriesNear(coords[i * 2], coords[i * 2 + 1], countryId, index);
+      }
+      for (let i = 0; i < n; i++) {
+        const j = (i + 1) % n;
+        const lat1 = coords[i * 2], lon1 = coords[i * 2 + 1];
+        const lat2 = coords[j * 2], lon2 = coords[j * 2 + 1];
+        if (near[i].length === 0 || isCutEdge(lat1, lon1, lat2, lon2)) {
+          continue;
+        }
+        for (const other of near[i]) {
+          if (near[j].includes(other)) {
+            lengths.set(other, (lengths.get(other) || 0) + haversineDistance(lat1, lon1, lat2, lon2));
+          }
+        }
+      }
+    });
+    measured.set(countryId, lengths);
+  }
+
+  const graph: NeighborGraph = new Map();
+  for (const countryId of countryIds) {
+    const borders: CountryBorder[] = [];
+    for (const [other, length] of measured.get(countryId)!) {
+      const otherLength = measured.get(other)!.get(countryId) || 0;
+      const borderKm = (length + otherLength) / 2;
+      if (borderKm >= MIN_BORDER_KM) {
+        borders.push({ countryId: other, borderKm });
+      }
+    }
+    // Pairs only one side measured still need an entry on the other side
+    for (const [other, lengths] of measured) {
+      if (lengths.has(countryId) && !measured.get(countryId)!.has(other)) {
+        const borderKm = lengths.get(countryId)! / 2;
+        if (borderKm >= MIN_BORDER_KM) {
+          borders.push({ countryId: other, borderKm });
+        }
+      }
+    }
+    borders.sort((a, b) => b.borderKm - a.borderKm);
+    graph.set(countryId, borders);
+  }
+  return graph;
+}
+
+/**
+ * Get the neighbor graph of a loader's dataset, building it on first use.
+ * 
+ * @param loader - Data loader instance
+ * @returns Neighbors by country ID, longest border first
+ */
+export async function getNeighborGraph(loader: DataLoader): Promise<NeighborGraph> {
+  await loader.load();
+  const metadata = loader.metadata;
+  let graph = graphs.get(metadata);
+  if (graph === undefined) {
+    graph = loader.loadCountryPolygons(Object.keys(metadata).map(Number))
+      .then(() => buildNeighborGraph(loader));
+    graphs.set(metadata, graph);
+    graph.catch(() => graphs.delete(metadata)); // Retry on the next request
+  }
+  return graph;
+}
+
+function findCountry(countryInput: string, loader: DataLoader): CountryNameMatch {
+  // Throws AmbiguousCountryError if several match
+  const countryMatch = matchCountryName(countryInput, loader.metadata);
+  if (!countryMatch) {
+    throw new Error(
+      `Country not found: '${countryInput}'. ` +
+      `Please provide a valid country name or ISO code (ISO2/ISO3).`
+    );
+  }
+  return countryMatch;
+}
+
+function neighborResult(
+  countryId: number,
+  borderKm: number,
+  loader: DataLoader,
+  options: NeighborOptions
+): NeighborResult {
+  const metadata = loader.getMetadata(countryId)!;
+  return {
+    countryId,
+    countryName: localizedCountryName(metadata, options.locale),
+    iso2: metadata.iso2,
+    iso3: metadata.iso3,
+    borderKm
+  };
+}
+
+/**
+ * Get the countries sharing a land border with a country.
+ * 
+ * @param countryInput - Country name (in English or any language of the
+ *   dataset's localized names) or ISO code
+ * @param loader - Data loader instance
+ * @param options - Neighbor query options
+ * @returns Neighbors with their shared border length, longest border first
+ * @throws AmbiguousCountryError if the name matches several countries equally well
+ */
+export async function getNeighbors(
+  countryInput: string,
+  loader: DataLoader,
+  options: NeighborOptions = {}
+): Promise<NeighborResult[]> {
+  const graph = await getNeighborGraph(loader);
+  const { countryId } = findCountry(countryInput, loader);
+  return graph.get(countryId)!.map(border => neighborResult(border.countryId, border.borderKm, loader, options));
+}
+
+/**
+ * Check whether two countries share a land border.
+ * 
+ * @param countryA - Country name or ISO code
+ * @param countryB - Country name or ISO code
+ * @param loader - Data loader instance
+ * @returns True if the countries are neighbors (false for the same country)
+ */
+export async function sharesBorder(countryA: string, countryB: string, loader: DataLoader): Promise<boolean> {
+  const graph = await getNeighborGraph(loader);
+  const a = findCountry(countryA, loader).countryId;
+  const b = findCountry(countryB, loader).countryId;
+  return graph.get(a)!.some(border => border.countryId === b);
+}
+
+/**
+ * Find a shortest chain of neighboring countries between two countries.
+ * 
+ * Breadth-first search over the neighbor graph, so the path has the fewest
+ * border crossings; among equally short paths, longer borders are tried
+ * first.
+ * 
+ * @param fromCountry - Start country name or ISO code
+ * @param toCountry - Destination country name or ISO code
+ * @param loader - Data loader instance
+ * @param options - Neighbor query options
+ * @returns Countries from start to destination (both included), or null when
+ *   no land route exists (e.g. to an island nation)
+ */
+export async function findPath(
+  fromCountry: string,
+  toCountry: string,
+  loader: DataLoader,
+  options: NeighborOptions = {}
+): Promise<NeighborResult[] | null> {
+  const graph = await getNeighborGraph(loader);
+  const from = findCountry(fromCountry, loader).countryId;
+  const to = findCountry(toCountry, loader).countryId;
+
+  // Country → [previous country, border crossed to reach it]
+  const previous = new Map<number, [number, number]>([[from, [-1, 0]]]);
+  let frontier = [from];
+  while (frontier.length > 0 && !previous.has(to)) {
+    const next: number[] = [];
+    for (const countryId of frontier) {
+      for (const border of graph.get(countryId)!) {
+        if (!previous.has(border.countryId)) {
+          previous.set(border.countryId, [countryId, border.borderKm]);
+          next.push(border.countryId);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  if (!previous.has(to)) {
+    return null;
+  }
+  const path: NeighborResult[] = [];
+  for (let countryId = to; countryId !== -1; countryId = previous.get(countryId)![0]) {
+    path.unshift(neighborResult(countryId, previous.get(countryId)![1], loader, options));
+  }
+  return path;
+}
@@ -2,13 +2,21 @@
  * Reverse geocoding - resolve country name/ISO code to coordinates.
  * 
  * Given a country name or ISO code, returns:
- * - Latitude/Longitude (centroid of country)
- * - Country metadata (name, ISO codes, continent, timezone)
+ * - Latitude/Longitude (a point inside the country, or its centroid)
+ * - Country metadata (name, ISO codes, continent) and the IANA timezone at that point
+ * 
+ * Design Decision: The default point is the pole of inaccessibility of the
+ * country's largest part, which always lies inside the country. Centroids
+ * of archipelagos and crescent-shaped countries (Indonesia, Chile, the US
+ * with Alaska and Hawaii) often fall in the sea or in another country.
  */
 
 import { DataLoader } from '../data/loader';
-import { getPolygonCentroid } from '../utils/polygon';
+import { PreparedPolygon, pointInPart } from '../data/prepared';
+import { getAreaCentroid, getRepresentativePoint, getRingCentroid } from '../utils/polygon';
 import { Point } from '../pip';
+import { localizedCountryName, matchCountryName } from './country_names';
+import { countryTimezone } from './timezone';
 
 export interface ReverseResolutionResult {
   latitude: number | null;
@@ -17,8 +25,28 @@ export interface ReverseResolutionResult {
   iso2: string | null;
   iso3: string | null;
   continent: string | null;
-  timezone: string | null;
+  timezone: string | null; // IANA timezone at latitude/longitude (null when unknown)
   confidence: number; // Always 1.0 for exact country match
+  matchScore: number; // How well the input matched the country name (1.0 for ISO codes, names and aliases)
+  inside: boolean; // Whether latitude/longitude lie inside the country
+}
+
+/**
+ * Which point of a country reverse resolution returns:
+ * - 'representative': pole of inaccessibility of the largest part (always inside)
+ * - 'centroid': area-weighted centroid of all parts
+ * - 'vertexMean': mean of the part vertex means (the previous default)
+ */
+export type CountryPointType = 'representative' | 'centroid' | 'vertexMean';
+
+/**
+ * Options for reverse resolution.
+ */
+export interface ReverseResolveOptions {
+  /** Language of the returned country name (e.g. "de", "ja"); falls back to the dataset name */
+  locale?: string;
+  /** Point to return (default: 'representative') */
+  point?: CountryPointType;
 }
 
 /**
@@ -33,6 +61,8 @@ export class ReverseResolutionResultImpl implements ReverseResolutionResult {
   continent: string | null = null;
   timezone: string | null = null;
   confidence: number = 1.0; // Always 1.0 for exact country match
+  matchScore: number = 1.0;
+  inside: boolean = false;
 
   constructor(result?: Partial<ReverseResolutionResult>) {
     if (result) {
@@ -49,92 +79,81 @@ export class ReverseResolutionResultImpl implements ReverseResolutionResult {
       iso3: this.iso3,
       continent: this.continent,
       timezone: this.timezone,
-      confidence: this.confidence
+      confidence: this.confidence,
+      match_score: this.matchScore,
+      inside: this.inside
     };
   }
 }
 
-/**
- * Normalize country name for matching.
- */
-function normalizeCountryName(name: string): string {
-  return name.trim().toLowerCase().replace(/_/g, ' ').replace(/-/g, ' ');
-}
+// Representative points by prepared polygon (the search is the costly one)
+const representativePoints = new WeakMap<PreparedPolygon, Point>();
 
 /**
- * Find country ID and metadata by name or ISO code.
+ * Calculate the point of a country that reverse resolution returns.
  * 
- * @param countryInput - Country name, ISO2 code, or ISO3 code
- * @param loader - Data loader instance
- * @returns Object with countryId and metadata, or null if not found
+ * @param prepared - Prepared country polygon (at least one part)
+ * @param type - Point type
+ * @returns [lat, lon] point
  */
-function findCountryByNameOrIso(
-  countryInput: string,
-  loader: DataLoader
-): { countryId: number; metadata: any } | null {
-  const metadata = loader.metadata;
-  
-  const normalizedInput = countryInput.trim().toUpperCase();
-  const normalizedName = normalizeCountryName(countryInput);
-  
-  // Search through all countries
-  for (const [countryIdStr, countryMeta] of Object.entries(metadata)) {
-    const countryId = parseInt(countryIdStr, 10);
-    
-    // Check ISO2
-    const iso2 = (countryMeta.iso2 || '').toUpperCase();
-    if (iso2 === normalizedInput) {
-      return { countryId, metadata: countryMeta };
+function countryPoint(prepared: PreparedPolygon, type: CountryPointType): Point {
+  switch (type) {
+    case 'representative': {
+      let point = representativePoints.get(prepared);
+      if (point === undefined) {
+        point = getRepresentativePoint(prepared.parts)!;
+        representativePoints.set(prepared, point);
+      }
+      return point;
     }
-    
-    // Check ISO3
-    const iso3 = (countryMeta.iso3 || '').toUpperCase();
-    if (iso3 === normalizedInput) {
-      return { countryId, metadata: countryMeta };
-    }
-    
-    // Check country name (exact match)
-    const countryName = countryMeta.name || '';
-    const normalizedMetaName = normalizeCountryName(countryName);
-    if (normalizedMetaName === normalizedName) {
-      return { countryId, metadata: countryMeta };
+    case 'centroid': {
+      const centroid = getAreaCentroid(prepared.parts);
+      if (centroid !== null) {
+        return centroid;
+      }
+      break; // No area: fall back to the vertex mean
     }
+    case 'vertexMean':
+      break;
+    default:
+      throw new Error(
+        `Unknown point type '${type}'. ` +
+        `Expected 'representative', 'centroid' or 'vertexMean'.`
+      );
   }
   
-  // Try partial match (case-insensitive)
-  for (const [countryIdStr, countryMeta] of Object.entries(metadata)) {
-    const countryId = parseInt(countryIdStr, 10);
-    const countryName = countryMeta.name || '';
-    const normalizedMetaName = normalizeCountryName(countryName);
-    
-    // Check if input is contained in country name or vice versa
-    if (normalizedName.includes(normalizedMetaName) || normalizedMetaName.includes(normalizedName)) {
-      return { countryId, metadata: countryMeta };
-    }
-  }
-  
-  return null;
+  // Average of the exterior vertex means
+  const centroids: Point[] = prepared.parts.map(part => getRingCentroid(part.exterior.coords));
+  return [
+    centroids.reduce((sum, c) => sum + c[0], 0) / centroids.length,
+    centroids.reduce((sum, c) => sum + c[1], 0) / centroids.length
+  ];
 }
 
 /**
  * Resolve country name or ISO code to coordinates and metadata.
  * 
  * This function performs reverse geocoding - given a country name or ISO code,
- * it returns the country's centroid coordinates along with all metadata.
+ * it returns a point of the country (see ReverseResolveOptions.point) along
+ * with all metadata.
  * 
- * @param countryInput - Country name (e.g., "United States", "USA", "US") or ISO code
+ * @param countryInput - Country name (e.g., "United States", "USA", "US"), in
+ *   English or any language of the dataset's localized names, or ISO code
  * @param loader - Data loader instance
+ * @param options - Reverse resolution options
  * @returns ReverseResolutionResult object with coordinates and metadata
+ * @throws AmbiguousCountryError if the name matches several countries equally well
  */
 export async function resolveByCountry(
   countryInput: string,
-  loader: DataLoader
+  loader: DataLoader,
+  options: ReverseResolveOptions = {}
 ): Promise<ReverseResolutionResult> {
   // Ensure data is loaded
   await loader.load();
   
-  // Find country
-  const countryMatch = findCountryByNameOrIso(countryInput, loader);
+  // Find country (throws AmbiguousCountryError if several match)
+  const countryMatch = matchCountryName(countryInput, loader.metadata);
   
   if (!countryMatch) {
     throw new Error(
@@ -143,60 +162,33 @@ export async function resolveByCountry(
     );
   }
   
-  const { countryId, metadata } = countryMatch;
+  const { countryId, metadata, score } = countryMatch;
   
-  // Get polygon to calculate centroid
-  const polygonData = loader.getPolygon(countryId);
+  // Get prepared polygon to calculate the point
+  await loader.loadCountryPolygons([countryId]);
+  const prepared = loader.getPreparedPolygon(countryId);
   
-  if (!polygonData) {
+  if (!prepared) {
     throw new Error(`Polygon data not found for country ID ${countryId}`);
   }
   
-  // Handle MultiPolygon (multiple exteriors) or single Polygon
-  const exteriors: number[][][] = [];
-  if (polygonData.multi && polygonData.exteriors) {
-    exteriors.push(...polygonData.exteriors);
-  } else if (polygonData.exterior) {
-    exteriors.push(polygonData.exterior);
-  }
-  
-  if (exteriors.length === 0) {
+  if (prepared.parts.length === 0) {
     throw new Error(`Invalid polygon data for country ID ${countryId}`);
   }
   
-  // Calculate centroid from all exteriors
-  // For MultiPolygon countries, use average of all centroids
-  const allCentroids: Point[] = [];
-  for (const ext of exteriors) {
-    if (ext && ext.length > 0) {
-      const exteriorPolygon: Point[] = ext.map((coord: number[]) => {
-        if (Array.isArray(coord) && coord.length >= 2) {
-          return [coord[0], coord[1]] as Point;
-        }
-        throw new Error(`Invalid coordinate format: ${coord}`);
-      });
-      const centroid = getPolygonCentroid(exteriorPolygon);
-      allCentroids.push(centroid);
-    }
-  }
-  
-  if (allCentroids.length === 0) {
-    throw new Error(`No valid exteriors found for country ID ${countryId}`);
-  }
-  
-  // Use average of all centroids
-  const centroidLat = allCentroids.reduce((sum, c) => sum + c[0], 0) / allCentroids.length;
-  const centroidLon = allCentroids.reduce((sum, c) => sum + c[1], 0) / allCentroids.length;
+  const [latitude, longitude] = countryPoint(prepared, options.point !== undefined ? options.point : 'representative');
   
   // Build result
   return new ReverseResolutionResultImpl({
-    latitude: centroidLat,
-    longitude: centroidLon,
-    countryName: metadata.name,
+    latitude,
+    longitude,
+    countryName: localizedCountryName(metadata, options.locale),
     iso2: metadata.iso2,
     iso3: metadata.iso3,
     continent: metadata.continent,
-    timezone: metadata.timezone,
-    confidence: 1.0 // Exact match
+    timezone: countryTimezone(latitude, longitude, metadata.timezone, loader),
+    confidence: 1.0, // Exact match
+    matchScore: score,
+    inside: prepared.parts.some(part => pointInPart(latitude, longitude, part))
   });
 }
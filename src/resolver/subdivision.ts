@@ -0,0 +1,72 @@
+/**
+ * First-level administrative subdivision (ISO 3166-2) resolution.
+ * 
+ * Runs after the country is known, over the subdivision layer:
+ * 1. Encode lat/lon to geohash and look up candidate subdivisions
+ * 2. Test candidates of the resolved country with point-in-polygon
+ * 3. Fall back to the spatial index when the geohash index misses
+ * 4. Snap points just outside every subdivision (coastlines simplified
+ *    differently from the country polygons) to the nearest one
+ * 
+ * Design Decision: Only subdivisions of the resolved country are considered,
+ * so country and subdivision never disagree where the two datasets' borders
+ * differ slightly.
+ */
+
+import { encode } from '../geohash';
+import { DataLoader } from '../data/loader';
+import { pointInPart, distanceToPartEdge } from '../data/prepared';
+
+// Maximum distance (degrees) from a subdivision border that is snapped to it
+const SNAP_DISTANCE_DEG = 0.05;
+
+/**
+ * Find the subdivision of a country containing a point.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param iso2 - ISO 3166-1 alpha-2 code of the resolved country
+ * @param loader - Data loader with subdivision data loaded
+ * @returns Subdivision ID, or null when no subdivision of the country matches
+ */
+export function findSubdivision(lat: number, lon: number, iso2: string, loader: DataLoader): number | null {
+  const layer = loader.subdivisionLayer;
+  const inCountry = (subdivisionId: number): boolean => {
+    const metadata = loader.getSubdivisionMetadata(subdivisionId);
+    return metadata !== undefined && metadata.country === iso2;
+  };
+
+  // Steps 1-2: Geohash candidates, then point-in-polygon
+  for (const subdivisionId of layer.getCandidates(encode(lat, lon))) {
+    const prepared = layer.getPrepared(subdivisionId);
+    if (prepared && inCountry(subdivisionId) && prepared.parts.some(part => pointInPart(lat, lon, part))) {
+      return subdivisionId;
+    }
+  }
+
+  // Step 3: Spatial index fallback
+  for (const { id, part } of layer.getPartsAt(lat, lon)) {
+    if (inCountry(id) && pointInPart(lat, lon, part)) {
+      return id;
+    }
+  }
+
+  // Step 4: Snap to the nearest subdivision border of the country
+  let nearestId: number | null = null;
+  let nearestDist = SNAP_DISTANCE_DEG;
+  const parts = layer.getPartsInBox(
+    lat - SNAP_DISTANCE_DEG, lat + SNAP_DISTANCE_DEG,
+    lon - SNAP_DISTANCE_DEG, lon + SNAP_DISTANCE_DEG
+  );
+  for (const { id, part } of parts) {
+    if (!inCountry(id)) {
+      continue;
+    }
+    const dist = distanceToPartEdge(lat, lon, part);
+    if (dist < nearestDist) {
+      nearestDist = dist;
+      nearestId = id;
+    }
+  }
+  return nearestId;
+}
@@ -0,0 +1,147 @@
+/**
+ * IANA timezone resolution from coordinates.
+ * 
+ * Runs the same geohash + PIP pipeline as country resolution, over the
+ * timezone layer (boundaries from timezone-boundary-builder, including
+ * territorial waters):
+ * 1. Encode lat/lon to geohash and look up candidate timezones
+ * 2. Test each candidate with point-in-polygon
+ * 3. Fall back to the spatial index when the geohash index misses
+ * 4. Snap points in small simplification gaps between zones to the nearest zone
+ * 5. Outside every zone (open sea): nautical Etc/GMT±N zone by longitude
+ */
+
+import { encode } from '../geohash';
+import { DataLoader } from '../data/loader';
+import { pointInPart, distanceToPartEdge } from '../data/prepared';
+
+// Maximum gap (degrees) between simplified zone borders that is snapped to
+// the nearest zone; build-timezones uses a 0.01° simplification tolerance
+const SNAP_DISTANCE_DEG = 0.02;
+
+export interface TimezoneResolutionResult {
+  tzid: string | null; // null when timezone data is not loaded
+  timezoneId: number | null; // null for nautical (open sea) zones
+  inside: boolean; // Whether the point lies inside a timezone polygon
+}
+
+/**
+ * Get the nautical timezone for a longitude.
+ * 
+ * Nautical zones are 15° wide and centred on multiples of 15°. Etc/GMT
+ * names use POSIX sign convention: Etc/GMT+5 is UTC-5.
+ * 
+ * @param lon - Longitude (-180 to 180)
+ * @returns Etc/GMT zone name
+ */
+export function nauticalTimezone(lon: number): string {
+  const offset = Math.round(lon / 15);
+  if (offset === 0) {
+    return 'Etc/GMT';
+  }
+  return offset > 0 ? `Etc/GMT-${offset}` : `Etc/GMT+${-offset}`;
+}
+
+/**
+ * Find the timezone polygon containing a point (steps 1-4).
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param loader - Data loader with timezone data loaded
+ * @returns Timezone ID, or null when no zone contains the point
+ */
+export function findTimezone(lat: number, lon: number, loader: DataLoader): number | null {
+  const layer = loader.timezoneLayer;
+
+  // Steps 1-2: Geohash candidates, then point-in-polygon
+  const candidates = layer.getCandidates(encode(lat, lon));
+  for (const timezoneId of candidates) {
+    const prepared = layer.getPrepared(timezoneId);
+    if (prepared && prepared.parts.some(part => pointInPart(lat, lon, part))) {
+      return timezoneId;
+    }
+  }
+
+  // Step 3: Spatial index fallback
+  for (const { id, part } of layer.getPartsAt(lat, lon)) {
+    if (pointInPart(lat, lon, part)) {
+      return id;
+    }
+  }
+
+  // Step 4: Snap to the nearest zone border within the simplification gap
+  // (also zones whose bounding box ends just short of the point)
+  let nearestId: number | null = null;
+  let nearestDist = SNAP_DISTANCE_DEG;
+  const parts = layer.getPartsInBox(
+    lat - SNAP_DISTANCE_DEG, lat + SNAP_DISTANCE_DEG,
+    lon - SNAP_DISTANCE_DEG, lon + SNAP_DISTANCE_DEG
+  );
+  for (const { id, part } of parts) {
+    const dist = distanceToPartEdge(lat, lon, part);
+    if (dist < nearestDist) {
+      nearestDist = dist;
+      nearestId = id;
+    }
+  }
+  return nearestId;
+}
+
+/**
+ * Get the IANA timezone of a point in a country.
+ * 
+ * Used for the timezone field of country results (forward, reverse and
+ * nearest). The bundled country metadata has no timezones (empty strings),
+ * so without the timezone layer, or outside every zone, the field is the
+ * metadata value only when a custom dataset provides one, otherwise null.
+ * 
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param fallback - Timezone from country metadata
+ * @param loader - Data loader instance
+ * @returns IANA timezone name, or null when none is known
+ */
+export function countryTimezone(lat: number, lon: number, fallback: string, loader: DataLoader): string | null {
+  const timezoneId = loader.hasTimezones ? findTimezone(lat, lon, loader) : null;
+  const metadata = timezoneId !== null ? loader.getTimezoneMetadata(timezoneId) : undefined;
+  if (metadata) {
+    return metadata.tzid;
+  }
+  return fallback ? fallback : null;
+}
+
+/**
+ * Resolve latitude/longitude to an IANA timezone.
+ * 
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @param loader - Data loader instance
+ * @returns TimezoneResolutionResult (tzid null when timezone data is not loaded)
+ */
+export async function resolveTimezone(
+  lat: number,
+  lon: number,
+  loader: DataLoader
+): Promise<TimezoneResolutionResult> {
+  if (lat < -90 || lat > 90) {
+    throw new Error(`Latitude must be between -90 and 90, got ${lat}`);
+  }
+  if (lon < -180 || lon > 180) {
+    throw new Error(`Longitude must be between -180 and 180, got ${lon}`);
+  }
+
+  await loader.load();
+
+  if (!loader.hasTimezones) {
+    return { tzid: null, timezoneId: null, inside: false };
+  }
+
+  const timezoneId = findTimezone(lat, lon, loader);
+  const metadata = timezoneId !== null ? loader.getTimezoneMetadata(timezoneId) : undefined;
+  if (timezoneId === null || !metadata) {
+    // Step 5: Open sea
+    return { tzid: nauticalTimezone(lon), timezoneId: null, inside: false };
+  }
+
+  return { tzid: metadata.tzid, timezoneId, inside: true };
+}
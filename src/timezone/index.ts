@@ -0,0 +1,182 @@
+/**
+ * Offline UTC offset and DST computation.
+ * 
+ * Evaluates the bundled tz rules table (rules.ts) without the host's Intl
+ * timezone database, which is missing or incomplete in some embedded
+ * runtimes.
+ * 
+ * Each zone has a POSIX TZ rule describing its current rules, plus explicit
+ * transitions (from TZ_RULES_SINCE) for periods the rule does not cover:
+ * - Before the last explicit transition: binary search the transitions
+ * - From the last explicit transition on: evaluate the POSIX rule
+ * 
+ * Instants before TZ_RULES_SINCE use the state in effect at that instant.
+ */
+
+import { TZ_RULES, TZDATA_VERSION } from './rules';
+import { PosixTimezone, parsePosixTz, posixIsDst, posixNextTransition } from './posix';
+
+export { TZDATA_VERSION };
+
+export interface TimezoneTransition {
+  at: Date; // Instant of the transition
+  utcOffsetSeconds: number; // Offset after the transition
+  dst: boolean;
+  abbreviation: string;
+}
+
+export interface TimezoneOffset {
+  tzid: string;
+  utcOffsetSeconds: number; // Seconds east of UTC (e.g. -14400 for EDT)
+  dst: boolean;
+  abbreviation: string; // e.g. "EDT", or numeric like "+03" where tzdata has no letters
+  nextTransition: TimezoneTransition | null; // null when no change is scheduled
+}
+
+interface LocalTimeType {
+  abbreviation: string;
+  utcOffsetSeconds: number;
+  dst: boolean;
+}
+
+interface CompiledZone {
+  posix: PosixTimezone;
+  types: LocalTimeType[];
+  times: number[]; // Explicit transition instants (Unix seconds), ascending
+  typeIndices: number[];
+}
+
+// Zones are decoded on first use
+const compiledZones = new Map<string, CompiledZone>();
+
+function compileZone(tzid: string): CompiledZone {
+  let zone = compiledZones.get(tzid);
+  if (zone) {
+    return zone;
+  }
+
+  const entry = TZ_RULES[tzid];
+  if (entry === undefined) {
+    throw new Error(
+      `Unknown timezone: ${tzid}\n` +
+      `The bundled tz rules table (tzdata ${TZDATA_VERSION}) covers every timezone ` +
+      `returned by resolve() plus UTC and Etc/GMT±N.`
+    );
+  }
+
+  const [footer, typeList, transitionList] = entry.split('|');
+  zone = { posix: parsePosixTz(footer), types: [], times: [], typeIndices: [] };
+  if (typeList) {
+    zone.types = typeList.split(',').map(type => {
+      const [abbreviation, offset, dst] = type.split('/');
+      return { abbreviation, utcOffsetSeconds: parseInt(offset, 10), dst: dst === '1' };
+    });
+    for (const transition of transitionList.split(',')) {
+      const [time, typeIndex] = transition.split('/');
+      zone.times.push(parseInt(time, 36));
+      zone.typeIndices.push(parseInt(typeIndex, 10));
+    }
+  }
+  compiledZones.set(tzid, zone);
+  return zone;
+}
+
+function posixType(posix: PosixTimezone, dst: boolean): LocalTimeType {
+  return dst
+    ? { abbreviation: posix.dstAbbr!, utcOffsetSeconds: posix.dstOffset, dst: true }
+    : { abbreviation: posix.stdAbbr, utcOffsetSeconds: posix.stdOffset, dst: false };
+}
+
+function toTransition(at: number, type: LocalTimeType): TimezoneTransition {
+  return {
+    at: new Date(at * 1000),
+    utcOffsetSeconds: type.utcOffsetSeconds,
+    dst: type.dst,
+    abbreviation: type.abbreviation
+  };
+}
+
+/**
+ * Check whether the bundled rules table covers a timezone.
+ * 
+ * @param tzid - IANA timezone name
+ * @returns True if getTimezoneOffset() supports the zone
+ */
+export function isSupportedTimezone(tzid: string): boolean {
+  return TZ_RULES[tzid] !== undefined;
+}
+
+/**
+ * Get the UTC offset, DST state and abbreviation of a timezone at an instant.
+ * 
+ * @param tzid - IANA timezone name (e.g. "America/New_York")
+ * @param date - Instant as Date or epoch milliseconds (default: now)
+ * @returns Offset details and the next scheduled transition
+ */
+export function getTimezoneOffset(tzid: string, date: Date | number = new Date()): TimezoneOffset {
+  const ms = typeof date === 'number' ? date : date.getTime();
+  if (!isFinite(ms)) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  const t = Math.floor(ms / 1000);
+  const zone = compileZone(tzid);
+  const { times, typeIndices, types } = zone;
+
+  let current: LocalTimeType;
+  let next: TimezoneTransition | null;
+
+  if (times.length > 1 && t < times[times.length - 1]) {
+    // Explicit period: last transition at or before t (the first one for
+    // instants before the table starts)
+    let lo = 0;
+    let hi = times.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (times[mid] <= t) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    current = types[typeIndices[lo]];
+    next = toTransition(times[lo + 1], types[typeIndices[lo + 1]]);
+  } else {
+    current = posixType(zone.posix, posixIsDst(zone.posix, t));
+    const transition = posixNextTransition(zone.posix, t);
+    next = transition ? toTransition(transition.at, posixType(zone.posix, transition.dst)) : null;
+  }
+
+  return {
+    tzid,
+    utcOffsetSeconds: current.utcOffsetSeconds,
+    dst: current.dst,
+    abbreviation: current.abbreviation,
+    nextTransition: next
+  };
+}
+
+/**
+ * Format a UTC offset as ±HH:MM.
+ * 
+ * @param utcOffsetSeconds - Seconds east of UTC
+ * @returns Offset string, e.g. "-04:00" or "+05:30"
+ */
+export function formatUtcOffset(utcOffsetSeconds: number): string {
+  const sign = utcOffsetSeconds < 0 ? '-' : '+';
+  const minutes = Math.round(Math.abs(utcOffsetSeconds) / 60);
+  const hh = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const mm = (minutes % 60).toString().padStart(2, '0');
+  return `${sign}${hh}:${mm}`;
+}
+
+/**
+ * Format an instant as local ISO 8601 time with offset.
+ * 
+ * @param date - Instant
+ * @param utcOffsetSeconds - Seconds east of UTC
+ * @returns e.g. "2024-07-01T08:00:00-04:00"
+ */
+export function formatLocalTime(date: Date, utcOffsetSeconds: number): string {
+  const shifted = new Date(Math.floor(date.getTime() / 1000) * 1000 + utcOffsetSeconds * 1000);
+  return shifted.toISOString().replace(/\.\d{3}Z$/, '') + formatUtcOffset(utcOffsetSeconds);
+}
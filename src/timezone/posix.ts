@@ -0,0 +1,295 @@
+/**
+ * POSIX TZ rule strings (as found in the footer of TZif files).
+ * 
+ * A POSIX TZ string describes a zone's current rules compactly, e.g.
+ * "EST5EDT,M3.2.0,M11.1.0" or "<+0330>-3:30". Format:
+ * 
+ *   std offset [dst [offset] [,start[/time],end[/time]]]
+ * 
+ * - Abbreviations are alphabetic or quoted in <...> (e.g. <+03>)
+ * - Offsets are hours WEST of UTC ([+-]hh[:mm[:ss]]); we store seconds EAST
+ * - Dates are Mm.w.d (week w of month m, weekday d), Jn (1-365, no Feb 29)
+ *   or n (0-365, counting Feb 29)
+ * - Transition times are local wall time (default 02:00) and may be
+ *   negative or exceed 24h (RFC 8536)
+ * 
+ * Design Decision: Pure integer arithmetic on Unix seconds, no Date or Intl,
+ * so rules evaluate identically in every runtime.
+ */
+
+const SECONDS_PER_DAY = 86400;
+
+export interface PosixDateRule {
+  kind: 'M' | 'J' | 'N';
+  month: number; // M only (1-12)
+  week: number; // M only (1-5, 5 = last)
+  day: number; // M: weekday (0 = Sunday); J: 1-365; N: 0-365
+  time: number; // Local wall time of the transition, seconds after midnight
+}
+
+export interface PosixTimezone {
+  stdAbbr: string;
+  stdOffset: number; // Seconds east of UTC
+  dstAbbr: string | null;
+  dstOffset: number; // Seconds east of UTC (equals stdOffset without DST)
+  start: PosixDateRule | null; // DST start (local standard time)
+  end: PosixDateRule | null; // DST end (local daylight time)
+}
+
+export interface PosixTransition {
+  at: number; // Unix seconds
+  dst: boolean; // State after the transition
+}
+
+/**
+ * Days since 1970-01-01 for a proleptic Gregorian date.
+ */
+export function daysFromCivil(year: number, month: number, day: number): number {
+  const y = month <= 2 ? year - 1 : year;
+  const era = Math.floor(y / 400);
+  const yoe = y - era * 400;
+  const mp = (month + 9) % 12;
+  const doy = Math.floor((153 * mp + 2) / 5) + day - 1;
+  const doe = yoe * 365 + Math.floor(yoe / 4) - Math.floor(yoe / 100) + doy;
+  return era * 146097 + doe - 719468;
+}
+
+/**
+ * Calendar year of a Unix timestamp (UTC).
+ */
+export function yearOf(unixSeconds: number): number {
+  const days = Math.floor(unixSeconds / SECONDS_PER_DAY);
+  // Invert daysFromCivil for the year only
+  const z = days + 719468;
+  const era = Math.floor(z / 146097);
+  const doe = z - era * 146097;
+  const yoe = Math.floor((doe - Math.floor(doe / 1460) + Math.floor(doe / 36524) - Math.floor(doe / 146096)) / 365);
+  const doy = doe - (365 * yoe + Math.floor(yoe / 4) - Math.floor(yoe / 100));
+  const mp = Math.floor((5 * doy + 2) / 153);
+  return yoe + era * 400 + (mp >= 10 ? 1 : 0);
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function daysInMonth(year: number, month: number): number {
+  if (month === 2) {
+    return isLeapYear(year) ? 29 : 28;
+  }
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+/**
+ * Small cursor-based parser over a POSIX TZ string.
+ */
+class Cursor {
+  pos = 0;
+
+  constructor(private text: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  peek(): string {
+    return this.text[this.pos];
+  }
+
+  match(pattern: RegExp): string | null {
+    const m = pattern.exec(this.text.slice(this.pos));
+    if (!m || m.index !== 0) {
+      return null;
+    }
+    this.pos += m[0].length;
+    return m[0];
+  }
+
+  fail(what: string): never {
+    throw new Error(`Invalid POSIX TZ string "${this.text}": expected ${what} at position ${this.pos}`);
+  }
+}
+
+function parseAbbr(cursor: Cursor): string {
+  const quoted = cursor.match(/^<[A-Za-z0-9+-]+>/);
+  if (quoted) {
+    return quoted.slice(1, -1);
+  }
+  const plain = cursor.match(/^[A-Za-z]{3,}/);
+  if (plain) {
+    return plain;
+  }
+  return cursor.fail('abbreviation');
+}
+
+/**
+ * Parse [+-]hh[:mm[:ss]] into seconds.
+ */
+function parseTime(cursor: Cursor): number {
+  const text = cursor.match(/^[+-]?\d{1,3}(:\d{1,2}){0,2}/);
+  if (!text) {
+    return cursor.fail('time');
+  }
+  const sign = text[0] === '-' ? -1 : 1;
+  const [h, m = '0', s = '0'] = text.replace(/^[+-]/, '').split(':');
+  return sign * (parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10));
+}
+
+function parseDateRule(cursor: Cursor): PosixDateRule {
+  let rule: PosixDateRule;
+  if (cursor.match(/^M/)) {
+    const text = cursor.match(/^\d{1,2}\.\d\.\d/);
+    if (!text) {
+      return cursor.fail('Mm.w.d');
+    }
+    const [month, week, day] = text.split('.').map(v => parseInt(v, 10));
+    rule = { kind: 'M', month, week, day, time: 7200 };
+  } else if (cursor.match(/^J/)) {
+    const text = cursor.match(/^\d{1,3}/);
+    if (!text) {
+      return cursor.fail('Julian day');
+    }
+    rule = { kind: 'J', month: 0, week: 0, day: parseInt(text, 10), time: 7200 };
+  } else {
+    const text = cursor.match(/^\d{1,3}/);
+    if (!text) {
+      return cursor.fail('date rule');
+    }
+    rule = { kind: 'N', month: 0, week: 0, day: parseInt(text, 10), time: 7200 };
+  }
+  if (cursor.match(/^\//)) {
+    rule.time = parseTime(cursor);
+  }
+  return rule;
+}
+
+/**
+ * Parse a POSIX TZ string.
+ * 
+ * @param tz - POSIX TZ string, e.g. "CET-1CEST,M3.5.0,M10.5.0/3"
+ * @returns Parsed timezone rules
+ */
+export function parsePosixTz(tz: string): PosixTimezone {
+  const cursor = new Cursor(tz);
+  const stdAbbr = parseAbbr(cursor);
+  const stdOffset = -parseTime(cursor) || 0; // || 0 avoids -0 for UTC
+
+  if (cursor.done) {
+    return { stdAbbr, stdOffset, dstAbbr: null, dstOffset: stdOffset, start: null, end: null };
+  }
+
+  const dstAbbr = parseAbbr(cursor);
+  let dstOffset = stdOffset + 3600;
+  if (!cursor.done && cursor.peek() !== ',') {
+    dstOffset = -parseTime(cursor) || 0;
+  }
+
+  // US rules are the POSIX default when a DST name has no rule
+  let start: PosixDateRule = { kind: 'M', month: 3, week: 2, day: 0, time: 7200 };
+  let end: PosixDateRule = { kind: 'M', month: 11, week: 1, day: 0, time: 7200 };
+  if (cursor.match(/^,/)) {
+    start = parseDateRule(cursor);
+    if (!cursor.match(/^,/)) {
+      cursor.fail('","');
+    }
+    end = parseDateRule(cursor);
+  }
+  if (!cursor.done) {
+    cursor.fail('end of string');
+  }
+
+  return { stdAbbr, stdOffset, dstAbbr, dstOffset, start, end };
+}
+
+/**
+ * Local wall-clock seconds (since 1970-01-01 local) of a rule in a year.
+ */
+function ruleLocalSeconds(rule: PosixDateRule, year: number): number {
+  let days: number;
+  if (rule.kind === 'M') {
+    const firstWeekday = ((daysFromCivil(year, rule.month, 1) + 4) % 7 + 7) % 7; // 1970-01-01 was a Thursday
+    let day = 1 + ((rule.day - firstWeekday + 7) % 7) + (rule.week - 1) * 7;
+    while (day > daysInMonth(year, rule.month)) {
+      day -= 7;
+    }
+    days = daysFromCivil(year, rule.month, day);
+  } else if (rule.kind === 'J') {
+    // Feb 29 is never counted
+    const offset = isLeapYear(year) && rule.day >= 60 ? rule.day : rule.day - 1;
+    days = daysFromCivil(year, 1, 1) + offset;
+  } else {
+    days = daysFromCivil(year, 1, 1) + rule.day;
+  }
+  return days * SECONDS_PER_DAY + rule.time;
+}
+
+/**
+ * DST transitions of a POSIX zone within a range of calendar years.
+ * 
+ * @param tz - Parsed POSIX timezone
+ * @param fromYear - First calendar year
+ * @param toYear - Last calendar year (inclusive)
+ * @returns Transitions sorted by instant (empty for zones without DST)
+ */
+export function posixTransitions(tz: PosixTimezone, fromYear: number, toYear: number = fromYear): PosixTransition[] {
+  if (!tz.start || !tz.end) {
+    return [];
+  }
+  const transitions: PosixTransition[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    transitions.push(
+      { at: ruleLocalSeconds(tz.start, year) - tz.stdOffset, dst: true },
+      { at: ruleLocalSeconds(tz.end, year) - tz.dstOffset, dst: false }
+    );
+  }
+  // On ties (all-year DST: end of one year meets start of the next) the
+  // start sorts last, so DST stays in effect
+  return transitions.sort((a, b) => a.at - b.at || (a.dst ? 1 : -1));
+}
+
+/**
+ * Whether DST is in effect at an instant.
+ * 
+ * @param tz - Parsed POSIX timezone
+ * @param unixSeconds - Instant (Unix seconds)
+ * @returns True if daylight time applies
+ */
+export function posixIsDst(tz: PosixTimezone, unixSeconds: number): boolean {
+  const year = yearOf(unixSeconds);
+  let dst = false;
+  for (const transition of posixTransitions(tz, year - 1, year + 1)) {
+    if (transition.at > unixSeconds) {
+      break;
+    }
+    dst = transition.dst;
+  }
+  return dst;
+}
+
+/**
+ * First transition after an instant that changes the DST state.
+ * 
+ * @param tz - Parsed POSIX timezone
+ * @param unixSeconds - Instant (Unix seconds)
+ * @returns Next transition, or null for zones without DST (or all-year DST)
+ */
+export function posixNextTransition(tz: PosixTimezone, unixSeconds: number): PosixTransition | null {
+  const year = yearOf(unixSeconds);
+  const transitions = posixTransitions(tz, year - 1, year + 2);
+  let dst = false;
+  let i = 0;
+  for (; i < transitions.length && transitions[i].at <= unixSeconds; i++) {
+    dst = transitions[i].dst;
+  }
+  for (; i < transitions.length; i++) {
+    // A transition followed by one at the same instant is not a real change
+    const next = transitions[i + 1];
+    if (next && next.at === transitions[i].at) {
+      continue;
+    }
+    if (transitions[i].dst !== dst) {
+      return transitions[i];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,459 @@
+/**
+ * Compact tz rules table.
+ * 
+ * Generated by scripts/build-tz-rules.ts from tzdata 2025b (public domain).
+ * Do not edit by hand; see the script for the entry format.
+ */
+
+export const TZDATA_VERSION = '2025b';
+
+// Explicit transitions are stored from this instant (Unix seconds, 2000-01-01T00:00Z)
+export const TZ_RULES_SINCE = 946684800;
+
+export const TZ_RULES: { [tzid: string]: string } = {
+  'Africa/Abidjan': 'GMT0',
+  'Africa/Accra': 'GMT0',
+  'Africa/Addis_Ababa': 'EAT-3',
+  'Africa/Algiers': 'CET-1',
+  'Africa/Asmara': 'EAT-3',
+  'Africa/Bamako': 'GMT0',
+  'Africa/Bangui': 'WAT-1',
+  'Africa/Banjul': 'GMT0',
+  'Africa/Bissau': 'GMT0',
+  'Africa/Blantyre': 'CAT-2',
+  'Africa/Brazzaville': 'WAT-1',
+  'Africa/Bujumbura': 'CAT-2',
+  'Africa/Cairo': 'EET-2EEST,M4.5.5/0,M10.5.4/24|EET/7200/0,EEST/10800/1|fnmqo0/0,ftp3s0/1,g1m7o0/0,gcf6g0/1,gkcac0/0,gv5940/1,h32d00/0,hdvbs0/1,hlsfo0/0,hwyd40/1,i4vh00/0,ifofs0/1,inljo0/0,iyeig0/1,j5yno0/0,jh4l40/1,jnyt00/0,jzuns0/1,k6bx00/0,kikqg0/1,kop100/0,l1nrs0/1,l6yfo0/0,l8i2g0/1,l9kvo0/0,n5myg0/1,n7sno0/0,n9ljs0/1,nch6c0/0,rtsns0/1',
+  'Africa/Casablanca': '<+01>-1|+00/0/0,+01/3600/1,+01/3600/0,+00/0/1|fnmqo0/0,k1rc00/1,k6hmk0/0,kkj9c0/1,kop6k0/0,l1rmo0/1,l6t180/0,lj1uo0/1,lp6580/0,m37xk0/1,m7fs80/0,m916w0/1,mb5480/0,mly080/1,mpjmw0/0,mralk0/1,mvb1k0/0,n38880/1,n7uw80/0,n9npk0/1,ne1480/0,nlyaw0/1,npww80/0,nrppk0/1,nwr6w0/0,o4odk0/1,o8a080/0,oa2tk0/1,ofu880/0,oneg80/1,oqa5k0/0,osfxk0/1,oykaw0/0,p64iw0/1,p8n9k0/0,pag2w0/1,phadk0/2,pr0dk0/3,pst6w0/2,q90iw0/3,qb6aw0/2,qrdmw0/3,qt6g80/2,r9ds80/3,rbjk80/2,rrqw80/3,rtjpk0/2,sa4080/3,sbwtk0/2,ss45k0/3,su9xk0/2,tah9k0/3,tca2w0/2,tsudk0/3,tun6w0/2,uauiw0/3,ud0aw0/2,ut7mw0/3,uv0g80/2,vb7s80/3,vddk80/2,vtkw80/3,vvdpk0/2,wby080/3,wdqtk0/2,wty5k0/3,ww3xk0/2,xcb9k0/3,xe42w0/2,xubew0/3,xwh6w0/2,ycoiw0/3,yeuaw0/2,yv1mw0/3,ywug80/2,zd1s80/3,zf7k80/2,zvew80/3,zx7pk0/2,10ds080/3,10fktk0/2,10vs5k0/3,10xxxk0/2,11e59k0/3,11fy2w0/2,11w5ew0/3,11yb6w0/2,12eiiw0/3,12goaw0/2,12wvmw0/3,12yog80/2,13evs80/3,13h1k80/2,13x8w80/3,13z1pk0/2,14fm080/3,14hetk0/2,14xm5k0/3,14zrxk0/2,15fz9k0/3,15hs2w0/2,15xzew0/3,16056w0/2,16gciw0/3,16iiaw0/2,16ypmw0/3,170ig80/2,17gps80/3,17ivk80/2,17z2w80/3,180vpk0/2,18hg080/3,18j8tk0/2,18zg5k0/3,191lxk0/2,19ht9k0/3,19jm2w0/2,19ztew0/3,1a1z6w0/2,1ai6iw0/3,1akcaw0/2,1b0jmw0/3,1b2cg80/2,1bijs80/3,1bkpk80/2,1c0ww80/3,1c2ppk0/2,1cja080/3,1cl2tk0/2,1d1a5k0/3,1d3fxk0/2,1djn9k0/3,1dlg2w0/2,1e1new0/3,1e3t6w0/2,1ek0iw0/3,1em6aw0/2,1f2dmw0/3,1f46g80/2,1fkds80/3,1fmjk80/2,1g2qw80/3,1g4jpk0/2,1gl4080/3,1gmwtk0/2,1h345k0/3,1h59xk0/2,1hlh9k0/3,1hna2w0/2,1i3hew0/3,1i5n6w0/2,1iluiw0/3,1io0aw0/2,1j47mw0/3,1j60g80/2,1jm7s80/3,1jodk80/2,1k4kw80/3,1k6dpk0/2,1kmy080/3,1koqtk0/2,1l4y5k0/3,1l73xk0/2,1lnb9k0/3,1lp42w0/2,1m5bew0/3,1m7h6w0/2,1mnoiw0/3,1mphc80/2,1n61mw0/3,1n7ug80/2,1no1s80/3,1nq7k80/2,1o6ew80/3,1o87pk0/2,1oos080/3,1oqktk0/2,1p6s5k0/3,1p8xxk0/2',
+  'Africa/Ceuta': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Africa/Conakry': 'GMT0',
+  'Africa/Dakar': 'GMT0',
+  'Africa/Dar_es_Salaam': 'EAT-3',
+  'Africa/Djibouti': 'EAT-3',
+  'Africa/Douala': 'WAT-1',
+  'Africa/El_Aaiun': '<+01>-1|+00/0/0,+01/3600/1,+01/3600/0,+00/0/1|fnmqo0/0,k1rc00/1,k6hmk0/0,kkj9c0/1,kop6k0/0,l1rmo0/1,l6t180/0,lj1uo0/1,lp6580/0,m37xk0/1,m7fs80/0,m916w0/1,mb5480/0,mly080/1,mpjmw0/0,mralk0/1,mvb1k0/0,n38880/1,n7uw80/0,n9npk0/1,ne1480/0,nlyaw0/1,npww80/0,nrppk0/1,nwr6w0/0,o4odk0/1,o8a080/0,oa2tk0/1,ofu880/0,oneg80/1,oqa5k0/0,osfxk0/1,oykaw0/0,p64iw0/1,p8n9k0/0,pag2w0/1,phadk0/2,pr0dk0/3,pst6w0/2,q90iw0/3,qb6aw0/2,qrdmw0/3,qt6g80/2,r9ds80/3,rbjk80/2,rrqw80/3,rtjpk0/2,sa4080/3,sbwtk0/2,ss45k0/3,su9xk0/2,tah9k0/3,tca2w0/2,tsudk0/3,tun6w0/2,uauiw0/3,ud0aw0/2,ut7mw0/3,uv0g80/2,vb7s80/3,vddk80/2,vtkw80/3,vvdpk0/2,wby080/3,wdqtk0/2,wty5k0/3,ww3xk0/2,xcb9k0/3,xe42w0/2,xubew0/3,xwh6w0/2,ycoiw0/3,yeuaw0/2,yv1mw0/3,ywug80/2,zd1s80/3,zf7k80/2,zvew80/3,zx7pk0/2,10ds080/3,10fktk0/2,10vs5k0/3,10xxxk0/2,11e59k0/3,11fy2w0/2,11w5ew0/3,11yb6w0/2,12eiiw0/3,12goaw0/2,12wvmw0/3,12yog80/2,13evs80/3,13h1k80/2,13x8w80/3,13z1pk0/2,14fm080/3,14hetk0/2,14xm5k0/3,14zrxk0/2,15fz9k0/3,15hs2w0/2,15xzew0/3,16056w0/2,16gciw0/3,16iiaw0/2,16ypmw0/3,170ig80/2,17gps80/3,17ivk80/2,17z2w80/3,180vpk0/2,18hg080/3,18j8tk0/2,18zg5k0/3,191lxk0/2,19ht9k0/3,19jm2w0/2,19ztew0/3,1a1z6w0/2,1ai6iw0/3,1akcaw0/2,1b0jmw0/3,1b2cg80/2,1bijs80/3,1bkpk80/2,1c0ww80/3,1c2ppk0/2,1cja080/3,1cl2tk0/2,1d1a5k0/3,1d3fxk0/2,1djn9k0/3,1dlg2w0/2,1e1new0/3,1e3t6w0/2,1ek0iw0/3,1em6aw0/2,1f2dmw0/3,1f46g80/2,1fkds80/3,1fmjk80/2,1g2qw80/3,1g4jpk0/2,1gl4080/3,1gmwtk0/2,1h345k0/3,1h59xk0/2,1hlh9k0/3,1hna2w0/2,1i3hew0/3,1i5n6w0/2,1iluiw0/3,1io0aw0/2,1j47mw0/3,1j60g80/2,1jm7s80/3,1jodk80/2,1k4kw80/3,1k6dpk0/2,1kmy080/3,1koqtk0/2,1l4y5k0/3,1l73xk0/2,1lnb9k0/3,1lp42w0/2,1m5bew0/3,1m7h6w0/2,1mnoiw0/3,1mphc80/2,1n61mw0/3,1n7ug80/2,1no1s80/3,1nq7k80/2,1o6ew80/3,1o87pk0/2,1oos080/3,1oqktk0/2,1p6s5k0/3,1p8xxk0/2',
+  'Africa/Freetown': 'GMT0',
+  'Africa/Gaborone': 'CAT-2',
+  'Africa/Harare': 'CAT-2',
+  'Africa/Johannesburg': 'SAST-2',
+  'Africa/Juba': 'CAT-2|CAT/7200/0,EAT/10800/0|fnmqo0/0,fodfs0/1,qnth00/0',
+  'Africa/Kampala': 'EAT-3',
+  'Africa/Khartoum': 'CAT-2|CAT/7200/0,EAT/10800/0|fnmqo0/0,fodfs0/1,oyph00/0',
+  'Africa/Kigali': 'CAT-2',
+  'Africa/Kinshasa': 'WAT-1',
+  'Africa/Lagos': 'WAT-1',
+  'Africa/Libreville': 'WAT-1',
+  'Africa/Lome': 'GMT0',
+  'Africa/Luanda': 'WAT-1',
+  'Africa/Lubumbashi': 'CAT-2',
+  'Africa/Lusaka': 'CAT-2',
+  'Africa/Malabo': 'WAT-1',
+  'Africa/Maputo': 'CAT-2',
+  'Africa/Maseru': 'SAST-2',
+  'Africa/Mbabane': 'SAST-2',
+  'Africa/Mogadishu': 'EAT-3',
+  'Africa/Monrovia': 'GMT0',
+  'Africa/Nairobi': 'EAT-3',
+  'Africa/Ndjamena': 'WAT-1',
+  'Africa/Niamey': 'WAT-1',
+  'Africa/Nouakchott': 'GMT0',
+  'Africa/Ouagadougou': 'GMT0',
+  'Africa/Porto-Novo': 'WAT-1',
+  'Africa/Sao_Tome': 'GMT0|GMT/0/0,WAT/3600/0|fnmqo0/0,p1uqs0/1,pkmo40/0',
+  'Africa/Tripoli': 'EET-2|EET/7200/0,CET/3600/0,CEST/7200/1|fnmqo0/0,md8w00/1,mkeao0/2,mv76o0/0',
+  'Africa/Tunis': 'CET-1|CET/3600/0,CEST/7200/1|fnmqo0/0,ifs7w0/1,inls00/0,iwpms0/1,j7vhg0/0,jffpg0/1,jqlk40/0,jyiqs0/1,k9bms0/0',
+  'Africa/Windhoek': 'CAT-2|CAT/7200/0,WAT/3600/1|fnmqo0/0,fsd400/1,g0adg0/0,gb36o0/1,gj0g40/0,gu6800/1,h1qis0/0,hcwao0/1,hktk40/0,hvmdc0/1,i3jms0/0,iecg00/1,im9pg0/0,ix2io0/1,j4zs40/0,jfslc0/1,jnpus0/0,jyvmo0/1,k6sw40/0,khlpc0/1,kpiys0/0,l0bs00/1,l891g0/0,lj1uo0/1,lqz440/0,m1rxc0/1,m9p6s0/0,mkuyo0/1,msf9g0/0,n3l1c0/1,nbias0/0,nmb400/1,nu8dg0/0,o516o0/1,ocyg40/0,onr9c0/1,ovois0/0',
+  'America/Adak': 'HST10HDT,M3.2.0,M11.1.0|HST/-36000/0,HDT/-32400/1|fnmqo0/0,fse1c0/1,g36uk0/0,gb4400/1,glwx80/0,gu75c0/1,h4mzw0/0,hcx800/1,hnd2k0/0,hvnao0/1,i6g3w0/0,ieddc0/1,ip66k0/0,ix3g00/1,j7w980/0,jeqmo0/1',
+  'America/Anchorage': 'AKST9AKDT,M3.2.0,M11.1.0|AKST/-32400/0,AKDT/-28800/1|fnmqo0/0,fsdyk0/1,g36rs0/0,gb4180/1,glwug0/0,gu72k0/1,h4mx40/0,hcx580/1,hnczs0/0,hvn7w0/1,i6g140/0,iedak0/1,ip63s0/0,ix3d80/1,j7w6g0/0,jeqjw0/1',
+  'America/Anguilla': 'AST4',
+  'America/Antigua': 'AST4',
+  'America/Araguaina': '<-03>3|-02/-7200/1,-03/-10800/0|fnmqo0/0,fqkg80/1,g23cc0/0,g8xk80/1,gl6do0/0,grnmw0/1,h4zcc0/0,hadpk0/1,mc8300/0,micdk0/1',
+  'America/Argentina/Buenos_Aires': '<-03>3|-03/-10800/1,-03/-10800/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,jtudo0/2,jxsw80/1,k8yto0/2,kgiyw0/1',
+  'America/Argentina/Catamarca': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hym0c0/2,hzl9s0/1,jtudo0/3,jxsw80/1',
+  'America/Argentina/Cordoba': '<-03>3|-03/-10800/1,-03/-10800/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,jtudo0/2,jxsw80/1,k8yto0/2,kgiyw0/1',
+  'America/Argentina/Jujuy': '<-03>3|-03/-10800/1,-03/-10800/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,jtudo0/2,jxsw80/1',
+  'America/Argentina/La_Rioja': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hym0c0/2,hzl9s0/1,jtudo0/3,jxsw80/1',
+  'America/Argentina/Mendoza': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hy5cc0/2,i4mr40/1,jtudo0/3,jxsw80/1',
+  'America/Argentina/Rio_Gallegos': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hym0c0/2,hzl9s0/1,jtudo0/3,jxsw80/1',
+  'America/Argentina/Salta': '<-03>3|-03/-10800/1,-03/-10800/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,jtudo0/2,jxsw80/1',
+  'America/Argentina/San_Juan': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hyk5o0/2,i1e340/1,jtudo0/3,jxsw80/1',
+  'America/Argentina/San_Luis': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hyk5o0/2,i1e340/1,jtudo0/3,juz1k0/0,jxg0c0/2,k8lxs0/0,kg6300/2,krc0g0/1',
+  'America/Argentina/Tucuman': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hym0c0/2,hz8b40/1,jtudo0/3,jxsw80/1,k8yto0/3,kgiyw0/1',
+  'America/Argentina/Ushuaia': '<-03>3|-03/-10800/1,-03/-10800/0,-04/-14400/0,-02/-7200/1|fnmqo0/0,fqtsc0/1,hyib00/2,hzl9s0/1,jtudo0/3,jxsw80/1',
+  'America/Aruba': 'AST4',
+  'America/Asuncion': '<-03>3|-03/-10800/1,-04/-14400/0,-03/-10800/0|fnmqo0/0,fqxho0/1,g1qgg0/0,g9nkc0/1,gkths0/0,gu6gc0/1,h1qr40/0,hcwj00/1,hktsg0/0,hvmlo0/1,i5pn40/0,id9sc0/1,iofps0/0,ivzv00/1,j75sg0/0,jepxo0/1,jq8ts0/0,jxg0c0/1,k8ywg0/0,kg6300/1,kroz40/0,l0oz00/1,l9p4g0/0,ljf1o0/1,lsf740/0,m254c0/1,mbi8g0/0,mk59o0/1,mu8b40/0,n2vcc0/1,ncyds0/0,nllf00/1,nvogg0/0,o4ogc0/1,oeej40/0,onej00/1,ox4ls0/0,p64lo0/1,pg7n40/0,pouoc0/1,pyxps0/0,q7kr00/1,qhnsg0/0,qqnsc0/1,r0dv40/0,r9dv00/1,rj3xs0/0,rs3xo0/1,s1u0g0/0,sau0c0/1,skx1s0/0,sldn00/2',
+  'America/Atikokan': 'EST5',
+  'America/Bahia': '<-03>3|-02/-7200/1,-03/-10800/0|fnmqo0/0,fqkg80/1,g23cc0/0,g8xk80/1,gl6do0/0,grnmw0/1,h4zcc0/0,hadpk0/1,lt51o0/0,lzz9k0/1',
+  'America/Bahia_Banderas': 'CST6|MST/-25200/0,MDT/-21600/1,CDT/-18000/1,CST/-21600/0|fnmqo0/0,fsdt00/1,g36m80/0,gcwp00/1,gkgu80/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jftac0/1,jqm3k0/0,jywbo0/1,k9c680/0,khmec0/1,ks28w0/0,l0ch00/2,lb57g0/3,lj2gw0/2,ltva40/3,m1sjk0/2,mclcs0/3,mkvkw0/2,mvbfg0/3,n3lnk0/2,ne1i40/3,nmbq80/2,nwrks0/3,o51sw0/2,ofum40/3,onrvk0/2,oykos0/3,p6hy80/2,pharg0/3,ppkzk0/2,q00u40/3,q8b280/2,qiqws0/3,qr14w0/2,r1ty40/3,r9r7k0/2,rkk0s0/3',
+  'America/Barbados': 'AST4',
+  'America/Belem': '<-03>3',
+  'America/Belize': 'CST6',
+  'America/Blanc-Sablon': 'AST4',
+  'America/Boa_Vista': '<-04>4|-03/-10800/1,-04/-14400/0|fnmqo0/0,fqkj00/1,g23f40/0,g2gb00/1',
+  'America/Bogota': '<-05>5',
+  'America/Boise': 'MST7MDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1|fnmqo0/0,fsdt00/1,g36m80/0,gb3vo0/1,glwow0/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jeqec0/1',
+  'America/Cambridge_Bay': 'MST7MDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1,EST/-18000/0,MDT/-21600/1,MST/-25200/0|fnmqo0/0,fsdq80/1,g36jg0/2,g3jck0/0,gb3vo0/3,glwow0/4,gu6x00/3,h4mrk0/4,hcwzo0/3,hncu80/4,hvn2c0/3,i6fvk0/4,ied500/3,ip5y80/4,ix37o0/3,j7w0w0/4,jeqec0/3',
+  'America/Campo_Grande': '<-04>4|-03/-10800/1,-04/-14400/0|fnmqo0/0,fqkj00/1,g23f40/0,g8xn00/1,gl6gg0/0,grnpo0/1,h4zf40/0,hadsc0/1,hmzkg0/0,ht3v00/1,i6j9s0/0,ic6wc0/1,iofps0/0,iuwz00/1,j88og0/0,je00c0/1,jpvv40/0,jwd4c0/1,k8ywg0/0,kf3700/1,kroz40/0,ky68c0/1,laf1s0/0,lgwb00/1,lt54g0/0,lzzcc0/1,mc85s0/0,micgc0/1,muy8g0/0,n12j00/1,ndob40/0,nk5kc0/1,nweds0/0,o2vn00/1,of4gg0/0,ollpo0/1,oxuj40/0,p4bsc0/1,phnhs0/0,pn1v00/1',
+  'America/Cancun': 'EST5|CST/-21600/0,CDT/-18000/1,EST/-18000/0|fnmqo0/0,fsdq80/1,g36jg0/0,gcwm80/1,gkgrg0/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jft7k0/1,jqm0s0/0,jyw8w0/1,k9c3g0/0,khmbk0/1,ks2640/0,l0ce80/1,lb57g0/0,lj2gw0/1,ltva40/0,m1sjk0/1,mclcs0/0,mkvkw0/1,mvbfg0/0,n3lnk0/1,ne1i40/0,nj3280/2',
+  'America/Caracas': '<-04>4|-04/-14400/0,-0430/-16200/0|fnmqo0/0,jsrss0/1,o6hks0/0',
+  'America/Cayenne': '<-03>3',
+  'America/Cayman': 'EST5',
+  'America/Chicago': 'CST6CDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36jg0/0,gb3sw0/1,glwm40/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jeqbk0/1',
+  'America/Chihuahua': 'CST6|MST/-25200/0,MDT/-21600/1,CST/-21600/0|fnmqo0/0,fsdt00/1,g36m80/0,gcwp00/1,gkgu80/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jftac0/1,jqm3k0/0,jywbo0/1,k9c680/0,khmec0/1,ks28w0/0,l0ch00/1,lb5a80/0,lj2jo0/1,ltvcw0/0,m1smc0/1,mclfk0/0,mkvno0/1,mvbi80/0,n3lqc0/1,ne1kw0/0,nmbt00/1,nwrnk0/0,o51vo0/1,ofuow0/0,onryc0/1,oykrk0/0,p6i100/1,phau80/0,ppl2c0/1,q00ww0/0,q8b500/1,qiqzk0/0,qr17o0/1,r1u0w0/0,r9rac0/1,rkk3k0/2',
+  'America/Ciudad_Juarez': 'MST7MDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1,CST/-21600/0|fnmqo0/0,fsdt00/1,g36m80/0,gcwp00/1,gkgu80/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jftac0/1,jqm3k0/0,jywbo0/1,k9c680/0,khmec0/1,ks28w0/0,kz9l00/1,lbi8w0/0,lhzno0/1,lu8bk0/0,m0pqc0/1,mcye80/0,mjft00/1,mvogw0/0,n25vo0/1,neejk0/0,nkvyc0/1,nx4m80/0,o3yzo0/1,og7nk0/0,omp2c0/1,oyxq80/0,p5f500/1,phnsw0/0,po57o0/1,q0dvk0/0,q6vac0/1,qj3y80/0,qpybo0/1,r26zk0/0,r8oec0/1,rkk3k0/2,rm5co0/0',
+  'America/Costa_Rica': 'CST6',
+  'America/Coyhaique': '<-03>3|-03/-10800/1,-04/-14400/0,-03/-10800/0|fnmqo0/0,fragc0/1,g2gds0/0,ga0j00/1,gl6gg0/0,gsqlo0/1,h3wj40/0,hbgoc0/1,hmmls0/0,hujpo0/1,i5cog0/0,id9sc0/1,io2r40/0,ivzv00/1,j75sg0/0,jepxo0/1,jpvv40/0,jyiwc0/1,k8lxs0/0,kgj1o0/1,krc0g0/0,l0c0c0/1,la2340/0,lkuwc0/1,lq9f40/0,m380c0/1,m9pf40/0,mly300/1,mssgg0/0,n4o5o0/1,nbij40/0,o77700/1,obvsg0/0,opx9o0/1,oulv40/0,p8ncc0/1,pdbxs0/0,ppklo0/1,pxhv40/0,q8aoc0/1,qg7xs0/0,qr0r00/1,qyy0g0/0,r9qto0/1,ri11s0/0,rsgwc0/1,s0e5s0/0,sbjxo0/1,sjh740/0,stej00/2',
+  'America/Creston': 'MST7',
+  'America/Cuiaba': '<-04>4|-03/-10800/1,-04/-14400/0|fnmqo0/0,fqkj00/1,g23f40/0,g8xn00/1,gl6gg0/0,grnpo0/1,h4zf40/0,hadsc0/1,i6j9s0/0,ic6wc0/1,iofps0/0,iuwz00/1,j88og0/0,je00c0/1,jpvv40/0,jwd4c0/1,k8ywg0/0,kf3700/1,kroz40/0,ky68c0/1,laf1s0/0,lgwb00/1,lt54g0/0,lzzcc0/1,mc85s0/0,micgc0/1,muy8g0/0,n12j00/1,ndob40/0,nk5kc0/1,nweds0/0,o2vn00/1,of4gg0/0,ollpo0/1,oxuj40/0,p4bsc0/1,phnhs0/0,pn1v00/1',
+  'America/Curacao': 'AST4',
+  'America/Danmarkshavn': 'GMT0',
+  'America/Dawson': 'MST7|PST/-28800/0,PDT/-25200/1,MST/-25200/0|fnmqo0/0,fsdvs0/1,g36p00/0,gb3yg0/1,glwro0/0,gu6zs0/1,h4muc0/0,hcx2g0/1,hncx00/0,hvn540/1,i6fyc0/0,ied7s0/1,ip6100/0,ix3ag0/1,j7w3o0/0,jeqh40/1,jqz500/0,jxgjs0/1,k9p7o0/0,kg6mg0/1,ksfac0/0,kz9ns0/1,lbibo0/0,lhzqg0/1,lu8ec0/0,m0pt40/1,mcyh00/0,mjfvs0/1,mvojo0/0,n25yg0/1,neemc0/0,nkw140/1,nx4p00/0,o3z2g0/1,og7qc0/0,omp540/1,oyxt00/0,p5f7s0/1,phnvo0/0,po5ag0/1,q0dyc0/0,q6vd40/1,qj3vg0/2',
+  'America/Dawson_Creek': 'MST7',
+  'America/Denver': 'MST7MDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1|fnmqo0/0,fsdt00/1,g36m80/0,gb3vo0/1,glwow0/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jeqec0/1',
+  'America/Detroit': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,fsdng0/1,g36go0/0,gb3q40/1,glwjc0/0,gu6rg0/1,h4mm00/0,hcwu40/1,hncoo0/0,hvmws0/1,i6fq00/0,ieczg0/1,ip5so0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/Dominica': 'AST4',
+  'America/Edmonton': 'MST7MDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1|fnmqo0/0,fsdt00/1,g36m80/0,gb3vo0/1,glwow0/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jeqec0/1',
+  'America/Eirunepe': '<-05>5|-05/-18000/0,-04/-14400/0|fnmqo0/0,k2yb80/1,mw14g0/0',
+  'America/El_Salvador': 'CST6',
+  'America/Fort_Nelson': 'MST7|PST/-28800/0,PDT/-25200/1,MST/-25200/0|fnmqo0/0,fsdvs0/1,g36p00/0,gb3yg0/1,glwro0/0,gu6zs0/1,h4muc0/0,hcx2g0/1,hncx00/0,hvn540/1,i6fyc0/0,ied7s0/1,ip6100/0,ix3ag0/1,j7w3o0/0,jeqh40/1,jqz500/0,jxgjs0/1,k9p7o0/0,kg6mg0/1,ksfac0/0,kz9ns0/1,lbibo0/0,lhzqg0/1,lu8ec0/0,m0pt40/1,mcyh00/0,mjfvs0/1,mvojo0/0,n25yg0/1,neemc0/0,nkw140/2',
+  'America/Fortaleza': '<-03>3|-02/-7200/1,-03/-10800/0|fnmqo0/0,fqkg80/1,g23cc0/0,g2t6w0/1,gl6do0/0,grnmw0/1',
+  'America/Glace_Bay': 'AST4ADT,M3.2.0,M11.1.0|AST/-14400/0,ADT/-10800/1|fnmqo0/0,fsdko0/1,g36dw0/0,gb3nc0/1,glwgk0/0,gu6oo0/1,h4mj80/0,hcwrc0/1,hnclw0/0,hvmu00/1,i6fn80/0,iecwo0/1,ip5pw0/0,ix2zc0/1,j7vsk0/0,jeq600/1',
+  'America/Goose_Bay': 'AST4ADT,M3.2.0,M11.1.0|AST/-14400/0,ADT/-10800/1|fnmqo0/0,fsdf5o/1,g368do/0,gb3hto/1,glwb1o/0,gu6j5o/1,h4mdpo/0,hcwlto/1,hncgdo/0,hvmoho/1,i6fhpo/0,iecr5o/1,ip5kdo/0,ix2tto/1,j7vn1o/0,jeq0ho/1,jqyodo/0,jxg35o/1,k9or1o/0,kg65to/1,ksetpo/0,kz975o/1,lbhv1o/0,lhz9to/1,lu8380/0',
+  'America/Grand_Turk': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1,AST/-14400/0|fnmqo0/0,fsdng0/1,g36go0/0,gb3q40/1,glwjc0/0,gu6rg0/1,h4mm00/0,hcwu40/1,hncoo0/0,hvmws0/1,i6fq00/0,ieczg0/1,ip5so0/0,ix3240/1,j7vvc0/0,jeq8s0/1,jqywo0/0,jxgbg0/1,k9ozc0/0,kg6e40/1,ksf200/0,kz9fg0/1,lbi3c0/0,lhzi40/1,lu8600/0,m0pks0/1,mcy8o0/0,mjfng0/1,mvobc0/0,n25q40/1,neee00/0,nkvss0/2,p5ezg0/1',
+  'America/Grenada': 'AST4',
+  'America/Guadeloupe': 'AST4',
+  'America/Guatemala': 'CST6|CST/-21600/0,CDT/-18000/1|fnmqo0/0,iyiu00/1,j6fxw0/0',
+  'America/Guayaquil': '<-05>5',
+  'America/Guyana': '<-04>4',
+  'America/Halifax': 'AST4ADT,M3.2.0,M11.1.0|AST/-14400/0,ADT/-10800/1|fnmqo0/0,fsdko0/1,g36dw0/0,gb3nc0/1,glwgk0/0,gu6oo0/1,h4mj80/0,hcwrc0/1,hnclw0/0,hvmu00/1,i6fn80/0,iecwo0/1,ip5pw0/0,ix2zc0/1,j7vsk0/0,jeq600/1',
+  'America/Havana': 'CST5CDT,M3.2.0/0,M11.1.0/1|CST/-18000/0,CDT/-14400/1|fnmqo0/0,fsdhw0/1,g36dw0/0,gb3kk0/1,glwgk0/0,gu6lw0/1,h4mj80/0,hcwok0/1,hnclw0/0,hv9sk0/1,j7vsk0/0,jeq380/1,jqlv80/0,jxt4k0/1,k9bxw0/0,kg68k0/1,ks20k0/0,kz99w0/1,lb51w0/0,licb80/1,lul1w0/0,m1sb80/1',
+  'America/Hermosillo': 'MST7',
+  'America/Indiana/Indianapolis': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/Indiana/Knox': 'CST6CDT,M3.2.0,M11.1.0|EST/-18000/0,CDT/-18000/1,CST/-21600/0|fnmqo0/0,ix3240/1,j7vy40/2,jeqbk0/1',
+  'America/Indiana/Marengo': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/Indiana/Petersburg': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,CDT/-18000/1,CST/-21600/0|fnmqo0/0,ix3240/1,j7vy40/2,jeqbk0/1,jqyzg0/0',
+  'America/Indiana/Tell_City': 'CST6CDT,M3.2.0,M11.1.0|EST/-18000/0,CDT/-18000/1,CST/-21600/0|fnmqo0/0,ix3240/1,j7vy40/2,jeqbk0/1',
+  'America/Indiana/Vevay': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/Indiana/Vincennes': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,CDT/-18000/1,CST/-21600/0|fnmqo0/0,ix3240/1,j7vy40/2,jeqbk0/1,jqyzg0/0',
+  'America/Indiana/Winamac': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,CDT/-18000/1,CST/-21600/0,EDT/-14400/1|fnmqo0/0,ix3240/1,j7vy40/2,jeqbk0/3',
+  'America/Inuvik': 'MST7MDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1|fnmqo0/0,fsdt00/1,g36m80/0,gb3vo0/1,glwow0/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jeqec0/1',
+  'America/Iqaluit': 'EST5EDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1,EST/-18000/0,EDT/-14400/1|fnmqo0/0,fsdq80/1,g36jg0/2,gb3q40/3,glwjc0/2,gu6rg0/3,h4mm00/2,hcwu40/3,hncoo0/2,hvmws0/3,i6fq00/2,ieczg0/3,ip5so0/2,ix3240/3,j7vvc0/2,jeq8s0/3',
+  'America/Jamaica': 'EST5',
+  'America/Juneau': 'AKST9AKDT,M3.2.0,M11.1.0|AKST/-32400/0,AKDT/-28800/1|fnmqo0/0,fsdyk0/1,g36rs0/0,gb4180/1,glwug0/0,gu72k0/1,h4mx40/0,hcx580/1,hnczs0/0,hvn7w0/1,i6g140/0,iedak0/1,ip63s0/0,ix3d80/1,j7w6g0/0,jeqjw0/1',
+  'America/Kentucky/Louisville': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,fsdng0/1,g36go0/0,gb3q40/1,glwjc0/0,gu6rg0/1,h4mm00/0,hcwu40/1,hncoo0/0,hvmws0/1,i6fq00/0,ieczg0/1,ip5so0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/Kentucky/Monticello': 'EST5EDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1,EST/-18000/0,EDT/-14400/1|fnmqo0/0,fsdq80/1,g36jg0/2,gb3q40/3,glwjc0/2,gu6rg0/3,h4mm00/2,hcwu40/3,hncoo0/2,hvmws0/3,i6fq00/2,ieczg0/3,ip5so0/2,ix3240/3,j7vvc0/2,jeq8s0/3',
+  'America/Kralendijk': 'AST4',
+  'America/La_Paz': '<-04>4',
+  'America/Lima': '<-05>5',
+  'America/Los_Angeles': 'PST8PDT,M3.2.0,M11.1.0|PST/-28800/0,PDT/-25200/1|fnmqo0/0,fsdvs0/1,g36p00/0,gb3yg0/1,glwro0/0,gu6zs0/1,h4muc0/0,hcx2g0/1,hncx00/0,hvn540/1,i6fyc0/0,ied7s0/1,ip6100/0,ix3ag0/1,j7w3o0/0,jeqh40/1',
+  'America/Lower_Princes': 'AST4',
+  'America/Maceio': '<-03>3|-02/-7200/1,-03/-10800/0|fnmqo0/0,fqkg80/1,g23cc0/0,g2t6w0/1,gl6do0/0,grnmw0/1',
+  'America/Managua': 'CST6|CST/-21600/0,CDT/-18000/1|fnmqo0/0,iepvc0/1,inpv80/0,iyizk0/1,j6g0o0/0',
+  'America/Manaus': '<-04>4',
+  'America/Marigot': 'AST4',
+  'America/Martinique': 'AST4',
+  'America/Matamoros': 'CST6CDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36jg0/0,gcwm80/1,gkgrg0/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jft7k0/1,jqm0s0/0,jyw8w0/1,k9c3g0/0,khmbk0/1,ks2640/0,kz9i80/1',
+  'America/Mazatlan': 'MST7|MST/-25200/0,MDT/-21600/1|fnmqo0/0,fsdt00/1,g36m80/0,gcwp00/1,gkgu80/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jftac0/1,jqm3k0/0,jywbo0/1,k9c680/0,khmec0/1,ks28w0/0,l0ch00/1,lb5a80/0,lj2jo0/1,ltvcw0/0,m1smc0/1,mclfk0/0,mkvno0/1,mvbi80/0,n3lqc0/1,ne1kw0/0,nmbt00/1,nwrnk0/0,o51vo0/1,ofuow0/0,onryc0/1,oykrk0/0,p6i100/1,phau80/0,ppl2c0/1,q00ww0/0,q8b500/1,qiqzk0/0,qr17o0/1,r1u0w0/0,r9rac0/1,rkk3k0/0',
+  'America/Menominee': 'CST6CDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36jg0/0,gb3sw0/1,glwm40/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jeqbk0/1',
+  'America/Merida': 'CST6|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36jg0/0,gcwm80/1,gkgrg0/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jft7k0/1,jqm0s0/0,jyw8w0/1,k9c3g0/0,khmbk0/1,ks2640/0,l0ce80/1,lb57g0/0,lj2gw0/1,ltva40/0,m1sjk0/1,mclcs0/0,mkvkw0/1,mvbfg0/0,n3lnk0/1,ne1i40/0,nmbq80/1,nwrks0/0,o51sw0/1,ofum40/0,onrvk0/1,oykos0/0,p6hy80/1,pharg0/0,ppkzk0/1,q00u40/0,q8b280/1,qiqws0/0,qr14w0/1,r1ty40/0,r9r7k0/1,rkk0s0/0',
+  'America/Metlakatla': 'AKST9AKDT,M3.2.0,M11.1.0|PST/-28800/0,AKST/-32400/0,AKDT/-28800/1|fnmqo0/0,nx4rs0/1,o3z580/2,og7t40/1,omp7w0/2,oyxvs0/1,p5fak0/2,phnyg0/0,plmjs0/1',
+  'America/Mexico_City': 'CST6|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36jg0/0,gcwm80/1,gkgrg0/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jft7k0/1,jqm0s0/0,jyw8w0/1,k9c3g0/0,khmbk0/1,ks2640/0,l0ce80/1,lb57g0/0,lj2gw0/1,ltva40/0,m1sjk0/1,mclcs0/0,mkvkw0/1,mvbfg0/0,n3lnk0/1,ne1i40/0,nmbq80/1,nwrks0/0,o51sw0/1,ofum40/0,onrvk0/1,oykos0/0,p6hy80/1,pharg0/0,ppkzk0/1,q00u40/0,q8b280/1,qiqws0/0,qr14w0/1,r1ty40/0,r9r7k0/1,rkk0s0/0',
+  'America/Miquelon': '<-03>3<-02>,M3.2.0,M11.1.0|-03/-10800/0,-02/-7200/1|fnmqo0/0,fsdhw0/1,g36b40/0,gb3kk0/1,glwds0/0,gu6lw0/1,h4mgg0/0,hcwok0/1,hncj40/0,hvmr80/1,i6fkg0/0,iectw0/1,ip5n40/0,ix2wk0/1,j7vps0/0,jeq380/1',
+  'America/Moncton': 'AST4ADT,M3.2.0,M11.1.0|AST/-14400/0,ADT/-10800/1|fnmqo0/0,fsdf5o/1,g368do/0,gb3hto/1,glwb1o/0,gu6j5o/1,h4mdpo/0,hcwlto/1,hncgdo/0,hvmoho/1,i6fhpo/0,iecr5o/1,ip5kdo/0,ix2tto/1,j7vn1o/0,jeq600/1',
+  'America/Monterrey': 'CST6|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36jg0/0,gcwm80/1,gkgrg0/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jft7k0/1,jqm0s0/0,jyw8w0/1,k9c3g0/0,khmbk0/1,ks2640/0,l0ce80/1,lb57g0/0,lj2gw0/1,ltva40/0,m1sjk0/1,mclcs0/0,mkvkw0/1,mvbfg0/0,n3lnk0/1,ne1i40/0,nmbq80/1,nwrks0/0,o51sw0/1,ofum40/0,onrvk0/1,oykos0/0,p6hy80/1,pharg0/0,ppkzk0/1,q00u40/0,q8b280/1,qiqws0/0,qr14w0/1,r1ty40/0,r9r7k0/1,rkk0s0/0',
+  'America/Montevideo': '<-03>3|-03/-10800/0,-02/-7200/1|fnmqo0/0,i49po0/1,idzsg0/0,io2tw0/1,ivzxs0/0,j6fxw0/1,jeq0g0/0,jpiz80/1,jxg340/0,k891w0/1,kg65s0/0,kqz4k0/1,kz9740/0,l9p780/1,lhz9s0/0,lsf9w0/1,m0pcg0/0,mbib80/1,mjff40/0,mu8dw0/1,n25hs0/0,ncygk0/1,nkvkg0/0',
+  'America/Montserrat': 'AST4',
+  'America/Nassau': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,fsdng0/1,g36go0/0,gb3q40/1,glwjc0/0,gu6rg0/1,h4mm00/0,hcwu40/1,hncoo0/0,hvmws0/1,i6fq00/0,ieczg0/1,ip5so0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/New_York': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,fsdng0/1,g36go0/0,gb3q40/1,glwjc0/0,gu6rg0/1,h4mm00/0,hcwu40/1,hncoo0/0,hvmws0/1,i6fq00/0,ieczg0/1,ip5so0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/Nome': 'AKST9AKDT,M3.2.0,M11.1.0|AKST/-32400/0,AKDT/-28800/1|fnmqo0/0,fsdyk0/1,g36rs0/0,gb4180/1,glwug0/0,gu72k0/1,h4mx40/0,hcx580/1,hnczs0/0,hvn7w0/1,i6g140/0,iedak0/1,ip63s0/0,ix3d80/1,j7w6g0/0,jeqjw0/1',
+  'America/Noronha': '<-02>2|-01/-3600/1,-02/-7200/0|fnmqo0/0,fqkdg0/1,g239k0/0,g2g5g0/1,gl6aw0/0,grnk40/1',
+  'America/North_Dakota/Beulah': 'CST6CDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1,CST/-21600/0|fnmqo0/0,fsdt00/1,g36m80/0,gb3vo0/1,glwow0/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jeqec0/1,jqz280/0,jxgh00/1,k9p4w0/0,kg6jo0/1,ksf7k0/0,kz9l00/1,lbi8w0/2',
+  'America/North_Dakota/Center': 'CST6CDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36jg0/0,gb3sw0/1,glwm40/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jeqbk0/1',
+  'America/North_Dakota/New_Salem': 'CST6CDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1,CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdt00/1,g36m80/0,gb3vo0/1,glwow0/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/2,hvmzk0/3,i6fss0/2,ied280/3,ip5vg0/2,ix34w0/3,j7vy40/2,jeqbk0/3',
+  'America/Nuuk': '<-02>2<-01>,M3.5.0/-1,M10.5.0/0|-03/-10800/0,-02/-7200/1,-02/-7200/0,-01/-3600/1|fnmqo0/0,fs0840/1,g362s0/0,gaqas0/1,glw5g0/0,gttc40/1,h4m840/0,hcjes0/1,hncas0/0,hv9hg0/1,i6fc40/0,idzk40/1,ip5es0/0,iwpms0/1,j7vhg0/0,jffpg0/1,jqlk40/0,jyiqs0/1,k9bms0/0,kh8tg0/1,ks1pg0/0,kzyw40/1,lb4qs0/0,lioys0/1,ltutg0/0,m1f1g0/1,mckw40/0,mki2s0/1,mvays0/0,n385g0/1,ne11g0/0,nly840/1,nwr440/0,o4oas0/1,ofu5g0/0,onedg0/1,oyk840/0,p64g40/1,phaas0/0,pp7hg0/1,q00dg0/0,q7xk40/1,qiqg40/0,qqnms0/1,r1thg0/0,r9dpg0/1,rkjk40/0,rs3s40/2,sb6tg0/3',
+  'America/Ojinaga': 'CST6CDT,M3.2.0,M11.1.0|MST/-25200/0,MDT/-21600/1,CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdt00/1,g36m80/0,gcwp00/1,gkgu80/0,gu6x00/1,h4mrk0/0,hcwzo0/1,hncu80/0,hvn2c0/1,i6fvk0/0,ied500/1,ip5y80/0,ix37o0/1,j7w0w0/0,jftac0/1,jqm3k0/0,jywbo0/1,k9c680/0,khmec0/1,ks28w0/0,kz9l00/1,lbi8w0/0,lhzno0/1,lu8bk0/0,m0pqc0/1,mcye80/0,mjft00/1,mvogw0/0,n25vo0/1,neejk0/0,nkvyc0/1,nx4m80/0,o3yzo0/1,og7nk0/0,omp2c0/1,oyxq80/0,p5f500/1,phnsw0/0,po57o0/1,q0dvk0/0,q6vac0/1,qj3y80/0,qpybo0/1,r26zk0/0,r8oec0/1,rkk3k0/2,rree80/3',
+  'America/Panama': 'EST5',
+  'America/Paramaribo': '<-03>3',
+  'America/Phoenix': 'MST7',
+  'America/Port-au-Prince': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,iectw0/1,ip5n40/0,ix2wk0/1,j7vps0/0,m0pks0/1,mcy8o0/0,mjfng0/1,mvobc0/0,n25q40/1,neee00/0,nkvss0/1,nx4go0/0,omows0/1',
+  'America/Port_of_Spain': 'AST4',
+  'America/Porto_Velho': '<-04>4',
+  'America/Puerto_Rico': 'AST4',
+  'America/Punta_Arenas': '<-03>3|-03/-10800/1,-04/-14400/0,-03/-10800/0|fnmqo0/0,fragc0/1,g2gds0/0,ga0j00/1,gl6gg0/0,gsqlo0/1,h3wj40/0,hbgoc0/1,hmmls0/0,hujpo0/1,i5cog0/0,id9sc0/1,io2r40/0,ivzv00/1,j75sg0/0,jepxo0/1,jpvv40/0,jyiwc0/1,k8lxs0/0,kgj1o0/1,krc0g0/0,l0c0c0/1,la2340/0,lkuwc0/1,lq9f40/0,m380c0/1,m9pf40/0,mly300/1,mssgg0/0,n4o5o0/1,nbij40/0,o77700/1,obvsg0/0,ohn4c0/2',
+  'America/Rankin_Inlet': 'CST6CDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1,EST/-18000/0|fnmqo0/0,fsdq80/1,g36jg0/2,gb3sw0/1,glwm40/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/0,jeqbk0/1',
+  'America/Recife': '<-03>3|-02/-7200/1,-03/-10800/0|fnmqo0/0,fqkg80/1,g23cc0/0,g2g880/1,gl6do0/0,grnmw0/1',
+  'America/Regina': 'CST6',
+  'America/Resolute': 'CST6CDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1,EST/-18000/0|fnmqo0/0,fsdq80/1,g36jg0/2,gb3sw0/1,glwm40/0,gu6u80/1,h4mos0/0,hcwww0/1,hncrg0/0,hvmzk0/1,i6fss0/0,ied280/1,ip5vg0/0,ix34w0/1,j7vy40/2,jeqbk0/1',
+  'America/Rio_Branco': '<-05>5|-05/-18000/0,-04/-14400/0|fnmqo0/0,k2yb80/1,mw14g0/0',
+  'America/Santarem': '<-03>3|-04/-14400/0,-03/-10800/0|fnmqo0/0,k2y8g0/1',
+  'America/Santiago': '<-04>4<-03>,M9.1.6/24,M4.1.6/24|-03/-10800/1,-04/-14400/0|fnmqo0/0,fragc0/1,g2gds0/0,ga0j00/1,gl6gg0/0,gsqlo0/1,h3wj40/0,hbgoc0/1,hmmls0/0,hujpo0/1,i5cog0/0,id9sc0/1,io2r40/0,ivzv00/1,j75sg0/0,jepxo0/1,jpvv40/0,jyiwc0/1,k8lxs0/0,kgj1o0/1,krc0g0/0,l0c0c0/1,la2340/0,lkuwc0/1,lq9f40/0,m380c0/1,m9pf40/0,mly300/1,mssgg0/0,n4o5o0/1,nbij40/0,o77700/1,obvsg0/0,opx9o0/1,oulv40/0,p8ncc0/1,pdbxs0/0,ppklo0/1,pxhv40/0,q8aoc0/1,qg7xs0/0,qr0r00/1,qyy0g0/0,r9qto0/1,ri11s0/0',
+  'America/Santo_Domingo': 'AST4|AST/-14400/0,EST/-18000/0|fnmqo0/0,g36go0/1,g4za00/0',
+  'America/Sao_Paulo': '<-03>3|-02/-7200/1,-03/-10800/0|fnmqo0/0,fqkg80/1,g23cc0/0,g8xk80/1,gl6do0/0,grnmw0/1,h4zcc0/0,hadpk0/1,hmzho0/0,ht3s80/1,i6j700/0,ic6tk0/1,iofn00/0,iuww80/1,j88lo0/0,jdzxk0/1,jpvsc0/0,jwd1k0/1,k8yto0/0,kf3480/1,krowc0/0,ky65k0/1,laez00/0,lgw880/1,lt51o0/0,lzz9k0/1,mc8300/0,micdk0/1,muy5o0/0,n12g80/1,ndo8c0/0,nk5hk0/1,nweb00/0,o2vk80/1,of4do0/0,ollmw0/1,oxugc0/0,p4bpk0/1,phnf00/0,pn1s80/1',
+  'America/Scoresbysund': '<-02>2<-01>,M3.5.0/-1,M10.5.0/0|-01/-3600/0,+00/0/1,-01/-3600/1|fnmqo0/0,fs0840/1,g362s0/0,gaqas0/1,glw5g0/0,gttc40/1,h4m840/0,hcjes0/1,hncas0/0,hv9hg0/1,i6fc40/0,idzk40/1,ip5es0/0,iwpms0/1,j7vhg0/0,jffpg0/1,jqlk40/0,jyiqs0/1,k9bms0/0,kh8tg0/1,ks1pg0/0,kzyw40/1,lb4qs0/0,lioys0/1,ltutg0/0,m1f1g0/1,mckw40/0,mki2s0/1,mvays0/0,n385g0/1,ne11g0/0,nly840/1,nwr440/0,o4oas0/1,ofu5g0/0,onedg0/1,oyk840/0,p64g40/1,phaas0/0,pp7hg0/1,q00dg0/0,q7xk40/1,qiqg40/0,qqnms0/1,r1thg0/0,r9dpg0/1,rkjk40/0,rs3s40/1,s39ms0/0,sb6tg0/2',
+  'America/Sitka': 'AKST9AKDT,M3.2.0,M11.1.0|AKST/-32400/0,AKDT/-28800/1|fnmqo0/0,fsdyk0/1,g36rs0/0,gb4180/1,glwug0/0,gu72k0/1,h4mx40/0,hcx580/1,hnczs0/0,hvn7w0/1,i6g140/0,iedak0/1,ip63s0/0,ix3d80/1,j7w6g0/0,jeqjw0/1',
+  'America/St_Barthelemy': 'AST4',
+  'America/St_Johns': 'NST3:30NDT,M3.2.0,M11.1.0|NST/-12600/0,NDT/-9000/1|fnmqo0/0,fsddro/1,g366zo/0,gb3gfo/1,glw9no/0,gu6hro/1,h4mcbo/0,hcwkfo/1,hncezo/0,hvmn3o/1,i6fgbo/0,iecpro/1,ip5izo/0,ix2sfo/1,j7vlno/0,jepz3o/1,jqymzo/0,jxg1ro/1,k9opno/0,kg64fo/1,ksesbo/0,kz95ro/1,lbhtno/0,lhz8fo/1,lu81u0/0',
+  'America/St_Kitts': 'AST4',
+  'America/St_Lucia': 'AST4',
+  'America/St_Thomas': 'AST4',
+  'America/St_Vincent': 'AST4',
+  'America/Swift_Current': 'CST6',
+  'America/Tegucigalpa': 'CST6|CST/-21600/0,CDT/-18000/1|fnmqo0/0,iyvso0/1,j3m380/0',
+  'America/Thule': 'AST4ADT,M3.2.0,M11.1.0|AST/-14400/0,ADT/-10800/1|fnmqo0/0,fsdko0/1,g36dw0/0,gb3nc0/1,glwgk0/0,gu6oo0/1,h4mj80/0,hcwrc0/1,hnclw0/0,hvmu00/1,i6fn80/0,iecwo0/1,ip5pw0/0,ix2zc0/1,j7vsk0/0,jeq600/1',
+  'America/Tijuana': 'PST8PDT,M3.2.0,M11.1.0|PST/-28800/0,PDT/-25200/1|fnmqo0/0,fsdvs0/1,g36p00/0,gb3yg0/1,glwro0/0,gu6zs0/1,h4muc0/0,hcx2g0/1,hncx00/0,hvn540/1,i6fyc0/0,ied7s0/1,ip6100/0,ix3ag0/1,j7w3o0/0,jftd40/1,jqm6c0/0,jyweg0/1,k9c900/0,khmh40/1,ks2bo0/0,kz9ns0/1',
+  'America/Toronto': 'EST5EDT,M3.2.0,M11.1.0|EST/-18000/0,EDT/-14400/1|fnmqo0/0,fsdng0/1,g36go0/0,gb3q40/1,glwjc0/0,gu6rg0/1,h4mm00/0,hcwu40/1,hncoo0/0,hvmws0/1,i6fq00/0,ieczg0/1,ip5so0/0,ix3240/1,j7vvc0/0,jeq8s0/1',
+  'America/Tortola': 'AST4',
+  'America/Vancouver': 'PST8PDT,M3.2.0,M11.1.0|PST/-28800/0,PDT/-25200/1|fnmqo0/0,fsdvs0/1,g36p00/0,gb3yg0/1,glwro0/0,gu6zs0/1,h4muc0/0,hcx2g0/1,hncx00/0,hvn540/1,i6fyc0/0,ied7s0/1,ip6100/0,ix3ag0/1,j7w3o0/0,jeqh40/1',
+  'America/Whitehorse': 'MST7|PST/-28800/0,PDT/-25200/1,MST/-25200/0|fnmqo0/0,fsdvs0/1,g36p00/0,gb3yg0/1,glwro0/0,gu6zs0/1,h4muc0/0,hcx2g0/1,hncx00/0,hvn540/1,i6fyc0/0,ied7s0/1,ip6100/0,ix3ag0/1,j7w3o0/0,jeqh40/1,jqz500/0,jxgjs0/1,k9p7o0/0,kg6mg0/1,ksfac0/0,kz9ns0/1,lbibo0/0,lhzqg0/1,lu8ec0/0,m0pt40/1,mcyh00/0,mjfvs0/1,mvojo0/0,n25yg0/1,neemc0/0,nkw140/1,nx4p00/0,o3z2g0/1,og7qc0/0,omp540/1,oyxt00/0,p5f7s0/1,phnvo0/0,po5ag0/1,q0dyc0/0,q6vd40/1,qj3vg0/2',
+  'America/Winnipeg': 'CST6CDT,M3.2.0,M11.1.0|CST/-21600/0,CDT/-18000/1|fnmqo0/0,fsdq80/1,g36m80/0,gb3sw0/1,glwow0/0,gu6u80/1,h4mrk0/0,hcwww0/1,hncu80/0,hvmzk0/1,i6fvk0/0,ied280/1,ip5y80/0,ix34w0/1,j7vy40/0,jeqbk0/1',
+  'America/Yakutat': 'AKST9AKDT,M3.2.0,M11.1.0|AKST/-32400/0,AKDT/-28800/1|fnmqo0/0,fsdyk0/1,g36rs0/0,gb4180/1,glwug0/0,gu72k0/1,h4mx40/0,hcx580/1,hnczs0/0,hvn7w0/1,i6g140/0,iedak0/1,ip63s0/0,ix3d80/1,j7w6g0/0,jeqjw0/1',
+  'Antarctica/Casey': '<+08>-8|+08/28800/0,+11/39600/0|fnmqo0/0,kro7c0/1,kyrj00/0,ltqko0/1,lzr5w0/0,ofen40/1,p5dwk0/0,pg70w0/1,pogv40/0,pytbg0/1,q6tz40/0,qhmv5o/1,qpws40/0,r0cxto/1,r8mus0/0,rj30ho/1,rr7ls0/0',
+  'Antarctica/Davis': '<+07>-7|+07/25200/0,+05/18000/0|fnmqo0/0,kroa40/1,kz30w0/0,ltqng0/1,lzre80/0',
+  'Antarctica/DumontDUrville': '<+10>-10',
+  'Antarctica/Macquarie': 'AEST-10AEDT,M10.1.0,M4.1.0/3|AEDT/39600/1,AEST/36000/0|fnmqo0/0,frzj40/1,fzwps0/0,gapls0/1,gkskg0/0,gtsn40/1,h3in40/0,hcips0/1,hm8ps0/0,hv8sg0/1,i4ysg0/0,idyv40/1,inov40/0,ix1wg0/1,j6exs0/0,jff0g0/1,jphz40/0,jyv0g0/1,k881s0/0,khl340/1,kqy4g0/0,lj18g0/1',
+  'Antarctica/Mawson': '<+05>-5|+06/21600/0,+05/18000/0|fnmqo0/0,krocw0/1',
+  'Antarctica/McMurdo': 'NZST-12NZDT,M9.5.0,M4.1.0/3|NZDT/46800/1,NZST/43200/0|fnmqo0/0,frmew0/1,g1pdk0/0,gachk0/1,gksew0/0,gt2k80/1,h3ihk0/0,hbsmw0/1,hm8k80/0,huvo80/1,i4ymw0/0,idlqw0/1,inopk0/0,iwbtk0/1,j6es80/0,jf1w80/1,jp4uw0/0',
+  'Antarctica/Palmer': '<-03>3|-03/-10800/1,-04/-14400/0,-03/-10800/0|fnmqo0/0,fragc0/1,g2gds0/0,ga0j00/1,gl6gg0/0,gsqlo0/1,h3wj40/0,hbgoc0/1,hmmls0/0,hujpo0/1,i5cog0/0,id9sc0/1,io2r40/0,ivzv00/1,j75sg0/0,jepxo0/1,jpvv40/0,jyiwc0/1,k8lxs0/0,kgj1o0/1,krc0g0/0,l0c0c0/1,la2340/0,lkuwc0/1,lq9f40/0,m380c0/1,m9pf40/0,mly300/1,mssgg0/0,n4o5o0/1,nbij40/0,o77700/1,obvsg0/0,ohn4c0/2',
+  'Antarctica/Rothera': '<-03>3',
+  'Antarctica/Syowa': '<+03>-3',
+  'Antarctica/Troll': '<+00>0<+02>-2,M3.5.0/1,M10.5.0/3|-00/0/0,+00/0/0|fnmqo0/0,ibruo0/1',
+  'Antarctica/Vostok': '<+05>-5|+07/25200/0,+05/18000/0|fnmqo0/0,s5trg0/1',
+  'Arctic/Longyearbyen': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Asia/Aden': '<+03>-3',
+  'Asia/Almaty': '<+05>-5|+06/21600/0,+07/25200/1,+05/18000/0|fnmqo0/0,frzu80/1,g35ow0/0,gapww0/1,glvrk0/0,gtsy80/1,h4lu80/0,hcj0w0/1,hnbww0/0,hv93k0/1,i6ey80/0,s9mq00/2',
+  'Asia/Amman': '<+03>-3|EET/7200/0,EEST/10800/1,+03/10800/0|fnmqo0/0,fs7eg0/1,g1mag0/0,gaxh40/1,gkcd40/0,gtpeg0/1,h32fs0/0,hcfh40/1,hn8d40/0,hv5js0/1,i5lh40/0,ie8l40/1,inlmg0/0,iwyns0/1,j7rjs0/0,jfoqg0/1,jqhmg0/0,jyet40/1,k9kns0/0,kh4vs0/1,ksaqg0/0,kzuyg0/1,lb0t40/0,lixzs0/1,ltqvs0/0,m1o2g0/1,my2no0/0,n347s0/1,nea2g0/0,nluag0/1,nx0540/0,o4xbs0/1,ofq7s0/0,onneg0/1,oygag0/0,p6dh40/1,ph6d40/0,pp3js0/1,pzwfs0/0,q7tmg0/1,qizh40/0,qqjp40/1,r1pjs0/0,r7tx40/1,rkfmg0/2',
+  'Asia/Anadyr': '<+12>-12|+12/43200/0,+13/46800/1,+12/43200/1,+11/39600/0|fnmqo0/0,frzdk0/1,g35880/0,gapg80/1,glvaw0/0,gtshk0/1,h4ldk0/0,hcik80/1,hnbg80/0,hv8mw0/1,i6ehk0/0,idypk0/1,ip4k80/0,iwos80/1,j7umw0/0,jfeuw0/1,jqkpk0/0,jyhw80/1,k9as80/0,kh7yw0/1,ks0uw0/0,kzy1k0/2,lb3z00/3,lio700/0',
+  'Asia/Aqtau': '<+05>-5|+04/14400/0,+05/18000/1,+05/18000/0|fnmqo0/0,frzzs0/1,g35ug0/0,gaq2g0/1,glvx40/0,gtt3s0/1,h4lzs0/0,hcj6g0/1,hnc2g0/0,hv9940/1,i6f3s0/2',
+  'Asia/Aqtobe': '<+05>-5|+05/18000/0,+06/21600/1|fnmqo0/0,frzx00/1,g35ro0/0,gapzo0/1,glvuc0/0,gtt100/1,h4lx00/0,hcj3o0/1,hnbzo0/0,hv96c0/1,i6f100/0',
+  'Asia/Ashgabat': '<+05>-5',
+  'Asia/Atyrau': '<+05>-5|+04/14400/0,+05/18000/1,+05/18000/0|fnmqo0/0,frzzs0/1,g35ug0/0,gaq2g0/1,glvx40/0,gtt3s0/1,h4lzs0/0,hcj6g0/1,hnc2g0/0,hv9940/1,i6f3s0/2',
+  'Asia/Baghdad': '<+03>-3|+03/10800/0,+04/14400/1|fnmqo0/0,fsb9c0/1,g1q5c0/0,gb36o0/1,gki2o0/0,gtv400/1,h3a000/0,hcn1c0/1,hm1xc0/0,hvgtc0/1,i4vpc0/0,ie8qo0/1,innmo0/0,ix0o00/1,j6fk00/0,jfslc0/1,jp7hc0/0',
+  'Asia/Bahrain': '<+03>-3',
+  'Asia/Baku': '<+04>-4|+04/14400/0,+05/18000/1|fnmqo0/0,fs05c0/1,g36000/0,gaq800/1,glw2o0/0,gtt9c0/1,h4m5c0/0,hcjc00/1,hnc800/0,hv9eo0/1,i6f9c0/0,idzhc0/1,ip5c00/0,iwpk00/1,j7veo0/0,jffmo0/1,jqlhc0/0,jyio00/1,k9bk00/0,kh8qo0/1,ks1mo0/0,kzytc0/1,lb4o00/0,liow00/1,ltuqo0/0,m1eyo0/1,mcktc0/0,mki000/1,mvaw00/0,n382o0/1,ne0yo0/0,nly5c0/1,nwr1c0/0',
+  'Asia/Bangkok': '<+07>-7',
+  'Asia/Barnaul': '<+07>-7|+06/21600/0,+07/25200/1,+07/25200/0|fnmqo0/0,frzu80/1,g35ow0/0,gapww0/1,glvrk0/0,gtsy80/1,h4lu80/0,hcj0w0/1,hnbww0/0,hv93k0/1,i6ey80/0,idz680/1,ip50w0/0,iwp8w0/1,j7v3k0/0,jffbk0/1,jql680/0,jyicw0/1,k9b8w0/0,kh8fk0/1,ks1bk0/0,kzyi80/1,lb4cw0/0,liokw0/2,ne0ks0/0,o4nww0/2',
+  'Asia/Beirut': 'EET-2EEST,M3.5.0/0,M10.5.0/0',
+  'Asia/Bishkek': '<+06>-6|+05/18000/0,+06/21600/1,+06/21600/0|fnmqo0/0,frzye0/1,g35qa0/0,gaq120/1,glvsy0/0,gtt2e0/1,h4lvm0/0,hcj520/1,hnbya0/0,hv97q0/1,i6ezm0/0,idzae0/1,il2ko0/2',
+  'Asia/Brunei': '<+08>-8',
+  'Asia/Chita': '<+09>-9|+09/32400/0,+10/36000/1,+10/36000/0,+08/28800/0|fnmqo0/0,frzlw0/1,g35gk0/0,gapok0/1,glvj80/0,gtspw0/1,h4llw0/0,hcisk0/1,hnbok0/0,hv8v80/1,i6epw0/0,idyxw0/1,ip4sk0/0,iwp0k0/1,j7uv80/0,jff380/1,jqkxw0/0,jyi4k0/1,k9b0k0/0,kh8780/1,ks1380/0,kzy9w0/1,lb44k0/0,liock0/2,ne0cg0/3,o4nrc0/0',
+  'Asia/Colombo': '<+0530>-5:30|+06/21600/0,+0530/19800/0|fnmqo0/0,ixq620/1',
+  'Asia/Damascus': '<+03>-3|EET/7200/0,EEST/10800/1,+03/10800/0|fnmqo0/0,fsb3s0/1,g1px00/0,gb3140/1,gkhuc0/0,gtuyg0/1,h39ro0/0,hcmvs0/1,hm1p00/0,hvgns0/1,i4vh00/0,ie8l40/1,innec0/0,ix0ig0/1,j5yno0/0,jfoqg0/1,jquic0/0,jyrrs0/1,k9mfo0/0,kh4vs0/1,ksano0/0,l07x40/1,lb0qc0/0,lixzs0/1,ltqt00/0,m1o2g0/1,mcgvo0/0,mke540/1,mv6yc0/0,n347s0/1,ne9zo0/0,nluag0/1,nx02c0/0,o4kd40/1,ofq500/0,onneg0/1,oyg7o0/0,p6dh40/1,ph6ac0/0,pp3js0/1,pzwd00/0,q7tmg0/1,qizec0/0,qqjp40/1,r1ph00/0,r99rs0/1,rkfjo0/2',
+  'Asia/Dhaka': '<+06>-6|+06/21600/0,+07/25200/1|fnmqo0/0,klhwk0/1,kvj0k0/0',
+  'Asia/Dili': '<+09>-9|+08/28800/0,+09/32400/0|fnmqo0/0,g0zls0/1',
+  'Asia/Dubai': '<+04>-4',
+  'Asia/Dushanbe': '<+05>-5',
+  'Asia/Famagusta': 'EET-2EEST,M3.5.0/3,M10.5.0/4|EET/7200/0,EEST/10800/1,+03/10800/0|fnmqo0/0,fs0840/1,g362s0/0,gaqas0/1,glw5g0/0,gttc40/1,h4m840/0,hcjes0/1,hncas0/0,hv9hg0/1,i6fc40/0,idzk40/1,ip5es0/0,iwpms0/1,j7vhg0/0,jffpg0/1,jqlk40/0,jyiqs0/1,k9bms0/0,kh8tg0/1,ks1pg0/0,kzyw40/1,lb4qs0/0,lioys0/1,ltutg0/0,m1f1g0/1,mckw40/0,mki2s0/1,mvays0/0,n385g0/1,ne11g0/0,nly840/1,nwr440/0,o4oas0/1,od5jo0/2,oyk840/0',
+  'Asia/Gaza': 'EET-2EEST,M3.4.4/50,M10.4.4/50|EET/7200/0,EEST/10800/1|fnmqo0/0,ftc540/1,g2p3o0/0,gc27s0/1,glf6c0/0,gusag0/1,h45900/0,hdid40/1,hmvbo0/0,hw8fs0/1,i4vjs0/0,ieyig0/1,int3w0/0,ix0ig0/1,j5yno0/0,jfsfs0/1,joa2k0/0,jyet40/1,k6bx00/0,kh4vs0/1,kpf140/0,kzwt5o/1,l6yfo0/0,lixzto/1,lp7uc0/0,m1o2g0/1,mao540/0,mke540/1,mtr3o0/0,n347s0/1,ndx100/0,nlw540/1,nwn6g0/0,o4mak0/1,ofs2g0/0,oncd80/1,oyi540/0,p62fw0/1,ph87s0/0,pp3js0/1,pzy7o0/0,q7vh40/1,qiod40/0,qqljs0/1,r1pjs0/0,r9dh40/1,rkhjw0/0,rtuo00/1,s37mk0/0,sc7s00/1,slxp80/0,sukw00/1,t4nrw0/0,tcl1c0/1,tnduk0/0,tvb400/1,u6gvw0/0,ue16o0/1,up6yk0/0,uwr9c0/1,v7x180/0,vfuao0/1,vqn3w0/0,vykdc0/1,w9d6k0/0,whag00/1,wsg7w0/0,x00io0/1,xb6ak0/0,xiqlc0/1,xtwd80/0,y1go00/1,ycmfw0/0,ykjpc0/1,yuzjw0/0,z39s00/1,zdcnw0/0,zlzuo0/1,zvct80/0,104pxc0/1,10dpx80/0,10ng000/1,10vq2k0/0,10y8w00/1,10ylrw0/0,116j1c0/1,11e36k0/0,11g91c0/1,11hbuk0/0,11p9400/1,11wgak0/0,11ym5c0/1,1201x80/0,127z6o0/1,12egfw0/0,12gz9c0/1,12irzw0/0,12qp9c0/1,12wtjw0/0,12yzeo0/1,131v180/0,139fc00/1,13f6nw0/0,13hcio0/1,13kl3w0/0,13s5eo0/1,13x6t80/0,13zpmo0/1,143b6k0/0,14b8g00/1,14fjx80/0,14hps00/1,14m1980/0,14tyio0/1,14xk2k0/0,1502w00/1,154rbw0/0,15colc0/1,15fx6k0/0,15i31c0/1,15nud80/0,15veo00/1,15yaak0/0,160g5c0/1,166kfw0/0,16e4qo0/1,16gafw0/0,16it9c0/1,16paik0/0,16x7s00/1,16ynjw0/0,170teo0/1,1780l80/0,17fxuo0/1,17gnp80/0,17j6io0/1,17qqnw0/0,17ynxc0/1,17z0t80/0,181jmo0/1,189gqk0/0,18jjs00/1,18sjrw0/0,191ww00/1,19b9uk0/0,19jx1c0/1,19tzx80/0,1a2a5c0/1,1acpzw0/0,1akn9c0/1,1avg2k0/0,1b3dc00/1,1bej3w0/0,1bm3eo0/1,1bx96k0/0,1c4thc0/1,1cfz980/0,1cnjk00/1,1cypbw0/0,1d6mlc0/1,1dhfek0/0,1dpco00/1,1e05h80/0,1e82qo0/1,1ej8ik0/0,1eqstc0/1,1f1yl80/0,1f9iw00/1,1fkbp80/0,1fslxc0/1,1g2ot80/0,1gbc000/1,1gl1x80/0,1gu22o0/1,1h322k0/0,1hcs5c0/1,1hlf6k0/0,1hnl1c0/1,1hnxx80/0,1hvi800/1,1i3sak0/0,1i5y5c0/1,1i6nzw0/0,1ie8ao0/1,1ilsfw0/0,1iob9c0/1,1ipe2k0/0,1ixbc00/1,1j45jw0/0,1j6beo0/1,1j84580/0,1jg1eo0/1,1jm5p80/0,1jooio0/1,1jqu7w0/0,1jyrhc0/1,1k4it80/0,1k71mo0/1,1k9x980/0,1khhk00/1,1kmvx80/0,1kp1s00/1,1ksnbw0/0,1l07mo0/1,1l4w2k0/0,1l7ew00/1,1lbdek0/0,1ljao00/1,1ln96k0/0,1lpf1c0/1,1lu3h80/0,1m20qo0/1,1m5mak0/0,1m7s5c0/1,1mctjw0/0,1mkqtc0/1,1mnmfw0/0,1mq59c0/1,1mvjmk0/0,1n3gw00/1,1n5zjw0/0,1n85eo0/1,1nemnw0/0,1nm6yo0/1,1nnzp80/0,1nqiio0/1,1nxcqk0/0,1o4x1c0/1,1o6ct80/0,1o8vmo0/1,1og2t80/0,1oo02o0/1,1oopx80/0,1oqvs00/1',
+  'Asia/Hebron': 'EET-2EEST,M3.4.4/50,M10.4.4/50|EET/7200/0,EEST/10800/1|fnmqo0/0,ftc540/1,g2p3o0/0,gc27s0/1,glf6c0/0,gusag0/1,h45900/0,hdid40/1,hmvbo0/0,hw8fs0/1,i4vjs0/0,ieyig0/1,int3w0/0,ix0ig0/1,j5yno0/0,jfsfs0/1,joa2k0/0,jyet40/1,k6hh00/0,kh4vs0/1,kpf140/0,kzuyg0/1,l6yfo0/0,lixzto/1,lp7uc0/0,lqpmg0/1,lsayc0/0,m1o2g0/1,mao540/0,mke540/1,mtr3o0/0,n347s0/1,ndx100/0,nlw540/1,nwn6g0/0,o4mak0/1,ofs2g0/0,oncd80/1,oyi540/0,p62fw0/1,ph87s0/0,pp3js0/1,pzy7o0/0,q7vh40/1,qiod40/0,qqljs0/1,r1pjs0/0,r9dh40/1,rkhjw0/0,rtuo00/1,s37mk0/0,sc7s00/1,slxp80/0,sukw00/1,t4nrw0/0,tcl1c0/1,tnduk0/0,tvb400/1,u6gvw0/0,ue16o0/1,up6yk0/0,uwr9c0/1,v7x180/0,vfuao0/1,vqn3w0/0,vykdc0/1,w9d6k0/0,whag00/1,wsg7w0/0,x00io0/1,xb6ak0/0,xiqlc0/1,xtwd80/0,y1go00/1,ycmfw0/0,ykjpc0/1,yuzjw0/0,z39s00/1,zdcnw0/0,zlzuo0/1,zvct80/0,104pxc0/1,10dpx80/0,10ng000/1,10vq2k0/0,10y8w00/1,10ylrw0/0,116j1c0/1,11e36k0/0,11g91c0/1,11hbuk0/0,11p9400/1,11wgak0/0,11ym5c0/1,1201x80/0,127z6o0/1,12egfw0/0,12gz9c0/1,12irzw0/0,12qp9c0/1,12wtjw0/0,12yzeo0/1,131v180/0,139fc00/1,13f6nw0/0,13hcio0/1,13kl3w0/0,13s5eo0/1,13x6t80/0,13zpmo0/1,143b6k0/0,14b8g00/1,14fjx80/0,14hps00/1,14m1980/0,14tyio0/1,14xk2k0/0,1502w00/1,154rbw0/0,15colc0/1,15fx6k0/0,15i31c0/1,15nud80/0,15veo00/1,15yaak0/0,160g5c0/1,166kfw0/0,16e4qo0/1,16gafw0/0,16it9c0/1,16paik0/0,16x7s00/1,16ynjw0/0,170teo0/1,1780l80/0,17fxuo0/1,17gnp80/0,17j6io0/1,17qqnw0/0,17ynxc0/1,17z0t80/0,181jmo0/1,189gqk0/0,18jjs00/1,18sjrw0/0,191ww00/1,19b9uk0/0,19jx1c0/1,19tzx80/0,1a2a5c0/1,1acpzw0/0,1akn9c0/1,1avg2k0/0,1b3dc00/1,1bej3w0/0,1bm3eo0/1,1bx96k0/0,1c4thc0/1,1cfz980/0,1cnjk00/1,1cypbw0/0,1d6mlc0/1,1dhfek0/0,1dpco00/1,1e05h80/0,1e82qo0/1,1ej8ik0/0,1eqstc0/1,1f1yl80/0,1f9iw00/1,1fkbp80/0,1fslxc0/1,1g2ot80/0,1gbc000/1,1gl1x80/0,1gu22o0/1,1h322k0/0,1hcs5c0/1,1hlf6k0/0,1hnl1c0/1,1hnxx80/0,1hvi800/1,1i3sak0/0,1i5y5c0/1,1i6nzw0/0,1ie8ao0/1,1ilsfw0/0,1iob9c0/1,1ipe2k0/0,1ixbc00/1,1j45jw0/0,1j6beo0/1,1j84580/0,1jg1eo0/1,1jm5p80/0,1jooio0/1,1jqu7w0/0,1jyrhc0/1,1k4it80/0,1k71mo0/1,1k9x980/0,1khhk00/1,1kmvx80/0,1kp1s00/1,1ksnbw0/0,1l07mo0/1,1l4w2k0/0,1l7ew00/1,1lbdek0/0,1ljao00/1,1ln96k0/0,1lpf1c0/1,1lu3h80/0,1m20qo0/1,1m5mak0/0,1m7s5c0/1,1mctjw0/0,1mkqtc0/1,1mnmfw0/0,1mq59c0/1,1mvjmk0/0,1n3gw00/1,1n5zjw0/0,1n85eo0/1,1nemnw0/0,1nm6yo0/1,1nnzp80/0,1nqiio0/1,1nxcqk0/0,1o4x1c0/1,1o6ct80/0,1o8vmo0/1,1og2t80/0,1oo02o0/1,1oopx80/0,1oqvs00/1',
+  'Asia/Ho_Chi_Minh': '<+07>-7',
+  'Asia/Hong_Kong': 'HKT-8',
+  'Asia/Hovd': '<+07>-7|+07/25200/0,+08/28800/1|fnmqo0/0,gcgss0/1,gkdwo0/0,gtr0s0/1,h33zc0/0,hch3g0/1,hlu200/0,hv7640/1,i4k4o0/0,idx8s0/1,ina7c0/0,iwnbg0/1,j6d8o0/0,nlvws0/1,nv8ps0/0,o4lzg0/1,odysg0/0',
+  'Asia/Irkutsk': '<+08>-8|+08/28800/0,+09/32400/1,+09/32400/0|fnmqo0/0,frzoo0/1,g35jc0/0,gaprc0/1,glvm00/0,gtsso0/1,h4loo0/0,hcivc0/1,hnbrc0/0,hv8y00/1,i6eso0/0,idz0o0/1,ip4vc0/0,iwp3c0/1,j7uy00/0,jff600/1,jql0o0/0,jyi7c0/1,k9b3c0/0,kh8a00/1,ks1600/0,kzyco0/1,lb47c0/0,liofc0/2,ne0f80/0',
+  'Asia/Jakarta': 'WIB-7',
+  'Asia/Jayapura': 'WIT-9',
+  'Asia/Jerusalem': 'IST-2IDT,M3.4.4/26,M10.5.0|IST/7200/0,IDT/10800/1|fnmqo0/0,fszc00/1,g1z940/0,gbhx80/1,gk4yg0/0,gtph80/1,h3kyg0/0,hcfjw0/1,hm5h40/0,hvruk0/1,i4evs0/0,ie8qo0/1,io2d80/0,iwytc0/1,j6fh80/0,jfow00/1,jofmk0/0,jyeyo0/1,k88l80/0,kh51c0/1,kqlp80/0,kzv400/1,l8luk0/0,liy5c0/1,lset80/0,m1o800/1,marx80/0,mkeao0/1',
+  'Asia/Kabul': '<+0430>-4:30',
+  'Asia/Kamchatka': '<+12>-12|+12/43200/0,+13/46800/1,+12/43200/1,+11/39600/0|fnmqo0/0,frzdk0/1,g35880/0,gapg80/1,glvaw0/0,gtshk0/1,h4ldk0/0,hcik80/1,hnbg80/0,hv8mw0/1,i6ehk0/0,idypk0/1,ip4k80/0,iwos80/1,j7umw0/0,jfeuw0/1,jqkpk0/0,jyhw80/1,k9as80/0,kh7yw0/1,ks0uw0/0,kzy1k0/2,lb3z00/3,lio700/0',
+  'Asia/Karachi': 'PKT-5|PKT/18000/0,PKST/21600/1|fnmqo0/0,gu5u40/1,h3iso0/0,k1qy40/1,k9m7c0/0,ki3u40/1,kse4o0/0',
+  'Asia/Kathmandu': '<+0545>-5:45',
+  'Asia/Khandyga': '<+09>-9|+09/32400/0,+10/36000/1,+10/36000/0,+11/39600/1,+11/39600/0|fnmqo0/0,frzlw0/1,g35gk0/0,gapok0/1,glvj80/0,gtspw0/1,h4llw0/0,hcisk0/1,hnbok0/0,hqrlo0/2,hv8sg0/3,i6en40/2,idyv40/3,ip4ps0/2,iwoxs0/3,j7usg0/2,jff0g0/3,jqkv40/2,jyi1s0/3,k9axs0/2,kh84g0/3,ks10g0/2,kzy740/3,lb41s0/2,lio9s0/4,lreus0/2,ne0cg0/0',
+  'Asia/Kolkata': 'IST-5:30',
+  'Asia/Krasnoyarsk': '<+07>-7|+07/25200/0,+08/28800/1,+08/28800/0|fnmqo0/0,frzrg0/1,g35m40/0,gapu40/1,glvos0/0,gtsvg0/1,h4lrg0/0,hciy40/1,hnbu40/0,hv90s0/1,i6evg0/0,idz3g0/1,ip4y40/0,iwp640/1,j7v0s0/0,jff8s0/1,jql3g0/0,jyia40/1,k9b640/0,kh8cs0/1,ks18s0/0,kzyfg0/1,lb4a40/0,lioi40/2,ne0i00/0',
+  'Asia/Kuala_Lumpur': '<+08>-8',
+  'Asia/Kuching': '<+08>-8',
+  'Asia/Kuwait': '<+03>-3',
+  'Asia/Macau': 'CST-8',
+  'Asia/Magadan': '<+11>-11|+11/39600/0,+12/43200/1,+12/43200/0,+10/36000/0|fnmqo0/0,frzgc0/1,g35b00/0,gapj00/1,glvdo0/0,gtskc0/1,h4lgc0/0,hcin00/1,hnbj00/0,hv8po0/1,i6ekc0/0,idysc0/1,ip4n00/0,iwov00/1,j7upo0/0,jfexo0/1,jqksc0/0,jyhz00/1,k9av00/0,kh81o0/1,ks0xo0/0,kzy4c0/1,lb3z00/0,lio700/2,ne06w0/3,o63gg0/0',
+  'Asia/Makassar': 'WITA-8',
+  'Asia/Manila': 'PST-8',
+  'Asia/Muscat': '<+04>-4',
+  'Asia/Nicosia': 'EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Asia/Novokuznetsk': '<+07>-7|+07/25200/0,+08/28800/1,+07/25200/1,+06/21600/0|fnmqo0/0,frzrg0/1,g35m40/0,gapu40/1,glvos0/0,gtsvg0/1,h4lrg0/0,hciy40/1,hnbu40/0,hv90s0/1,i6evg0/0,idz3g0/1,ip4y40/0,iwp640/1,j7v0s0/0,jff8s0/1,jql3g0/0,jyia40/1,k9b640/0,kh8cs0/1,ks18s0/0,kzyfg0/2,lb4cw0/3,liokw0/0',
+  'Asia/Novosibirsk': '<+07>-7|+06/21600/0,+07/25200/1,+07/25200/0|fnmqo0/0,frzu80/1,g35ow0/0,gapww0/1,glvrk0/0,gtsy80/1,h4lu80/0,hcj0w0/1,hnbww0/0,hv93k0/1,i6ey80/0,idz680/1,ip50w0/0,iwp8w0/1,j7v3k0/0,jffbk0/1,jql680/0,jyicw0/1,k9b8w0/0,kh8fk0/1,ks1bk0/0,kzyi80/1,lb4cw0/0,liokw0/2,ne0ks0/0,oasa80/2',
+  'Asia/Omsk': '<+06>-6|+06/21600/0,+07/25200/1,+07/25200/0|fnmqo0/0,frzu80/1,g35ow0/0,gapww0/1,glvrk0/0,gtsy80/1,h4lu80/0,hcj0w0/1,hnbww0/0,hv93k0/1,i6ey80/0,idz680/1,ip50w0/0,iwp8w0/1,j7v3k0/0,jffbk0/1,jql680/0,jyicw0/1,k9b8w0/0,kh8fk0/1,ks1bk0/0,kzyi80/1,lb4cw0/0,liokw0/2,ne0ks0/0',
+  'Asia/Oral': '<+05>-5|+04/14400/0,+05/18000/1,+05/18000/0|fnmqo0/0,frzzs0/1,g35ug0/0,gaq2g0/1,glvx40/0,gtt3s0/1,h4lzs0/0,hcj6g0/1,hnc2g0/0,hv9940/1,i6f3s0/2',
+  'Asia/Phnom_Penh': '<+07>-7',
+  'Asia/Pontianak': 'WIB-7',
+  'Asia/Pyongyang': 'KST-9|KST/32400/0,KST/30600/0|fnmqo0/0,nt2v00/1,p87lo0/0',
+  'Asia/Qatar': '<+03>-3',
+  'Asia/Qostanay': '<+05>-5|+05/18000/0,+06/21600/1,+06/21600/0|fnmqo0/0,frzx00/1,g35ro0/0,gapzo0/1,glvuc0/0,gtt100/1,h4lx00/0,hcj3o0/1,hnbzo0/0,hv96c0/1,i6f100/2,s9mq00/0',
+  'Asia/Qyzylorda': '<+05>-5|+05/18000/0,+06/21600/1,+06/21600/0|fnmqo0/0,frzx00/1,g35ro0/0,gapzo0/1,glvuc0/0,gtt100/1,h4lx00/0,hcj3o0/1,hnbzo0/0,hv96c0/1,i6f100/2,pk1rc0/0',
+  'Asia/Riyadh': '<+03>-3',
+  'Asia/Sakhalin': '<+11>-11|+10/36000/0,+11/39600/1,+11/39600/0|fnmqo0/0,frzj40/1,g35ds0/0,gapls0/1,glvgg0/0,gtsn40/1,h4lj40/0,hcips0/1,hnbls0/0,hv8sg0/1,i6en40/0,idyv40/1,ip4ps0/0,iwoxs0/1,j7usg0/0,jff0g0/1,jqkv40/0,jyi1s0/1,k9axs0/0,kh84g0/1,ks10g0/0,kzy740/1,lb41s0/0,lio9s0/2,ne09o0/0,o4nls0/2',
+  'Asia/Samarkand': '<+05>-5',
+  'Asia/Seoul': 'KST-9',
+  'Asia/Shanghai': 'CST-8',
+  'Asia/Singapore': '<+08>-8',
+  'Asia/Srednekolymsk': '<+11>-11|+11/39600/0,+12/43200/1,+12/43200/0|fnmqo0/0,frzgc0/1,g35b00/0,gapj00/1,glvdo0/0,gtskc0/1,h4lgc0/0,hcin00/1,hnbj00/0,hv8po0/1,i6ekc0/0,idysc0/1,ip4n00/0,iwov00/1,j7upo0/0,jfexo0/1,jqksc0/0,jyhz00/1,k9av00/0,kh81o0/1,ks0xo0/0,kzy4c0/1,lb3z00/0,lio700/2,ne06w0/0',
+  'Asia/Taipei': 'CST-8',
+  'Asia/Tashkent': '<+05>-5',
+  'Asia/Tbilisi': '<+04>-4|+04/14400/0,+05/18000/1,+04/14400/1,+03/10800/0|fnmqo0/0,frzu80/1,g35m40/0,gapww0/1,glvos0/0,gtsy80/1,h4lrg0/0,hcj0w0/1,hnbu40/0,hv93k0/1,hzxjg0/2,i6f6k0/3,idzek0/0',
+  'Asia/Tehran': '<+0330>-3:30|+0330/12600/0,+0430/16200/1|fnmqo0/0,frqma0/1,g17a60/0,gakea0/1,gk1260/0,gtcbm0/1,h2szi0/0,hc48y0/1,hlkwu0/0,huw6a0/1,i4cu60/0,idpya0/1,in6m60/0,jy1qa0/1,k7ie60/0,kgvia0/1,kqc660/0,kznfm0/1,l943i0/0,lifcy0/1,lrw0u0/0,m17aa0/1,many60/0,mk12a0/1,mthq60/0,n2szm0/1,nc9ni0/0,nlkwy0/1,nv1ku0/0,o4cua0/1,odti60/0,on6ma0/1,owna60/0,p5yjm0/1,pff7i0/0,poqgy0/1,py74u0/0,q7iea0/1,qgz260/0,qqc6a0/1,qzsu60/0,r943m0/1,rikri0/0',
+  'Asia/Thimphu': '<+06>-6',
+  'Asia/Tokyo': 'JST-9',
+  'Asia/Tomsk': '<+07>-7|+07/25200/0,+08/28800/1,+07/25200/1,+06/21600/0|fnmqo0/0,frzrg0/1,g35m40/0,gapu40/1,glvos0/0,gtsvg0/1,gvea40/2,h4lu80/3,hcj0w0/2,hnbww0/3,hv93k0/2,i6ey80/3,idz680/2,ip50w0/3,iwp8w0/2,j7v3k0/3,jffbk0/2,jql680/3,jyicw0/2,k9b8w0/3,kh8fk0/2,ks1bk0/3,kzyi80/2,lb4cw0/3,liokw0/0,ne0ks0/3,o7wkw0/0',
+  'Asia/Ulaanbaatar': '<+08>-8|+08/28800/0,+09/32400/1|fnmqo0/0,gcgq00/1,gkdtw0/0,gtqy00/1,h33wk0/0,hch0o0/1,hltz80/0,hv73c0/1,i4k1w0/0,idx600/1,ina4k0/0,iwn8o0/1,j6d5w0/0,nlvu00/1,nv8n00/0,o4lwo0/1,odypo0/0',
+  'Asia/Urumqi': '<+06>-6',
+  'Asia/Ust-Nera': '<+10>-10|+11/39600/0,+12/43200/1,+12/43200/0,+10/36000/0|fnmqo0/0,frzgc0/1,g35b00/0,gapj00/1,glvdo0/0,gtskc0/1,h4lgc0/0,hcin00/1,hnbj00/0,hv8po0/1,i6ekc0/0,idysc0/1,ip4n00/0,iwov00/1,j7upo0/0,jfexo0/1,jqksc0/0,jyhz00/1,k9av00/0,kh81o0/1,ks0xo0/0,kzy4c0/1,lb3z00/0,lio700/2,lres00/0,ne09o0/3',
+  'Asia/Vientiane': '<+07>-7',
+  'Asia/Vladivostok': '<+10>-10|+10/36000/0,+11/39600/1,+11/39600/0|fnmqo0/0,frzj40/1,g35ds0/0,gapls0/1,glvgg0/0,gtsn40/1,h4lj40/0,hcips0/1,hnbls0/0,hv8sg0/1,i6en40/0,idyv40/1,ip4ps0/0,iwoxs0/1,j7usg0/0,jff0g0/1,jqkv40/0,jyi1s0/1,k9axs0/0,kh84g0/1,ks10g0/0,kzy740/1,lb41s0/0,lio9s0/2,ne09o0/0',
+  'Asia/Yakutsk': '<+09>-9|+09/32400/0,+10/36000/1,+10/36000/0|fnmqo0/0,frzlw0/1,g35gk0/0,gapok0/1,glvj80/0,gtspw0/1,h4llw0/0,hcisk0/1,hnbok0/0,hv8v80/1,i6epw0/0,idyxw0/1,ip4sk0/0,iwp0k0/1,j7uv80/0,jff380/1,jqkxw0/0,jyi4k0/1,k9b0k0/0,kh8780/1,ks1380/0,kzy9w0/1,lb44k0/0,liock0/2,ne0cg0/0',
+  'Asia/Yangon': '<+0630>-6:30',
+  'Asia/Yekaterinburg': '<+05>-5|+05/18000/0,+06/21600/1,+06/21600/0|fnmqo0/0,frzx00/1,g35ro0/0,gapzo0/1,glvuc0/0,gtt100/1,h4lx00/0,hcj3o0/1,hnbzo0/0,hv96c0/1,i6f100/0,idz900/1,ip53o0/0,iwpbo0/1,j7v6c0/0,jffec0/1,jql900/0,jyifo0/1,k9bbo0/0,kh8ic0/1,ks1ec0/0,kzyl00/1,lb4fo0/0,liono0/2,ne0nk0/0',
+  'Asia/Yerevan': '<+04>-4|+04/14400/0,+05/18000/1|fnmqo0/0,frzzs0/1,g35ug0/0,gaq2g0/1,glvx40/0,gtt3s0/1,h4lzs0/0,hcj6g0/1,hnc2g0/0,hv9940/1,i6f3s0/0,idzbs0/1,ip56g0/0,iwpeg0/1,j7v940/0,jffh40/1,jqlbs0/0,jyiig0/1,k9beg0/0,kh8l40/1,ks1h40/0,kzyns0/1,lb4ig0/0,lioqg0/1,ltul40/0',
+  'Atlantic/Azores': '<-01>1<+00>,M3.5.0/0,M10.5.0/1',
+  'Atlantic/Bermuda': 'AST4ADT,M3.2.0,M11.1.0|AST/-14400/0,ADT/-10800/1|fnmqo0/0,fsdko0/1,g36dw0/0,gb3nc0/1,glwgk0/0,gu6oo0/1,h4mj80/0,hcwrc0/1,hnclw0/0,hvmu00/1,i6fn80/0,iecwo0/1,ip5pw0/0,ix2zc0/1,j7vsk0/0,jeq600/1',
+  'Atlantic/Canary': 'WET0WEST,M3.5.0/1,M10.5.0',
+  'Atlantic/Cape_Verde': '<-01>1',
+  'Atlantic/Faroe': 'WET0WEST,M3.5.0/1,M10.5.0',
+  'Atlantic/Madeira': 'WET0WEST,M3.5.0/1,M10.5.0',
+  'Atlantic/Reykjavik': 'GMT0',
+  'Atlantic/South_Georgia': '<-02>2',
+  'Atlantic/St_Helena': 'GMT0',
+  'Atlantic/Stanley': '<-03>3|-03/-10800/1,-04/-14400/0,-03/-10800/0|fnmqo0/0,ft39o0/1,g0nkg0/0,gbthw0/1,gj0u00/0,guwj80/1,h1qwo0/0,hdmlw0/1,hkty00/0,hwcok0/1,i3k0o0/0,if2r80/1,ima3c0/0,ixstw0/1,j50600/0,jgiwk0/1,jnq8o0/0,jzlxw0/1,k6ta00/0,kic0k0/1,kpjco0/0,l12380/1,l89fc0/2',
+  'Australia/Adelaide': 'ACST-9:30ACDT,M10.1.0,M4.1.0/3|ACDT/37800/1,ACST/34200/0|fnmqo0/0,frzki0/1,g35f60/0,gapn60/1,glvhu0/0,gtsoi0/1,h4lki0/0,hcir60/1,hnbn60/0,hv8tu0/1,i6eoi0/0,idywi0/1,ip4r60/0,ix1xu0/1,j7utu0/0,jff1u0/1,jqkwi0/0',
+  'Australia/Brisbane': 'AEST-10',
+  'Australia/Broken_Hill': 'ACST-9:30ACDT,M10.1.0,M4.1.0/3|ACDT/37800/1,ACST/34200/0|fnmqo0/0,frzki0/1,g35f60/0,gapn60/1,glvhu0/0,gtsoi0/1,h4lki0/0,hcir60/1,hnbn60/0,hv8tu0/1,i6eoi0/0,idywi0/1,ip4r60/0,ix1xu0/1,j7utu0/0,jff1u0/1,jqkwi0/0',
+  'Australia/Darwin': 'ACST-9:30',
+  'Australia/Eucla': '<+0845>-8:45|+0845/31500/0,+0945/35100/1|fnmqo0/0,j9np90/1,jff3x0/0,jqkyl0/1,jyi590/0,k9b190/1,kh87x0/0',
+  'Australia/Hobart': 'AEST-10AEDT,M10.1.0,M4.1.0/3|AEDT/39600/1,AEST/36000/0|fnmqo0/0,frzj40/1,fzwps0/0,gapls0/1,gkskg0/0,gtsn40/1,h3in40/0,hcips0/1,hm8ps0/0,hv8sg0/1,i4ysg0/0,idyv40/1,inov40/0,ix1wg0/1,j6exs0/0,jff0g0/1,jphz40/0',
+  'Australia/Lindeman': 'AEST-10',
+  'Australia/Lord_Howe': '<+1030>-10:30<+11>-11,M10.1.0,M4.1.0|+11/39600/1,+1030/37800/0|fnmqo0/0,frzgc0/1,fzwoe0/0,gapj00/1,glvf20/0,gtskc0/1,h4lhq0/0,hcin00/1,hnbke0/0,hv8po0/1,i6elq0/0,idysc0/1,ip4oe0/0,ix1to0/1,j7ur20/0,jfexo0/1,jqktq0/0',
+  'Australia/Melbourne': 'AEST-10AEDT,M10.1.0,M4.1.0/3|AEDT/39600/1,AEST/36000/0|fnmqo0/0,frzj40/1,fzwps0/0,gapls0/1,glvgg0/0,gtsn40/1,h4lj40/0,hcips0/1,hnbls0/0,hv8sg0/1,i6en40/0,idyv40/1,ip4ps0/0,ix1wg0/1,j7usg0/0,jff0g0/1,jqkv40/0',
+  'Australia/Perth': 'AWST-8|AWST/28800/0,AWDT/32400/1|fnmqo0/0,j9nrc0/1,jff600/0,jql0o0/1,jyi7c0/0,k9b3c0/1,kh8a00/0',
+  'Australia/Sydney': 'AEST-10AEDT,M10.1.0,M4.1.0/3|AEDT/39600/1,AEST/36000/0|fnmqo0/0,frzj40/1,fzwps0/0,gapls0/1,glvgg0/0,gtsn40/1,h4lj40/0,hcips0/1,hnbls0/0,hv8sg0/1,i6en40/0,idyv40/1,ip4ps0/0,ix1wg0/1,j7usg0/0,jff0g0/1,jqkv40/0',
+  'Etc/GMT': 'GMT0',
+  'Etc/GMT+1': '<-01>1',
+  'Etc/GMT+10': '<-10>10',
+  'Etc/GMT+11': '<-11>11',
+  'Etc/GMT+12': '<-12>12',
+  'Etc/GMT+2': '<-02>2',
+  'Etc/GMT+3': '<-03>3',
+  'Etc/GMT+4': '<-04>4',
+  'Etc/GMT+5': '<-05>5',
+  'Etc/GMT+6': '<-06>6',
+  'Etc/GMT+7': '<-07>7',
+  'Etc/GMT+8': '<-08>8',
+  'Etc/GMT+9': '<-09>9',
+  'Etc/GMT-1': '<+01>-1',
+  'Etc/GMT-10': '<+10>-10',
+  'Etc/GMT-11': '<+11>-11',
+  'Etc/GMT-12': '<+12>-12',
+  'Etc/GMT-2': '<+02>-2',
+  'Etc/GMT-3': '<+03>-3',
+  'Etc/GMT-4': '<+04>-4',
+  'Etc/GMT-5': '<+05>-5',
+  'Etc/GMT-6': '<+06>-6',
+  'Etc/GMT-7': '<+07>-7',
+  'Etc/GMT-8': '<+08>-8',
+  'Etc/GMT-9': '<+09>-9',
+  'Etc/UTC': 'UTC0',
+  'Europe/Amsterdam': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Andorra': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Astrakhan': '<+04>-4|+03/10800/0,+04/14400/1,+04/14400/0|fnmqo0/0,fs02k0/1,g35x80/0,gaq580/1,glvzw0/0,gtt6k0/1,h4m2k0/0,hcj980/1,hnc580/0,hv9bw0/1,i6f6k0/0,idzek0/1,ip5980/0,iwph80/1,j7vbw0/0,jffjw0/1,jqlek0/0,jyil80/1,k9bh80/0,kh8nw0/1,ks1jw0/0,kzyqk0/1,lb4l80/0,liot80/2,ne0t40/0,o4o580/2',
+  'Europe/Athens': 'EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Belgrade': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Berlin': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Bratislava': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Brussels': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Bucharest': 'EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Budapest': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Busingen': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Chisinau': 'EET-2EEST,M3.5.0,M10.5.0/3',
+  'Europe/Copenhagen': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Dublin': 'IST-1GMT0,M10.5.0,M3.5.0/1',
+  'Europe/Gibraltar': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Guernsey': 'GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Helsinki': 'EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Isle_of_Man': 'GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Istanbul': '<+03>-3|EET/7200/0,EEST/10800/1,+03/10800/0|fnmqo0/0,fs02k0/1,g35x80/0,gaq580/1,glvzw0/0,gtt6k0/1,h4m2k0/0,hcj980/1,hnc580/0,hv9bw0/1,i6f6k0/0,idzek0/1,ip5980/0,iwph80/1,j7vbw0/0,jffpg0/1,jqlk40/0,jyiqs0/1,k9bms0/0,kh8tg0/1,ks1pg0/0,kzyw40/1,lb4qs0/0,liqtg0/1,ltutg0/0,m1f1g0/1,mckw40/0,mki2s0/1,mvays0/0,n3a040/1,ne11g0/0,nly840/1,nxh1g0/0,o4oas0/1,od3p00/2',
+  'Europe/Jersey': 'GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Kaliningrad': 'EET-2|EET/7200/0,EEST/10800/1,+03/10800/0|fnmqo0/0,fs05c0/1,g36000/0,gaq800/1,glw2o0/0,gtt9c0/1,h4m5c0/0,hcjc00/1,hnc800/0,hv9eo0/1,i6f9c0/0,idzhc0/1,ip5c00/0,iwpk00/1,j7veo0/0,jffmo0/1,jqlhc0/0,jyio00/1,k9bk00/0,kh8qo0/1,ks1mo0/0,kzytc0/1,lb4o00/0,liow00/2,ne0vw0/0',
+  'Europe/Kirov': 'MSK-3|MSK/10800/0,MSD/14400/1,MSK/14400/0|fnmqo0/0,fs02k0/1,g35x80/0,gaq580/1,glvzw0/0,gtt6k0/1,h4m2k0/0,hcj980/1,hnc580/0,hv9bw0/1,i6f6k0/0,idzek0/1,ip5980/0,iwph80/1,j7vbw0/0,jffjw0/1,jqlek0/0,jyil80/1,k9bh80/0,kh8nw0/1,ks1jw0/0,kzyqk0/1,lb4l80/0,liot80/2,ne0t40/0',
+  'Europe/Kyiv': 'EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Lisbon': 'WET0WEST,M3.5.0/1,M10.5.0',
+  'Europe/Ljubljana': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/London': 'GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Luxembourg': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Madrid': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Malta': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Mariehamn': 'EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Minsk': '<+03>-3|EET/7200/0,EEST/10800/1,+03/10800/0|fnmqo0/0,fs05c0/1,g36000/0,gaq800/1,glw2o0/0,gtt9c0/1,h4m5c0/0,hcjc00/1,hnc800/0,hv9eo0/1,i6f9c0/0,idzhc0/1,ip5c00/0,iwpk00/1,j7veo0/0,jffmo0/1,jqlhc0/0,jyio00/1,k9bk00/0,kh8qo0/1,ks1mo0/0,kzytc0/1,lb4o00/0,liow00/2',
+  'Europe/Monaco': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Moscow': 'MSK-3|MSK/10800/0,MSD/14400/1,MSK/14400/0|fnmqo0/0,fs02k0/1,g35x80/0,gaq580/1,glvzw0/0,gtt6k0/1,h4m2k0/0,hcj980/1,hnc580/0,hv9bw0/1,i6f6k0/0,idzek0/1,ip5980/0,iwph80/1,j7vbw0/0,jffjw0/1,jqlek0/0,jyil80/1,k9bh80/0,kh8nw0/1,ks1jw0/0,kzyqk0/1,lb4l80/0,liot80/2,ne0t40/0',
+  'Europe/Oslo': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Paris': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Podgorica': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Prague': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Riga': 'EET-2EEST,M3.5.0/3,M10.5.0/4|EET/7200/0,EEST/10800/1|fnmqo0/0,gaqas0/1',
+  'Europe/Rome': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Samara': '<+04>-4|+04/14400/0,+05/18000/1,+04/14400/1,+03/10800/0|fnmqo0/0,frzzs0/1,g35ug0/0,gaq2g0/1,glvx40/0,gtt3s0/1,h4lzs0/0,hcj6g0/1,hnc2g0/0,hv9940/1,i6f3s0/0,idzbs0/1,ip56g0/0,iwpeg0/1,j7v940/0,jffh40/1,jqlbs0/0,jyiig0/1,k9beg0/0,kh8l40/1,ks1h40/0,kzyns0/2,lb4l80/3,liot80/0',
+  'Europe/San_Marino': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Sarajevo': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Saratov': '<+04>-4|+03/10800/0,+04/14400/1,+04/14400/0|fnmqo0/0,fs02k0/1,g35x80/0,gaq580/1,glvzw0/0,gtt6k0/1,h4m2k0/0,hcj980/1,hnc580/0,hv9bw0/1,i6f6k0/0,idzek0/1,ip5980/0,iwph80/1,j7vbw0/0,jffjw0/1,jqlek0/0,jyil80/1,k9bh80/0,kh8nw0/1,ks1jw0/0,kzyqk0/1,lb4l80/0,liot80/2,ne0t40/0,ohmt80/2',
+  'Europe/Simferopol': 'MSK-3|EET/7200/0,EEST/10800/1,MSK/14400/0,MSK/10800/0|fnmqo0/0,fs0840/1,g362s0/0,gaqas0/1,glw5g0/0,gttc40/1,h4m840/0,hcjes0/1,hncas0/0,hv9hg0/1,i6fc40/0,idzk40/1,ip5es0/0,iwpms0/1,j7vhg0/0,jffpg0/1,jqlk40/0,jyiqs0/1,k9bms0/0,kh8tg0/1,ks1pg0/0,kzyw40/1,lb4qs0/0,lioys0/1,ltutg0/0,m1f1g0/1,mckw40/0,mki2s0/1,mvays0/0,n382o0/2,ne0t40/3',
+  'Europe/Skopje': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Sofia': 'EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Stockholm': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Tallinn': 'EET-2EEST,M3.5.0/3,M10.5.0/4|EET/7200/0,EEST/10800/1|fnmqo0/0,gttc40/1',
+  'Europe/Tirane': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Ulyanovsk': '<+04>-4|+03/10800/0,+04/14400/1,+04/14400/0|fnmqo0/0,fs02k0/1,g35x80/0,gaq580/1,glvzw0/0,gtt6k0/1,h4m2k0/0,hcj980/1,hnc580/0,hv9bw0/1,i6f6k0/0,idzek0/1,ip5980/0,iwph80/1,j7vbw0/0,jffjw0/1,jqlek0/0,jyil80/1,k9bh80/0,kh8nw0/1,ks1jw0/0,kzyqk0/1,lb4l80/0,liot80/2,ne0t40/0,o4o580/2',
+  'Europe/Vaduz': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Vatican': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Vienna': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Vilnius': 'EET-2EEST,M3.5.0/3,M10.5.0/4|EET/7200/0,EEST/10800/1|fnmqo0/0,hcjes0/1',
+  'Europe/Volgograd': 'MSK-3|MSK/10800/0,MSD/14400/1,MSK/14400/0,+04/14400/0|fnmqo0/0,fs02k0/1,g35x80/0,gaq580/1,glvzw0/0,gtt6k0/1,h4m2k0/0,hcj980/1,hnc580/0,hv9bw0/1,i6f6k0/0,idzek0/1,ip5980/0,iwph80/1,j7vbw0/0,jffjw0/1,jqlek0/0,jyil80/1,k9bh80/0,kh8nw0/1,ks1jw0/0,kzyqk0/1,lb4l80/0,liot80/2,ne0t40/0,pha580/3,qlyvs0/0',
+  'Europe/Warsaw': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Zagreb': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Zurich': 'CET-1CEST,M3.5.0,M10.5.0/3',
+  'Indian/Antananarivo': 'EAT-3',
+  'Indian/Chagos': '<+06>-6',
+  'Indian/Christmas': '<+07>-7',
+  'Indian/Cocos': '<+0630>-6:30',
+  'Indian/Comoro': 'EAT-3',
+  'Indian/Kerguelen': '<+05>-5',
+  'Indian/Mahe': '<+04>-4',
+  'Indian/Maldives': '<+05>-5',
+  'Indian/Mauritius': '<+04>-4|+04/14400/0,+05/18000/1|fnmqo0/0,k9beg0/1,kh8ic0/0',
+  'Indian/Mayotte': 'EAT-3',
+  'Indian/Reunion': '<+04>-4',
+  'Pacific/Apia': '<+13>-13|-11/-39600/0,-10/-36000/1,+14/50400/1,+13/46800/0|fnmqo0/0,l9cp80/1,lj12w0/0,ls15k0/1,lx0h40/2,m1r5k0/3,mb46w0/2,mku6w0/3,mtu9k0/2,n3k9k0/3,nckc80/2,nmac80/3,nvaew0/2,o50ew0/3,oe0hk0/2,onqhk0/3,owqk80/2,p6gk80/3,pftlk0/2,ppjlk0/3,pyjo80/2,q89o80/3,qh9qw0/2,qqzqw0/3',
+  'Pacific/Auckland': 'NZST-12NZDT,M9.5.0,M4.1.0/3|NZDT/46800/1,NZST/43200/0|fnmqo0/0,frmew0/1,g1pdk0/0,gachk0/1,gksew0/0,gt2k80/1,h3ihk0/0,hbsmw0/1,hm8k80/0,huvo80/1,i4ymw0/0,idlqw0/1,inopk0/0,iwbtk0/1,j6es80/0,jf1w80/1,jp4uw0/0',
+  'Pacific/Bougainville': '<+11>-11|+10/36000/0,+11/39600/0|fnmqo0/0,nh90g0/1',
+  'Pacific/Chatham': '<+1245>-12:45<+1345>,M9.5.0/2:45,M4.1.0/3:45|+1345/49500/1,+1245/45900/0|fnmqo0/0,frmew0/1,g1pdk0/0,gachk0/1,gksew0/0,gt2k80/1,h3ihk0/0,hbsmw0/1,hm8k80/0,huvo80/1,i4ymw0/0,idlqw0/1,inopk0/0,iwbtk0/1,j6es80/0,jf1w80/1,jp4uw0/0',
+  'Pacific/Chuuk': '<+10>-10',
+  'Pacific/Easter': '<-06>6<-05>,M9.1.6/22,M4.1.6/22|-05/-18000/1,-06/-21600/0|fnmqo0/0,fragc0/1,g2gds0/0,ga0j00/1,gl6gg0/0,gsqlo0/1,h3wj40/0,hbgoc0/1,hmmls0/0,hujpo0/1,i5cog0/0,id9sc0/1,io2r40/0,ivzv00/1,j75sg0/0,jepxo0/1,jpvv40/0,jyiwc0/1,k8lxs0/0,kgj1o0/1,krc0g0/0,l0c0c0/1,la2340/0,lkuwc0/1,lq9f40/0,m380c0/1,m9pf40/0,mly300/1,mssgg0/0,n4o5o0/1,nbij40/0,o77700/1,obvsg0/0,opx9o0/1,oulv40/0,p8ncc0/1,pdbxs0/0,ppklo0/1,pxhv40/0,q8aoc0/1,qg7xs0/0,qr0r00/1,qyy0g0/0,r9qto0/1,ri11s0/0',
+  'Pacific/Efate': '<+11>-11',
+  'Pacific/Fakaofo': '<+13>-13|-11/-39600/0,+13/46800/0|fnmqo0/0,lx0jw0/1',
+  'Pacific/Fiji': '<+12>-12|+13/46800/1,+12/43200/0|fnmqo0/0,fqjiw0/1,ktto80/0,kzy1k0/1,laqxk0/0,lhl880/1,lth080/0,ly5iw0/1,mc72w0/0,mgvlk0/1,mva480/0,mzllg0/1,ned5k0/0,nibqw0/1,nx3880/0,o11tk0/1,og69k0/0,ojrw80/1,oywc80/0,p2hyw0/1,phmew0/0,pl81k0/1,q0pg80/0,q3y480/1,qllaw0/0,qn15k0/1',
+  'Pacific/Funafuti': '<+12>-12',
+  'Pacific/Galapagos': '<-06>6',
+  'Pacific/Gambier': '<-09>9',
+  'Pacific/Guadalcanal': '<+11>-11',
+  'Pacific/Guam': 'ChST-10|GST/36000/0,ChST/36000/0|fnmqo0/0,g5z2w0/1',
+  'Pacific/Honolulu': 'HST10',
+  'Pacific/Kanton': '<+13>-13',
+  'Pacific/Kiritimati': '<+14>-14',
+  'Pacific/Kosrae': '<+11>-11',
+  'Pacific/Kwajalein': '<+12>-12',
+  'Pacific/Majuro': '<+12>-12',
+  'Pacific/Marquesas': '<-0930>9:30',
+  'Pacific/Midway': 'SST11',
+  'Pacific/Nauru': '<+12>-12',
+  'Pacific/Niue': '<-11>11',
+  'Pacific/Norfolk': '<+11>-11<+12>,M10.1.0,M4.1.0/3|+1130/41400/0,+11/39600/0,+12/43200/1|fnmqo0/0,nvney0/1,pywpo0/2',
+  'Pacific/Noumea': '<+11>-11',
+  'Pacific/Pago_Pago': 'SST11',
+  'Pacific/Palau': '<+09>-9',
+  'Pacific/Pitcairn': '<-08>8',
+  'Pacific/Pohnpei': '<+11>-11',
+  'Pacific/Port_Moresby': '<+10>-10',
+  'Pacific/Rarotonga': '<-10>10',
+  'Pacific/Saipan': 'ChST-10|GST/36000/0,ChST/36000/0|fnmqo0/0,g5z2w0/1',
+  'Pacific/Tahiti': '<-10>10',
+  'Pacific/Tarawa': '<+12>-12',
+  'Pacific/Tongatapu': '<+13>-13|+14/50400/1,+13/46800/0|fnmqo0/0,frmc40/1,g3i440/0,g7tlc0/1,gm86s0/0,gqjo00/1,og66s0/0,ojrtg0/1',
+  'Pacific/Wake': '<+12>-12',
+  'Pacific/Wallis': '<+12>-12',
+  'UTC': 'UTC0'
+};
@@ -40,6 +40,23 @@ export function calculateConfidence(
     minDist = Math.min(minDist, distHole);
   }
   
+  return confidenceFromDistance(minDist, candidateCount);
+}
+
+/**
+ * Convert a precomputed edge distance to a confidence score.
+ * 
+ * Shared by calculateConfidence() and the prepared-polygon resolver path,
+ * which measures the distance on typed rings instead of Point arrays.
+ * 
+ * @param minDist - Distance to nearest polygon edge (degrees)
+ * @param candidateCount - Number of candidate countries found (ambiguity penalty)
+ * @returns Confidence score between 0.0 and 1.0
+ */
+export function confidenceFromDistance(
+  minDist: number,
+  candidateCount: number = 1
+): number {
   // Convert distance (degrees) to confidence
   // 0.1° ≈ 11km at equator, good threshold for "far from border"
   let baseConfidence: number;
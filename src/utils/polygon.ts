@@ -1,8 +1,17 @@
 /**
  * Shared polygon processing utilities.
+ * 
+ * Country positions come in three flavors:
+ * - getPolygonCentroid()/getRingCentroid(): vertex mean (cheap, biased toward
+ *   detailed coastlines)
+ * - getAreaCentroid(): area-weighted centroid (the center of mass, which may
+ *   lie outside a crescent-shaped or archipelago country)
+ * - getRepresentativePoint(): pole of inaccessibility of the largest part
+ *   (always inside the country)
  */
 
-import { Point } from '../pip';
+import { Point, RingCoords } from '../pip';
+import { PreparedPart, distanceToPartEdge, pointInPart } from '../data/prepared';
 
 /**
  * Calculate bounding box for a polygon.
@@ -32,6 +41,277 @@ export function getPolygonCentroid(polygon: Point[]): Point {
   return [avgLat, avgLon];
 }
 
+/**
+ * Calculate centroid (vertex mean) of a flat interleaved ring.
+ * 
+ * Same result as getPolygonCentroid() for the equivalent Point[] ring.
+ */
+export function getRingCentroid(ring: RingCoords): Point {
+  const n = ring.length >> 1;
+  if (n === 0) {
+    return [0.0, 0.0];
+  }
+  
+  let sumLat = 0;
+  let sumLon = 0;
+  for (let i = 0; i < n; i++) {
+    sumLat += ring[i * 2];
+    sumLon += ring[i * 2 + 1];
+  }
+  return [sumLat / n, sumLon / n];
+}
+
+/**
+ * Signed area (shoelace formula, square degrees) and area centroid of a flat interleaved ring.
+ * 
+ * Coordinates are shifted to the first vertex first, which keeps the sums
+ * precise for small rings far from (0, 0). The ring must not cross the
+ * antimeridian (the dataset cuts rings at ±180°).
+ */
+export function getRingAreaCentroid(ring: RingCoords): { area: number; centroid: Point } {
+  const n = ring.length >> 1;
+  if (n === 0) {
+    return { area: 0, centroid: [0.0, 0.0] };
+  }
+  
+  const lat0 = ring[0];
+  const lon0 = ring[1];
+  let twiceArea = 0;
+  let sumLat = 0;
+  let sumLon = 0;
+  let j = n - 1;
+  for (let i = 0; i < n; i++) {
+    const latI = ring[i * 2] - lat0;
+    const lonI = ring[i * 2 + 1] - lon0;
+    const latJ = ring[j * 2] - lat0;
+    const lonJ = ring[j * 2 + 1] - lon0;
+    const cross = lonJ * latI - lonI * latJ;
+    twiceArea += cross;
+    sumLat += (latJ + latI) * cross;
+    sumLon += (lonJ + lonI) * cross;
+    j = i;
+  }
+  
+  if (twiceArea === 0) {
+    return { area: 0, centroid: getRingCentroid(ring) };
+  }
+  return {
+    area: twiceArea / 2,
+    centroid: [lat0 + sumLat / (3 * twiceArea), lon0 + sumLon / (3 * twiceArea)]
+  };
+}
+
+/**
+ * Area (square degrees) and area centroid of a polygon part, holes subtracted.
+ */
+function getPartAreaCentroid(part: PreparedPart): { area: number; centroid: Point } {
+  const exterior = getRingAreaCentroid(part.exterior.coords);
+  let area = Math.abs(exterior.area);
+  let sumLat = exterior.centroid[0] * area;
+  let sumLon = exterior.centroid[1] * area;
+  for (const hole of part.holes) {
+    const { area: holeArea, centroid } = getRingAreaCentroid(hole.coords);
+    area -= Math.abs(holeArea);
+    sumLat -= centroid[0] * Math.abs(holeArea);
+    sumLon -= centroid[1] * Math.abs(holeArea);
+  }
+  
+  if (area <= 0) {
+    return { area: 0, centroid: exterior.centroid };
+  }
+  return { area, centroid: [sumLat / area, sumLon / area] };
+}
+
+/**
+ * Approximate surface area of a part: square degrees shrink with cos(lat),
+ * so high-latitude parts do not outweigh larger ones nearer the equator.
+ */
+function getPartWeight(areaCentroid: { area: number; centroid: Point }): number {
+  return areaCentroid.area * Math.cos(areaCentroid.centroid[0] * Math.PI / 180);
+}
+
+/**
+ * Calculate the area-weighted centroid of a polygon's parts.
+ * 
+ * Each part's centroid is computed in degree coordinates (holes subtracted);
+ * parts are weighted by their approximate surface area.
+ * 
+ * Design Decision: Countries cut at ±180° (Fiji, Kiribati, New Zealand's
+ * Chatham Islands) have parts on both sides of the antimeridian. Each part's
+ * longitude is shifted by ±360° to lie within 180° of the largest part's
+ * before weighting, and the result is brought back into [-180, 180].
+ * 
+ * @param parts - Prepared polygon parts
+ * @returns [lat, lon] centroid, or null if the parts have no area
+ */
+export function getAreaCentroid(parts: PreparedPart[]): Point | null {
+  const areaCentroids = parts.map(getPartAreaCentroid);
+  const weights = areaCentroids.map(getPartWeight);
+  let reference = 0;
+  for (let i = 1; i < weights.length; i++) {
+    if (weights[i] > weights[reference]) {
+      reference = i;
+    }
+  }
+  const referenceLon = areaCentroids.length > 0 ? areaCentroids[reference].centroid[1] : 0;
+  
+  let totalWeight = 0;
+  let sumLat = 0;
+  let sumLon = 0;
+  areaCentroids.forEach(({ centroid: [lat, lon] }, i) => {
+    if (lon - referenceLon > 180) {
+      lon -= 360;
+    } else if (lon - referenceLon < -180) {
+      lon += 360;
+    }
+    totalWeight += weights[i];
+    sumLat += lat * weights[i];
+    sumLon += lon * weights[i];
+  });
+  
+  if (totalWeight <= 0) {
+    return null;
+  }
+  let lon = sumLon / totalWeight;
+  if (lon > 180) {
+    lon -= 360;
+  } else if (lon < -180) {
+    lon += 360;
+  }
+  return [sumLat / totalWeight, lon];
+}
+
+// A square cell [lat, lon] ± half of the pole of inaccessibility search
+interface Cell {
+  lat: number;
+  lon: number;
+  half: number;
+  distance: number; // Signed distance of the center to the part's edges (negative outside)
+  max: number; // Upper bound of the distance anywhere in the cell
+}
+
+function makeCell(lat: number, lon: number, half: number, part: PreparedPart): Cell {
+  const edge = distanceToPartEdge(lat, lon, part);
+  const distance = pointInPart(lat, lon, part) ? edge : -edge;
+  return { lat, lon, half, distance, max: distance + half * Math.SQRT2 };
+}
+
+// Binary max-heap of cells by their distance bound
+function pushCell(heap: Cell[], cell: Cell): void {
+  let i = heap.push(cell) - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].max >= cell.max) {
+      break;
+    }
+    heap[i] = heap[parent];
+    i = parent;
+  }
+  heap[i] = cell;
+}
+
+function popCell(heap: Cell[]): Cell {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      if (left >= heap.length) {
+        break;
+      }
+      const child = left + 1 < heap.length && heap[left + 1].max > heap[left].max ? left + 1 : left;
+      if (heap[child].max <= last.max) {
+        break;
+      }
+      heap[i] = heap[child];
+      i = child;
+    }
+    heap[i] = last;
+  }
+  return top;
+}
+
+/**
+ * Find the pole of inaccessibility of a polygon part: the interior point
+ * farthest from its edges (the "polylabel" algorithm).
+ * 
+ * Quadtree search over the bounding box: cells are split best-first until no
+ * cell can hold a point more than `precision` farther from the edges than
+ * the best one found.
+ * 
+ * @param part - Prepared polygon part
+ * @param precision - Search precision in degrees (default: 1/1000 of the part's size)
+ * @returns The point and its distance to the nearest edge in degrees (0 for degenerate parts)
+ */
+export function getPoleOfInaccessibility(
+  part: PreparedPart,
+  precision?: number
+): { point: Point; distance: number } {
+  const [minLat, maxLat, minLon, maxLon] = part.exterior.bbox;
+  const height = maxLat - minLat;
+  const width = maxLon - minLon;
+  const cellSize = Math.min(width, height);
+  const tolerance = precision !== undefined ? precision : Math.max(width, height) / 1000;
+  if (!(cellSize > 0)) {
+    return { point: [minLat, minLon], distance: 0 };
+  }
+  
+  const heap: Cell[] = [];
+  const half = cellSize / 2;
+  for (let lat = minLat; lat < maxLat; lat += cellSize) {
+    for (let lon = minLon; lon < maxLon; lon += cellSize) {
+      pushCell(heap, makeCell(lat + half, lon + half, half, part));
+    }
+  }
+  
+  // Start from the area centroid, which is often close
+  const centroid = getPartAreaCentroid(part).centroid;
+  let best = makeCell(centroid[0], centroid[1], 0, part);
+  const center = makeCell(minLat + height / 2, minLon + width / 2, 0, part);
+  if (center.distance > best.distance) {
+    best = center;
+  }
+  
+  while (heap.length > 0) {
+    const cell = popCell(heap);
+    if (cell.distance > best.distance) {
+      best = cell;
+    }
+    if (cell.max - best.distance <= tolerance) {
+      continue;
+    }
+    const quarter = cell.half / 2;
+    pushCell(heap, makeCell(cell.lat - quarter, cell.lon - quarter, quarter, part));
+    pushCell(heap, makeCell(cell.lat - quarter, cell.lon + quarter, quarter, part));
+    pushCell(heap, makeCell(cell.lat + quarter, cell.lon - quarter, quarter, part));
+    pushCell(heap, makeCell(cell.lat + quarter, cell.lon + quarter, quarter, part));
+  }
+  
+  return { point: [best.lat, best.lon], distance: Math.max(best.distance, 0) };
+}
+
+/**
+ * Find a representative point of a polygon: the pole of inaccessibility of
+ * its largest part, which always lies inside the polygon (unless every part
+ * is degenerate).
+ * 
+ * @param parts - Prepared polygon parts
+ * @returns [lat, lon] point, or null for a polygon without parts
+ */
+export function getRepresentativePoint(parts: PreparedPart[]): Point | null {
+  let largest: PreparedPart | null = null;
+  let largestWeight = -Infinity;
+  for (const part of parts) {
+    const weight = getPartWeight(getPartAreaCentroid(part));
+    if (weight > largestWeight) {
+      largest = part;
+      largestWeight = weight;
+    }
+  }
+  return largest !== null ? getPoleOfInaccessibility(largest).point : null;
+}
+
 /**
  * Convert GeoJSON coordinates [lon, lat] to internal format [(lat, lon), ...].
  * 
@@ -0,0 +1,33 @@
+/**
+ * Worker script entry point (built to dist/worker.js and dist/worker.iife.js).
+ * 
+ * Connects a message handler (see handler.ts) to the worker's message port:
+ * parentPort in a Node.js worker_threads worker, the global scope in a
+ * browser Web Worker.
+ */
+
+import { createWorkerHandler, WorkerRequest } from './handler';
+import { isNodeEnvironment } from '../data/sources';
+
+const handle = createWorkerHandler();
+
+if (isNodeEnvironment()) {
+  let workerThreads: typeof import('worker_threads');
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    workerThreads = require('worker_threads');
+  } catch (error: unknown) {
+    throw new Error(`Failed to load Node.js modules: ${(error as Error).message}`);
+  }
+  const port = workerThreads.parentPort;
+  if (!port) {
+    throw new Error('The geo-intel-offline worker script must run in a worker thread');
+  }
+  port.on('message', async (request: WorkerRequest) => {
+    port.postMessage(await handle(request));
+  });
+} else {
+  self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+    self.postMessage(await handle(event.data));
+  });
+}
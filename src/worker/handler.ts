@@ -0,0 +1,111 @@
+/**
+ * Worker side of the worker-backed resolver.
+ * 
+ * A worker owns one DataLoader and answers structured messages from the
+ * main thread (see pool.ts). Every request carries an ID that is echoed in
+ * its response; failures are reported as { name, message } since Error
+ * objects do not survive structured cloning in every runtime.
+ * 
+ * Message flow:
+ * 1. init: create the loader (data directory or CDN base URL)
+ * 2. resolve / resolveMany / resolveByCountry: run the resolver against it
+ * 3. registerLayer / unregisterLayer: manage custom layers in the worker's loader
+ */
+
+import { DataLoader } from '../data/loader';
+import { CustomLayerData, LayerGeoJson } from '../data/layers';
+import { resolve, resolveMany, ResolveOptions, CoordinateBatch } from '../resolver';
+import { resolveByCountry, ReverseResolveOptions } from '../resolver/reverse';
+
+/**
+ * Data each worker loads.
+ */
+export interface WorkerDataOptions {
+  dataDir?: string; // Data directory read by each worker (Node.js, default: ./data)
+  baseUrl?: string; // Base URL loaded with loadFromCDN() in each worker (instead of dataDir)
+  format?: 'json' | 'binary'; // baseUrl only (default: json)
+  useGzip?: boolean; // baseUrl only (default: true)
+  timezones?: boolean; // baseUrl only (default: true)
+  cache?: boolean; // baseUrl only: cache downloads in IndexedDB (default: false)
+  lazyPolygons?: boolean; // Load per-country polygon chunks on demand (default: false)
+  verifyIntegrity?: boolean; // Check data files against manifest.json when present (default: true)
+}
+
+export type WorkerRequestBody =
+  | { type: 'init'; data: WorkerDataOptions }
+  | { type: 'resolve'; lat: number; lon: number; options: ResolveOptions }
+  | { type: 'resolveMany'; points: CoordinateBatch; options: ResolveOptions }
+  | { type: 'resolveByCountry'; country: string; options: ReverseResolveOptions }
+  | { type: 'registerLayer'; name: string; data: LayerGeoJson | CustomLayerData }
+  | { type: 'unregisterLayer'; name: string };
+
+export type WorkerRequest = WorkerRequestBody & { id: number };
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: { name: string; message: string } };
+
+/**
+ * Create the loader described by the init message.
+ */
+async function createLoader(data: WorkerDataOptions): Promise<DataLoader> {
+  const loaderOptions = { lazyPolygons: data.lazyPolygons, verifyIntegrity: data.verifyIntegrity };
+  if (data.baseUrl === undefined) {
+    return new DataLoader(data.dataDir, loaderOptions);
+  }
+  const loader = new DataLoader();
+  await loader.loadFromCDN(data.baseUrl, {
+    ...loaderOptions,
+    format: data.format,
+    useGzip: data.useGzip,
+    timezones: data.timezones,
+    cache: data.cache
+  });
+  return loader;
+}
+
+/**
+ * Create a message handler owning one DataLoader.
+ * 
+ * The handler never rejects: errors are returned as error responses.
+ * Requests sent before the init message fail.
+ * 
+ * @returns Function answering one request
+ */
+export function createWorkerHandler(): (request: WorkerRequest) => Promise<WorkerResponse> {
+  let ready: Promise<DataLoader> | null = null;
+
+  const handle = async (request: WorkerRequestBody): Promise<unknown> => {
+    if (request.type === 'init') {
+      ready = createLoader(request.data);
+      await ready;
+      return null;
+    }
+    if (!ready) {
+      throw new Error(`Worker received a "${request.type}" request before its init message`);
+    }
+    const loader = await ready;
+    switch (request.type) {
+      case 'resolve':
+        return resolve(request.lat, request.lon, loader, request.options);
+      case 'resolveMany':
+        return resolveMany(request.points, loader, request.options);
+      case 'resolveByCountry':
+        return resolveByCountry(request.country, loader, request.options);
+      case 'registerLayer':
+        loader.layers.register(request.name, request.data);
+        return null;
+      case 'unregisterLayer':
+        return loader.layers.unregister(request.name);
+    }
+  };
+
+  return async (request: WorkerRequest): Promise<WorkerResponse> => {
+    try {
+      return { id: request.id, result: await handle(request) };
+    } catch (error: unknown) {
+      const { name, message } = error as Error;
+      return { id: request.id, error: { name, message } };
+    }
+  };
+}
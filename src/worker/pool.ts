@@ -0,0 +1,235 @@
+/**
+ * Main-thread side of the worker-backed resolver: a pool of workers, each
+ * owning its own DataLoader (see handler.ts).
+ * 
+ * Design Decisions:
+ * - Workers are started and sent their init message up front, so data
+ *   loads in parallel with the first requests being queued
+ * - A request goes to the worker with the fewest pending requests;
+ *   batches are split by the caller (see WorkerResolver in index.ts)
+ * - Node.js worker_threads workers and browser Web Workers are wrapped
+ *   behind the same WorkerLike shape; createWorker lets bundlers (or tests)
+ *   supply the worker themselves
+ * - A worker that crashes or exits (Node.js 'exit' event) rejects its
+ *   pending requests and is dropped from the pool; the other workers keep
+ *   serving. Once every worker is gone, requests fail with the last error
+ */
+
+import { isNodeEnvironment } from '../data/sources';
+import { WorkerDataOptions, WorkerRequestBody, WorkerResponse } from './handler';
+
+/**
+ * The parts of a Node.js worker_threads Worker or a browser Web Worker used by the pool.
+ */
+export interface WorkerLike {
+  postMessage(message: unknown): void;
+  terminate(): unknown;
+  on?(event: string, listener: (value: unknown) => void): unknown; // Node.js
+  addEventListener?(type: string, listener: (event: { data?: unknown; message?: string }) => void): void; // Browser
+}
+
+export interface WorkerPoolOptions {
+  size?: number; // Number of workers (default: 1)
+  script?: string | URL; // Worker script (dist/worker.js in Node.js, dist/worker.iife.js in browsers)
+  createWorker?: () => WorkerLike; // Start a worker running the worker script (instead of script)
+  data?: WorkerDataOptions; // Data each worker loads
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: WorkerLike;
+  pending: Map<number, PendingRequest>;
+}
+
+/**
+ * Start a worker running a script file or URL.
+ */
+function spawnWorker(script: string | URL): WorkerLike {
+  if (typeof Worker !== 'undefined') {
+    return new Worker(script);
+  }
+  if (isNodeEnvironment()) {
+    let workerThreads: typeof import('worker_threads');
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      workerThreads = require('worker_threads');
+    } catch (error: unknown) {
+      throw new Error(`Failed to load Node.js modules: ${(error as Error).message}`);
+    }
+    return new workerThreads.Worker(script);
+  }
+  throw new Error('Workers are not supported in this environment (no Web Worker or worker_threads)');
+}
+
+/**
+ * Convert an error reported by a worker back to an Error.
+ */
+function toError(error: { name: string; message: string }): Error {
+  const result = new Error(error.message);
+  result.name = error.name;
+  return result;
+}
+
+/**
+ * A fixed-size pool of resolver workers.
+ */
+export class WorkerPool {
+  private workers: PoolWorker[] = [];
+  private nextId = 1;
+  private terminated = false;
+  private lastError: Error | null = null; // Why the last worker was dropped
+
+  constructor(options: WorkerPoolOptions = {}) {
+    const size = options.size !== undefined ? options.size : 1;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Worker pool size must be a positive integer. Got: ${size}`);
+    }
+    const script = options.script;
+    const createWorker = options.createWorker || (script !== undefined ? () => spawnWorker(script) : undefined);
+    if (!createWorker) {
+      throw new Error(
+        `A worker script is required: pass script (e.g. require.resolve('geo-intel-offline/dist/worker.js') ` +
+        `in Node.js, or the URL of dist/worker.iife.js in browsers) or a createWorker function`
+      );
+    }
+
+    for (let i = 0; i < size; i++) {
+      const poolWorker: PoolWorker = { worker: createWorker(), pending: new Map() };
+      this.listen(poolWorker);
+      this.workers.push(poolWorker);
+      // Init failures are reported again by every later request
+      this.send(poolWorker, { type: 'init', data: options.data || {} }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Number of workers (crashed and exited workers are not counted).
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Send a request to a worker.
+   * 
+   * @param body - Request message
+   * @param index - Worker to use (default: the one with the fewest pending requests)
+   * @returns The worker's result
+   * @throws Error reported by the worker, or if the worker crashed or exited, no
+   *   worker is left or the pool was terminated
+   */
+  request<T>(body: WorkerRequestBody, index?: number): Promise<T> {
+    const poolWorker = index !== undefined
+      ? this.workers[index]
+      : this.workers.reduce<PoolWorker | undefined>(
+        (best, w) => (best === undefined || w.pending.size < best.pending.size ? w : best), undefined);
+    if (!poolWorker) {
+      return Promise.reject(this.unavailableError());
+    }
+    return this.send(poolWorker, body) as Promise<T>;
+  }
+
+  /**
+   * Send a request to every worker.
+   * 
+   * @returns The workers' results, in worker order
+   * @throws Error if no worker is left (see request())
+   */
+  broadcast<T>(body: WorkerRequestBody): Promise<T[]> {
+    if (this.workers.length === 0) {
+      return Promise.reject(this.unavailableError());
+    }
+    return Promise.all(this.workers.map((_, i) => this.request<T>(body, i)));
+  }
+
+  /**
+   * Stop all workers. Pending requests are rejected.
+   */
+  async terminate(): Promise<void> {
+    if (this.terminated) {
+      return;
+    }
+    this.terminated = true;
+    const error = new Error('Worker resolver was terminated');
+    await Promise.all(this.workers.map(async w => {
+      this.fail(w, error);
+      await w.worker.terminate();
+    }));
+  }
+
+  private unavailableError(): Error {
+    if (this.terminated) {
+      return new Error('Worker resolver was terminated');
+    }
+    return this.lastError || new Error('No workers left in the pool');
+  }
+
+  private send(poolWorker: PoolWorker, body: WorkerRequestBody): Promise<unknown> {
+    if (this.terminated) {
+      return Promise.reject(new Error('Worker resolver was terminated'));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      poolWorker.pending.set(id, { resolve, reject });
+      poolWorker.worker.postMessage({ ...body, id });
+    });
+  }
+
+  private listen(poolWorker: PoolWorker): void {
+    const onMessage = (message: unknown) => {
+      const response = message as WorkerResponse;
+      const request = poolWorker.pending.get(response.id);
+      if (!request) {
+        return;
+      }
+      poolWorker.pending.delete(response.id);
+      if ('error' in response) {
+        request.reject(toError(response.error));
+      } else {
+        request.resolve(response.result);
+      }
+    };
+    const onError = (error: Error) => {
+      this.drop(poolWorker, new Error(`Worker crashed: ${error.message}`));
+    };
+
+    const worker = poolWorker.worker;
+    if (worker.on) {
+      worker.on('message', onMessage);
+      worker.on('error', error => onError(error as Error));
+      // Also after 'error'; the worker is dropped by then
+      worker.on('exit', code => this.drop(poolWorker, new Error(`Worker exited with code ${code}`)));
+    } else if (worker.addEventListener) {
+      worker.addEventListener('message', event => onMessage(event.data));
+      worker.addEventListener('error', event => onError(new Error(event.message || 'unknown error')));
+    } else {
+      throw new Error('Workers must support on() (worker_threads) or addEventListener() (Web Workers)');
+    }
+  }
+
+  /**
+   * Reject a crashed or exited worker's pending requests and remove it from the pool.
+   */
+  private drop(poolWorker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (this.terminated || index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    this.lastError = error;
+    this.fail(poolWorker, error);
+    // Web Workers keep running after an uncaught error
+    Promise.resolve(poolWorker.worker.terminate()).catch(() => undefined);
+  }
+
+  private fail(poolWorker: PoolWorker, error: Error): void {
+    for (const request of poolWorker.pending.values()) {
+      request.reject(error);
+    }
+    poolWorker.pending.clear();
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Tests for batch forward geocoding (resolveMany).
+ * 
+ * Tests cover:
+ * - Parity with single-point resolve()
+ * - Tuple arrays and flat typed arrays
+ * - Duplicate points and ocean points
+ * - Invalid input handling
+ */
+
+import { resolve, resolveMany, GeoIntelResult, DataLoader } from '../src/index';
+
+describe('Batch Resolution Tests', () => {
+  let loader: DataLoader;
+
+  const points: [number, number][] = [
+    [40.7128, -74.0060],  // New York
+    [51.5074, -0.1278],   // London
+    [35.6762, 139.6503],  // Tokyo
+    [-33.8688, 151.2093], // Sydney
+    [0.0, -30.0]          // Atlantic Ocean
+  ];
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data');
+    await loader.load();
+  });
+
+  test('should return one result per point in input order', async () => {
+    const results = await resolveMany(points, { loader });
+
+    expect(results).toHaveLength(points.length);
+    results.forEach(r => expect(r).toBeInstanceOf(GeoIntelResult));
+    expect(results.map(r => r.iso2)).toEqual(['US', 'GB', 'JP', 'AU', null]);
+  });
+
+  test('should match single-point resolve() results', async () => {
+    const results = await resolveMany(points, { loader });
+
+    for (let i = 0; i < points.length; i++) {
+      const single = await resolve(points[i][0], points[i][1], { loader });
+      expect(results[i].toDict()).toEqual(single.toDict());
+    }
+  });
+
+  test('should accept flat typed arrays', async () => {
+    const flat = new Float64Array(points.length * 2);
+    points.forEach(([lat, lon], i) => {
+      flat[i * 2] = lat;
+      flat[i * 2 + 1] = lon;
+    });
+
+    const results = await resolveMany(flat, { loader });
+    expect(results.map(r => r.iso2)).toEqual(['US', 'GB', 'JP', 'AU', null]);
+  });
+
+  test('should handle duplicate points', async () => {
+    const results = await resolveMany(
+      [[52.5200, 13.4050], [52.5200, 13.4050], [52.5201, 13.4051]],
+      { loader }
+    );
+
+    expect(results.map(r => r.iso2)).toEqual(['DE', 'DE', 'DE']);
+  });
+
+  test('should return empty list for empty input', async () => {
+    expect(await resolveMany([], { loader })).toEqual([]);
+  });
+
+  test('should reject flat arrays with odd length', async () => {
+    await expect(resolveMany([40.7, -74.0, 51.5], { loader })).rejects.toThrow();
+  });
+
+  test('should reject out-of-range coordinates', async () => {
+    await expect(resolveMany([[100, 0]], { loader })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for the binary data format.
+ * 
+ * Tests cover:
+ * - Polygon and geohash index round trips
+ * - Header validation (magic, version, truncation)
+ * - Parity between binary and JSON data for every country
+ * - DataLoader binary loading from the data directory and CDN
+ * - JSON-only data directories (backwards compatibility)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { resolve, DataLoader } from '../src/index';
+import { PolygonsData } from '../src/data/loader';
+import {
+  PackedPolygons,
+  PackedGeohashIndex,
+  encodePolygons,
+  encodeGeohashIndex
+} from '../src/data/binary';
+
+const POLYGONS: PolygonsData = {
+  '1': { exterior: [[0, 0], [0, 10], [10, 10], [10, 0]], holes: [[[2, 2], [2, 3], [3, 3], [3, 2]]] },
+  '7': {
+    exterior: [[20.123456, -30.5], [20.123456, -29.5], [21, -29.5]],
+    multi: true,
+    exteriors: [[[20.123456, -30.5], [20.123456, -29.5], [21, -29.5]], [[-45.000001, 170], [-45, 179.999999], [-44, 170]]]
+  }
+};
+
+const INDEX = { 's00000': [1], 's00001': [1, 7], 'kp': [7] };
+
+function readGzipJson(filename: string): any {
+  return JSON.parse(zlib.gunzipSync(fs.readFileSync(path.join('data', filename))).toString('utf-8'));
+}
+
+describe('Binary Data Format Tests', () => {
+  test('should round-trip polygons losslessly', () => {
+    const packed = new PackedPolygons(encodePolygons(POLYGONS));
+
+    expect(packed.ids).toEqual([1, 7]);
+    expect(packed.has(7)).toBe(true);
+    expect(packed.has(2)).toBe(false);
+    expect(packed.toPolygonsData()).toEqual(POLYGONS);
+  });
+
+  test('should round-trip the geohash index', () => {
+    const packed = new PackedGeohashIndex(encodeGeohashIndex(INDEX));
+
+    expect(packed.size).toBe(3);
+    expect(packed.get('s00001')).toEqual([1, 7]);
+    expect(packed.get('kp')).toEqual([7]);
+    expect(packed.get('s0000')).toBeUndefined();
+    expect(packed.get('zzzzzz')).toBeUndefined();
+    expect(packed.toObject()).toEqual(INDEX);
+  });
+
+  test('should accept unaligned byte views', () => {
+    const encoded = new Uint8Array(encodePolygons(POLYGONS));
+    const unaligned = new Uint8Array(encoded.length + 1);
+    unaligned.set(encoded, 1);
+
+    const packed = new PackedPolygons(unaligned.subarray(1));
+
+    expect(packed.toPolygonsData()).toEqual(POLYGONS);
+  });
+
+  test('should reject invalid binary data', () => {
+    const polygons = encodePolygons(POLYGONS);
+    const newerVersion = polygons.slice(0);
+    new DataView(newerVersion).setUint16(4, 99, true);
+
+    expect(() => new PackedPolygons(encodeGeohashIndex(INDEX))).toThrow('expected magic "GIPG"');
+    expect(() => new PackedPolygons(newerVersion)).toThrow('Unsupported binary data version 99');
+    expect(() => new PackedPolygons(polygons.slice(0, polygons.byteLength - 4))).toThrow('truncated');
+    expect(() => new PackedGeohashIndex(new ArrayBuffer(8))).toThrow('shorter than');
+  });
+
+  test('should reject data the format cannot represent', () => {
+    expect(() => encodePolygons({ 'AB': { exterior: [[0, 0], [0, 1], [1, 1]] } })).toThrow('integer feature IDs');
+    expect(() => encodePolygons({ '1': { exterior: [[0, 0], [0, 1], [3000, 1]] } })).toThrow('overflows Int32');
+    expect(() => encodeGeohashIndex({ 'é': [1] })).toThrow('ASCII');
+  });
+
+  test('bundled binary files should match the JSON data files', () => {
+    const loader = new DataLoader('./data');
+    loader.setPolygonsBinary(zlib.gunzipSync(fs.readFileSync('data/polygons.bin.gz')));
+    loader.setGeohashIndexBinary(zlib.gunzipSync(fs.readFileSync('data/geohash_index.bin.gz')));
+
+    // Compare rings per country; the JSON files differ in which optional fields they spell out
+    const polygons: PolygonsData = readGzipJson('polygons.json.gz');
+    expect(Object.keys(loader.polygons).sort()).toEqual(Object.keys(polygons).sort());
+    for (const [id, polygon] of Object.entries(polygons)) {
+      const decoded = loader.polygons[id];
+      expect(decoded.exteriors || [decoded.exterior]).toEqual(polygon.multi && polygon.exteriors ? polygon.exteriors : [polygon.exterior]);
+      expect(decoded.holes || []).toEqual(polygon.holes || []);
+    }
+    expect(loader.geohashIndex).toEqual(readGzipJson('geohash_index.json.gz'));
+  });
+
+  describe('DataLoader', () => {
+    let jsonDir: string;
+
+    beforeAll(() => {
+      jsonDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geo-intel-json-'));
+      for (const filename of fs.readdirSync('data').filter(name => name.endsWith('.json.gz'))) {
+        fs.copyFileSync(path.join('data', filename), path.join(jsonDir, filename));
+      }
+    });
+
+    afterAll(() => {
+      fs.rmSync(jsonDir, { recursive: true, force: true });
+    });
+
+    test('should resolve identically from binary and JSON data', async () => {
+      const binaryLoader = new DataLoader('./data');
+      const jsonLoader = new DataLoader(jsonDir);
+      await binaryLoader.load();
+      await jsonLoader.load();
+
+      const points: [number, number][] = [
+        [40.7128, -74.0060], [51.5074, -0.1278], [-33.8688, 151.2093],
+        [35.6762, 139.6503], [-22.9068, -43.1729], [0, 0], [64.1466, -21.9426]
+      ];
+      for (const [lat, lon] of points) {
+        const fromBinary = await resolve(lat, lon, { loader: binaryLoader });
+        const fromJson = await resolve(lat, lon, { loader: jsonLoader });
+        expect(fromBinary.toDict()).toEqual(fromJson.toDict());
+      }
+    });
+
+    test('should load binary data from CDN', async () => {
+      const files: { [filename: string]: Buffer } = {
+        'geohash_index.bin': zlib.gunzipSync(fs.readFileSync('data/geohash_index.bin.gz')),
+        'polygons.bin': zlib.gunzipSync(fs.readFileSync('data/polygons.bin.gz')),
+        'metadata.json': zlib.gunzipSync(fs.readFileSync('data/metadata.json.gz'))
+      };
+      const requested: string[] = [];
+      const originalFetch = global.fetch;
+      global.fetch = jest.fn(async (url: string | URL | Request) => {
+        const filename = String(url).split('/').pop()!;
+        requested.push(filename);
+        return files[filename]
+          ? new Response(new Uint8Array(files[filename]))
+          : new Response(null, { status: 404, statusText: 'Not Found' });
+      }) as typeof fetch;
+
+      try {
+        const loader = new DataLoader();
+        await loader.loadFromCDN('https://cdn.example.com/data/', { format: 'binary', useGzip: false, timezones: false });
+        const result = await resolve(40.7128, -74.0060, { loader });
+
+        expect(requested.sort()).toEqual(['geohash_index.bin', 'manifest.json', 'metadata.json', 'polygons.bin']);
+        expect(result.iso2).toBe('US');
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for the persistent dataset cache of CDN loads.
+ * 
+ * Tests cover:
+ * - Offline loading from the cache (eager and lazy polygons)
+ * - isCached() and clearCache()
+ * - Replacing cached files when the dataset version changes
+ * - Refetching damaged entries and skipping unversioned datasets
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import {
+  resolve,
+  DataLoader,
+  GeoIntelResult,
+  MemoryCacheStore,
+  isCached,
+  clearCache
+} from '../src/index';
+
+const BASE_URL = 'https://cdn.example.com/data';
+
+describe('Dataset Cache Tests', () => {
+  const originalFetch = global.fetch;
+  let requested: string[];
+  let offline: boolean;
+  let manifestVersion: string | null;
+
+  beforeEach(() => {
+    requested = [];
+    offline = false;
+    manifestVersion = '1.2.0';
+    global.fetch = jest.fn(async (url: string | URL | Request) => {
+      if (offline) {
+        throw new TypeError('Failed to fetch');
+      }
+      const file = String(url).replace(`${BASE_URL}/`, '');
+      requested.push(file);
+      if (file === 'manifest.json') {
+        if (manifestVersion === null) {
+          return new Response(null, { status: 404, statusText: 'Not Found' });
+        }
+        const manifest = JSON.parse(fs.readFileSync('data/manifest.json', 'utf-8'));
+        return new Response(JSON.stringify({ ...manifest, version: manifestVersion }));
+      }
+      const filepath = path.join('data', `${file}.gz`);
+      return fs.existsSync(filepath)
+        ? new Response(new Uint8Array(zlib.gunzipSync(fs.readFileSync(filepath))))
+        : new Response(null, { status: 404, statusText: 'Not Found' });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const load = async (cache: MemoryCacheStore, options: { lazyPolygons?: boolean } = {}) => {
+    const loader = new DataLoader();
+    await loader.loadFromCDN(BASE_URL, { useGzip: false, timezones: false, cache, ...options });
+    return loader;
+  };
+
+  test('should load a cached dataset offline', async () => {
+    const cache = new MemoryCacheStore();
+    expect(await isCached(BASE_URL, cache)).toBe(false);
+
+    const online = await load(cache);
+    expect(await isCached(`${BASE_URL}/`, cache)).toBe(true);
+
+    offline = true;
+    const loader = await load(cache);
+    const result = await resolve(40.7128, -74.0060, { loader }) as GeoIntelResult;
+    const onlineResult = await resolve(40.7128, -74.0060, { loader: online }) as GeoIntelResult;
+
+    expect(result.iso2).toBe('US');
+    expect(result.toDict()).toEqual(onlineResult.toDict());
+    expect(loader.datasetInfo!.version).toBe('1.2.0');
+  });
+
+  test('should not download cached files again', async () => {
+    const cache = new MemoryCacheStore();
+    await load(cache);
+    requested = [];
+
+    await load(cache);
+
+    expect(requested).toEqual(['manifest.json']);
+  });
+
+  test('should cache lazily loaded chunks', async () => {
+    const cache = new MemoryCacheStore();
+    const online = await load(cache, { lazyPolygons: true });
+    await resolve(52.52, 13.405, { loader: online });
+
+    offline = true;
+    const loader = await load(cache, { lazyPolygons: true });
+    const result = await resolve(52.52, 13.405, { loader }) as GeoIntelResult;
+
+    expect(result.iso2).toBe('DE');
+  });
+
+  test('should only report lazy datasets as cached once every chunk is', async () => {
+    const cache = new MemoryCacheStore();
+    const loader = await load(cache, { lazyPolygons: true });
+    await resolve(52.52, 13.405, { loader });
+    expect(await isCached(BASE_URL, cache)).toBe(false);
+
+    await loader.loadCountryPolygons(Object.keys(loader.metadata).map(id => parseInt(id, 10)));
+    expect(await isCached(BASE_URL, cache)).toBe(true);
+
+    offline = true;
+    const offlineLoader = await load(cache, { lazyPolygons: true });
+    expect((await resolve(35.6762, 139.6503, { loader: offlineLoader }) as GeoIntelResult).iso2).toBe('JP');
+  });
+
+  test('should clear cached datasets', async () => {
+    const cache = new MemoryCacheStore();
+    await load(cache);
+
+    await clearCache(BASE_URL, cache);
+
+    expect(await isCached(BASE_URL, cache)).toBe(false);
+    expect(await cache.keys()).toHaveLength(0);
+    offline = true;
+    await expect(load(cache)).rejects.toThrow('Failed to load data from CDN');
+  });
+
+  test('should replace files of an older dataset version', async () => {
+    const cache = new MemoryCacheStore();
+    await load(cache);
+
+    manifestVersion = '1.3.0';
+    requested = [];
+    await load(cache);
+
+    expect(requested).toContain('polygons.json');
+    const fileKeys = (await cache.keys()).filter(key => key.startsWith('file '));
+    expect(fileKeys.length).toBeGreaterThan(0);
+    expect(fileKeys.every(key => key.includes(' 1.3.0 '))).toBe(true);
+  });
+
+  test('should fetch damaged entries again', async () => {
+    const cache = new MemoryCacheStore();
+    await load(cache);
+    const metadataKey = (await cache.keys()).find(key => key.endsWith(' metadata.json'))!;
+    await cache.set(metadataKey, new TextEncoder().encode('{}'));
+
+    requested = [];
+    const loader = await load(cache);
+
+    expect(requested).toEqual(['manifest.json', 'metadata.json']);
+    expect(Object.keys(loader.metadata).length).toBeGreaterThan(200);
+  });
+
+  test('should not cache datasets without a manifest', async () => {
+    manifestVersion = null;
+    const cache = new MemoryCacheStore();
+
+    await load(cache);
+
+    expect(await isCached(BASE_URL, cache)).toBe(false);
+    expect(await cache.keys()).toHaveLength(0);
+  });
+
+  test('should require IndexedDB for cache: true', async () => {
+    const loader = new DataLoader();
+
+    await expect(loader.loadFromCDN(BASE_URL, { useGzip: false, timezones: false, cache: true }))
+      .rejects.toThrow('IndexedDB is not available');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for ranked candidate output (returnCandidates option).
+ * 
+ * Tests cover:
+ * - Candidates omitted by default
+ * - Best match ranked first and marked inside
+ * - Nearby countries with border distances near borders
+ * - Ocean points and batch resolution
+ */
+
+import { resolve, resolveMany, GeoIntelResult, DataLoader } from '../src/index';
+
+describe('Candidate Results Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data');
+    await loader.load();
+  });
+
+  test('should not include candidates by default', async () => {
+    const result = await resolve(40.7128, -74.0060, { loader }) as GeoIntelResult;
+
+    expect(result.candidates).toBeUndefined();
+    expect(result.toDict()).not.toHaveProperty('candidates');
+  });
+
+  test('should rank the matched country first', async () => {
+    const result = await resolve(40.7128, -74.0060, { loader, returnCandidates: true }) as GeoIntelResult;
+    const candidates = result.candidates!;
+
+    expect(candidates.length).toBeGreaterThan(0);
+    expect(candidates[0].iso2).toBe('US');
+    expect(candidates[0].inside).toBe(true);
+    expect(candidates[0].confidence).toBe(result.confidence);
+    expect(candidates[0].borderDistanceKm).toBeGreaterThan(0);
+  });
+
+  test('should include nearby countries across a border', async () => {
+    // Detroit, just across the river from Windsor, Canada
+    const result = await resolve(42.3314, -83.0458, { loader, returnCandidates: true }) as GeoIntelResult;
+    const candidates = result.candidates!;
+
+    expect(result.iso2).toBe('US');
+    const canada = candidates.find(c => c.iso2 === 'CA');
+    expect(canada).toBeDefined();
+    expect(canada!.inside).toBe(false);
+    expect(canada!.confidence).toBe(0);
+    expect(canada!.borderDistanceKm).toBeLessThan(20);
+
+    // Outside candidates are ordered by distance
+    const outside = candidates.filter(c => !c.inside);
+    for (let i = 1; i < outside.length; i++) {
+      expect(outside[i].borderDistanceKm).toBeGreaterThanOrEqual(outside[i - 1].borderDistanceKm);
+    }
+  });
+
+  test('should expose candidates in toDict', async () => {
+    const result = await resolve(42.3314, -83.0458, { loader, returnCandidates: true }) as GeoIntelResult;
+    const dict = result.toDict();
+
+    expect(Array.isArray(dict.candidates)).toBe(true);
+    expect(dict.candidates[0]).toHaveProperty('border_distance_km');
+    expect(dict.candidates[0]).toHaveProperty('inside', true);
+  });
+
+  test('should return no inside candidates for ocean points', async () => {
+    const result = await resolve(-40.0, -120.0, { loader, returnCandidates: true }) as GeoIntelResult;
+
+    expect(result.country).toBeNull();
+    expect(result.candidates!.every(c => !c.inside)).toBe(true);
+  });
+
+  test('should support candidates in batch resolution', async () => {
+    const results = await resolveMany([[42.3314, -83.0458]], { loader, returnCandidates: true });
+
+    expect(results[0].candidates).toBeDefined();
+    expect(results[0].candidates![0].iso2).toBe('US');
+  });
+});
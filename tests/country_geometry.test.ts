@@ -0,0 +1,99 @@
+/**
+ * Tests for country geometry queries.
+ * 
+ * Tests cover:
+ * - Geodesic areas and border lengths against known country sizes
+ * - Bounding boxes of countries across the antimeridian
+ * - Part and hole counts and the largest part
+ * - Result serialization, locales and unknown countries
+ */
+
+import { getCountryGeometryInfo, DataLoader, BundledDataSource } from '../src/index';
+import { testlandMetadata } from './helpers/testland';
+
+describe('Country Geometry Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data', { lazyPolygons: true });
+    await loader.load();
+  });
+
+  test('should calculate geodesic areas and border lengths', async () => {
+    // Official areas: Germany 357,588 km², Japan 377,975 km², Russia 17,098,246 km²
+    const germany = await getCountryGeometryInfo('DE', { loader });
+    expect(germany.areaKm2 / 357588).toBeCloseTo(1, 1);
+    expect(germany.perimeterKm).toBeGreaterThan(3500);
+    expect(germany.perimeterKm).toBeLessThan(8000);
+    expect((await getCountryGeometryInfo('Japan', { loader })).areaKm2 / 377975).toBeCloseTo(1, 1);
+    expect((await getCountryGeometryInfo('RUS', { loader })).areaKm2 / 17098246).toBeCloseTo(1, 1);
+
+    // A 1° × 1° square at the equator on the reference sphere
+    const square = new DataLoader(new BundledDataSource({
+      'metadata.json': { '1': testlandMetadata() },
+      'geohash_index.json': {},
+      'polygons.json': { '1': { exterior: [[0, 0], [0, 1], [1, 1], [1, 0], [0, 0]] } }
+    }));
+    const info = await getCountryGeometryInfo('Testland', { loader: square });
+    expect(info.areaKm2).toBeCloseTo(12364, 0);
+    expect(info.perimeterKm).toBeCloseTo(4 * 111.19, 0);
+  });
+
+  test('should wrap bounding boxes across the antimeridian', async () => {
+    const fiji = await getCountryGeometryInfo('Fiji', { loader });
+    expect(fiji.crossesAntimeridian).toBe(true);
+    const [minLat, maxLat, minLon, maxLon] = fiji.bbox;
+    expect(minLat).toBeCloseTo(-21.7, 1);
+    expect(maxLat).toBeCloseTo(-12.5, 1);
+    expect(minLon).toBeGreaterThan(170);
+    expect(maxLon).toBeLessThan(-175);
+
+    const russia = await getCountryGeometryInfo('Russia', { loader });
+    expect(russia.crossesAntimeridian).toBe(true);
+    expect(russia.bbox[2]).toBeGreaterThan(19);
+    expect(russia.bbox[3]).toBeLessThan(-168);
+
+    const germany = await getCountryGeometryInfo('Germany', { loader });
+    expect(germany.crossesAntimeridian).toBe(false);
+    expect(germany.bbox[2]).toBeLessThan(germany.bbox[3]);
+
+    // Antarctica surrounds the pole: no shorter way round
+    const antarctica = await getCountryGeometryInfo('Antarctica', { loader });
+    expect(antarctica.crossesAntimeridian).toBe(false);
+    expect([antarctica.bbox[2], antarctica.bbox[3]]).toEqual([-180, 180]);
+  });
+
+  test('should count parts and holes and find the largest part', async () => {
+    const southAfrica = await getCountryGeometryInfo('South Africa', { loader });
+    expect(southAfrica.holes).toBe(1); // Lesotho
+    expect(southAfrica.largestPart.holes).toBe(1);
+    const lesotho = await getCountryGeometryInfo('Lesotho', { loader });
+    const mainland = southAfrica.largestPart;
+    expect(southAfrica.parts).toBeGreaterThan(1);
+    expect(mainland.areaKm2).toBeLessThan(southAfrica.areaKm2);
+
+    // Lesotho's border is part of the hole's border
+    expect(mainland.perimeterKm).toBeGreaterThan(lesotho.perimeterKm);
+
+    const japan = await getCountryGeometryInfo('Japan', { loader });
+    expect(japan.parts).toBeGreaterThan(50);
+    expect(japan.largestPart.areaKm2).toBeGreaterThan(200000); // Honshu
+    const [minLat, maxLat] = japan.largestPart.bbox;
+    expect(minLat).toBeGreaterThan(33);
+    expect(maxLat).toBeLessThan(42);
+  });
+
+  test('should serialize results and reject unknown countries', async () => {
+    const germany = await getCountryGeometryInfo('Allemagne', { loader, locale: 'de' });
+    expect(germany.country).toBe('Deutschland');
+    expect(germany.iso2).toBe('DE');
+
+    const dict = germany.toDict();
+    expect(dict.area_km2).toBe(germany.areaKm2);
+    expect(dict.crosses_antimeridian).toBe(false);
+    expect(dict.largest_part.index).toBe(germany.largestPart.index);
+    expect(germany.toString()).toContain('CountryGeometryInfo(country=Deutschland');
+
+    await expect(getCountryGeometryInfo('Atlantis', { loader })).rejects.toThrow("Country not found: 'Atlantis'");
+  });
+});
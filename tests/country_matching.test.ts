@@ -0,0 +1,99 @@
+/**
+ * Tests for country name matching in reverse geocoding.
+ * 
+ * Tests cover:
+ * - ISO codes, also for countries the dataset has no codes for
+ * - Exact names winning over partial ones (Niger vs. Nigeria)
+ * - Aliases, accents and Natural Earth abbreviations
+ * - Partial and misspelled names with their match scores
+ * - Ambiguous names listing their candidates
+ */
+
+import { resolveByCountry, AmbiguousCountryError, DataLoader } from '../src/index';
+
+describe('Country Name Matching Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data', { lazyPolygons: true });
+    await loader.load();
+  });
+
+  const iso2Of = async (name: string) => (await resolveByCountry(name, { loader })).iso2;
+
+  test('should prefer exact names over partial ones', async () => {
+    expect(await iso2Of('Niger')).toBe('NE');
+    expect(await iso2Of('Nigeria')).toBe('NG');
+    expect(await iso2Of('Guinea')).toBe('GN');
+    expect(await iso2Of('Sudan')).toBe('SD');
+
+    const result = await resolveByCountry('germany', { loader });
+    expect(result.iso2).toBe('DE');
+    expect(result.matchScore).toBe(1.0);
+    expect(result.toDict().match_score).toBe(1.0);
+  });
+
+  test('should match ISO codes, including countries without codes in the dataset', async () => {
+    expect(await iso2Of('DE')).toBe('DE');
+    expect(await iso2Of('deu')).toBe('DE');
+    expect(await iso2Of('JPN')).toBe('JP');
+
+    // Natural Earth has -99 for France, Norway and Kosovo and CN-TW for Taiwan
+    for (const code of ['FR', 'FRA', 'fra', 'fr']) {
+      const france = await resolveByCountry(code, { loader });
+      expect(france.country).toBe('France');
+      expect(france.matchScore).toBe(1.0);
+    }
+    expect((await resolveByCountry('NO', { loader })).country).toBe('Norway');
+    expect((await resolveByCountry('NOR', { loader })).country).toBe('Norway');
+    expect((await resolveByCountry('XK', { loader })).country).toBe('Kosovo');
+    expect((await resolveByCountry('TW', { loader })).country).toBe('Taiwan');
+    await expect(resolveByCountry('-99', { loader })).rejects.toThrow("Country not found: '-99'");
+  });
+
+  test('should match aliases, accents and abbreviations', async () => {
+    expect(await iso2Of('UK')).toBe('GB');
+    expect(await iso2Of('Great Britain')).toBe('GB');
+    expect(await iso2Of('Holland')).toBe('NL');
+    expect(await iso2Of('Ivory Coast')).toBe('CI');
+    expect(await iso2Of("Côte d'Ivoire")).toBe('CI');
+    expect(await iso2Of('cote divoire')).toBe('CI');
+    expect(await iso2Of('South Korea')).toBe('KR');
+    expect(await iso2Of('DPRK')).toBe('KP');
+    expect(await iso2Of('Democratic Republic of the Congo')).toBe('CD');
+    expect(await iso2Of('Republic of the Congo')).toBe('CG');
+    expect(await iso2Of('South Sudan')).toBe('SS');
+    expect(await iso2Of('Saint Vincent and the Grenadines')).toBe('VC');
+    expect(await iso2Of('US Virgin Islands')).toBe('VI');
+    expect((await resolveByCountry('French Republic', { loader })).country).toBe('France');
+  });
+
+  test('should score partial and misspelled names', async () => {
+    const bosnia = await resolveByCountry('Bosnia', { loader });
+    expect(bosnia.iso2).toBe('BA');
+    expect(bosnia.matchScore).toBe(1.0); // Alias
+
+    const timor = await resolveByCountry('Timor', { loader });
+    expect(timor.iso2).toBe('TL');
+    expect(timor.matchScore).toBeCloseTo(2 / 3);
+
+    const typo = await resolveByCountry('Germny', { loader });
+    expect(typo.iso2).toBe('DE');
+    expect(typo.matchScore).toBeGreaterThan(0.8);
+    expect(typo.matchScore).toBeLessThan(1.0);
+
+    expect(await iso2Of('Untied States')).toBe('US');
+    expect(await iso2Of('Newzealand')).toBe('NZ');
+    await expect(resolveByCountry('Atlantis', { loader })).rejects.toThrow("Country not found: 'Atlantis'");
+  });
+
+  test('should reject ambiguous names with their candidates', async () => {
+    const error = await resolveByCountry('Korea', { loader }).catch(e => e);
+    expect(error).toBeInstanceOf(AmbiguousCountryError);
+    expect(error.message).toContain("Ambiguous country: 'Korea' matches South Korea (KR), North Korea (KP)");
+    expect(error.candidates.map((c: { iso2: string }) => c.iso2)).toEqual(['KR', 'KP']);
+
+    await expect(resolveByCountry('Virgin Islands', { loader })).rejects.toThrow(AmbiguousCountryError);
+    await expect(resolveByCountry('United', { loader })).rejects.toThrow('United Kingdom (GB)');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for the point reverse geocoding returns for a country.
+ * 
+ * Tests cover:
+ * - Area centroids of rings and polygons with holes, across the antimeridian
+ * - Poles of inaccessibility of concave polygons
+ * - Representative points inside every country
+ * - Choosing the point type and reporting whether it is inside
+ */
+
+import {
+  resolve,
+  resolveByCountry,
+  DataLoader,
+  GeoIntelResult,
+  ReverseGeoIntelResult,
+  getRingAreaCentroid,
+  getAreaCentroid,
+  getPoleOfInaccessibility,
+  getRepresentativePoint
+} from '../src/index';
+import { PreparedPart, prepareRing, pointInPart } from '../src/data/prepared';
+
+const part = (exterior: number[][], holes: number[][][] = []): PreparedPart =>
+  ({ exterior: prepareRing(exterior), holes: holes.map(prepareRing) });
+
+// A "C" opening east: its centroid lies in the gap
+const C_SHAPE = [[0, 0], [10, 0], [10, 10], [8, 10], [8, 2], [2, 2], [2, 10], [0, 10]];
+
+describe('Country Point Tests', () => {
+  test('should calculate area centroids', () => {
+    const square = getRingAreaCentroid(prepareRing([[0, 0], [0, 4], [4, 4], [4, 0]]).coords);
+    expect(Math.abs(square.area)).toBe(16);
+    expect(square.centroid).toEqual([2, 2]);
+
+    // A square with its east half cut out as a hole
+    const withHole = part([[0, 0], [0, 4], [4, 4], [4, 0]], [[[0, 2], [0, 4], [4, 4], [4, 2]]]);
+    expect(getAreaCentroid([withHole])).toEqual([2, 1]);
+
+    // Equal parts weigh the same; a larger part pulls the centroid toward it
+    const west = part([[0, 0], [0, 1], [1, 1], [1, 0]]);
+    const east = part([[0, 9], [0, 10], [1, 10], [1, 9]]);
+    expect(getAreaCentroid([west, east])).toEqual([0.5, 5]);
+    const big = part([[0, 9], [0, 12], [3, 12], [3, 9]]);
+    expect(getAreaCentroid([west, big])![1]).toBeGreaterThan(9);
+    expect(getAreaCentroid([part([[0, 0], [1, 1], [2, 2]])])).toBeNull();
+
+    // Parts on both sides of the antimeridian meet there, not at 0°
+    const westOfCut = part([[0, 178], [0, 180], [1, 180], [1, 178]]);
+    const eastOfCut = part([[0, -180], [0, -179], [1, -179], [1, -180]]);
+    const [lat, lon] = getAreaCentroid([westOfCut, eastOfCut])!;
+    expect(lat).toBeCloseTo(0.5);
+    expect(lon).toBeCloseTo(179.5); // (2 × 179 + 1 × 180.5) / 3
+    expect(getAreaCentroid([eastOfCut, part([[0, -180], [0, -176], [1, -176], [1, -180]])])![1]).toBeCloseTo(-178.3);
+  });
+
+  test('should find the pole of inaccessibility', () => {
+    const c = part(C_SHAPE);
+    const centroid = getAreaCentroid([c])!;
+    expect(pointInPart(centroid[0], centroid[1], c)).toBe(false);
+
+    const pole = getPoleOfInaccessibility(c, 0.001);
+    expect(pointInPart(pole.point[0], pole.point[1], c)).toBe(true);
+    // In a corner of the 2-wide bars, touching both outer edges and the inner corner
+    expect(pole.distance).toBeCloseTo(2 * Math.SQRT2 / (1 + Math.SQRT2), 2);
+
+    const square = getPoleOfInaccessibility(part([[0, 0], [0, 4], [4, 4], [4, 0]]), 0.001);
+    expect(square.point[0]).toBeCloseTo(2, 2);
+    expect(square.point[1]).toBeCloseTo(2, 2);
+    expect(square.distance).toBeCloseTo(2, 2);
+
+    // The largest part wins
+    const point = getRepresentativePoint([part([[0, 0], [0, 1], [1, 1], [1, 0]]), c])!;
+    expect(pointInPart(point[0], point[1], c)).toBe(true);
+    expect(getRepresentativePoint([])).toBeNull();
+  });
+
+  test('should return a point inside every country by default', async () => {
+    const loader = new DataLoader('./data');
+    await loader.load();
+    for (const [countryId, metadata] of Object.entries(loader.metadata)) {
+      const country = await resolveByCountry(metadata.iso3 !== '-99' ? metadata.iso3 : metadata.name, { loader });
+      expect({ countryId, inside: country.inside }).toEqual({ countryId, inside: true });
+      const forward = await resolve(country.latitude!, country.longitude!, { loader }) as GeoIntelResult;
+      expect(forward.country).toBe(metadata.name);
+    }
+  }, 60000);
+
+  test('should let callers choose the point', async () => {
+    const loader = new DataLoader('./data', { lazyPolygons: true });
+    const indonesia = await resolveByCountry('Indonesia', { loader, point: 'centroid' });
+    expect(indonesia.inside).toBe(false); // In the Java Sea
+    expect(indonesia.toDict().inside).toBe(false);
+    expect((await resolveByCountry('Indonesia', { loader })).inside).toBe(true);
+
+    const norway = await resolve('Norway', { loader, point: 'vertexMean' }) as ReverseGeoIntelResult;
+    expect(norway.inside).toBe(false);
+
+    const chile = await resolve('Chile', { loader, point: 'representative' }) as ReverseGeoIntelResult;
+    expect(chile.inside).toBe(true);
+    expect(chile.latitude).toBeGreaterThan(-56);
+    expect(chile.latitude).toBeLessThan(-17);
+
+    // Countries cut at ±180°: centroids stay in the Pacific
+    const fiji = await resolveByCountry('Fiji', { loader, point: 'centroid' });
+    expect(Math.abs(fiji.longitude!)).toBeGreaterThan(175);
+    expect(fiji.latitude).toBeCloseTo(-17.4, 0);
+    const kiribati = await resolveByCountry('Kiribati', { loader, point: 'centroid' });
+    expect(Math.abs(kiribati.longitude!)).toBeGreaterThan(150);
+    expect(Math.abs(kiribati.latitude!)).toBeLessThan(5);
+    expect((await resolveByCountry('New Zealand', { loader, point: 'centroid' })).inside).toBe(true);
+
+    await expect(resolveByCountry('Chile', { loader, point: 'middle' as 'centroid' }))
+      .rejects.toThrow("Unknown point type 'middle'");
+  });
+});
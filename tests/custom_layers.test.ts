@@ -0,0 +1,160 @@
+/**
+ * Tests for custom polygon layers resolved alongside countries.
+ * 
+ * Tests cover:
+ * - GeoJSON and PolygonsData layers with arbitrary properties
+ * - Overlapping features, holes and points outside every feature
+ * - Empty and malformed geometries
+ * - Geohash index lookups matching a test of every feature
+ * - Batch resolution and result serialization
+ * - Unknown layers
+ */
+
+import { resolve, resolveMany, DataLoader, GeoIntelResult, LayerGeoJson } from '../src/index';
+import { LayerRegistry } from '../src/data/layers';
+import { findLayerFeatures } from '../src/resolver/layers';
+import { pointInPart } from '../src/data/prepared';
+
+// Closed [lon, lat] ring of a box
+const box = (minLon: number, minLat: number, maxLon: number, maxLat: number) =>
+  [[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]];
+
+// Delivery zones around Berlin (52.52, 13.405)
+const DELIVERY_ZONES: LayerGeoJson = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      id: 'center',
+      properties: { fee: 2.5 },
+      geometry: { type: 'Polygon', coordinates: [box(13.3, 52.45, 13.5, 52.6), box(13.44, 52.5, 13.46, 52.51)] }
+    },
+    {
+      type: 'Feature',
+      id: 'greater',
+      properties: { fee: 5 },
+      geometry: { type: 'MultiPolygon', coordinates: [[box(13.0, 52.3, 13.8, 52.7)], [box(14.0, 52.3, 14.1, 52.4)]] }
+    },
+    { type: 'Feature', properties: { depot: true }, geometry: { type: 'Point', coordinates: [13.4, 52.5] } }
+  ]
+};
+
+const at = async (loader: DataLoader, lat: number, lon: number, layers: string[]) =>
+  (await resolve(lat, lon, { loader, layers })) as GeoIntelResult;
+
+describe('Custom Layer Tests', () => {
+  const loader = new DataLoader('./data');
+  loader.layers.register('delivery', DELIVERY_ZONES);
+  loader.layers.register('franchises', {
+    polygons: { '7': { exterior: [[52.0, 13.0], [52.0, 14.0], [53.0, 14.0], [53.0, 13.0]] } },
+    properties: { '7': { owner: 'Berlin Franchise GmbH' } }
+  });
+
+  test('should return every matching feature with its properties', async () => {
+    const result = await at(loader, 52.52, 13.405, ['delivery', 'franchises']);
+
+    expect(result.iso2).toBe('DE');
+    expect(result.layers).toEqual({
+      delivery: [
+        { id: 'center', properties: { fee: 2.5 } },
+        { id: 'greater', properties: { fee: 5 } }
+      ],
+      franchises: [{ id: '7', properties: { owner: 'Berlin Franchise GmbH' } }]
+    });
+    expect(loader.layers.get('delivery').size).toBe(2);
+  });
+
+  test('should respect holes and multi-polygons', async () => {
+    const inHole = await at(loader, 52.505, 13.45, ['delivery']);
+    expect(inHole.layers!.delivery.map(f => f.id)).toEqual(['greater']);
+
+    const inSecondPart = await at(loader, 52.35, 14.05, ['delivery']);
+    expect(inSecondPart.layers!.delivery.map(f => f.id)).toEqual(['greater']);
+
+    const outside = await at(loader, 48.1351, 11.582, ['delivery']); // Munich
+    expect(outside.iso2).toBe('DE');
+    expect(outside.layers!.delivery).toEqual([]);
+  });
+
+  test('should find the same features through the geohash index as by testing every feature', () => {
+    const registry = new LayerRegistry();
+    const layer = registry.register('mixed', {
+      type: 'FeatureCollection',
+      features: [
+        // Smaller than a geohash cell, and a thin diagonal sliver
+        { type: 'Feature', id: 'tiny', properties: {}, geometry: { type: 'Polygon', coordinates: [[[13.4, 52.5], [13.401, 52.5], [13.4, 52.501], [13.4, 52.5]]] } },
+        { type: 'Feature', id: 'sliver', properties: {}, geometry: { type: 'Polygon', coordinates: [[[13.3, 52.4], [13.5, 52.6], [13.5, 52.601], [13.3, 52.4]]] } },
+        // Large enough to get coarser index cells
+        { type: 'Feature', id: 'continent', properties: {}, geometry: { type: 'Polygon', coordinates: [box(-10, 35, 40, 70), box(13.39, 52.49, 13.41, 52.51)] } }
+      ]
+    });
+
+    const bruteForce = (lat: number, lon: number) => [1, 2, 3]
+      .filter(id => layer.polygonLayer.getPrepared(id)!.parts.some(part => pointInPart(lat, lon, part)))
+      .map(id => layer.getFeature(id)!.id);
+    for (let lat = 52.39; lat <= 52.61; lat += 0.0007) {
+      for (let lon = 13.29; lon <= 13.51; lon += 0.0011) {
+        expect(findLayerFeatures(lat, lon, layer).map(f => f.id)).toEqual(bruteForce(lat, lon));
+      }
+    }
+    expect(findLayerFeatures(40, 0, layer).map(f => f.id)).toEqual(['continent']);
+    expect(findLayerFeatures(52.5002, 13.4002, layer).map(f => f.id)).toEqual(['tiny']);
+  });
+
+  test('should skip empty geometries and reject malformed ones', () => {
+    const registry = new LayerRegistry();
+    const feature = (id: string, type: string, coordinates: unknown) =>
+      ({ type: 'Feature' as const, id, properties: {}, geometry: { type, coordinates } });
+
+    const layer = registry.register('sparse', {
+      type: 'FeatureCollection',
+      features: [
+        feature('empty', 'Polygon', []),
+        feature('empty-multi', 'MultiPolygon', []),
+        feature('empty-parts', 'MultiPolygon', [[], [[]], [box(13.3, 52.45, 13.5, 52.6)]]),
+        feature('empty-ring', 'Polygon', [[]])
+      ]
+    });
+    expect(layer.size).toBe(1);
+    expect(findLayerFeatures(52.52, 13.405, layer).map(f => f.id)).toEqual(['empty-parts']);
+
+    expect(() => registry.register('broken', {
+      type: 'FeatureCollection',
+      features: [feature('zone-1', 'Polygon', [[13.3, 52.45], [13.5, 52.45], [13.5, 52.6]])]
+    })).toThrow('Invalid Polygon coordinates in feature "zone-1" of layer "broken"');
+    expect(() => registry.register('broken', {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: null, geometry: { type: 'MultiPolygon', coordinates: null } }]
+    })).toThrow('Invalid MultiPolygon coordinates in feature 1 of layer "broken"');
+    expect(registry.has('broken')).toBe(false);
+  });
+
+  test('should only include requested layers', async () => {
+    const result = await at(loader, 52.52, 13.405, ['franchises']);
+    expect(Object.keys(result.layers!)).toEqual(['franchises']);
+
+    const withoutLayers = (await resolve(52.52, 13.405, { loader })) as GeoIntelResult;
+    expect(withoutLayers.layers).toBeUndefined();
+    expect(withoutLayers.toDict().layers).toBeUndefined();
+  });
+
+  test('should resolve layers in batches', async () => {
+    const results = await resolveMany([[52.52, 13.405], [52.35, 14.05], [0, -30]], {
+      loader,
+      layers: ['delivery']
+    });
+
+    expect(results.map(r => r.layers!.delivery.length)).toEqual([2, 1, 0]);
+    expect(results[0].toDict().layers.delivery[0]).toEqual({ id: 'center', properties: { fee: 2.5 } });
+  });
+
+  test('should reject unknown layers', async () => {
+    await expect(resolve(52.52, 13.405, { loader, layers: ['zones'] }))
+      .rejects.toThrow('Layer "zones" is not registered. Registered layers: delivery, franchises');
+    expect(() => loader.layers.register('broken', {} as LayerGeoJson)).toThrow('must be a GeoJSON FeatureCollection');
+
+    loader.layers.register('temporary', DELIVERY_ZONES);
+    expect(loader.layers.unregister('temporary')).toBe(true);
+    expect(loader.layers.has('temporary')).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for pluggable data sources.
+ * 
+ * Tests cover:
+ * - Filesystem, fetch, in-memory and bundled-module sources
+ * - Custom DataSource implementations
+ * - Missing files and integrity checks through a source
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  resolve,
+  DataLoader,
+  DataIntegrityError,
+  DataSource,
+  GeoIntelResult,
+  FileSystemDataSource,
+  FetchDataSource,
+  MemoryDataSource,
+  BundledDataSource
+} from '../src/index';
+import { TESTLAND_POLYGON, testlandMetadata } from './helpers/testland';
+
+const METADATA = { '1': testlandMetadata() };
+const POLYGONS = { '1': TESTLAND_POLYGON };
+
+const iso2At = async (loader: DataLoader, lat: number, lon: number) =>
+  ((await resolve(lat, lon, { loader })) as GeoIntelResult).iso2;
+
+describe('Data Source Tests', () => {
+  test('should read the data directory with FileSystemDataSource', async () => {
+    const source = new FileSystemDataSource('./data');
+
+    expect(await source.read('missing.json')).toBeNull();
+    expect(await iso2At(new DataLoader(source), 52.52, 13.405)).toBe('DE');
+  });
+
+  test('should fetch files with FetchDataSource', async () => {
+    const requested: string[] = [];
+    const fetchMock = jest.fn(async (url: string | URL | Request) => {
+      const file = String(url).replace('https://cdn.example.com/data/', '');
+      requested.push(file);
+      const filepath = path.join('data', file);
+      if (file === 'error.json.gz') {
+        return new Response(null, { status: 500, statusText: 'Internal Server Error' });
+      }
+      return fs.existsSync(filepath)
+        ? new Response(new Uint8Array(fs.readFileSync(filepath)))
+        : new Response(null, { status: 404, statusText: 'Not Found' });
+    }) as typeof fetch;
+    const source = new FetchDataSource('https://cdn.example.com/data/', { fetch: fetchMock });
+
+    const loader = new DataLoader(source, { lazyPolygons: true });
+
+    expect(await iso2At(loader, 52.52, 13.405)).toBe('DE');
+    expect(requested).toContain('manifest.json');
+    expect(requested).toContain('metadata.json.gz');
+    expect(await source.read('missing.json')).toBeNull();
+    await expect(source.read('error.json')).rejects.toThrow('500 Internal Server Error');
+  });
+
+  test('should serve files from memory', async () => {
+    const files: { [filename: string]: Uint8Array | string } = {};
+    for (const file of ['geohash_index.bin.gz', 'polygons.bin.gz', 'metadata.json.gz']) {
+      files[file.replace(/\.gz$/, '')] = new Uint8Array(fs.readFileSync(path.join('data', file)));
+    }
+    files['manifest.json'] = fs.readFileSync('data/manifest.json', 'utf-8');
+
+    const loader = new DataLoader(new MemoryDataSource(files));
+
+    expect(await iso2At(loader, 40.7128, -74.0060)).toBe('US');
+    expect(loader.datasetInfo).not.toBeNull();
+  });
+
+  test('should serve bundled modules', async () => {
+    const loader = new DataLoader(new BundledDataSource({
+      'metadata.json': METADATA,
+      'geohash_index.json': {},
+      'polygons.json': async () => ({ default: POLYGONS, [Symbol.toStringTag]: 'Module' })
+    }));
+
+    expect(await iso2At(loader, 5, 5)).toBe('TL');
+  });
+
+  test('should load from a custom data source', async () => {
+    const files = new Map<string, unknown>([
+      ['metadata.json', METADATA],
+      ['geohash_index.json', {}],
+      ['polygons.json', POLYGONS]
+    ]);
+    const source: DataSource = {
+      location: 'key-value store',
+      read: async filename => files.has(filename) ? { json: files.get(filename) } : null
+    };
+
+    const loader = new DataLoader(source);
+    expect(await iso2At(loader, 5, 5)).toBe('TL');
+
+    files.delete('metadata.json');
+    await expect(new DataLoader(source).load()).rejects.toThrow('Data file not found: metadata.json(.gz) in key-value store');
+  });
+
+  test('should verify bytes from any source against the manifest', async () => {
+    const manifest = {
+      version: 'test-1',
+      source: 'Unit tests',
+      buildDate: '2026-01-01',
+      files: { 'metadata.json': { sha256: '0'.repeat(64), bytes: 1 } }
+    };
+    const loader = new DataLoader(new MemoryDataSource({
+      'manifest.json': JSON.stringify(manifest),
+      'metadata.json': JSON.stringify(METADATA),
+      'geohash_index.json': '{}',
+      'polygons.json': JSON.stringify(POLYGONS)
+    }));
+
+    await expect(loader.load()).rejects.toThrow(DataIntegrityError);
+  });
+});
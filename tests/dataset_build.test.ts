@@ -0,0 +1,121 @@
+/**
+ * Tests for building datasets from GeoJSON (scripts/lib/dataset.ts).
+ * 
+ * Tests cover:
+ * - Natural Earth default and custom property mappings
+ * - Merging features by ID and skipping unusable features
+ * - Geohash coverage at a configurable precision
+ * - Resolving against a written dataset
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolve, DataLoader, GeoIntelResult } from '../src/index';
+import { encode } from '../src/geohash';
+import { buildDataset, writeDataset, GeoJsonFeatureCollection } from '../scripts/lib/dataset';
+
+// Closed [lon, lat] ring of a box
+const box = (minLon: number, minLat: number, maxLon: number, maxLat: number) =>
+  [[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]];
+
+const TERRITORIES: GeoJsonFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { territory_id: 10, label: 'North Territory', code: 'NT', region: 'Sales North', tz: 'Europe/Berlin' },
+      geometry: { type: 'Polygon', coordinates: [box(0, 10, 10, 20), box(4, 14, 6, 16)] }
+    },
+    {
+      type: 'Feature',
+      properties: { territory_id: 20, label: 'South Territory', code: 'ST', region: 'Sales South' },
+      geometry: { type: 'Polygon', coordinates: [box(0, 0, 10, 10)] }
+    },
+    {
+      type: 'Feature',
+      properties: { territory_id: 20, label: 'South Territory (islands)' },
+      geometry: { type: 'MultiPolygon', coordinates: [[box(20, 0, 21, 1)], [box(22, 0, 23, 1)]] }
+    },
+    { type: 'Feature', properties: { territory_id: 30 }, geometry: { type: 'Point', coordinates: [5, 5] } },
+    { type: 'Feature', properties: { label: 'No ID' }, geometry: { type: 'Polygon', coordinates: [box(30, 0, 31, 1)] } }
+  ]
+};
+
+const TERRITORY_PROPERTIES = {
+  id: 'territory_id',
+  name: 'label',
+  iso2: 'code',
+  iso3: 'code',
+  continent: 'region',
+  timezone: 'tz'
+};
+
+describe('Dataset Build Tests', () => {
+  test('should map feature properties to metadata', () => {
+    const dataset = buildDataset(TERRITORIES, { properties: TERRITORY_PROPERTIES });
+
+    expect(Object.keys(dataset.metadata)).toEqual(['10', '20']);
+    expect(dataset.metadata['10']).toEqual({
+      name: 'North Territory', iso2: 'NT', iso3: 'NT', continent: 'Sales North', timezone: 'Europe/Berlin'
+    });
+    expect(dataset.metadata['20'].timezone).toBe('');
+    expect(dataset.skipped).toBe(2);
+  });
+
+  test('should default to Natural Earth properties and feature order', () => {
+    const dataset = buildDataset({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { NAME: 'Testland', ISO_A2: 'TL', ISO_A3: 'TST', CONTINENT: 'Africa' },
+          geometry: { type: 'Polygon', coordinates: [box(0, 0, 1, 1)] } },
+        { type: 'Feature', properties: { NAME: 'Otherland' }, geometry: { type: 'Polygon', coordinates: [box(2, 0, 3, 1)] } }
+      ]
+    });
+
+    expect(dataset.metadata).toEqual({
+      '1': { name: 'Testland', iso2: 'TL', iso3: 'TST', continent: 'Africa', timezone: '' },
+      '2': { name: 'Otherland', iso2: '', iso3: '', continent: '', timezone: '' }
+    });
+  });
+
+  test('should merge features sharing an ID', () => {
+    const { polygons } = buildDataset(TERRITORIES, { properties: TERRITORY_PROPERTIES });
+
+    expect(polygons['20'].multi).toBe(true);
+    expect(polygons['20'].exteriors).toHaveLength(3);
+    expect(polygons['10'].holes).toHaveLength(1);
+    expect(polygons['10'].exterior).toEqual([[10, 0], [10, 10], [20, 10], [20, 0]]);
+  });
+
+  test('should cover every part at the configured precision', () => {
+    const { geohashIndex } = buildDataset(TERRITORIES, { properties: TERRITORY_PROPERTIES, precision: 4, step: 0.5 });
+
+    expect(Object.keys(geohashIndex).every(key => key.length === 4)).toBe(true);
+    expect(geohashIndex[encode(15, 2, 4)]).toContain(10);
+    expect(geohashIndex[encode(5, 5, 4)]).toContain(20);
+    // Islands smaller than one sampling step are indexed through their edges
+    expect(geohashIndex[encode(0.5, 22.5, 4)]).toContain(20);
+    expect(() => buildDataset(TERRITORIES, { precision: 0 })).toThrow('precision');
+    expect(() => buildDataset(TERRITORIES, { step: 0 })).toThrow('step');
+  });
+
+  test('should resolve points against the written dataset', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geo-intel-dataset-'));
+    try {
+      const sizes = writeDataset(buildDataset(TERRITORIES, { properties: TERRITORY_PROPERTIES }), dataDir);
+      expect(Object.keys(sizes)).toEqual(['geohash_index.json.gz', 'polygons.json.gz', 'metadata.json.gz']);
+
+      const loader = new DataLoader(dataDir);
+      const countryAt = async (lat: number, lon: number) =>
+        ((await resolve(lat, lon, { loader })) as GeoIntelResult).country;
+
+      expect(await countryAt(12, 2)).toBe('North Territory');
+      expect(await countryAt(5, 5)).toBe('South Territory');
+      expect(await countryAt(0.5, 22.5)).toBe('South Territory');
+      expect(await countryAt(15, 5)).not.toBe('North Territory'); // Inside the hole
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Shared one-country test dataset.
+ * 
+ * Testland (TL/TST) is a 10° × 10° square at lat 0-10, lon 0-10, for tests
+ * that need a small dataset of their own (data sources, manifests, reloads,
+ * loaders filled by hand).
+ */
+
+import { BundledDataSource, BundledDataFile } from '../../src/index';
+import { CountryMetadata, PolygonData } from '../../src/data/loader';
+
+export const TESTLAND_POLYGON: PolygonData = { exterior: [[0, 0], [0, 10], [10, 10], [10, 0]] };
+
+/**
+ * Testland's metadata record.
+ * 
+ * @param overrides - Fields to change (e.g. { timezone: '' })
+ */
+export function testlandMetadata(overrides: Partial<CountryMetadata> = {}): CountryMetadata {
+  return { name: 'Testland', iso2: 'TL', iso3: 'TST', continent: 'Africa', timezone: 'Africa/Lagos', ...overrides };
+}
+
+/**
+ * The country data files, keyed by file name.
+ * 
+ * @param name - Country name (e.g. "Testland v2" to tell datasets apart)
+ */
+export function testlandFiles(name: string = 'Testland'): { [filename: string]: BundledDataFile } {
+  return {
+    'metadata.json': { '1': testlandMetadata({ name }) },
+    'geohash_index.json': {},
+    'polygons.json': { '1': TESTLAND_POLYGON }
+  };
+}
+
+/**
+ * Testland as a bundled data source.
+ * 
+ * @param version - Dataset version: recorded in manifest.json and appended
+ *   to the country name ("Testland v2")
+ */
+export function testlandDataset(version?: string): BundledDataSource {
+  if (version === undefined) {
+    return new BundledDataSource(testlandFiles());
+  }
+  return new BundledDataSource({
+    ...testlandFiles(`Testland ${version}`),
+    'manifest.json': { version, source: 'test', buildDate: '2025-01-01', files: {} }
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * Tests for the dataset manifest and data integrity verification.
+ * 
+ * Tests cover:
+ * - Dataset info of the bundled data
+ * - Rejecting modified, truncated and unlisted files with DataIntegrityError
+ * - Data directories without a manifest and verifyIntegrity: false
+ * - Verification of CDN files and lazily loaded chunks
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolve, DataLoader, DataIntegrityError, GeoIntelResult } from '../src/index';
+import { sha256Hex } from '../src/data/manifest';
+import { TESTLAND_POLYGON, testlandFiles } from './helpers/testland';
+
+const FILES: { [filename: string]: unknown } = {
+  ...testlandFiles(),
+  'polygon_chunks.json': { version: 1, countries: { '1': { file: 'chunks/1.json', bbox: [0, 10, 0, 10] } } },
+  'chunks/1.json': { '1': TESTLAND_POLYGON }
+};
+
+/**
+ * Write the test dataset and its manifest to a new temporary directory.
+ */
+function writeDataset(): string {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geo-intel-integrity-'));
+  fs.mkdirSync(path.join(dataDir, 'chunks'));
+  const files: { [filename: string]: { sha256: string; bytes: number } } = {};
+  for (const [filename, data] of Object.entries(FILES)) {
+    const bytes = Buffer.from(JSON.stringify(data));
+    fs.writeFileSync(path.join(dataDir, filename), bytes);
+    files[filename] = { sha256: crypto.createHash('sha256').update(bytes).digest('hex'), bytes: bytes.length };
+  }
+  const manifest = { version: 'test-1', source: 'Unit tests', buildDate: '2026-01-01', files };
+  fs.writeFileSync(path.join(dataDir, 'manifest.json'), JSON.stringify(manifest));
+  return dataDir;
+}
+
+describe('Data Integrity Tests', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = writeDataset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('bundled data should match its manifest', async () => {
+    const loader = new DataLoader('./data');
+    await loader.load();
+
+    const info = loader.datasetInfo!;
+    expect(info.version).toMatch(/^\d+\.\d+\.\d+/);
+    expect(info.source).toContain('Natural Earth');
+    expect(info.buildDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(Object.keys(info.files)).toEqual(expect.arrayContaining(['metadata.json', 'polygons.bin', 'chunks/1.bin']));
+  });
+
+  test('should expose dataset info after loading', async () => {
+    const loader = new DataLoader(dataDir);
+    await loader.load();
+
+    expect(loader.datasetInfo).toMatchObject({ version: 'test-1', source: 'Unit tests', buildDate: '2026-01-01' });
+    expect(((await resolve(5, 5, { loader })) as GeoIntelResult).iso2).toBe('TL');
+  });
+
+  test('should reject modified files', async () => {
+    fs.writeFileSync(
+      path.join(dataDir, 'polygons.json'),
+      JSON.stringify({ '1': { exterior: [[0, 0], [0, 20], [10, 20], [10, 0]] } })
+    );
+    const loader = new DataLoader(dataDir);
+
+    const error = await loader.load().catch(e => e);
+
+    expect(error).toBeInstanceOf(DataIntegrityError);
+    expect(error.name).toBe('DataIntegrityError');
+    expect(error.file).toBe('polygons.json');
+    expect(error.expected).not.toBe(error.actual);
+    expect(error.message).toContain('does not match manifest.json (dataset test-1)');
+  });
+
+  test('should reject truncated files', async () => {
+    const filepath = path.join(dataDir, 'metadata.json');
+    fs.writeFileSync(filepath, fs.readFileSync(filepath).subarray(0, 20));
+
+    await expect(new DataLoader(dataDir).load()).rejects.toThrow(DataIntegrityError);
+  });
+
+  test('should reject files missing from the manifest', async () => {
+    fs.writeFileSync(path.join(dataDir, 'timezone_index.json'), '{}');
+    fs.writeFileSync(path.join(dataDir, 'timezone_polygons.json'), '{}');
+    fs.writeFileSync(path.join(dataDir, 'timezone_metadata.json'), '{}');
+
+    const error = await new DataLoader(dataDir).load().catch(e => e);
+
+    expect(error).toBeInstanceOf(DataIntegrityError);
+    expect(error.expected).toBeNull();
+    expect(error.message).toContain('npm run build:manifest');
+  });
+
+  test('should skip verification without a manifest or when disabled', async () => {
+    fs.writeFileSync(path.join(dataDir, 'metadata.json'), JSON.stringify({
+      '1': { name: 'Changed', iso2: 'TL', iso3: 'TST', continent: 'Africa', timezone: 'Africa/Lagos' }
+    }));
+
+    const unverified = new DataLoader(dataDir, { verifyIntegrity: false });
+    await unverified.load();
+    expect(unverified.getMetadata(1)!.name).toBe('Changed');
+
+    fs.rmSync(path.join(dataDir, 'manifest.json'));
+    const withoutManifest = new DataLoader(dataDir);
+    await withoutManifest.load();
+    expect(withoutManifest.datasetInfo).toBeNull();
+  });
+
+  test('should verify lazily loaded chunks', async () => {
+    fs.writeFileSync(path.join(dataDir, 'chunks/1.json'), JSON.stringify({ '1': { exterior: [[0, 0], [0, 1], [1, 1]] } }));
+    const loader = new DataLoader(dataDir, { lazyPolygons: true });
+    await loader.load();
+
+    await expect(loader.loadCountryPolygons([1])).rejects.toThrow(DataIntegrityError);
+  });
+
+  test('should verify files loaded from CDN', async () => {
+    fs.writeFileSync(path.join(dataDir, 'metadata.json'), '{}');
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn(async (url: string | URL | Request) => {
+      const filepath = path.join(dataDir, String(url).replace('https://cdn.example.com/data/', ''));
+      return fs.existsSync(filepath)
+        ? new Response(new Uint8Array(fs.readFileSync(filepath)))
+        : new Response(null, { status: 404, statusText: 'Not Found' });
+    }) as typeof fetch;
+
+    try {
+      const loader = new DataLoader();
+      const error = await loader.loadFromCDN('https://cdn.example.com/data', { useGzip: false }).catch(e => e);
+
+      expect(error).toBeInstanceOf(DataIntegrityError);
+      expect(error.file).toBe('metadata.json');
+      expect(loader.datasetInfo!.version).toBe('test-1');
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('sha256Hex should produce hex digests', async () => {
+    expect(await sha256Hex(new TextEncoder().encode('abc')))
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
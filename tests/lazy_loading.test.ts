@@ -0,0 +1,165 @@
+/**
+ * Tests for lazy per-country polygon loading.
+ * 
+ * Tests cover:
+ * - Startup without polygon data
+ * - Loading only the countries a point needs
+ * - Parity with eagerly loaded polygons (forward, batch, candidates, nearest, reverse)
+ * - JSON chunks and missing chunk files
+ * - Lazy loading from CDN
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { resolve, resolveMany, resolveNearest, DataLoader, GeoIntelResult } from '../src/index';
+import { TESTLAND_POLYGON, testlandMetadata } from './helpers/testland';
+
+describe('Lazy Polygon Loading Tests', () => {
+  let eager: DataLoader;
+
+  beforeAll(async () => {
+    eager = new DataLoader('./data');
+    await eager.load();
+  });
+
+  test('should start without any country polygons', async () => {
+    const loader = new DataLoader('./data', { lazyPolygons: true });
+    await loader.load();
+
+    expect(Object.keys(loader.polygons)).toHaveLength(0);
+    expect(Object.keys(loader.metadata).length).toBeGreaterThan(200);
+  });
+
+  test('should load only the countries a point needs', async () => {
+    const loader = new DataLoader('./data', { lazyPolygons: true });
+
+    const result = await resolve(52.52, 13.405, { loader }) as GeoIntelResult;
+    const loaded = Object.keys(loader.polygons).map(id => loader.metadata[id].iso2);
+
+    expect(result.iso2).toBe('DE');
+    expect(loaded).toContain('DE');
+    expect(loaded.length).toBeLessThanOrEqual(5);
+  });
+
+  test('should match eagerly loaded polygons', async () => {
+    const loader = new DataLoader('./data', { lazyPolygons: true });
+    const points: [number, number][] = [
+      [40.7128, -74.0060], [51.5074, -0.1278], [-33.8688, 151.2093], [35.6762, 139.6503],
+      [-22.9068, -43.1729], [0, 0], [64.1466, -21.9426], [47.0502, 8.3093], [1.3521, 103.8198]
+    ];
+
+    for (const [lat, lon] of points) {
+      const lazyResult = await resolve(lat, lon, { loader, returnCandidates: true });
+      const eagerResult = await resolve(lat, lon, { loader: eager, returnCandidates: true });
+      expect(lazyResult.toDict()).toEqual(eagerResult.toDict());
+    }
+
+    const batch = await resolveMany(points, { loader: new DataLoader('./data', { lazyPolygons: true }) });
+    const eagerBatch = await resolveMany(points, { loader: eager });
+    expect(batch.map(r => r.toDict())).toEqual(eagerBatch.map(r => r.toDict()));
+  });
+
+  test('should load polygons for nearest and reverse resolution', async () => {
+    const nearestResult = await resolveNearest(43.5, 7.5, { loader: new DataLoader('./data', { lazyPolygons: true }) });
+    const eagerNearest = await resolveNearest(43.5, 7.5, { loader: eager });
+    expect(nearestResult.toDict()).toEqual(eagerNearest.toDict());
+
+    const reverseResult = await resolve('Japan', { loader: new DataLoader('./data', { lazyPolygons: true }) });
+    const eagerReverse = await resolve('Japan', { loader: eager });
+    expect(reverseResult.toDict()).toEqual(eagerReverse.toDict());
+  });
+
+  describe('JSON chunks', () => {
+    let dataDir: string;
+
+    beforeAll(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geo-intel-chunks-'));
+      fs.mkdirSync(path.join(dataDir, 'chunks'));
+      const write = (filename: string, data: unknown) =>
+        fs.writeFileSync(path.join(dataDir, filename), JSON.stringify(data));
+
+      write('geohash_index.json', {});
+      write('metadata.json', {
+        '1': testlandMetadata(),
+        '2': { name: 'Otherland', iso2: 'OL', iso3: 'OTH', continent: 'Africa', timezone: 'Africa/Lagos' },
+        '3': { name: 'Lostland', iso2: 'LL', iso3: 'LST', continent: 'Africa', timezone: 'Africa/Lagos' }
+      });
+      write('polygon_chunks.json', {
+        version: 1,
+        countries: {
+          '1': { file: 'chunks/1.json', bbox: [0, 10, 0, 10] },
+          '2': { file: 'chunks/2.json', bbox: [0, 10, 10, 20] },
+          '3': { file: 'chunks/3.json', bbox: [20, 30, 0, 10] } // File missing
+        }
+      });
+      write('chunks/1.json', { '1': TESTLAND_POLYGON });
+      write('chunks/2.json', { '2': { exterior: [[0, 10], [0, 20], [10, 20], [10, 10]] } });
+    });
+
+    afterAll(() => {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should load JSON chunks through the spatial index fallback', async () => {
+      const loader = new DataLoader(dataDir, { lazyPolygons: true });
+
+      const result = await resolve(5, 15, { loader }) as GeoIntelResult;
+
+      expect(result.iso2).toBe('OL');
+      expect(Object.keys(loader.polygons)).toEqual(['2']);
+    });
+
+    test('should report missing chunk files and retry later', async () => {
+      const loader = new DataLoader(dataDir, { lazyPolygons: true });
+      await loader.load();
+
+      await expect(loader.loadCountryPolygons([3])).rejects.toThrow('Data file not found');
+      fs.writeFileSync(
+        path.join(dataDir, 'chunks/3.json'),
+        JSON.stringify({ '3': { exterior: [[20, 0], [20, 10], [30, 10], [30, 0]] } })
+      );
+      await expect(loader.loadCountryPolygons([3])).resolves.toBe(true);
+      await expect(loader.loadCountryPolygons([3])).resolves.toBe(false);
+      expect(loader.getPreparedPolygon(3)).toBeDefined();
+    });
+
+    test('should drop chunks when polygons are replaced', async () => {
+      const loader = new DataLoader(dataDir, { lazyPolygons: true });
+      await loader.load();
+      await loader.loadCountryPolygons([1]);
+
+      loader.setPolygons({ '2': { exterior: [[0, 10], [0, 20], [10, 20], [10, 10]] } });
+
+      expect(await loader.loadCountryPolygons([1])).toBe(false);
+      expect(Object.keys(loader.polygons)).toEqual(['2']);
+    });
+  });
+
+  test('should fetch only the manifest and needed chunks from CDN', async () => {
+    const requested: string[] = [];
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn(async (url: string | URL | Request) => {
+      const file = String(url).replace('https://cdn.example.com/data/', '');
+      requested.push(file);
+      const filepath = path.join('data', `${file}.gz`);
+      return fs.existsSync(filepath)
+        ? new Response(new Uint8Array(zlib.gunzipSync(fs.readFileSync(filepath))))
+        : new Response(null, { status: 404, statusText: 'Not Found' });
+    }) as typeof fetch;
+
+    try {
+      const loader = new DataLoader();
+      await loader.loadFromCDN('https://cdn.example.com/data', { lazyPolygons: true, timezones: false, useGzip: false });
+      const result = await resolve(40.7128, -74.0060, { loader }) as GeoIntelResult;
+
+      expect(result.iso2).toBe('US');
+      expect(requested).toContain('polygon_chunks.json');
+      expect(requested).not.toContain('polygons.json');
+      expect(requested.filter(file => file.startsWith('chunks/')).length).toBeLessThanOrEqual(3);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
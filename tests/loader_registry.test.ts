@@ -0,0 +1,82 @@
+/**
+ * Tests for the loader registry.
+ * 
+ * Tests cover:
+ * - One loader per data directory
+ * - Named datasets used side by side by the entry points
+ * - Default loader selection, reset and disposal
+ */
+
+import {
+  resolve,
+  resolveByCountry,
+  resolveNearest,
+  DataLoader,
+  GeoIntelResult,
+  getLoader,
+  getRegisteredLoader,
+  registerLoader,
+  disposeLoader,
+  setDefaultLoader,
+  resetDefaultLoader
+} from '../src/index';
+import { testlandDataset } from './helpers/testland';
+
+describe('Loader Registry Tests', () => {
+  afterEach(() => {
+    resetDefaultLoader();
+  });
+
+  test('should create one loader per data directory', () => {
+    const first = getLoader('./data');
+    const second = getLoader('./other-data');
+
+    expect(second).not.toBe(first);
+    expect(getLoader('./data')).toBe(first);
+    expect(getLoader('./other-data')).toBe(second);
+    expect(getRegisteredLoader('./other-data')).toBe(second);
+  });
+
+  test('should keep ./data as the default when other directories are used', () => {
+    const other = getLoader('./data-v2');
+
+    expect(getLoader()).not.toBe(other);
+    expect(getLoader()).toBe(getLoader('./data'));
+  });
+
+  test('should resolve named datasets side by side', async () => {
+    registerLoader('v1', testlandDataset('v1'));
+    const v2 = registerLoader('v2', new DataLoader(testlandDataset('v2')));
+
+    const a = (await resolve(5, 5, { dataset: 'v1' })) as GeoIntelResult;
+    const b = (await resolve(5, 5, { dataset: 'v2' })) as GeoIntelResult;
+    expect(a.country).toBe('Testland v1');
+    expect(b.country).toBe('Testland v2');
+
+    expect((await resolveByCountry('TL', { dataset: 'v2' })).country).toBe('Testland v2');
+    expect((await resolveNearest(5, 11, { dataset: 'v1' })).country).toBe('Testland v1');
+    expect(getLoader('v2')).toBe(v2);
+  });
+
+  test('should reject unknown datasets', async () => {
+    await expect(resolve(5, 5, { dataset: 'missing' }))
+      .rejects.toThrow('No loader is registered for dataset "missing"');
+  });
+
+  test('should set, reset and dispose the default loader', async () => {
+    const v3 = registerLoader('v3', testlandDataset('v3'));
+
+    expect(setDefaultLoader('v3')).toBe(v3);
+    expect(getLoader()).toBe(v3);
+    expect(((await resolve(5, 5)) as GeoIntelResult).country).toBe('Testland v3');
+
+    resetDefaultLoader();
+    expect(getLoader()).toBe(getLoader('./data'));
+
+    setDefaultLoader(v3);
+    expect(disposeLoader('v3')).toBe(true);
+    expect(disposeLoader('v3')).toBe(false);
+    expect(getLoader()).not.toBe(v3);
+    expect(() => getRegisteredLoader('v3')).toThrow('No loader is registered');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for localized country names.
+ *
+ * Tests cover:
+ * - Looking countries up by their name in any bundled language
+ * - Returning localized names from forward, batch and reverse resolution
+ * - Locale fallbacks (region tags, unknown languages, countries without names)
+ * - Reading localized names when building a dataset
+ */
+
+import {
+  resolve,
+  resolveByCountry,
+  resolveMany,
+  DataLoader,
+  GeoIntelResult,
+  COUNTRY_NAME_LOCALES
+} from '../src/index';
+import { buildDataset } from '../scripts/lib/dataset';
+import { testlandDataset } from './helpers/testland';
+
+const BERLIN: [number, number] = [52.52, 13.405];
+
+describe('Localized Country Name Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data', { lazyPolygons: true });
+    await loader.load();
+  });
+
+  test('should bundle names in the UN languages plus de, pt, ja and hi', () => {
+    const germany = Object.values(loader.metadata).find(c => c.iso2 === 'DE')!;
+    for (const locale of COUNTRY_NAME_LOCALES.filter(l => l !== 'en')) {
+      expect(germany.names![locale]).toBeTruthy();
+    }
+  });
+
+  test('should resolve country names in any bundled language', async () => {
+    for (const name of ['Deutschland', 'Allemagne', 'Alemania', 'Германия', 'ألمانيا', '德国', 'ドイツ', 'जर्मनी', 'Alemanha']) {
+      expect((await resolveByCountry(name, { loader })).iso2).toBe('DE');
+    }
+    expect((await resolveByCountry('Costa do Marfim', { loader })).iso2).toBe('CI');
+    expect((await resolveByCountry('Corée du Sud', { loader })).iso2).toBe('KR');
+    expect((await resolveByCountry('Frankreich', { loader })).country).toBe('France');
+    await expect(resolveByCountry('Kongo', { loader })).rejects.toThrow('Ambiguous country');
+  });
+
+  test('should return localized names for a locale', async () => {
+    const forward = await resolve(...BERLIN, { loader, locale: 'ja', returnCandidates: true }) as GeoIntelResult;
+    expect(forward.country).toBe('ドイツ');
+    expect(forward.candidates![0].country).toBe('ドイツ');
+
+    const batch = await resolveMany([BERLIN, [35.6762, 139.6503]], { loader, locale: 'de' });
+    expect(batch.map(r => r.country)).toEqual(['Deutschland', 'Japan']);
+
+    const reverse = await resolveByCountry('Germany', { loader, locale: 'ru' });
+    expect(reverse.country).toBe('Германия');
+    expect((await resolve('Deutschland', { loader, locale: 'es' })).country).toBe('Alemania');
+  });
+
+  test('should fall back to the language and then the dataset name', async () => {
+    const countryIn = async (locale: string) =>
+      ((await resolve(...BERLIN, { loader, locale })) as GeoIntelResult).country;
+    expect(await countryIn('pt-BR')).toBe('Alemanha');
+    expect(await countryIn('zh_CN')).toBe('德国');
+    expect(await countryIn('EN')).toBe('Germany');
+    expect(await countryIn('xx')).toBe('Germany');
+    expect(((await resolve(...BERLIN, { loader })) as GeoIntelResult).country).toBe('Germany');
+
+    // Datasets without localized names
+    const plain = new DataLoader(testlandDataset());
+    expect(((await resolve(5, 5, { loader: plain, locale: 'de' })) as GeoIntelResult).country).toBe('Testland');
+  });
+
+  test('should read Natural Earth localized names when building a dataset', () => {
+    const dataset = buildDataset({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { NAME: 'Testland', ISO_A2: 'TL', NAME_DE: 'Testland DE', NAME_JA: 'テストランド', NAME_FR: null },
+        geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]] }
+      }]
+    });
+    expect(dataset.metadata['1'].names).toEqual({ de: 'Testland DE', ja: 'テストランド' });
+
+    const custom = buildDataset({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { label: 'North', label_de: 'Nord' },
+        geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]] }
+      }]
+    }, { properties: { name: 'label', names: { de: 'label_de' } } });
+    expect(custom.metadata['1'].names).toEqual({ de: 'Nord' });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for offline UTC offset / DST computation.
+ * 
+ * Tests cover:
+ * - getLocalTime() for DST and non-DST zones in both hemispheres
+ * - Historical rule changes from the explicit transition table
+ * - Next transition reporting
+ * - Nautical zones at open sea
+ * - getTimezoneOffset() on its own
+ */
+
+import {
+  getLocalTime,
+  getTimezoneOffset,
+  isSupportedTimezone,
+  formatUtcOffset,
+  LocalTimeResult,
+  DataLoader
+} from '../src/index';
+
+describe('Local Time Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data');
+    await loader.load();
+  });
+
+  test('should report daylight time in New York summer', async () => {
+    const result = await getLocalTime(40.7128, -74.0060, new Date('2024-07-01T12:00:00Z'), { loader });
+
+    expect(result).toBeInstanceOf(LocalTimeResult);
+    expect(result.tzid).toBe('America/New_York');
+    expect(result.utcOffsetSeconds).toBe(-14400);
+    expect(result.utcOffset).toBe('-04:00');
+    expect(result.dst).toBe(true);
+    expect(result.abbreviation).toBe('EDT');
+    expect(result.localTime).toBe('2024-07-01T08:00:00-04:00');
+    expect(result.nextTransition!.at.toISOString()).toBe('2024-11-03T06:00:00.000Z');
+    expect(result.nextTransition!.abbreviation).toBe('EST');
+  });
+
+  test('should report standard time in New York winter', async () => {
+    const result = await getLocalTime(40.7128, -74.0060, Date.UTC(2024, 0, 15, 12), { loader });
+
+    expect(result.utcOffsetSeconds).toBe(-18000);
+    expect(result.dst).toBe(false);
+    expect(result.abbreviation).toBe('EST');
+    expect(result.nextTransition!.at.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+  });
+
+  test('should switch exactly at the transition instant', async () => {
+    const before = await getLocalTime(40.7128, -74.0060, Date.UTC(2024, 2, 10, 6, 59, 59), { loader });
+    const after = await getLocalTime(40.7128, -74.0060, Date.UTC(2024, 2, 10, 7), { loader });
+
+    expect(before.localTime).toBe('2024-03-10T01:59:59-05:00');
+    expect(after.localTime).toBe('2024-03-10T03:00:00-04:00');
+  });
+
+  test('should handle southern hemisphere DST', async () => {
+    const january = await getLocalTime(-33.8688, 151.2093, Date.UTC(2024, 0, 15), { loader });
+    const july = await getLocalTime(-33.8688, 151.2093, Date.UTC(2024, 6, 15), { loader });
+
+    expect(january.tzid).toBe('Australia/Sydney');
+    expect(january.utcOffsetSeconds).toBe(39600);
+    expect(january.dst).toBe(true);
+    expect(july.utcOffsetSeconds).toBe(36000);
+    expect(july.dst).toBe(false);
+  });
+
+  test('should handle zones without DST', async () => {
+    const result = await getLocalTime(-31.9505, 115.8605, Date.UTC(2024, 0, 15), { loader });
+
+    expect(result.tzid).toBe('Australia/Perth');
+    expect(result.utcOffset).toBe('+08:00');
+    expect(result.dst).toBe(false);
+    expect(result.nextTransition).toBeNull();
+  });
+
+  test('should handle non-hour offsets', async () => {
+    const result = await getLocalTime(28.6139, 77.2090, Date.UTC(2024, 5, 1), { loader });
+
+    expect(result.tzid).toBe('Asia/Kolkata');
+    expect(result.utcOffset).toBe('+05:30');
+    expect(result.abbreviation).toBe('IST');
+  });
+
+  test('should apply historical rule changes', async () => {
+    // Moscow: +04 all year 2011-2014, +03 since
+    const moscow2012 = await getLocalTime(55.7558, 37.6173, Date.UTC(2012, 0, 15), { loader });
+    const moscow2024 = await getLocalTime(55.7558, 37.6173, Date.UTC(2024, 0, 15), { loader });
+    expect(moscow2012.utcOffsetSeconds).toBe(14400);
+    expect(moscow2024.utcOffsetSeconds).toBe(10800);
+
+    // Sao Paulo: DST abolished in 2019
+    const saoPaulo2018 = await getLocalTime(-23.5505, -46.6333, Date.UTC(2018, 11, 15), { loader });
+    const saoPaulo2024 = await getLocalTime(-23.5505, -46.6333, Date.UTC(2024, 11, 15), { loader });
+    expect(saoPaulo2018.dst).toBe(true);
+    expect(saoPaulo2018.utcOffsetSeconds).toBe(-7200);
+    expect(saoPaulo2024.dst).toBe(false);
+    expect(saoPaulo2024.utcOffsetSeconds).toBe(-10800);
+    expect(saoPaulo2024.nextTransition).toBeNull();
+
+    // US: DST rules changed in 2007
+    const newYork2006 = await getLocalTime(40.7128, -74.0060, Date.UTC(2006, 2, 20), { loader });
+    const newYork2007 = await getLocalTime(40.7128, -74.0060, Date.UTC(2007, 2, 20), { loader });
+    expect(newYork2006.dst).toBe(false);
+    expect(newYork2007.dst).toBe(true);
+  });
+
+  test('should use nautical zones at open sea', async () => {
+    const result = await getLocalTime(-40.0, -120.0, Date.UTC(2024, 0, 1, 12), { loader });
+
+    expect(result.tzid).toBe('Etc/GMT+8');
+    expect(result.utcOffsetSeconds).toBe(-28800);
+    expect(result.localTime).toBe('2024-01-01T04:00:00-08:00');
+  });
+
+  test('toDict should use snake_case keys', async () => {
+    const result = await getLocalTime(40.7128, -74.0060, new Date('2024-07-01T12:00:00Z'), { loader });
+    const dict = result.toDict();
+
+    expect(dict.utc_offset).toBe('-04:00');
+    expect(dict.utc_offset_seconds).toBe(-14400);
+    expect(dict.local_time).toBe('2024-07-01T08:00:00-04:00');
+    expect(dict.next_transition.at).toBe('2024-11-03T06:00:00.000Z');
+    expect(dict.next_transition.utc_offset).toBe('-05:00');
+  });
+
+  test('should reject invalid input', async () => {
+    await expect(getLocalTime(91, 0, Date.now(), { loader })).rejects.toThrow();
+    await expect(getLocalTime(0, 0, new Date('invalid'), { loader })).rejects.toThrow('Invalid date');
+  });
+
+  test('getTimezoneOffset should work without resolution', () => {
+    const offset = getTimezoneOffset('Europe/London', Date.UTC(2024, 6, 1));
+
+    expect(offset.utcOffsetSeconds).toBe(3600);
+    expect(offset.abbreviation).toBe('BST');
+    expect(offset.nextTransition!.at.toISOString()).toBe('2024-10-27T01:00:00.000Z');
+    expect(getTimezoneOffset('UTC').utcOffsetSeconds).toBe(0);
+  });
+
+  test('getTimezoneOffset should reject unknown zones', () => {
+    expect(isSupportedTimezone('Europe/Paris')).toBe(true);
+    expect(isSupportedTimezone('Mars/Olympus_Mons')).toBe(false);
+    expect(() => getTimezoneOffset('Mars/Olympus_Mons')).toThrow('Unknown timezone');
+  });
+
+  test('formatUtcOffset should pad and sign offsets', () => {
+    expect(formatUtcOffset(0)).toBe('+00:00');
+    expect(formatUtcOffset(-12600)).toBe('-03:30');
+    expect(formatUtcOffset(20700)).toBe('+05:45');
+  });
+});
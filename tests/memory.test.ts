@@ -0,0 +1,92 @@
+/**
+ * Tests for memory usage reporting and unloading.
+ * 
+ * Tests cover:
+ * - getStats() before and after loading
+ * - Unloading and transparently reloading country polygons (eager and lazy)
+ * - Unloading all data
+ */
+
+import { resolve, DataLoader, GeoIntelResult } from '../src/index';
+import { TESTLAND_POLYGON } from './helpers/testland';
+
+const iso2At = async (loader: DataLoader, lat: number, lon: number) =>
+  ((await resolve(lat, lon, { loader })) as GeoIntelResult).iso2;
+
+const countryId = (loader: DataLoader, iso2: string) =>
+  parseInt(Object.keys(loader.metadata).find(id => loader.metadata[id].iso2 === iso2)!, 10);
+
+describe('Memory Usage Tests', () => {
+  test('should report the size of the loaded data', async () => {
+    const loader = new DataLoader('./data');
+    const empty = loader.getStats();
+    expect(empty.loaded).toBe(false);
+    expect(empty.totalBytes).toBe(0);
+
+    await loader.load();
+    const stats = loader.getStats();
+
+    expect(stats.loaded).toBe(true);
+    expect(stats.metadata.countries).toBe(Object.keys(loader.metadata).length);
+    expect(stats.polygons.countries).toBe(stats.metadata.countries);
+    expect(stats.polygons.rings).toBeGreaterThanOrEqual(stats.polygons.parts);
+    expect(stats.polygons.vertices).toBeGreaterThan(stats.polygons.rings * 3);
+    // Prepared rings alone hold 16 bytes per vertex
+    expect(stats.polygons.bytes).toBeGreaterThan(stats.polygons.vertices * 16);
+    expect(stats.geohashIndex.entries).toBeGreaterThan(0);
+    expect(stats.totalBytes).toBe(stats.geohashIndex.bytes + stats.polygons.bytes + stats.metadata.bytes);
+  });
+
+  test('should unload country polygons and reload them on demand', async () => {
+    const loader = new DataLoader('./data');
+    await loader.load();
+    const before = loader.getStats();
+    const de = countryId(loader, 'DE');
+    const others = Object.keys(loader.metadata).map(id => parseInt(id, 10)).filter(id => id !== de);
+
+    expect(loader.unloadPolygons(others)).toBe(others.length);
+    const after = loader.getStats();
+    expect(after.polygons.countries).toBe(1);
+    expect(after.polygons.bytes).toBeLessThan(before.polygons.bytes / 10);
+    expect(Object.keys(loader.polygons)).toEqual([de.toString()]);
+
+    // Only the countries needed for a point are read again
+    expect(await iso2At(loader, 52.52, 13.405)).toBe('DE');
+    expect(await iso2At(loader, 40.7128, -74.0060)).toBe('US');
+    expect(loader.getStats().polygons.countries).toBeLessThan(10);
+
+    expect(loader.unloadPolygons([de])).toBe(1);
+    expect(loader.unloadPolygons([de])).toBe(0);
+    expect(await iso2At(loader, 52.52, 13.405)).toBe('DE');
+  });
+
+  test('should unload lazily loaded chunks', async () => {
+    const loader = new DataLoader('./data', { lazyPolygons: true });
+    expect(await iso2At(loader, 52.52, 13.405)).toBe('DE');
+    const loaded = loader.getStats().polygons.countries;
+
+    expect(loader.unloadPolygons([countryId(loader, 'DE')])).toBe(1);
+    expect(loader.getStats().polygons.countries).toBe(loaded - 1);
+    expect(await iso2At(loader, 52.52, 13.405)).toBe('DE');
+    expect(loader.getStats().polygons.countries).toBe(loaded);
+  });
+
+  test('should unload all data and reload on the next resolve', async () => {
+    const loader = new DataLoader('./data');
+    expect(await iso2At(loader, 35.6762, 139.6503)).toBe('JP');
+
+    loader.unload();
+    expect(loader.getStats()).toMatchObject({ loaded: false, totalBytes: 0 });
+    expect(() => loader.metadata).toThrow('Data not loaded');
+
+    expect(await iso2At(loader, 35.6762, 139.6503)).toBe('JP');
+    expect(loader.getStats().loaded).toBe(true);
+  });
+
+  test('should not unload polygons that cannot be read again', () => {
+    const loader = new DataLoader();
+    loader.setPolygons({ '1': TESTLAND_POLYGON });
+
+    expect(() => loader.unloadPolygons([1])).toThrow('cannot be reloaded');
+  });
+});
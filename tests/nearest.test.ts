@@ -0,0 +1,76 @@
+/**
+ * Tests for nearest-country resolution (resolveNearest).
+ * 
+ * Tests cover:
+ * - Points on land (distance 0)
+ * - Offshore points near coastlines
+ * - maxDistanceKm limits
+ * - Antimeridian handling and invalid options
+ */
+
+import { resolveNearest, NearestGeoIntelResult, DataLoader, haversineDistance } from '../src/index';
+
+describe('Nearest Country Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data');
+    await loader.load();
+  });
+
+  test('should return containing country with zero distance on land', async () => {
+    const result = await resolveNearest(48.1351, 11.5820, { loader }); // Munich
+
+    expect(result).toBeInstanceOf(NearestGeoIntelResult);
+    expect(result.iso2).toBe('DE');
+    expect(result.inside).toBe(true);
+    expect(result.distanceKm).toBe(0);
+    expect(result.nearestPoint).toEqual([48.1351, 11.5820]);
+  });
+
+  test('should find nearest country for offshore point', async () => {
+    const result = await resolveNearest(40.3, -73.5, { loader }); // Off New Jersey
+
+    expect(result.iso2).toBe('US');
+    expect(result.inside).toBe(false);
+    expect(result.distanceKm).toBeGreaterThan(0);
+    expect(result.distanceKm).toBeLessThan(100);
+
+    const [nLat, nLon] = result.nearestPoint!;
+    expect(haversineDistance(40.3, -73.5, nLat, nLon)).toBeCloseTo(result.distanceKm!, 6);
+  });
+
+  test('should find nearest country far out at sea', async () => {
+    const result = await resolveNearest(-40.0, -120.0, { loader }); // South Pacific
+
+    expect(result.country).not.toBeNull();
+    expect(result.distanceKm).toBeGreaterThan(500);
+  });
+
+  test('should respect maxDistanceKm', async () => {
+    const result = await resolveNearest(-40.0, -120.0, { loader, maxDistanceKm: 100 });
+
+    expect(result.country).toBeNull();
+    expect(result.distanceKm).toBeNull();
+    expect(result.nearestPoint).toBeNull();
+  });
+
+  test('should search across the antimeridian', async () => {
+    const result = await resolveNearest(-17.0, -179.9, { loader, maxDistanceKm: 500 }); // East of Fiji
+
+    expect(result.iso2).toBe('FJ');
+    expect(result.distanceKm).toBeLessThan(500);
+  });
+
+  test('should expose distance fields in toDict', async () => {
+    const dict = (await resolveNearest(40.3, -73.5, { loader })).toDict();
+
+    expect(dict).toHaveProperty('inside', false);
+    expect(dict).toHaveProperty('distance_km');
+    expect(dict).toHaveProperty('nearest_point');
+  });
+
+  test('should reject negative maxDistanceKm', async () => {
+    await expect(resolveNearest(0, 0, { loader, maxDistanceKm: -1 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for the land-border neighbor graph.
+ * 
+ * Tests cover:
+ * - Neighbors and shared border lengths
+ * - Border checks (including enclaves, overseas parts and straits)
+ * - Shortest country paths and unreachable islands
+ * - Locales, lazy polygons and unknown countries
+ */
+
+import {
+  getCountryNeighbors,
+  sharesBorder,
+  findCountryPath,
+  DataLoader,
+  AmbiguousCountryError
+} from '../src/index';
+
+describe('Country Neighbor Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data');
+    await loader.load();
+  });
+
+  test('should list neighbors with their border lengths', async () => {
+    const poland = await getCountryNeighbors('Poland', { loader });
+    expect(poland.map(n => n.iso2).sort()).toEqual(['BY', 'CZ', 'DE', 'LT', 'RU', 'SK', 'UA']);
+    for (let i = 1; i < poland.length; i++) {
+      expect(poland[i].borderKm).toBeLessThanOrEqual(poland[i - 1].borderKm);
+    }
+
+    // US-Canada is about 8,900 km; simplified borders measure somewhat shorter
+    const canada = (await getCountryNeighbors('US', { loader })).find(n => n.iso2 === 'CA')!;
+    expect(canada.borderKm).toBeGreaterThan(6000);
+    expect(canada.borderKm).toBeLessThan(9000);
+
+    expect(await getCountryNeighbors('Japan', { loader })).toEqual([]);
+    const lesotho = await getCountryNeighbors('Lesotho', { loader });
+    expect(lesotho.map(n => n.iso2)).toEqual(['ZA']);
+  });
+
+  test('should tell whether two countries share a border', async () => {
+    expect(await sharesBorder('France', 'Spain', { loader })).toBe(true);
+    expect(await sharesBorder('ESP', 'France', { loader })).toBe(true);
+    expect(await sharesBorder('France', 'Brazil', { loader })).toBe(true); // French Guiana
+    expect(await sharesBorder('Italy', 'Vatican', { loader })).toBe(true);
+    expect(await sharesBorder('South Africa', 'Lesotho', { loader })).toBe(true);
+    expect(await sharesBorder('France', 'Poland', { loader })).toBe(false);
+    expect(await sharesBorder('Denmark', 'Sweden', { loader })).toBe(false); // Øresund
+    expect(await sharesBorder('UK', 'France', { loader })).toBe(false);
+    expect(await sharesBorder('Germany', 'Germany', { loader })).toBe(false);
+  });
+
+  test('should find paths over the fewest border crossings', async () => {
+    const path = await findCountryPath('France', 'Poland', { loader });
+    expect(path!.map(c => c.country)).toEqual(['France', 'Germany', 'Poland']);
+    expect(path![0].borderKm).toBe(0);
+    expect(path![1].borderKm).toBeGreaterThan(0);
+
+    const long = await findCountryPath('Portugal', 'Vietnam', { loader });
+    expect(long![0].iso2).toBe('PT');
+    expect(long![long!.length - 1].iso2).toBe('VN');
+    for (let i = 1; i < long!.length; i++) {
+      expect(await sharesBorder(long![i - 1].country, long![i].country, { loader })).toBe(true);
+    }
+
+    expect((await findCountryPath('Germany', 'DE', { loader }))!.map(c => c.iso2)).toEqual(['DE']);
+    expect(await findCountryPath('Germany', 'Australia', { loader })).toBeNull();
+  });
+
+  test('should support locales, lazy polygons and report unknown countries', async () => {
+    const lazy = new DataLoader('./data', { lazyPolygons: true });
+    const path = await findCountryPath('Frankreich', 'Polen', { loader: lazy, locale: 'de' });
+    expect(path!.map(c => c.country)).toEqual(['Frankreich', 'Deutschland', 'Polen']);
+
+    await expect(getCountryNeighbors('Atlantis', { loader })).rejects.toThrow("Country not found: 'Atlantis'");
+    await expect(sharesBorder('Korea', 'China', { loader })).rejects.toThrow(AmbiguousCountryError);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for prepared polygon structures.
+ * 
+ * Tests cover:
+ * - Typed ring conversion and bounding boxes
+ * - Hole attachment to the containing exterior
+ * - Parity between typed-ring and Point[] PIP
+ * - DataLoader prepared polygon cache
+ */
+
+import { preparePolygon, prepareRing, pointInPart } from '../src/data/prepared';
+import { pointInPolygon, pointInRing } from '../src/pip';
+import { DataLoader } from '../src/data/loader';
+
+describe('Prepared Polygon Tests', () => {
+  const square = (lat: number, lon: number, size: number): number[][] => [
+    [lat, lon],
+    [lat, lon + size],
+    [lat + size, lon + size],
+    [lat + size, lon]
+  ];
+
+  test('should convert ring to typed coordinates with bounding box', () => {
+    const ring = prepareRing(square(10, 20, 2));
+
+    expect(ring.coords).toBeInstanceOf(Float64Array);
+    expect(Array.from(ring.coords)).toEqual([10, 20, 10, 22, 12, 22, 12, 20]);
+    expect(ring.bbox).toEqual([10, 12, 20, 22]);
+  });
+
+  test('should attach holes to the exterior that contains them', () => {
+    const prepared = preparePolygon({
+      exterior: square(0, 0, 4),
+      multi: true,
+      exteriors: [square(0, 0, 4), square(10, 10, 4)],
+      holes: [square(11, 11, 1)]
+    });
+
+    expect(prepared.parts).toHaveLength(2);
+    expect(prepared.parts[0].holes).toHaveLength(0);
+    expect(prepared.parts[1].holes).toHaveLength(1);
+    expect(prepared.bbox).toEqual([0, 14, 0, 14]);
+
+    expect(pointInPart(11.5, 11.5, prepared.parts[1])).toBe(false);
+    expect(pointInPart(13, 13, prepared.parts[1])).toBe(true);
+  });
+
+  test('pointInRing should agree with pointInPolygon', () => {
+    const raw = [[0, 0], [0, 3], [1, 1], [3, 3], [3, 0]];
+    const ring = prepareRing(raw);
+    const samples: [number, number][] = [[0.5, 0.5], [2, 2.5], [1.5, 2], [4, 4], [0.9, 1.5]];
+
+    for (const [lat, lon] of samples) {
+      expect(pointInRing(lat, lon, ring.coords)).toBe(pointInPolygon([lat, lon], raw as any));
+    }
+  });
+
+  test('DataLoader should build prepared polygons on load', async () => {
+    const loader = new DataLoader('./data');
+    await loader.load();
+
+    const prepared = loader.getPreparedPolygon(1);
+    expect(prepared).toBeDefined();
+    expect(prepared!.parts.length).toBeGreaterThan(0);
+    expect(loader.getPreparedPolygon(999999)).toBeUndefined();
+  });
+
+  test('setPolygons should rebuild prepared polygons', () => {
+    const loader = new DataLoader();
+    loader.setPolygons({ '7': { exterior: square(0, 0, 1) } });
+
+    expect(loader.getPreparedPolygon(7)!.parts).toHaveLength(1);
+  });
+});
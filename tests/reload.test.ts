@@ -0,0 +1,143 @@
+/**
+ * Tests for hot-swapping datasets on a running loader.
+ * 
+ * Tests cover:
+ * - Swapping to a new data source and the reload event
+ * - Running operations finishing on the old data, later ones using the new data
+ * - Failed loads and validation keeping the current data
+ * - Failing listeners not failing the reload
+ */
+
+import {
+  resolve,
+  resolveByCountry,
+  DataLoader,
+  DataSource,
+  DatasetReloadEvent,
+  BundledDataSource,
+  GeoIntelResult
+} from '../src/index';
+import { testlandDataset } from './helpers/testland';
+
+// A data source whose reads wait until open() is called
+function gated(source: DataSource): DataSource & { open: () => void } {
+  let open: () => void = () => undefined;
+  const gate = new Promise<void>(resolve => {
+    open = resolve;
+  });
+  return {
+    location: `gated ${source.location}`,
+    read: async (filename: string) => {
+      await gate;
+      return source.read(filename);
+    },
+    open
+  };
+}
+
+const countryAt = async (loader: DataLoader) =>
+  ((await resolve(5, 5, { loader })) as GeoIntelResult).country;
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Dataset Reload Tests', () => {
+  test('should swap in a new dataset and emit a reload event', async () => {
+    const loader = new DataLoader(testlandDataset('v1'));
+    const events: DatasetReloadEvent[] = [];
+    loader.on('reload', event => events.push(event));
+    expect(await countryAt(loader)).toBe('Testland v1');
+
+    const event = await loader.reload(testlandDataset('v2'));
+    expect(event).toEqual({ oldVersion: 'v1', newVersion: 'v2', location: 'bundled modules' });
+    expect(events).toEqual([event]);
+    expect(loader.datasetInfo!.version).toBe('v2');
+    expect(await countryAt(loader)).toBe('Testland v2');
+    expect((await resolveByCountry('TL', { loader })).country).toBe('Testland v2');
+  });
+
+  test('should let running operations finish on the old data', async () => {
+    const loader = new DataLoader(testlandDataset('v1'));
+    await loader.load();
+
+    let finishOperation: () => void = () => undefined;
+    const operationGate = new Promise<void>(resolve => {
+      finishOperation = resolve;
+    });
+    const running = loader.withData(async () => {
+      const before = loader.getMetadata(1)!.name;
+      await operationGate;
+      return [before, loader.getMetadata(1)!.name];
+    });
+
+    const next = gated(testlandDataset('v2'));
+    const reloaded = loader.reload(next);
+    // The old data serves while the new data loads
+    expect(await countryAt(loader)).toBe('Testland v1');
+
+    next.open();
+    await tick();
+    // The swap waits for the running operation; new calls wait for the swap
+    const later = countryAt(loader);
+    await tick();
+    expect(loader.getMetadata(1)!.name).toBe('Testland v1');
+
+    finishOperation();
+    expect(await running).toEqual(['Testland v1', 'Testland v1']);
+    expect((await reloaded).newVersion).toBe('v2');
+    expect(await later).toBe('Testland v2');
+  });
+
+  test('should keep the current data when the new data is invalid', async () => {
+    const loader = new DataLoader(testlandDataset('v1'));
+    const listener = jest.fn();
+    loader.on('reload', listener);
+    await loader.load();
+
+    const incomplete = new BundledDataSource({ 'metadata.json': {}, 'geohash_index.json': {} });
+    await expect(loader.reload(incomplete)).rejects.toThrow('Data file not found: polygons.json');
+
+    await expect(loader.reload(testlandDataset('v2'), {
+      validate: async next => {
+        if (await countryAt(next) !== 'Testland v1') {
+          throw new Error('Unexpected country name');
+        }
+      }
+    })).rejects.toThrow('Unexpected country name');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(await countryAt(loader)).toBe('Testland v1');
+
+    expect(loader.off('reload', listener)).toBe(true);
+    expect(loader.off('reload', listener)).toBe(false);
+    await loader.reload(testlandDataset('v3'));
+    expect(listener).not.toHaveBeenCalled();
+    expect(await countryAt(loader)).toBe('Testland v3');
+  });
+
+  test('should resolve with listener errors once the new data is live', async () => {
+    const loader = new DataLoader(testlandDataset('v1'));
+    const failure = new Error('Listener failed');
+    const after = jest.fn();
+    loader.on('reload', () => {
+      throw failure;
+    });
+    loader.on('reload', after);
+    await loader.load();
+
+    const event = await loader.reload(testlandDataset('v2'));
+    expect(event.newVersion).toBe('v2');
+    expect(event.listenerErrors).toEqual([failure]);
+    expect(after).toHaveBeenCalledWith(event);
+    expect(await countryAt(loader)).toBe('Testland v2');
+  });
+
+  test('should reload the current data directory', async () => {
+    const loader = new DataLoader('./data', { lazyPolygons: true });
+    expect(((await resolve(52.52, 13.405, { loader })) as GeoIntelResult).iso2).toBe('DE');
+    const version = loader.datasetInfo!.version;
+
+    const event = await loader.reload();
+    expect(event).toEqual({ oldVersion: version, newVersion: version, location: './data' });
+    expect(((await resolve(35.6762, 139.6503, { loader })) as GeoIntelResult).iso2).toBe('JP');
+  });
+});
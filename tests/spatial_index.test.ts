@@ -0,0 +1,81 @@
+/**
+ * Tests for the packed R-tree spatial index.
+ * 
+ * Tests cover:
+ * - Agreement with a brute-force bounding box scan
+ * - Empty and single-item trees
+ * - DataLoader part lookup used by the resolver fallback
+ */
+
+import { PackedRTree } from '../src/data/spatial_index';
+import { BoundingBox } from '../src/data/prepared';
+import { DataLoader } from '../src/data/loader';
+import { resolve } from '../src/index';
+
+describe('Spatial Index Tests', () => {
+  // Deterministic pseudo-random boxes
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+    return seed / 2 ** 32;
+  };
+
+  const makeBoxes = (count: number): BoundingBox[] => {
+    const boxes: BoundingBox[] = [];
+    for (let i = 0; i < count; i++) {
+      const lat = random() * 170 - 85;
+      const lon = random() * 350 - 175;
+      boxes.push([lat, lat + random() * 5, lon, lon + random() * 5]);
+    }
+    return boxes;
+  };
+
+  test('should match brute-force search', () => {
+    const boxes = makeBoxes(1000);
+    const tree = new PackedRTree(boxes);
+    expect(tree.size).toBe(1000);
+
+    for (let q = 0; q < 200; q++) {
+      const lat = random() * 180 - 90;
+      const lon = random() * 360 - 180;
+      const expected = boxes
+        .map((b, i) => (lat >= b[0] && lat <= b[1] && lon >= b[2] && lon <= b[3] ? i : -1))
+        .filter(i => i >= 0);
+
+      expect(tree.searchPoint(lat, lon).sort((a, b) => a - b)).toEqual(expected);
+    }
+  });
+
+  test('should support box queries', () => {
+    const boxes: BoundingBox[] = [[0, 1, 0, 1], [5, 6, 5, 6], [10, 11, 10, 11]];
+    const tree = new PackedRTree(boxes, 2);
+
+    expect(tree.search(0.5, 5.5, 0.5, 5.5).sort()).toEqual([0, 1]);
+    expect(tree.search(20, 30, 20, 30)).toEqual([]);
+  });
+
+  test('should handle empty and single-item trees', () => {
+    expect(new PackedRTree([]).searchPoint(0, 0)).toEqual([]);
+    expect(new PackedRTree([[0, 1, 0, 1]]).searchPoint(0.5, 0.5)).toEqual([0]);
+  });
+
+  test('DataLoader should return parts whose bounding box contains the point', async () => {
+    const loader = new DataLoader('./data');
+    await loader.load();
+
+    const refs = loader.getPartsAt(40.7128, -74.0060);
+    const iso2s = refs.map(ref => loader.getMetadata(ref.id)!.iso2);
+    expect(iso2s).toContain('US');
+
+    for (const ref of refs) {
+      const [minLat, maxLat, minLon, maxLon] = ref.part.exterior.bbox;
+      expect(40.7128).toBeGreaterThanOrEqual(minLat);
+      expect(40.7128).toBeLessThanOrEqual(maxLat);
+      expect(-74.0060).toBeGreaterThanOrEqual(minLon);
+      expect(-74.0060).toBeLessThanOrEqual(maxLon);
+    }
+
+    const ocean = await resolve(-40.0, -120.0, { loader });
+    expect(ocean.country).toBeNull();
+  });
+});
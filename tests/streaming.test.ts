@@ -0,0 +1,103 @@
+/**
+ * Tests for streaming data file loading.
+ * 
+ * Tests cover:
+ * - Incremental JSON parsing across arbitrary chunk boundaries
+ * - DataLoader streaming JSON files from the file system without blocking
+ * - Falling back to the uncompressed file when a .gz file is damaged
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { resolve, DataLoader, FileSystemDataSource, GeoIntelResult } from '../src/index';
+import { JsonStreamParser } from '../src/data/json_stream';
+import { testlandFiles } from './helpers/testland';
+
+// Parse a document written in chunks of the given number of bytes
+function parseInChunks(text: string, size: number): unknown {
+  const bytes = Buffer.from(text);
+  const parser = new JsonStreamParser();
+  for (let i = 0; i < bytes.length; i += size) {
+    parser.write(bytes.subarray(i, i + size));
+  }
+  return parser.end();
+}
+
+const DOCUMENTS = [
+  '{"1":{"exterior":[[0,0],[0,10.5],[-1e-3,1E+2]],"multi":false},"2":{"holes":[],"x":{"y":[{}]}}}',
+  '{"name":"Cura\\u00e7ao \\"CW\\"","path":"a\\\\b","ü€😀":[true,false,null]}',
+  ' [ 1 , -0.5 , "s" , [ ] , { } ] ',
+  '42',
+  '"text"',
+  'null'
+];
+
+describe('Streaming Data Loading Tests', () => {
+  test('should parse documents cut at any point like JSON.parse', () => {
+    for (const document of DOCUMENTS) {
+      for (const size of [1, 2, 3, 7, 64]) {
+        expect(parseInChunks(document, size)).toEqual(JSON.parse(document));
+      }
+    }
+
+    const polygons = zlib.gunzipSync(fs.readFileSync('data/polygons.json.gz')).toString();
+    expect(JSON.stringify(parseInChunks(polygons, 65536))).toBe(JSON.stringify(JSON.parse(polygons)));
+
+    const parsed = parseInChunks('{"__proto__":{"polluted":true}}', 4) as Record<string, unknown>;
+    expect(Object.keys(parsed)).toEqual(['__proto__']);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  test('should reject invalid documents', () => {
+    for (const document of ['{"a":1,}', '[1 2]', '{"a" 1}', '[', '01', 'tru', '[1]]', '{"a":1} x', '"abc', '{"a":[[1,]]}']) {
+      expect(() => parseInChunks(document, 3)).toThrow(SyntaxError);
+    }
+    expect(() => parseInChunks('[1, @]', 64)).toThrow("Unexpected character '@' in JSON at position 4");
+  });
+
+  test('should stream JSON data files without blocking the event loop', async () => {
+    const source = new FileSystemDataSource('./data');
+    const streamed: string[] = [];
+    const stream = source.stream.bind(source);
+    source.stream = async (filename: string) => {
+      streamed.push(filename);
+      return stream(filename);
+    };
+
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 1);
+    const loader = new DataLoader(source);
+    try {
+      await loader.load();
+    } finally {
+      clearInterval(timer);
+    }
+
+    expect(streamed).toEqual(expect.arrayContaining(['metadata.json', 'timezone_polygons.json']));
+    expect(ticks).toBeGreaterThan(5);
+    expect(((await resolve(52.52, 13.405, { loader })) as GeoIntelResult).iso2).toBe('DE');
+
+    // Same data as parsing the whole file at once
+    const metadata = JSON.parse(zlib.gunzipSync(fs.readFileSync('data/metadata.json.gz')).toString());
+    expect(loader.metadata).toEqual(metadata);
+  });
+
+  test('should fall back to the uncompressed file when the .gz file is damaged', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geo-intel-streaming-'));
+    try {
+      const files = testlandFiles();
+      for (const [filename, data] of Object.entries(files)) {
+        fs.writeFileSync(path.join(dataDir, filename), JSON.stringify(data));
+      }
+      const damaged = zlib.gzipSync(JSON.stringify(files['polygons.json']));
+      fs.writeFileSync(path.join(dataDir, 'polygons.json.gz'), damaged.subarray(0, damaged.length - 8));
+
+      const loader = new DataLoader(dataDir);
+      expect(((await resolve(5, 5, { loader })) as GeoIntelResult).iso2).toBe('TL');
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
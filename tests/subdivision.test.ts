@@ -0,0 +1,172 @@
+/**
+ * Tests for first-level subdivision (ISO 3166-2) resolution.
+ * 
+ * Tests cover:
+ * - Subdivision fields of forward and batch resolution results
+ * - Restricting subdivisions to the resolved country
+ * - Snapping points just outside every subdivision
+ * - On-demand loading from the data directory
+ * - Loaders without subdivision data
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolve, resolveMany, DataLoader, GeoIntelResult } from '../src/index';
+import { SubdivisionData } from '../src/data/loader';
+import { TESTLAND_POLYGON, testlandMetadata } from './helpers/testland';
+
+// Testland (TL) spans lat 0-10, lon 0-10 and is split into North and South
+const SUBDIVISIONS: SubdivisionData = {
+  index: {},
+  polygons: {
+    '1': { exterior: [[5, 0], [5, 10], [10, 10], [10, 0]] },
+    '2': { exterior: [[0, 0], [0, 10], [4.98, 10], [4.98, 0]] }, // Leaves a small gap below North
+    '3': { exterior: [[0, 10], [0, 20], [10, 20], [10, 10]] }
+  },
+  metadata: {
+    '1': { name: 'North', code: 'TL-N', type: 'Province', country: 'TL' },
+    '2': { name: 'South', code: 'TL-S', type: 'Province', country: 'TL' },
+    '3': { name: 'East', code: 'OL-E', type: 'Region', country: 'OL' }
+  }
+};
+
+function createLoader(dataDir?: string): DataLoader {
+  const loader = new DataLoader(dataDir);
+  loader.setGeohashIndex({});
+  loader.setPolygons({
+    '1': TESTLAND_POLYGON,
+    '2': { exterior: [[0, 10], [0, 20], [10, 20], [10, 10]] }
+  });
+  loader.setMetadata({
+    '1': testlandMetadata(),
+    '2': { name: 'Otherland', iso2: 'OL', iso3: 'OTH', continent: 'Africa', timezone: 'Africa/Lagos' }
+  });
+  return loader;
+}
+
+describe('Subdivision Resolution Tests', () => {
+  test('should fill subdivision fields when subdivision data is loaded', async () => {
+    const loader = createLoader();
+    loader.setSubdivisions(SUBDIVISIONS);
+
+    const result = await resolve(7, 5, { loader }) as GeoIntelResult;
+
+    expect(loader.hasSubdivisions).toBe(true);
+    expect(result.iso2).toBe('TL');
+    expect(result.subdivision).toBe('North');
+    expect(result.subdivisionCode).toBe('TL-N');
+    expect(result.subdivisionType).toBe('Province');
+    expect(result.toDict()).toMatchObject({
+      subdivision: 'North',
+      subdivision_code: 'TL-N',
+      subdivision_type: 'Province'
+    });
+  });
+
+  test('should fill subdivision fields in batch resolution', async () => {
+    const loader = createLoader();
+    loader.setSubdivisions(SUBDIVISIONS);
+
+    const results = await resolveMany([[7, 5], [2, 5], [5, 15]], { loader });
+
+    expect(results.map(r => r.subdivisionCode)).toEqual(['TL-N', 'TL-S', 'OL-E']);
+  });
+
+  test('should only return subdivisions of the resolved country', async () => {
+    const loader = createLoader();
+    loader.setSubdivisions({
+      ...SUBDIVISIONS,
+      // Otherland's region overlaps Testland's eastern edge
+      polygons: { ...SUBDIVISIONS.polygons, '3': { exterior: [[0, 9], [0, 20], [10, 20], [10, 9]] } }
+    });
+
+    const result = await resolve(7, 9.5, { loader }) as GeoIntelResult;
+
+    expect(result.iso2).toBe('TL');
+    expect(result.subdivisionCode).toBe('TL-N');
+  });
+
+  test('should snap points in small gaps to the nearest subdivision', async () => {
+    const loader = createLoader();
+    loader.setSubdivisions(SUBDIVISIONS);
+
+    const result = await resolve(4.985, 5, { loader }) as GeoIntelResult;
+
+    expect(result.iso2).toBe('TL');
+    expect(result.subdivisionCode).toBe('TL-S');
+  });
+
+  test('should leave subdivision fields null without subdivision data', async () => {
+    const loader = createLoader();
+
+    const result = await resolve(7, 5, { loader }) as GeoIntelResult;
+
+    expect(loader.hasSubdivisions).toBe(false);
+    expect(result.iso2).toBe('TL');
+    expect(result.subdivision).toBeNull();
+    expect(result.subdivisionCode).toBeNull();
+    expect(result.subdivisionType).toBeNull();
+  });
+
+  test('should leave subdivision fields null outside every country', async () => {
+    const loader = createLoader();
+    loader.setSubdivisions(SUBDIVISIONS);
+
+    const result = await resolve(-20, -20, { loader }) as GeoIntelResult;
+
+    expect(result.iso2).toBeNull();
+    expect(result.subdivisionCode).toBeNull();
+  });
+
+  describe('on-demand loading', () => {
+    let dataDir: string;
+
+    beforeAll(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geo-intel-subdivisions-'));
+      fs.writeFileSync(path.join(dataDir, 'subdivision_index.json'), JSON.stringify(SUBDIVISIONS.index));
+      fs.writeFileSync(path.join(dataDir, 'subdivision_polygons.json'), JSON.stringify(SUBDIVISIONS.polygons));
+      fs.writeFileSync(path.join(dataDir, 'subdivision_metadata.json'), JSON.stringify(SUBDIVISIONS.metadata));
+    });
+
+    afterAll(() => {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('should not load subdivision data unless requested', async () => {
+      const loader = createLoader(dataDir);
+
+      const result = await resolve(7, 5, { loader }) as GeoIntelResult;
+
+      expect(loader.hasSubdivisions).toBe(false);
+      expect(result.subdivisionCode).toBeNull();
+    });
+
+    test('should load subdivision data with the subdivisions option', async () => {
+      const loader = createLoader(dataDir);
+
+      const result = await resolve(7, 5, { loader, subdivisions: true }) as GeoIntelResult;
+
+      expect(loader.hasSubdivisions).toBe(true);
+      expect(result.subdivisionCode).toBe('TL-N');
+    });
+
+    test('should load subdivision data with loadSubdivisions()', async () => {
+      const loader = createLoader(dataDir);
+
+      await loader.loadSubdivisions();
+      await loader.loadSubdivisions(); // Cached
+
+      expect(Object.keys(loader.subdivisions.metadata)).toHaveLength(3);
+      expect(loader.getSubdivisionMetadata(2)!.code).toBe('TL-S');
+    });
+
+    test('should report missing subdivision files', async () => {
+      const loader = createLoader(path.join(dataDir, 'missing'));
+
+      await expect(loader.loadSubdivisions()).rejects.toThrow('Subdivision data not found');
+      await expect(resolve(7, 5, { loader, subdivisions: true })).rejects.toThrow('build:subdivisions');
+      expect(() => loader.subdivisionLayer).toThrow('Subdivision data not loaded');
+    });
+  });
+});
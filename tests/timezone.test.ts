@@ -0,0 +1,173 @@
+/**
+ * Tests for IANA timezone resolution.
+ * 
+ * Tests cover:
+ * - Multi-zone countries (US, Russia, Brazil, Australia)
+ * - Timezone field of forward, reverse and nearest resolution results
+ * - Nautical zones at open sea
+ * - Loaders without timezone data, and loaders filled by hand
+ */
+
+import {
+  resolve,
+  resolveTimezone,
+  resolveMany,
+  nauticalTimezone,
+  resolveByCountry,
+  resolveNearest,
+  TimezoneGeoIntelResult,
+  DataLoader,
+  MemoryDataSource
+} from '../src/index';
+import { TESTLAND_POLYGON, testlandMetadata } from './helpers/testland';
+
+describe('Timezone Resolution Tests', () => {
+  let loader: DataLoader;
+
+  beforeAll(async () => {
+    loader = new DataLoader('./data');
+    await loader.load();
+  });
+
+  test('should load timezone data alongside country data', () => {
+    expect(loader.hasTimezones).toBe(true);
+  });
+
+  test.each([
+    // United States
+    [40.7128, -74.0060, 'America/New_York'],
+    [41.8781, -87.6298, 'America/Chicago'],
+    [39.7392, -104.9903, 'America/Denver'],
+    [33.4484, -112.0740, 'America/Phoenix'],
+    [34.0522, -118.2437, 'America/Los_Angeles'],
+    [61.2181, -149.9003, 'America/Anchorage'],
+    [21.3069, -157.8583, 'Pacific/Honolulu'],
+    // Russia
+    [55.7558, 37.6173, 'Europe/Moscow'],
+    [55.0084, 82.9357, 'Asia/Novosibirsk'],
+    [43.1155, 131.8855, 'Asia/Vladivostok'],
+    // Brazil
+    [-23.5505, -46.6333, 'America/Sao_Paulo'],
+    [-3.1190, -60.0217, 'America/Manaus'],
+    // Australia
+    [-33.8688, 151.2093, 'Australia/Sydney'],
+    [-34.9285, 138.6007, 'Australia/Adelaide'],
+    [-31.9505, 115.8605, 'Australia/Perth']
+  ])('should resolve (%f, %f) to %s', async (lat, lon, tzid) => {
+    const result = await resolveTimezone(lat, lon, { loader });
+
+    expect(result).toBeInstanceOf(TimezoneGeoIntelResult);
+    expect(result.tzid).toBe(tzid);
+    expect(result.inside).toBe(true);
+  });
+
+  test('should fill timezone in forward resolution results', async () => {
+    const perth = await resolve(-31.9505, 115.8605, { loader });
+    const sydney = await resolve(-33.8688, 151.2093, { loader });
+
+    expect(perth.iso2).toBe('AU');
+    expect(perth.timezone).toBe('Australia/Perth');
+    expect(sydney.timezone).toBe('Australia/Sydney');
+    expect(perth.toDict().timezone).toBe('Australia/Perth');
+  });
+
+  test('should fill timezone in batch resolution results', async () => {
+    const results = await resolveMany([[55.7558, 37.6173], [43.1155, 131.8855]], { loader });
+
+    expect(results.map(r => r.timezone)).toEqual(['Europe/Moscow', 'Asia/Vladivostok']);
+  });
+
+  test('should use nautical zones at open sea', async () => {
+    const result = await resolveTimezone(-40.0, -120.0, { loader }); // South Pacific
+
+    expect(result.tzid).toBe('Etc/GMT+8');
+    expect(result.inside).toBe(false);
+
+    // Forward resolution still reports no country and no timezone
+    const ocean = await resolve(-40.0, -120.0, { loader });
+    expect(ocean.timezone).toBeNull();
+  });
+
+  test('nauticalTimezone should follow POSIX sign convention', () => {
+    expect(nauticalTimezone(0)).toBe('Etc/GMT');
+    expect(nauticalTimezone(-75)).toBe('Etc/GMT+5');
+    expect(nauticalTimezone(100)).toBe('Etc/GMT-7');
+    expect(nauticalTimezone(180)).toBe('Etc/GMT-12');
+    expect(nauticalTimezone(-180)).toBe('Etc/GMT+12');
+  });
+
+  test('should fill timezone in reverse and nearest resolution results', async () => {
+    const germany = await resolveByCountry('Germany', { loader });
+    expect(germany.timezone).toBe('Europe/Berlin');
+    expect(germany.toDict().timezone).toBe('Europe/Berlin');
+    expect((await resolveByCountry('JP', { loader })).timezone).toBe('Asia/Tokyo');
+
+    // Off New York: the zone at the nearest coastline point
+    const offshore = await resolveNearest(40.5, -73.5, { loader, maxDistanceKm: 200 });
+    expect(offshore.inside).toBe(false);
+    expect(offshore.timezone).toBe('America/New_York');
+  });
+
+  test('should read the timezone files for data set by hand', async () => {
+    const handmade = new DataLoader('./data');
+    handmade.setGeohashIndex(loader.geohashIndex);
+    handmade.setPolygons(loader.polygons);
+    handmade.setMetadata(loader.metadata);
+
+    expect(handmade.hasTimezones).toBe(false);
+    expect((await resolve(52.52, 13.405, { loader: handmade })).timezone).toBe('Europe/Berlin');
+    expect(handmade.hasTimezones).toBe(true);
+  });
+
+  test('should return null rather than an empty timezone without timezone data', async () => {
+    const bare = new DataLoader(new MemoryDataSource());
+    bare.setGeohashIndex({});
+    bare.setPolygons({ '1': TESTLAND_POLYGON });
+    bare.setMetadata({ '1': testlandMetadata({ timezone: '' }) });
+
+    expect((await resolve(5, 5, { loader: bare })).timezone).toBeNull();
+    expect((await resolveByCountry('Testland', { loader: bare })).timezone).toBeNull();
+    expect(bare.hasTimezones).toBe(false);
+  });
+
+  test('should fall back to country metadata without timezone data', async () => {
+    const bare = new DataLoader(new MemoryDataSource());
+    bare.setGeohashIndex({});
+    bare.setPolygons({ '1': TESTLAND_POLYGON });
+    bare.setMetadata({ '1': testlandMetadata() });
+
+    expect(bare.hasTimezones).toBe(false);
+    expect((await resolve(5, 5, { loader: bare })).timezone).toBe('Africa/Lagos');
+    expect((await resolveTimezone(5, 5, { loader: bare })).tzid).toBeNull();
+  });
+
+  test('should use timezone data set manually', async () => {
+    const custom = new DataLoader();
+    custom.setGeohashIndex({});
+    custom.setPolygons({ '1': TESTLAND_POLYGON });
+    custom.setMetadata({ '1': testlandMetadata({ timezone: '' }) });
+    custom.setTimezones({
+      index: {},
+      polygons: {
+        '1': { exterior: [[0, 0], [0, 5], [10, 5], [10, 0]] },
+        '2': { exterior: [[0, 5], [0, 10], [10, 10], [10, 5]] }
+      },
+      metadata: { '1': { tzid: 'Africa/Lagos' }, '2': { tzid: 'Africa/Cairo' } }
+    });
+
+    expect((await resolve(5, 2, { loader: custom })).timezone).toBe('Africa/Lagos');
+    expect((await resolve(5, 8, { loader: custom })).timezone).toBe('Africa/Cairo');
+
+    // Just outside every zone's bounding box: snapped within the simplification gap
+    const snapped = await resolveTimezone(10.01, 2, { loader: custom });
+    expect(snapped.tzid).toBe('Africa/Lagos');
+    expect(snapped.inside).toBe(true);
+    expect((await resolveTimezone(10.01, 8, { loader: custom })).tzid).toBe('Africa/Cairo');
+    expect((await resolveTimezone(10.05, 2, { loader: custom })).tzid).toBe('Etc/GMT');
+  });
+
+  test('should reject invalid coordinates', async () => {
+    await expect(resolveTimezone(91, 0, { loader })).rejects.toThrow();
+    await expect(resolveTimezone(0, 181, { loader })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for the worker-backed resolver.
+ * 
+ * Tests cover:
+ * - Forward, reverse and batch resolution in worker_threads workers
+ * - Splitting batches across a worker pool
+ * - Custom layers registered in every worker
+ * - Errors reported by workers, crashed and exited workers and termination
+ */
+
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import { resolveMany, WorkerResolver, WorkerLike, GeoIntelResult } from '../src/index';
+import { createWorkerHandler, WorkerRequest } from '../src/worker/handler';
+
+// Runs the TypeScript worker entry in a real worker thread
+const WORKER_CODE = `
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+require(${JSON.stringify(path.join(__dirname, '../src/worker/entry.ts'))});
+`;
+
+const POINTS: [number, number][] = [
+  [40.7128, -74.0060], // New York
+  [52.52, 13.405], // Berlin
+  [35.6762, 139.6503], // Tokyo
+  [0, -30], // Atlantic
+  [-33.8688, 151.2093] // Sydney
+];
+
+// Worker answering messages on the calling thread, counting the requests it gets
+function inProcessWorker(counts: Map<string, number>[]): WorkerLike {
+  const handle = createWorkerHandler();
+  const events = new EventEmitter();
+  const count = new Map<string, number>();
+  counts.push(count);
+  return {
+    postMessage: message => {
+      const request = structuredClone(message) as WorkerRequest;
+      count.set(request.type, (count.get(request.type) || 0) + 1);
+      handle(request).then(response => events.emit('message', structuredClone(response)));
+    },
+    terminate: () => undefined,
+    on: (event, listener) => events.on(event, listener)
+  };
+}
+
+describe('Worker Resolver Tests', () => {
+  test('should resolve in a worker thread', async () => {
+    const resolver = new WorkerResolver({
+      createWorker: () => new Worker(WORKER_CODE, { eval: true }),
+      dataDir: './data'
+    });
+    try {
+      const forward = await resolver.resolve(52.52, 13.405, { returnCandidates: true });
+      expect(forward).toBeInstanceOf(GeoIntelResult);
+      expect(forward.iso2).toBe('DE');
+      expect(forward.candidates![0].iso2).toBe('DE');
+
+      const reverse = await resolver.resolve('Japan');
+      expect(reverse.iso2).toBe('JP');
+      expect((await resolver.resolveByCountry('US')).iso3).toBe('USA');
+      expect((await resolver.resolve('Deutschland', { locale: 'fr' })).country).toBe('Allemagne');
+
+      const batch = await resolver.resolveMany(new Float64Array(POINTS.flat()));
+      expect(batch.map(r => r.iso2)).toEqual(['US', 'DE', 'JP', null, 'AU']);
+
+      await expect(resolver.resolve('Atlantis')).rejects.toThrow("Country not found: 'Atlantis'");
+    } finally {
+      await resolver.terminate();
+    }
+  });
+
+  test('should split batches across the pool', async () => {
+    const counts: Map<string, number>[] = [];
+    const resolver = new WorkerResolver({ workers: 2, createWorker: () => inProcessWorker(counts) });
+    expect(resolver.workers).toBe(2);
+
+    const results = await resolver.resolveMany(POINTS);
+    const expected = await resolveMany(POINTS);
+    expect(results.map(r => r.toDict())).toEqual(expected.map(r => r.toDict()));
+    expect(counts.map(c => c.get('resolveMany'))).toEqual([1, 1]);
+
+    // Single requests go to the least busy worker
+    await Promise.all([resolver.resolve(52.52, 13.405), resolver.resolve(35.6762, 139.6503)]);
+    expect(counts.map(c => c.get('resolve'))).toEqual([1, 1]);
+    expect(await resolver.resolveMany([])).toEqual([]);
+    await resolver.terminate();
+  });
+
+  test('should register custom layers in every worker', async () => {
+    const counts: Map<string, number>[] = [];
+    const resolver = new WorkerResolver({ workers: 2, createWorker: () => inProcessWorker(counts) });
+    await resolver.registerLayer('zone', {
+      polygons: { 'berlin': { exterior: [[52.3, 13.0], [52.3, 13.8], [52.7, 13.8], [52.7, 13.0]] } },
+      properties: { 'berlin': { fee: 3 } }
+    });
+
+    const results = await resolver.resolveMany([[52.52, 13.405], [52.4, 13.5]], { layers: ['zone'] });
+    expect(results.map(r => r.layers!.zone)).toEqual([
+      [{ id: 'berlin', properties: { fee: 3 } }],
+      [{ id: 'berlin', properties: { fee: 3 } }]
+    ]);
+
+    expect(await resolver.unregisterLayer('zone')).toBe(true);
+    await expect(resolver.resolve(52.52, 13.405, { layers: ['zone'] }))
+      .rejects.toThrow('Layer "zone" is not registered');
+    await resolver.terminate();
+  });
+
+  test('should drop workers that exit mid-request', async () => {
+    // Exits while handling its first resolve request
+    const exitingCode = `
+      const { parentPort } = require('worker_threads');
+      parentPort.on('message', message => message.type === 'resolve' && process.exit(7));
+    `;
+    let started = 0;
+    const resolver = new WorkerResolver({
+      workers: 2,
+      createWorker: () => started++ === 0 ? new Worker(exitingCode, { eval: true }) : inProcessWorker([])
+    });
+    // One request goes to each worker
+    const [exited, served] = await Promise.allSettled([
+      resolver.resolve(52.52, 13.405),
+      resolver.resolve(35.6762, 139.6503)
+    ]);
+    expect((exited as PromiseRejectedResult).reason.message).toBe('Worker exited with code 7');
+    expect((served as PromiseFulfilledResult<GeoIntelResult>).value.iso2).toBe('JP');
+
+    // The remaining worker takes every later request
+    expect(resolver.workers).toBe(1);
+    expect((await resolver.resolve(52.52, 13.405)).iso2).toBe('DE');
+    expect((await resolver.resolveMany(POINTS)).map(r => r.iso2)).toEqual(['US', 'DE', 'JP', null, 'AU']);
+    await resolver.terminate();
+
+    // Killed from outside while loading its data
+    const worker = new Worker(WORKER_CODE, { eval: true });
+    const killed = new WorkerResolver({ createWorker: () => worker, dataDir: './data' });
+    const pending = killed.resolve(52.52, 13.405);
+    await worker.terminate();
+    await expect(pending).rejects.toThrow(/Worker exited with code \d/);
+    expect(killed.workers).toBe(0);
+    await expect(killed.resolve('DE')).rejects.toThrow(/Worker exited with code \d/);
+    await expect(killed.registerLayer('zone', { polygons: {} })).rejects.toThrow(/Worker exited with code \d/);
+    await killed.terminate();
+  });
+
+  test('should fail requests of crashed and terminated workers', async () => {
+    expect(() => new WorkerResolver()).toThrow('A worker script is required');
+    expect(() => new WorkerResolver({ workers: 0, script: 'worker.js' })).toThrow('positive integer');
+
+    const crashed = new WorkerResolver({
+      createWorker: () => new Worker('throw new Error("boom")', { eval: true })
+    });
+    await expect(crashed.resolve(52.52, 13.405)).rejects.toThrow('Worker crashed: boom');
+    await expect(crashed.resolve(52.52, 13.405)).rejects.toThrow('Worker crashed: boom');
+    await crashed.terminate();
+
+    const resolver = new WorkerResolver({ createWorker: () => inProcessWorker([]) });
+    const pending = resolver.resolve(52.52, 13.405);
+    await resolver.terminate();
+    await expect(pending).rejects.toThrow('Worker resolver was terminated');
+    await expect(resolver.resolve('DE')).rejects.toThrow('Worker resolver was terminated');
+  });
+});